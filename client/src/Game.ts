@@ -3,7 +3,9 @@ import { Renderer } from './core/Renderer.js';
 import { SceneManager } from './core/SceneManager.js';
 import { CameraController } from './core/CameraController.js';
 import { InputManager } from './core/InputManager.js';
-import { NetworkManager, type RoomType } from './network/NetworkManager.js';
+import { NetworkManager, CLOSE_CODE_CONSENTED, type RoomType, type RoomJoin } from './network/NetworkManager.js';
+import { fetchLobby } from './network/lobbies.js';
+import type { AuthSession } from './network/auth.js';
 import { LocalPlayer } from './entities/LocalPlayer.js';
 import { RemotePlayer } from './entities/RemotePlayer.js';
 import { MonsterEntity } from './entities/Monster.js';
@@ -18,21 +20,42 @@ import { mountShopPanel, showShopPanel, hideShopPanel } from './ui/ShopPanel.js'
 import { mountInventoryPanel, toggleInventoryPanel, hideInventoryPanel } from './ui/InventoryPanel.js';
 import { mountSettingsMenu, showSettings, hideSettings, isSettingsOpen, getSavedSettings } from './ui/SettingsMenu.js';
 import { mountFloorHUD, type FloorInfo } from './ui/FloorHUD.js';
-import { mountFloorClearedPanel, showFloorCleared, showDungeonComplete, hideFloorClearedPanel } from './ui/FloorClearedPanel.js';
+import { mountDeathOverlay, type DeathInfo } from './ui/DeathOverlay.js';
+import {
+  mountFloorClearedPanel, showFloorCleared, showDungeonComplete, hideFloorClearedPanel, reopenFloorClearedPanel,
+} from './ui/FloorClearedPanel.js';
+import { mountReadyCheckPanel, showReadyCheck, updateReadyCheck, cancelReadyCheck, hideReadyCheck } from './ui/ReadyCheckPanel.js';
 import { mountLevelUpEffect, showLevelUp } from './ui/LevelUpEffect.js';
 import { mountSkillTreePanel, toggleSkillTreePanel, hideSkillTreePanel } from './ui/SkillTreePanel.js';
 import { mountSkillHotbar } from './ui/SkillHotbar.js';
+import { mountDungeonSelectPanel, showDungeonSelectPanel, hideDungeonSelectPanel } from './ui/DungeonSelectPanel.js';
+import { mountLeaderboardPanel, showLeaderboardPanel, hideLeaderboardPanel } from './ui/LeaderboardPanel.js';
+import { mountLootRollPanel, startLootRoll, showLootRollResult, dismissLootRoll, clearLootRolls } from './ui/LootRollPanel.js';
+import { mountThreatMeter, type ThreatMeterInfo } from './ui/ThreatMeter.js';
 import { MusicSystem } from './systems/MusicSystem.js';
 import { FloatingDamageSystem } from './systems/FloatingDamageSystem.js';
 import { inventoryManager } from './systems/InventoryManager.js';
 import { skillManager } from './systems/SkillManager.js';
 import { setNetworkManager } from './network/actions.js';
-import { CLIENT_INPUT_RATE, CLASS_DEFS, VALID_CLASS_IDS, type CharacterClassId } from '@saab/shared';
+import {
+  CLIENT_INPUT_RATE, CLASS_DEFS, VALID_CLASS_IDS, KICKED_CLOSE_CODE, DUNGEON_DEFS,
+  DUNGEON_PLAYER_SPAWN, generateFloorLayout, floorSeed, floorCollisionWorld, hubCollisionWorld, getDifficulty, REVIVE_RANGE, LOOT_MODES,
+  MONSTER_RANKS, isMonsterAffixId, BOSS_YELL_SECONDS, isStatusEffectType, statusModifiers,
+  type CharacterClassId, type MonsterRank, type CharacterSummary, type PlayerLifeState, type LootMode, type MonsterThreat,
+} from '@saab/shared';
 import { characterLoader } from './entities/CharacterLoader.js';
 import { NPCAIManager } from './ai/NPCAIManager.js';
 import { mountAINPCDialog, hideAINPCDialog as hideAIDialog } from './ai/ui/AINPCDialog.js';
 import { updateAIStatus } from './ui/SettingsMenu.js';
 
+/** `?seed=<n>` in the page URL replays a reported dungeon layout */
+function getReplaySeed(): number | undefined {
+  const raw = new URLSearchParams(window.location.search).get('seed');
+  if (raw === null) return undefined;
+  const seed = Number(raw);
+  return Number.isInteger(seed) && seed >= 0 && seed <= 0xffffffff ? seed : undefined;
+}
+
 export class Game {
   private renderer: Renderer;
   private sceneManager: SceneManager;
@@ -62,17 +85,22 @@ export class Game {
 
   private currentRoom: RoomType = 'hub';
   private hudState: HUDState | null = null;
-  private playerName = 'Adventurer';
-  private playerClassId: CharacterClassId = 'warrior';
+  private characterId = '';
+  private kickReason = '';
 
   private portalCooldown = 0; // prevent spam
   private npcCooldown = 0;
+  private reviveCooldown = 0;
+  /** Party member the camera follows while the local player is dead */
+  private spectateId: string | null = null;
   private isMoving = false;
   private lastReconciledSeq = -1;
   private paused = false;
   private canvas: HTMLCanvasElement;
   private floorInfo: FloorInfo | null = null;
   private floorClearedShowing = false;
+  /** Latest threat tables of the monsters in combat */
+  private threat: MonsterThreat[] = [];
   private npcAI = new NPCAIManager();
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
@@ -119,6 +147,7 @@ export class Game {
     const saved = getSavedSettings();
     this.camera.setSensitivity(saved.sensitivity);
     mountFloorHUD(uiOverlay, () => this.floorInfo);
+    mountDeathOverlay(uiOverlay, () => this.getDeathInfo());
     mountFloorClearedPanel(uiOverlay, {
       onContinue: () => {
         this.network.sendMessage('next_floor', {});
@@ -135,6 +164,33 @@ export class Game {
     mountSkillTreePanel(uiOverlay);
     mountSkillHotbar(uiOverlay);
     mountAINPCDialog(uiOverlay);
+    mountDungeonSelectPanel(uiOverlay, {
+      onSelect: (dungeonId, difficulty, lootMode, publicMatch) => {
+        hideDungeonSelectPanel();
+        const options = { dungeonId, difficulty, lootMode, seed: getReplaySeed() ?? null };
+        if (publicMatch) this.enterDungeon({ ...options, public: true }, { mode: 'matchmake' });
+        else this.enterDungeon(options, { mode: 'create' });
+      },
+      onJoinByCode: async (code) => {
+        const lobby = await fetchLobby(this.network.getAuthToken(), code);
+        hideDungeonSelectPanel();
+        this.enterDungeon({ dungeonId: lobby.dungeonId }, { mode: 'invite', code: lobby.inviteCode });
+      },
+      onShowLeaderboard: (dungeonId, difficulty) => {
+        hideDungeonSelectPanel();
+        showLeaderboardPanel(dungeonId, difficulty);
+      },
+    });
+    mountLeaderboardPanel(uiOverlay);
+    mountReadyCheckPanel(uiOverlay, (ready) => {
+      this.network.sendMessage('ready_check_response', { ready });
+      if (ready) {
+        hideFloorClearedPanel();
+        this.floorClearedShowing = false;
+      }
+    });
+    mountLootRollPanel(uiOverlay, (lootId, choice) => this.network.sendMessage('loot_roll', { lootId, choice }));
+    mountThreatMeter(uiOverlay, () => this.getThreatMeterInfo());
 
     // ESC to close panels / toggle pause
     window.addEventListener('keydown', (e) => {
@@ -146,6 +202,8 @@ export class Game {
           hideShopPanel();
           hideInventoryPanel();
           hideSkillTreePanel();
+          hideDungeonSelectPanel();
+          hideLeaderboardPanel();
           this.npcAI.hideDialog();
         } else {
           this.pause();
@@ -167,12 +225,16 @@ export class Game {
     const invRoot = document.getElementById('inventory-panel-root');
     const skillRoot = document.getElementById('skill-tree-root');
     const aiRoot = document.getElementById('ai-npc-dialog-root');
+    const dungeonRoot = document.getElementById('dungeon-select-root');
+    const leaderboardRoot = document.getElementById('leaderboard-root');
     return !!(
       (npcRoot && npcRoot.children.length > 0 && npcRoot.innerHTML.length > 10) ||
       (shopRoot && shopRoot.children.length > 0 && shopRoot.innerHTML.length > 10) ||
       (invRoot && invRoot.children.length > 0 && invRoot.innerHTML.length > 10) ||
       (skillRoot && skillRoot.children.length > 0 && skillRoot.innerHTML.length > 10) ||
-      (aiRoot && aiRoot.children.length > 0 && aiRoot.innerHTML.length > 10)
+      (aiRoot && aiRoot.children.length > 0 && aiRoot.innerHTML.length > 10) ||
+      (dungeonRoot && dungeonRoot.children.length > 0 && dungeonRoot.innerHTML.length > 10) ||
+      (leaderboardRoot && leaderboardRoot.children.length > 0 && leaderboardRoot.innerHTML.length > 10)
     );
   }
 
@@ -187,10 +249,21 @@ export class Game {
     this.canvas.requestPointerLock();
   }
 
-  async connect(playerName: string, classId: CharacterClassId = 'warrior') {
-    this.playerName = playerName;
-    this.playerClassId = classId;
+  async connect(session: AuthSession, character: CharacterSummary) {
+    this.network.setAuthToken(session.token);
+    this.characterId = character.id;
     this.network.onMessage = (type, data) => this.handleMessage(type, data);
+    this.network.onReconnect = (room) => this.resumeRoom(room);
+    this.network.onLeave = (code) => {
+      if (code === KICKED_CLOSE_CODE) {
+        // Removed by an admin — back to the main menu rather than rejoining
+        window.alert(this.kickReason || 'You were disconnected by an administrator');
+        window.location.reload();
+        return;
+      }
+      // Reconnect gave up — fall back to a fresh hub session
+      if (code !== CLOSE_CODE_CONSENTED) this.switchRoom('hub');
+    };
 
     // Pre-load character model
     characterLoader.preload(['/models/player.glb', '/models/walking.glb', '/models/walkback.glb', '/models/run.glb', '/models/attack.glb', '/models/crouch.glb', '/models/crouch_idle.glb', '/models/viking_axe.glb']);
@@ -199,9 +272,10 @@ export class Game {
     this.floatingDamage = new FloatingDamageSystem(this.sceneManager.scene);
     this.hubWorld = new HubWorld(this.sceneManager.scene);
 
-    const room = await this.network.joinRoom('hub', { name: playerName, classId });
-    this.localPlayer = new LocalPlayer(this.sceneManager.scene, classId);
-    this.localPlayer.setWorldColliders(this.hubWorld.colliders);
+    const room = await this.network.joinRoom('hub', { characterId: character.id });
+    this.localPlayer = new LocalPlayer(this.sceneManager.scene, character.classId);
+    this.localPlayer.gender = character.gender;
+    this.localPlayer.setCollisionWorld(hubCollisionWorld());
     this.setupRoomListeners(room);
     this.currentRoom = 'hub';
 
@@ -223,7 +297,13 @@ export class Game {
   private setupRoomListeners(room: any) {
     room.state.players.onAdd((player: any, sessionId: string) => {
       console.log('[DEBUG] onAdd player:', sessionId, 'name:', player.name, 'local:', this.network.getSessionId());
-      if (sessionId === this.network.getSessionId()) return;
+      if (sessionId === this.network.getSessionId()) {
+        player.listen('lifeState', (lifeState: PlayerLifeState) => {
+          this.localPlayer?.setFallen(lifeState !== 'alive');
+          this.spectateId = null;
+        });
+        return;
+      }
       const remoteClassId = VALID_CLASS_IDS.includes(player.classId as CharacterClassId)
         ? (player.classId as CharacterClassId) : 'warrior';
       const remote = new RemotePlayer(this.sceneManager.scene, sessionId, player.name, remoteClassId);
@@ -235,6 +315,7 @@ export class Game {
         remote.targetPosition.set(player.position.x, player.position.y, player.position.z);
         remote.targetRotation = player.rotation;
       });
+      player.listen('lifeState', (lifeState: PlayerLifeState) => remote.setFallen(lifeState !== 'alive'));
     });
 
     room.state.players.onRemove((_player: any, sessionId: string) => {
@@ -247,8 +328,23 @@ export class Game {
 
     // Dungeon-specific listeners
     if (room.state.monsters) {
+      room.state.listen('seed', () => this.applyFloorLayout(room.state));
+      room.state.listen('currentFloor', () => this.applyFloorLayout(room.state));
+      room.state.listen('partySize', () => this.applyFloorLayout(room.state));
+      room.state.listen('arenaRadius', (radius: number) => this.dungeonWorld?.setArenaEdge(radius));
+
       room.state.monsters.onAdd((monster: any, id: string) => {
         const entity = new MonsterEntity(this.sceneManager.scene, id, monster.defId);
+        entity.setRank(
+          Object.hasOwn(MONSTER_RANKS, monster.rank) ? (monster.rank as MonsterRank) : 'normal',
+          [...monster.affixes].filter(isMonsterAffixId),
+        );
+        entity.setShielded(monster.shielded);
+        const syncStatusEffects = () => entity.setStatusEffects(
+          [...monster.statusEffects].map((effect: any) => effect.type).filter(isStatusEffectType),
+        );
+        monster.statusEffects.onAdd(syncStatusEffects);
+        monster.statusEffects.onRemove(syncStatusEffects);
         entity.targetPosition.set(monster.position.x, monster.position.y, monster.position.z);
         entity.hp = monster.hp;
         entity.maxHp = monster.maxHp;
@@ -261,6 +357,7 @@ export class Game {
         monster.onChange(() => {
           entity.hp = monster.hp;
           entity.maxHp = monster.maxHp;
+          entity.setShielded(monster.shielded);
           if (monster.bossPhase !== undefined) {
             entity.setBossPhase(monster.bossPhase);
           }
@@ -283,6 +380,8 @@ export class Game {
           loot.x, loot.y, loot.z,
         );
         this.lootDrops.set(id, entity);
+        loot.listen('ownerId', (ownerId: string) => { entity.ownerId = ownerId; });
+        loot.listen('rolling', (rolling: boolean) => { entity.rolling = rolling; });
       });
 
       room.state.lootDrops.onRemove((_loot: any, id: string) => {
@@ -291,20 +390,72 @@ export class Game {
           entity.dispose(this.sceneManager.scene);
           this.lootDrops.delete(id);
         }
+        dismissLootRoll(id);
       });
     }
   }
 
-  async switchRoom(roomType: RoomType, options: Record<string, any> = {}) {
-    // Clean up
+  private clearRoomEntities() {
     this.remotePlayers.forEach(p => p.dispose(this.sceneManager.scene));
     this.remotePlayers.clear();
     this.monsters.forEach(m => m.dispose(this.sceneManager.scene));
     this.monsters.clear();
     this.lootDrops.forEach(l => l.dispose(this.sceneManager.scene));
     this.lootDrops.clear();
+    clearLootRolls();
+    this.threat = [];
     this.projectiles.forEach(p => p.dispose(this.sceneManager.scene));
     this.projectiles.clear();
+  }
+
+  /** Re-attach to the same room after a dropped connection; the server kept our character */
+  private resumeRoom(room: any) {
+    this.clearRoomEntities();
+    this.setupRoomListeners(room);
+    this.lastReconciledSeq = -1;
+    this.localPlayer?.resetPrediction();
+  }
+
+  private showBossYell(text: string) {
+    if (!this.floorInfo) return;
+    this.floorInfo = { ...this.floorInfo, bossYell: { text, until: Date.now() + BOSS_YELL_SECONDS * 1000 } };
+  }
+
+  /**
+   * Rebuild the floor's generated obstacles from the synced seed, matching the server's
+   * layout, and refresh the floor HUD's difficulty and party scaling
+   */
+  private applyFloorLayout(state: any) {
+    const floor = DUNGEON_DEFS[state.dungeonId]?.rooms[state.currentFloor];
+    if (!floor || !this.dungeonWorld) return;
+    const template = floor.procedural;
+    const layout = template ? generateFloorLayout(template, floorSeed(state.seed, state.currentFloor)) : null;
+    this.dungeonWorld.setLayout(layout?.obstacles ?? []);
+    this.localPlayer?.setCollisionWorld(floorCollisionWorld(floor, layout?.obstacles ?? []));
+    this.floorInfo = {
+      ...this.floorInfo,
+      currentFloor: state.currentFloor,
+      totalFloors: state.totalFloors,
+      floorName: floor.floorName || floor.id,
+      seed: template ? state.seed : undefined,
+      difficultyName: getDifficulty(state.difficulty).name,
+      lootModeName: LOOT_MODES[state.lootMode as LootMode]?.name,
+      partySize: state.partySize,
+      inviteCode: this.network.getRoom()?.roomId,
+    };
+  }
+
+  /** Join a dungeon from the hub, falling back to the hub if the room turns us away */
+  private enterDungeon(options: Record<string, any>, join: RoomJoin) {
+    this.switchRoom('dungeon', options, join).catch((err) => {
+      console.warn(`Could not join the dungeon: ${err.message}`);
+      this.switchRoom('hub');
+    });
+  }
+
+  async switchRoom(roomType: RoomType, options: Record<string, any> = {}, join?: RoomJoin) {
+    // Clean up
+    this.clearRoomEntities();
 
     // Toggle hub world
     if (this.hubWorld) {
@@ -317,11 +468,12 @@ export class Game {
       if (!this.hubFog && this.sceneManager.scene.fog instanceof THREE.FogExp2) {
         this.hubFog = this.sceneManager.scene.fog;
       }
-      // Create dungeon environment
+      // Create dungeon environment themed for the chosen dungeon
       if (!this.dungeonWorld) {
-        this.dungeonWorld = new DungeonWorld(this.sceneManager.scene);
+        const theme = DUNGEON_DEFS[options.dungeonId]?.theme ?? 'forest';
+        this.dungeonWorld = new DungeonWorld(this.sceneManager.scene, theme);
       }
-      this.sceneManager.scene.fog = new THREE.FogExp2(0x0a1a0a, 0.035);
+      this.sceneManager.scene.fog = new THREE.FogExp2(this.dungeonWorld.fogColor, 0.035);
     } else {
       // Dispose dungeon environment
       if (this.dungeonWorld) {
@@ -334,13 +486,15 @@ export class Game {
       }
     }
 
-    const room = await this.network.joinRoom(roomType, { ...options, name: this.playerName, classId: this.playerClassId });
+    // Dungeon floors set theirs from the synced layout, once the room listeners are up
+    this.localPlayer?.setCollisionWorld(roomType === 'hub' ? hubCollisionWorld() : { circles: [], boxes: [] });
+
+    const room = await this.network.joinRoom(roomType, { ...options, characterId: this.characterId }, join);
     this.setupRoomListeners(room);
 
     if (this.localPlayer) {
-      this.localPlayer.position.set(0, 0, roomType === 'dungeon' ? -8 : 10);
-      // Enable world colliders only in hub
-      this.localPlayer.setWorldColliders(roomType === 'hub' && this.hubWorld ? this.hubWorld.colliders : []);
+      if (roomType === 'dungeon') this.localPlayer.position.set(DUNGEON_PLAYER_SPAWN.x, 0, DUNGEON_PLAYER_SPAWN.z);
+      else this.localPlayer.position.set(0, 0, 10);
     }
 
     this.currentRoom = roomType;
@@ -351,45 +505,55 @@ export class Game {
       this.floorInfo = null;
       this.floorClearedShowing = false;
       hideFloorClearedPanel();
+      hideReadyCheck();
     }
 
     // Music disabled
   }
 
+  /** Where a monster or player currently is, for floating text */
+  private entityPosition(targetId: string): THREE.Vector3 | null {
+    const monster = this.monsters.get(targetId);
+    if (monster) return monster.mesh.position.clone();
+    if (this.localPlayer && targetId === this.network.getSessionId()) return this.localPlayer.position.clone();
+    return this.remotePlayers.get(targetId)?.targetPosition.clone() ?? null;
+  }
+
   private handleMessage(type: string, data: any) {
     if (type === 'damage') {
-      if (this.floatingDamage) {
-        // Find target position (monster or player)
-        let pos: THREE.Vector3 | null = null;
-        const monster = this.monsters.get(data.targetId);
-        if (monster) {
-          pos = monster.mesh.position.clone();
-        } else if (this.localPlayer && data.targetId === this.network.getSessionId()) {
-          pos = this.localPlayer.position.clone();
-        } else {
-          const remote = this.remotePlayers.get(data.targetId);
-          if (remote) pos = remote.targetPosition.clone();
-        }
-        if (pos) {
-          this.floatingDamage.spawn(pos, data.amount, {
-            isCrit: data.isCrit,
-            isDodge: data.isDodge,
-            isHeal: data.isHeal,
-            dotType: data.dotType,
-          });
-        }
+      const pos = this.entityPosition(data.targetId);
+      if (pos) {
+        this.floatingDamage?.spawn(pos, data.amount, {
+          isCrit: data.isCrit,
+          isDodge: data.isDodge,
+          isHeal: data.isHeal,
+          dotType: data.dotType,
+        });
       }
+    } else if (type === 'status_immune') {
+      const pos = this.entityPosition(data.targetId);
+      if (pos) this.floatingDamage?.spawn(pos, 0, { isImmune: true });
     } else if (type === 'level_up') {
-      showLevelUp(data.level);
+      // Kill XP is shared, so party members can level on the same kill
+      if (data.playerId === this.network.getSessionId()) showLevelUp(data.level);
     } else if (type === 'loot_acquired') {
       if (data.item) {
         inventoryManager.addItem(data.item);
         console.log(`Picked up: ${data.item.defId} (${data.item.rarity})`);
       }
-    } else if (type === 'player_died') {
+    } else if (type === 'player_respawned') {
+      // Server moved us back to the floor start outside the input stream
       if (data.playerId === this.network.getSessionId() && this.localPlayer) {
-        this.localPlayer.position.set(0, 0, -8);
+        this.localPlayer.position.set(DUNGEON_PLAYER_SPAWN.x, 0, DUNGEON_PLAYER_SPAWN.z);
+        this.localPlayer.resetPrediction();
+        if (data.xpLost > 0) console.log(`Respawned, lost ${data.xpLost} XP`);
       }
+    } else if (type === 'pickup_fail') {
+      console.log(`Pickup failed: ${data.error}`);
+    } else if (type === 'loot_roll_start') {
+      startLootRoll(data);
+    } else if (type === 'loot_roll_result') {
+      showLootRollResult(data);
     } else if (type === 'inventory_full') {
       inventoryManager.setFull(data.items, data.gold);
     } else if (type === 'gold_gained') {
@@ -404,28 +568,51 @@ export class Game {
       inventoryManager.setGold(data.gold);
     } else if (type === 'shop_sell_fail') {
       console.log(`Shop sell failed: ${data.error}`);
+    } else if (type === 'kicked') {
+      this.kickReason = data.reason;
+    } else if (type === 'gm_result') {
+      if (data.error) console.warn(`[GM] ${data.error}`);
+      else console.log(`[GM] ${data.message}`);
     } else if (type === 'floor_started') {
       this.floorInfo = {
+        ...this.floorInfo,
         currentFloor: data.floor,
         totalFloors: data.totalFloors,
         floorName: data.floorName,
+        runStartedAt: Date.now() - data.elapsed,
       };
       hideFloorClearedPanel();
+      hideReadyCheck();
       this.floorClearedShowing = false;
       // Update dungeon visuals per floor
       if (this.dungeonWorld) {
         this.dungeonWorld.setFloor(data.floor, data.totalFloors, data.floorName, !!data.isBossFloor);
       }
-      // Teleport local player to match server
-      if (this.localPlayer) {
-        this.localPlayer.position.set(0, 0, -8);
+      // Teleport local player to match server (a resumed session keeps its position)
+      if (this.localPlayer && !data.resumed) {
+        this.localPlayer.position.set(DUNGEON_PLAYER_SPAWN.x, 0, DUNGEON_PLAYER_SPAWN.z);
       }
     } else if (type === 'floor_cleared') {
-      showFloorCleared(data.floor, data.totalFloors);
+      showFloorCleared(data.floor, data.totalFloors, data.time, data.personalBest);
       this.floorClearedShowing = true;
     } else if (type === 'dungeon_complete') {
-      showDungeonComplete();
+      showDungeonComplete(data);
+      if (this.floorInfo) this.floorInfo = { ...this.floorInfo, runTime: data.time };
       this.floorClearedShowing = true;
+    } else if (type === 'ready_check_start') {
+      showReadyCheck(this.network.getSessionId(), data.initiatorName, data);
+    } else if (type === 'ready_check_update') {
+      updateReadyCheck(data);
+    } else if (type === 'ready_check_cancelled') {
+      cancelReadyCheck(data.reason);
+      // Let players who already agreed pick again
+      const state = this.network.getRoom()?.state;
+      if (state?.floorCleared && !state.dungeonComplete) {
+        reopenFloorClearedPanel();
+        this.floorClearedShowing = true;
+      }
+    } else if (type === 'threat_update') {
+      this.threat = data.monsters;
     } else if (type === 'return_to_hub') {
       this.switchRoom('hub');
     } else if (type === 'skills_full') {
@@ -442,10 +629,8 @@ export class Game {
       console.log(`Used ${data.defId}, healed ${data.healAmount}`);
     } else if (type === 'use_item_fail') {
       console.log(`Item use failed: ${data.error}`);
-    } else if (type === 'boss_telegraph') {
-      if (this.dungeonWorld) {
-        this.dungeonWorld.showTelegraph(data.x, data.z, data.radius, data.duration);
-      }
+    } else if (type === 'telegraph') {
+      this.dungeonWorld?.showTelegraph(data.x, data.z, data.facing, data.shape, data.duration);
     } else if (type === 'boss_phase') {
       if (this.dungeonWorld) {
         this.dungeonWorld.setBossEnrage(data.phase);
@@ -455,6 +640,20 @@ export class Game {
       if (monster) {
         monster.setBossPhase(data.phase);
       }
+    } else if (type === 'boss_announce') {
+      this.showBossYell(`${data.bossName}: ${data.text}`);
+    } else if (type === 'boss_enrage') {
+      this.dungeonWorld?.setBossEnrage(2);
+      this.monsters.get(data.monsterId)?.setBossPhase(2);
+      this.showBossYell(`${data.bossName} is enraged!`);
+    } else if (type === 'boss_reset') {
+      this.dungeonWorld?.setBossEnrage(0);
+      this.monsters.get(data.monsterId)?.setBossPhase(0);
+      this.showBossYell(`${data.bossName} returns to rest`);
+    } else if (type === 'monster_teleport') {
+      this.monsters.get(data.monsterId)?.snapTo(data.x, data.z);
+    } else if (type === 'ground_hazard') {
+      this.dungeonWorld?.showGroundHazard(data.x, data.z, data.facing, data.shape, data.duration, data.kind);
     } else if (type === 'status_effect') {
       console.log(`Status effect: ${data.type} on ${data.targetId} for ${data.duration}s`);
     } else if (type === 'projectile_spawn') {
@@ -510,16 +709,23 @@ export class Game {
     // Cooldowns
     this.portalCooldown = Math.max(0, this.portalCooldown - dt);
     this.npcCooldown = Math.max(0, this.npcCooldown - dt);
+    this.reviveCooldown = Math.max(0, this.reviveCooldown - dt);
 
     const mouse = this.input.consumeMouse();
     this.camera.onMouseMove(mouse.dx, mouse.dy);
 
     // Check movement state every frame (for smooth animations)
     const freeLook = this.camera.isFreeLook();
-    this.isMoving = freeLook ? false : this.input.isMoving();
+    const lifeState = this.getLocalLifeState();
+    const alive = lifeState === 'alive';
+    this.isMoving = freeLook || !alive ? false : this.input.isMoving();
     const sprinting = freeLook ? false : this.input.isSprinting();
 
-    if (this.localPlayer) {
+    if (!alive) {
+      // Fallen players don't move; once dead, Space cycles the spectated party member
+      const jump = this.input.consumeJump();
+      if (lifeState === 'dead') this.updateSpectateTarget(jump);
+    } else if (this.localPlayer) {
       const jump = this.input.consumeJump();
       this.localPlayer.applyFrameMovement(
         this.camera.getYaw(), dt,
@@ -533,7 +739,7 @@ export class Game {
 
     // Send network input at fixed rate (20Hz)
     this.inputTimer += dt;
-    if (!freeLook && this.inputTimer >= this.inputInterval && this.localPlayer) {
+    if (!freeLook && alive && this.inputTimer >= this.inputInterval && this.localPlayer && !this.network.isReconnecting()) {
       this.inputTimer = 0;
       const input = this.input.getInput(this.camera.getYaw(), this.inputInterval);
       this.localPlayer.trackNetworkInput(input);
@@ -566,7 +772,13 @@ export class Game {
           playerCount: room.state.players?.size ?? 0,
           roomType: this.currentRoom,
           fps: this.fps,
+          reconnecting: this.network.isReconnecting(),
+          statusEffects: [...(myState.statusEffects ?? [])]
+            .filter((effect: any) => isStatusEffectType(effect.type))
+            .map((effect: any) => ({ type: effect.type, stacks: effect.stacks, remaining: effect.remaining })),
         };
+        // Predict movement with the same slows and roots the server applies
+        this.localPlayer.speedMultiplier = statusModifiers(myState.statusEffects ?? []).moveSpeed;
       }
     }
 
@@ -585,7 +797,8 @@ export class Game {
     this.projectiles.forEach(p => p.update(dt));
 
     if (this.localPlayer) {
-      this.camera.update(this.localPlayer.position, dt);
+      const spectated = this.spectateId ? this.remotePlayers.get(this.spectateId) : undefined;
+      this.camera.update(spectated?.mesh.position ?? this.localPlayer.position, dt);
     }
 
     // World animations
@@ -605,11 +818,12 @@ export class Game {
     const pos = this.localPlayer.position;
 
     if (this.currentRoom === 'hub' && this.hubWorld) {
-      // Portal: E to enter
+      // Portal: E to choose a dungeon
       if (this.input.isKey('KeyE') && this.portalCooldown <= 0) {
         const portalDist = pos.distanceTo(this.hubWorld.cavePosition);
         if (portalDist < 4) {
-          this.switchRoom('dungeon', { dungeonId: 'forest' });
+          showDungeonSelectPanel(this.hudState?.level ?? 1);
+          this.portalCooldown = 0.5;
           return;
         }
       }
@@ -634,6 +848,16 @@ export class Game {
     if (this.currentRoom === 'dungeon') {
       // Don't process gameplay input while floor cleared panel is up
       if (this.floorClearedShowing) return;
+      if (this.getLocalLifeState() !== 'alive') return;
+
+      // E to revive a downed ally (the channel breaks if you move or attack)
+      if (this.input.isKey('KeyE') && this.reviveCooldown <= 0) {
+        const target = this.findReviveTarget();
+        if (target) {
+          this.network.sendMessage('revive', { targetId: target.id });
+          this.reviveCooldown = 0.5;
+        }
+      }
 
       // H/5 to use health potion
       if (this.input.consumePotionRequest()) {
@@ -644,7 +868,9 @@ export class Game {
       if (this.input.isKey('KeyF')) {
         let closestId: string | null = null;
         let closestDist = 3;
+        const sessionId = this.network.getSessionId();
         this.lootDrops.forEach((loot, id) => {
+          if (!loot.canPickUp(sessionId)) return;
           const dist = pos.distanceTo(loot.mesh.position);
           if (dist < closestDist) {
             closestDist = dist;
@@ -663,6 +889,96 @@ export class Game {
     }
   }
 
+  private getLocalLifeState(): PlayerLifeState {
+    if (this.currentRoom !== 'dungeon') return 'alive';
+    return this.network.getRoom()?.state.players?.get(this.network.getSessionId())?.lifeState ?? 'alive';
+  }
+
+  /** Closest downed party member within revive range */
+  private findReviveTarget(): { id: string; name: string; reviveProgress: number } | null {
+    const room = this.network.getRoom();
+    if (!room || !this.localPlayer) return null;
+    let closest: { id: string; name: string; reviveProgress: number } | null = null;
+    let closestDist = REVIVE_RANGE;
+    room.state.players.forEach((player: any, sessionId: string) => {
+      if (sessionId === this.network.getSessionId() || player.lifeState !== 'downed') return;
+      const dx = player.position.x - this.localPlayer!.position.x;
+      const dz = player.position.z - this.localPlayer!.position.z;
+      const dist = Math.sqrt(dx * dx + dz * dz);
+      if (dist < closestDist) {
+        closestDist = dist;
+        closest = { id: sessionId, name: player.name, reviveProgress: player.reviveProgress };
+      }
+    });
+    return closest;
+  }
+
+  /** Keep following a living party member, moving to the next one on request */
+  private updateSpectateTarget(cycle: boolean) {
+    const room = this.network.getRoom();
+    const living = [...this.remotePlayers.keys()].filter(
+      (id) => room?.state.players?.get(id)?.lifeState === 'alive',
+    );
+    if (!living.length) {
+      this.spectateId = null;
+      return;
+    }
+    let idx = this.spectateId ? living.indexOf(this.spectateId) : -1;
+    if (idx === -1 || cycle) idx = (idx + 1) % living.length;
+    this.spectateId = living[idx];
+  }
+
+  private getDeathInfo(): DeathInfo | null {
+    if (this.currentRoom !== 'dungeon') return null;
+    const room = this.network.getRoom();
+    const me = room?.state.players?.get(this.network.getSessionId());
+    if (!room || !me) return null;
+    const reviveTarget = me.lifeState === 'alive' ? this.findReviveTarget() : null;
+    return {
+      lifeState: me.lifeState,
+      timer: me.lifeTimer,
+      reviveProgress: me.reviveProgress,
+      spectating: me.lifeState === 'dead' && this.spectateId ? this.remotePlayers.get(this.spectateId)?.name : undefined,
+      partyWiped: room.state.partyWiped,
+      reviveTarget: reviveTarget ? { name: reviveTarget.name, progress: reviveTarget.reviveProgress } : undefined,
+    };
+  }
+
+  /** Threat on the engaged monster closest to the local player */
+  private getThreatMeterInfo(): ThreatMeterInfo | null {
+    if (this.currentRoom !== 'dungeon' || !this.localPlayer) return null;
+    const room = this.network.getRoom();
+    if (!room) return null;
+
+    let focus: MonsterThreat | null = null;
+    let focusDist = Infinity;
+    for (const entry of this.threat) {
+      const monster = this.monsters.get(entry.monsterId);
+      if (!monster) continue;
+      const dist = monster.targetPosition.distanceTo(this.localPlayer.position);
+      if (dist < focusDist) {
+        focusDist = dist;
+        focus = entry;
+      }
+    }
+    if (!focus) return null;
+
+    const localId = this.network.getSessionId();
+    const targetThreat = focus.entries.find((e) => e.sessionId === focus!.targetId)?.threat
+      || Math.max(1, ...focus.entries.map((e) => e.threat));
+    return {
+      monsterName: this.monsters.get(focus.monsterId)!.displayName,
+      rows: [...focus.entries]
+        .sort((a, b) => b.threat - a.threat)
+        .map((e) => ({
+          name: room.state.players.get(e.sessionId)?.name ?? '?',
+          percent: Math.round((e.threat / targetThreat) * 100),
+          isTarget: e.sessionId === focus!.targetId,
+          isLocal: e.sessionId === localId,
+        })),
+    };
+  }
+
   private getMinimapData(): MinimapData | null {
     if (!this.localPlayer) return null;
 
@@ -687,9 +1003,9 @@ export class Game {
       );
     }
 
-    const monsters: { x: number; z: number }[] = [];
+    const monsters: MinimapData['monsters'] = [];
     this.monsters.forEach(m => {
-      monsters.push({ x: m.targetPosition.x, z: m.targetPosition.z });
+      monsters.push({ x: m.targetPosition.x, z: m.targetPosition.z, rank: m.rank });
     });
 
     return {
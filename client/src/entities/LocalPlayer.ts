@@ -1,8 +1,10 @@
 import * as THREE from 'three';
-import { computeMovement, CLASS_DEFS, type PlayerInput, type CharacterClassId } from '@saab/shared';
+import {
+  computeMovement, resolveCollisions, CLASS_DEFS, PLAYER_RADIUS,
+  type PlayerInput, type CharacterClassId, type CollisionWorld,
+} from '@saab/shared';
 import { CharacterController } from './CharacterController.js';
 import { characterLoader } from './CharacterLoader.js';
-import type { WorldCollider } from '../world/HubWorld.js';
 import { downscaleTextures } from '../utils/downscaleTextures.js';
 import { getGLTFLoader } from '../utils/getGLTFLoader.js';
 import { DropSpawnEffect } from '../effects/DropSpawnEffect.js';
@@ -15,6 +17,8 @@ export class LocalPlayer {
   public rotation = 0;
   public gender: Gender = 'male';
   public classId: CharacterClassId;
+  /** From our status effects: slowed, hastened, or 0 while rooted or stunned */
+  public speedMultiplier = 1;
 
   // Visual smoothing — mesh lerps toward logic position
   private visualPos = new THREE.Vector3(0, 0, 10);
@@ -34,8 +38,8 @@ export class LocalPlayer {
   private killStreakCount = 0;
   public nameSprite: THREE.Sprite | null = null;
 
-  // World colliders (set from HubWorld)
-  private worldColliders: WorldCollider[] = [];
+  // Solid geometry of the current room, the same the server moves us against
+  private collision: CollisionWorld = { circles: [], boxes: [] };
 
   // GLB character controller
   private controller: CharacterController;
@@ -997,7 +1001,7 @@ export class LocalPlayer {
     const move = computeMovement({
       seq: -1, forward, backward, left, right, jump: false,
       sprint, rotation: yaw, dt,
-    });
+    }, this.speedMultiplier);
 
     this.position.x += move.dx;
     this.position.z += move.dz;
@@ -1024,9 +1028,7 @@ export class LocalPlayer {
       this.isGrounded = true;
     }
 
-    this.shopWall();
-    this.fountainWall();
-    this.worldColliderWalls();
+    resolveCollisions(this.collision, this.position, PLAYER_RADIUS);
   }
 
   /** Called at 20Hz - tracks input for server reconciliation + handles attack. */
@@ -1046,78 +1048,38 @@ export class LocalPlayer {
     }
   }
 
-  private static readonly FNT_R = 3.6;
-
-  private static readonly SHOP_X1 = -31.3;
-  private static readonly SHOP_X2 = -22.7;
-  private static readonly SHOP_Z1 = -16.3;
-  private static readonly SHOP_Z2 = -7.7;
-
   private getFloorHeight(): number {
     return 0;
   }
 
-  private fountainWall() {
-    const r = LocalPlayer.FNT_R;
-    const dx = this.position.x;
-    const dz = this.position.z;
-    const dist = Math.sqrt(dx * dx + dz * dz);
-
-    if (dist < r && dist > 0.001) {
-      this.position.x = (dx / dist) * (r + 0.05);
-      this.position.z = (dz / dist) * (r + 0.05);
-    }
+  setCollisionWorld(world: CollisionWorld) {
+    this.collision = world;
   }
 
-  private shopWall() {
-    const { SHOP_X1, SHOP_X2, SHOP_Z1, SHOP_Z2 } = LocalPlayer;
-    const px = this.position.x;
-    const pz = this.position.z;
-
-    if (px > SHOP_X1 && px < SHOP_X2 && pz > SHOP_Z1 && pz < SHOP_Z2) {
-      const dL = px - SHOP_X1;
-      const dR = SHOP_X2 - px;
-      const dB = pz - SHOP_Z1;
-      const dF = SHOP_Z2 - pz;
-      const min = Math.min(dL, dR, dB, dF);
-
-      if (min === dL) this.position.x = SHOP_X1;
-      else if (min === dR) this.position.x = SHOP_X2;
-      else if (min === dB) this.position.z = SHOP_Z1;
-      else this.position.z = SHOP_Z2;
-    }
-  }
-
-  // Push player out of all world colliders (rocks, lanterns, pillars, NPCs)
-  private worldColliderWalls() {
-    const playerR = 0.3; // player body radius
-    for (const c of this.worldColliders) {
-      const dx = this.position.x - c.x;
-      const dz = this.position.z - c.z;
-      const dist = Math.sqrt(dx * dx + dz * dz);
-      const minDist = c.r + playerR;
-      if (dist < minDist && dist > 0.001) {
-        this.position.x = c.x + (dx / dist) * minDist;
-        this.position.z = c.z + (dz / dist) * minDist;
-      }
-    }
+  /** Downed or dead players lie on the ground */
+  setFallen(fallen: boolean) {
+    this.mesh.rotation.x = fallen ? -Math.PI / 2 : 0;
   }
 
-  setWorldColliders(colliders: WorldCollider[]) {
-    this.worldColliders = colliders;
+  /** Drop unacknowledged inputs (they never reached the server, e.g. after a reconnect) */
+  resetPrediction() {
+    this.pendingInputs = [];
   }
 
   reconcile(serverX: number, serverZ: number, lastProcessedInput: number) {
     this.pendingInputs = this.pendingInputs.filter(i => i.seq > lastProcessedInput);
 
     // Compute where reconciled position should be
-    let reconX = serverX;
-    let reconZ = serverZ;
+    // Replay with the same collision the server applies to each input
+    const recon = { x: serverX, z: serverZ };
     for (const input of this.pendingInputs) {
-      const move = computeMovement(input);
-      reconX += move.dx;
-      reconZ += move.dz;
+      const move = computeMovement(input, this.speedMultiplier);
+      recon.x += move.dx;
+      recon.z += move.dz;
+      resolveCollisions(this.collision, recon, PLAYER_RADIUS);
     }
+    const reconX = recon.x;
+    const reconZ = recon.z;
 
     // Blend correction to avoid snapping (server and client usually agree closely)
     const dx = reconX - this.position.x;
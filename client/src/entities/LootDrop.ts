@@ -5,6 +5,10 @@ export class LootDropEntity {
   public mesh: THREE.Mesh;
   private time = 0;
   private baseY: number;
+  /** Session that may pick this up; empty when anyone can */
+  public ownerId = '';
+  /** A need/greed roll is still open for this drop */
+  public rolling = false;
 
   constructor(
     scene: THREE.Scene,
@@ -31,6 +35,10 @@ export class LootDropEntity {
     scene.add(this.mesh);
   }
 
+  canPickUp(sessionId: string): boolean {
+    return !this.rolling && (this.ownerId === '' || this.ownerId === sessionId);
+  }
+
   update(dt: number) {
     this.time += dt;
     // Bob up and down + rotate
@@ -1,5 +1,8 @@
 import * as THREE from 'three';
-import { lerpNumber, MONSTER_DEFS } from '@saab/shared';
+import {
+  lerpNumber, MONSTER_DEFS, MONSTER_AFFIXES, STATUS_EFFECT_RULES, monsterDisplayName,
+  type MonsterRank, type MonsterAffixId, type StatusEffectType,
+} from '@saab/shared';
 
 export class MonsterEntity {
   public mesh: THREE.Group;
@@ -7,24 +10,107 @@ export class MonsterEntity {
   public targetRotation = 0;
   public hp = 0;
   public maxHp = 0;
+  /** Base name with rank title and affix prefixes */
+  public displayName: string;
+  public rank: MonsterRank = 'normal';
   private hpBar: THREE.Mesh;
+  private shieldBubble: THREE.Mesh | null = null;
+  private statusPips = new THREE.Group();
 
   constructor(scene: THREE.Scene, public id: string, public defId: string) {
     const def = MONSTER_DEFS[defId];
     this.mesh = this.createMonsterMesh(defId);
     this.hpBar = this.createHpBar();
     this.mesh.add(this.hpBar);
+    this.statusPips.position.y = 1.75;
+    this.mesh.add(this.statusPips);
     scene.add(this.mesh);
     this.hp = def?.hp || 100;
     this.maxHp = def?.hp || 100;
+    this.displayName = def?.name ?? defId;
+  }
+
+  /**
+   * Elites are drawn larger with a gold glow, champions larger still in blue.
+   * Each affix adds an aura ring in its color, and the full name floats above.
+   */
+  setRank(rank: MonsterRank, affixes: MonsterAffixId[]) {
+    this.rank = rank;
+    this.displayName = monsterDisplayName(MONSTER_DEFS[this.defId]?.name ?? this.defId, rank, affixes);
+    if (rank === 'normal') return;
+
+    const glow = rank === 'champion' ? 0x3366ff : 0xffaa00;
+    this.mesh.scale.setScalar(rank === 'champion' ? 1.4 : 1.25);
+    const body = this.mesh.children[0] as THREE.Mesh;
+    const mat = body?.material as THREE.MeshStandardMaterial | undefined;
+    if (mat) {
+      mat.emissive.setHex(glow);
+      mat.emissiveIntensity = 0.3;
+    }
+
+    affixes.forEach((affixId, i) => {
+      const geo = new THREE.RingGeometry(0.9 + i * 0.25, 1.05 + i * 0.25, 32);
+      const ringMat = new THREE.MeshBasicMaterial({
+        color: MONSTER_AFFIXES[affixId].color, transparent: true, opacity: 0.7, side: THREE.DoubleSide, depthWrite: false,
+      });
+      const ring = new THREE.Mesh(geo, ringMat);
+      ring.rotation.x = -Math.PI / 2;
+      ring.position.y = 0.05;
+      this.mesh.add(ring);
+    });
+
+    this.mesh.add(this.createNameplate(this.displayName, `#${glow.toString(16).padStart(6, '0')}`));
+  }
+
+  /** A Shielding barrier is drawn as a translucent bubble */
+  setShielded(shielded: boolean) {
+    if (!this.shieldBubble) {
+      if (!shielded) return;
+      const geo = new THREE.SphereGeometry(1.1, 16, 12);
+      const mat = new THREE.MeshBasicMaterial({
+        color: MONSTER_AFFIXES.shielding.color, transparent: true, opacity: 0.25, depthWrite: false,
+      });
+      this.shieldBubble = new THREE.Mesh(geo, mat);
+      this.shieldBubble.position.y = 0.6;
+      this.mesh.add(this.shieldBubble);
+    }
+    this.shieldBubble.visible = shielded;
+  }
+
+  /** One dot in each effect's color under the HP bar */
+  setStatusEffects(types: StatusEffectType[]) {
+    for (const pip of [...this.statusPips.children] as THREE.Mesh[]) {
+      this.statusPips.remove(pip);
+      pip.geometry.dispose();
+      (pip.material as THREE.Material).dispose();
+    }
+    types.forEach((type, i) => {
+      const pip = new THREE.Mesh(
+        new THREE.SphereGeometry(0.08, 8, 6),
+        new THREE.MeshBasicMaterial({ color: STATUS_EFFECT_RULES[type].color, depthTest: false }),
+      );
+      pip.position.x = (i - (types.length - 1) / 2) * 0.22;
+      this.statusPips.add(pip);
+    });
+  }
+
+  /** Jump straight to a position instead of gliding there, for blinks */
+  snapTo(x: number, z: number) {
+    this.targetPosition.x = x;
+    this.targetPosition.z = z;
+    this.mesh.position.x = x;
+    this.mesh.position.z = z;
   }
 
   setBossPhase(phase: number) {
-    if (phase <= 0) return;
     const body = this.mesh.children[0] as THREE.Mesh;
     if (!body) return;
     const mat = body.material as THREE.MeshStandardMaterial;
-    if (phase >= 2) {
+    if (phase <= 0) {
+      // Back to the opening phase after a reset
+      mat.emissive.setHex(0x000000);
+      mat.emissiveIntensity = 0;
+    } else if (phase >= 2) {
       mat.emissive.setHex(0xff2200);
       mat.emissiveIntensity = 0.4;
     } else if (phase >= 1) {
@@ -53,6 +139,18 @@ export class MonsterEntity {
     } else if (defId === 'forest_sapling') {
       color = 0x3d7a2e;
       scale = 0.5;
+    } else if (defId === 'crypt_skeleton') {
+      color = 0xd8d0b8;
+      scale = 0.9;
+    } else if (defId === 'crypt_ghoul') {
+      color = 0x5a6650;
+      scale = 0.85;
+    } else if (defId === 'crypt_wraith') {
+      color = 0x8899bb;
+      scale = 0.9;
+    } else if (defId === 'crypt_bone_warden') {
+      color = 0xb8b0a0;
+      scale = 2.2;
     }
 
     // Body (box for now - placeholder)
@@ -76,6 +174,29 @@ export class MonsterEntity {
     return group;
   }
 
+  private createNameplate(name: string, color: string): THREE.Sprite {
+    const canvas = document.createElement('canvas');
+    canvas.width = 512;
+    canvas.height = 64;
+    const ctx = canvas.getContext('2d')!;
+    ctx.font = 'bold 30px Arial';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.strokeStyle = 'rgba(0,0,0,0.8)';
+    ctx.lineWidth = 4;
+    ctx.strokeText(name, 256, 32);
+    ctx.fillStyle = color;
+    ctx.fillText(name, 256, 32);
+
+    const mat = new THREE.SpriteMaterial({ map: new THREE.CanvasTexture(canvas), transparent: true, depthTest: false });
+    const sprite = new THREE.Sprite(mat);
+    // Counter the rank scale so the label reads the same size on every monster
+    const scale = 1 / this.mesh.scale.x;
+    sprite.position.y = 2.4 * scale;
+    sprite.scale.set(4 * scale, 0.5 * scale, 1);
+    return sprite;
+  }
+
   private createHpBar(): THREE.Mesh {
     const geo = new THREE.PlaneGeometry(1.2, 0.12);
     const mat = new THREE.MeshBasicMaterial({ color: 0x00ff00, side: THREE.DoubleSide });
@@ -98,6 +98,11 @@ export class RemotePlayer {
     return sprite;
   }
 
+  /** Downed or dead players lie on the ground */
+  setFallen(fallen: boolean) {
+    this.mesh.rotation.x = fallen ? -Math.PI / 2 : 0;
+  }
+
   update(dt: number, _time: number) {
     // Smooth interpolation to server position
     const t = Math.min(1, dt * 10);
@@ -1,12 +1,26 @@
 import { Game } from './Game.js';
 import { mountMainMenu, unmountMainMenu } from './ui/MainMenu.js';
-import type { CharacterClassId } from '@saab/shared';
+import { authenticate, getSavedSession, type AuthMode, type AuthSession } from './network/auth.js';
+import { loadContent } from './network/content.js';
+import type { CharacterSummary } from '@saab/shared';
 
 const canvas = document.getElementById('game-canvas') as HTMLCanvasElement;
 const uiOverlay = document.getElementById('ui-overlay')!;
 
-mountMainMenu(uiOverlay, async (name: string, classId: CharacterClassId) => {
-  const game = new Game(canvas);
-  await game.connect(name, classId);
-  unmountMainMenu();
-});
+mountMainMenu(
+  uiOverlay,
+  async (mode: AuthMode, username: string, password: string) => {
+    // Reuse the stored token when returning without retyping the password
+    const saved = getSavedSession();
+    if (mode === 'login' && !password && saved?.username.toLowerCase() === username.toLowerCase()) {
+      return saved;
+    }
+    return authenticate(mode, username, password);
+  },
+  async (session: AuthSession, character: CharacterSummary) => {
+    await loadContent();
+    const game = new Game(canvas);
+    await game.connect(session, character);
+    unmountMainMenu();
+  },
+);
@@ -1,16 +1,32 @@
 import { Client, Room } from 'colyseus.js';
-import type { PlayerInput } from '@saab/shared';
+import { RECONNECT_GRACE_SECONDS, RECONNECT_RETRY_INTERVAL, KICKED_CLOSE_CODE, type PlayerInput } from '@saab/shared';
+
+/** colyseus.js close code for a client-initiated room.leave() */
+export const CLOSE_CODE_CONSENTED = 4000;
 
 export type RoomType = 'hub' | 'dungeon';
 
+/** How to get into a room: matchmaking, a fresh private instance, or an invite code */
+export type RoomJoin = { mode: 'matchmake' } | { mode: 'create' } | { mode: 'invite'; code: string };
+
+/** HTTP base URL of the game server ('' when served from the same origin or proxied by Vite) */
+export function getServerHttpUrl(): string {
+  const serverUrl = import.meta.env.VITE_SERVER_URL;
+  return serverUrl ? serverUrl.replace(/\/$/, '') : '';
+}
+
 export class NetworkManager {
   private client: Client;
   private room: Room | null = null;
+  private authToken = '';
+  private reconnecting = false;
 
   public onStateChange: ((state: any) => void) | null = null;
   public onMessage: ((type: string, data: any) => void) | null = null;
   public onError: ((err: any) => void) | null = null;
   public onLeave: ((code: number) => void) | null = null;
+  public onReconnecting: (() => void) | null = null;
+  public onReconnect: ((room: Room) => void) | null = null;
 
   constructor() {
     const serverUrl = import.meta.env.VITE_SERVER_URL;
@@ -30,40 +46,95 @@ export class NetworkManager {
     }
   }
 
-  async joinRoom(roomType: RoomType, options: Record<string, any> = {}): Promise<Room> {
+  setAuthToken(token: string) {
+    this.authToken = token;
+  }
+
+  async joinRoom(
+    roomType: RoomType,
+    options: Record<string, any> = {},
+    join: RoomJoin = { mode: 'matchmake' },
+  ): Promise<Room> {
     // Leave current room if any
     if (this.room) {
       await this.room.leave();
+      this.room = null;
     }
 
-    this.room = await this.client.joinOrCreate(roomType, options);
+    const joinOptions = { ...options, token: this.authToken };
+    if (join.mode === 'create') {
+      this.room = await this.client.create(roomType, joinOptions);
+    } else if (join.mode === 'invite') {
+      // The invite code is the room id; sending it back tells the room we were invited
+      this.room = await this.client.joinById(join.code, { ...joinOptions, inviteCode: join.code });
+    } else {
+      this.room = await this.client.joinOrCreate(roomType, joinOptions);
+    }
+    this.bindRoom(this.room);
+    return this.room;
+  }
 
-    this.room.onStateChange((state) => {
+  private bindRoom(room: Room) {
+    room.onStateChange((state) => {
       this.onStateChange?.(state);
     });
 
-    this.room.onMessage('*', (type, message) => {
+    room.onMessage('*', (type, message) => {
       this.onMessage?.(type as string, message);
     });
 
-    this.room.onError((code, message) => {
+    room.onError((code, message) => {
       console.error(`Room error: ${code} - ${message}`);
       this.onError?.({ code, message });
     });
 
-    this.room.onLeave((code) => {
+    room.onLeave((code) => {
       console.log(`Left room with code: ${code}`);
-      this.onLeave?.(code);
+      if (code !== CLOSE_CODE_CONSENTED && code !== KICKED_CLOSE_CODE && room === this.room) {
+        this.reconnect(room.reconnectionToken, code);
+      } else {
+        this.onLeave?.(code);
+      }
     });
+  }
 
-    return this.room;
+  /** Retry the dropped room with its reconnection token until the server's grace window runs out */
+  private async reconnect(reconnectionToken: string, closeCode: number) {
+    this.reconnecting = true;
+    this.onReconnecting?.();
+
+    const deadline = Date.now() + RECONNECT_GRACE_SECONDS * 1000;
+    while (Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, RECONNECT_RETRY_INTERVAL * 1000));
+      try {
+        const room = await this.client.reconnect(reconnectionToken);
+        this.room = room;
+        this.bindRoom(room);
+        this.reconnecting = false;
+        console.log('Reconnected to room');
+        this.onReconnect?.(room);
+        return;
+      } catch (err) {
+        console.warn('Reconnect attempt failed:', err);
+      }
+    }
+
+    this.reconnecting = false;
+    this.room = null;
+    this.onLeave?.(closeCode);
+  }
+
+  isReconnecting(): boolean {
+    return this.reconnecting;
   }
 
   sendInput(input: PlayerInput) {
+    if (this.reconnecting) return;
     this.room?.send('input', input);
   }
 
   sendMessage(type: string, data: any) {
+    if (this.reconnecting) return;
     this.room?.send(type, data);
   }
 
@@ -71,6 +142,10 @@ export class NetworkManager {
     return this.room;
   }
 
+  getAuthToken(): string {
+    return this.authToken;
+  }
+
   getSessionId(): string {
     return this.room?.sessionId || '';
   }
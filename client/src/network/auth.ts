@@ -0,0 +1,46 @@
+import { getServerHttpUrl } from './NetworkManager.js';
+
+const STORAGE_KEY = 'vaultborn_session';
+
+export interface AuthSession {
+  token: string;
+  accountId: string;
+  username: string;
+}
+
+export type AuthMode = 'login' | 'register';
+
+/** Log in or create an account, persisting the session for the next visit */
+export async function authenticate(mode: AuthMode, username: string, password: string): Promise<AuthSession> {
+  const res = await fetch(`${getServerHttpUrl()}/api/auth/${mode}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`);
+
+  const session: AuthSession = { token: data.token, accountId: data.accountId, username: data.username };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch { /* storage full or unavailable */ }
+  return session;
+}
+
+/** Previously stored session, if any (the server still validates the token) */
+export function getSavedSession(): AuthSession | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      if (typeof parsed.token === 'string' && typeof parsed.username === 'string') return parsed;
+    }
+  } catch { /* ignore corrupt data */ }
+  return null;
+}
+
+export function clearSavedSession() {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch { /* storage unavailable */ }
+}
@@ -0,0 +1,35 @@
+import type { CharacterClassId, CharacterGender, CharacterSummary } from '@saab/shared';
+import { getServerHttpUrl } from './NetworkManager.js';
+
+async function request<T>(token: string, method: string, path: string, body?: unknown): Promise<T> {
+  const res = await fetch(`${getServerHttpUrl()}${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`);
+  return data as T;
+}
+
+export async function listCharacters(token: string): Promise<CharacterSummary[]> {
+  const data = await request<{ characters: CharacterSummary[] }>(token, 'GET', '/api/characters');
+  return data.characters;
+}
+
+export async function createCharacter(
+  token: string,
+  name: string,
+  classId: CharacterClassId,
+  gender: CharacterGender,
+): Promise<CharacterSummary> {
+  const data = await request<{ character: CharacterSummary }>(token, 'POST', '/api/characters', { name, classId, gender });
+  return data.character;
+}
+
+export async function deleteCharacter(token: string, characterId: string): Promise<void> {
+  await request(token, 'DELETE', `/api/characters/${encodeURIComponent(characterId)}`);
+}
@@ -0,0 +1,23 @@
+import { validateContentPack, installContentPack, type ContentPack } from '@saab/shared';
+import { getServerHttpUrl } from './NetworkManager.js';
+
+let loaded = false;
+
+/**
+ * Fetch the server's content pack and install it into the shared registries.
+ * Runs once per page; the pack is re-validated so a client built against an
+ * older schema fails loudly instead of rendering half-known content.
+ */
+export async function loadContent(): Promise<void> {
+  if (loaded) return;
+  const res = await fetch(`${getServerHttpUrl()}/api/content`);
+  if (!res.ok) throw new Error(`Failed to load game content (${res.status})`);
+  const pack = await res.json() as ContentPack;
+  const errors = validateContentPack(pack);
+  if (errors.length) {
+    console.error('Invalid game content from server:', errors);
+    throw new Error('Game content does not match this client — try reloading');
+  }
+  installContentPack(pack);
+  loaded = true;
+}
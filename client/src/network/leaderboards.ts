@@ -0,0 +1,17 @@
+import type { CharacterClassId, LeaderboardEntry, LeaderboardMode } from '@saab/shared';
+import { getServerHttpUrl } from './NetworkManager.js';
+
+export interface LeaderboardFilter {
+  mode: LeaderboardMode;
+  difficulty: number;
+  classId?: CharacterClassId;
+}
+
+export async function fetchLeaderboard(dungeonId: string, filter: LeaderboardFilter): Promise<LeaderboardEntry[]> {
+  const params = new URLSearchParams({ mode: filter.mode, difficulty: String(filter.difficulty) });
+  if (filter.classId) params.set('classId', filter.classId);
+  const res = await fetch(`${getServerHttpUrl()}/api/leaderboards/${encodeURIComponent(dungeonId)}?${params}`);
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`);
+  return data.entries as LeaderboardEntry[];
+}
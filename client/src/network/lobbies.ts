@@ -0,0 +1,12 @@
+import type { DungeonLobbyInfo } from '@saab/shared';
+import { getServerHttpUrl } from './NetworkManager.js';
+
+/** Look up a dungeon instance by invite code before joining it */
+export async function fetchLobby(token: string, code: string): Promise<DungeonLobbyInfo> {
+  const res = await fetch(`${getServerHttpUrl()}/api/lobbies/${encodeURIComponent(code)}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`);
+  return data.lobby as DungeonLobbyInfo;
+}
@@ -18,7 +18,7 @@ export class FloatingDamageSystem {
   spawn(
     worldPos: THREE.Vector3,
     amount: number,
-    opts: { isCrit?: boolean; isDodge?: boolean; isHeal?: boolean; dotType?: string } = {},
+    opts: { isCrit?: boolean; isDodge?: boolean; isHeal?: boolean; isImmune?: boolean; dotType?: string } = {},
   ) {
     let text: string;
     let color: string;
@@ -28,6 +28,10 @@ export class FloatingDamageSystem {
       text = 'DODGE';
       color = '#888888';
       fontSize = 28;
+    } else if (opts.isImmune) {
+      text = 'IMMUNE';
+      color = '#cccccc';
+      fontSize = 26;
     } else if (opts.isHeal) {
       text = `+${amount}`;
       color = '#44ff44';
@@ -40,6 +44,14 @@ export class FloatingDamageSystem {
       text = `${amount}`;
       color = '#aa44ff';
       fontSize = 24;
+    } else if (opts.dotType === 'burn') {
+      text = `${amount}`;
+      color = '#ff7722';
+      fontSize = 24;
+    } else if (opts.dotType === 'thorns') {
+      text = `${amount}`;
+      color = '#88aa33';
+      fontSize = 24;
     } else if (opts.isCrit) {
       text = `${amount}!`;
       color = '#ffaa00';
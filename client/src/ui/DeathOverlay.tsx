@@ -0,0 +1,103 @@
+import { render, h } from 'preact';
+import { useState, useEffect } from 'preact/hooks';
+import type { PlayerLifeState } from '@saab/shared';
+
+export interface DeathInfo {
+  lifeState: PlayerLifeState;
+  /** Seconds until the local player bleeds out or respawns */
+  timer: number;
+  /** 0–1 progress of an ally reviving the local player */
+  reviveProgress: number;
+  /** Party member the camera follows while dead */
+  spectating?: string;
+  partyWiped?: boolean;
+  /** Downed ally in reach of the local player, with the current channel progress */
+  reviveTarget?: { name: string; progress: number };
+}
+
+const barStyle = { width: '220px', height: '8px', background: 'rgba(255,255,255,0.15)', borderRadius: '4px', margin: '8px auto 0' };
+
+function ProgressBar({ progress, color }: { progress: number; color: string }) {
+  return (
+    <div style={barStyle}>
+      <div style={{ width: `${Math.round(progress * 100)}%`, height: '100%', background: color, borderRadius: '4px' }} />
+    </div>
+  );
+}
+
+function DeathOverlayComponent({ getDeathInfo }: { getDeathInfo: () => DeathInfo | null }) {
+  const [info, setInfo] = useState<DeathInfo | null>(null);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setInfo(getDeathInfo());
+    }, 100);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!info) return null;
+
+  if (info.lifeState === 'alive' && !info.partyWiped) {
+    if (!info.reviveTarget) return null;
+    return (
+      <div style={{
+        position: 'absolute', bottom: '160px', left: '50%', transform: 'translateX(-50%)',
+        background: 'rgba(0,0,0,0.7)', padding: '8px 18px', borderRadius: '6px',
+        pointerEvents: 'none', textAlign: 'center', color: '#eee', fontSize: '13px',
+      }}>
+        {info.reviveTarget.progress > 0 ? `Reviving ${info.reviveTarget.name}...` : `[E] Revive ${info.reviveTarget.name}`}
+        {info.reviveTarget.progress > 0 && <ProgressBar progress={info.reviveTarget.progress} color="#44dd44" />}
+      </div>
+    );
+  }
+
+  let title: string;
+  let detail: string;
+  if (info.partyWiped) {
+    title = 'PARTY WIPED';
+    detail = 'The run is lost. Returning to the hub...';
+  } else if (info.lifeState === 'downed') {
+    title = 'DOWNED';
+    detail = info.reviveProgress > 0
+      ? 'An ally is reviving you'
+      : `Bleeding out in ${Math.ceil(info.timer)}s — wait for an ally to revive you`;
+  } else if (info.timer > 0) {
+    title = 'YOU DIED';
+    detail = `Respawning at the floor start in ${Math.ceil(info.timer)}s`;
+  } else {
+    title = 'YOU DIED';
+    detail = 'You will rejoin the fight on the next floor';
+  }
+
+  return (
+    <div style={{
+      position: 'absolute', top: 0, left: 0, width: '100%', height: '100%',
+      background: info.partyWiped ? 'rgba(60,0,0,0.55)' : 'rgba(40,0,0,0.3)',
+      pointerEvents: 'none', display: 'flex', alignItems: 'center', justifyContent: 'center',
+    }}>
+      <div style={{ textAlign: 'center' }}>
+        <div style={{ fontSize: '36px', fontWeight: 'bold', color: '#ff4444', textShadow: '0 0 16px rgba(0,0,0,0.8)' }}>
+          {title}
+        </div>
+        <div style={{ fontSize: '14px', color: '#ddd', marginTop: '6px' }}>{detail}</div>
+        {info.lifeState === 'downed' && info.reviveProgress > 0 && (
+          <ProgressBar progress={info.reviveProgress} color="#44dd44" />
+        )}
+        {info.spectating && !info.partyWiped && (
+          <div style={{ fontSize: '12px', color: '#aaa', marginTop: '12px' }}>
+            Spectating {info.spectating} &middot; [Space] next
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+let deathOverlayRoot: HTMLElement | null = null;
+
+export function mountDeathOverlay(container: HTMLElement, getDeathInfo: () => DeathInfo | null) {
+  deathOverlayRoot = document.createElement('div');
+  deathOverlayRoot.id = 'death-overlay-root';
+  container.appendChild(deathOverlayRoot);
+  render(<DeathOverlayComponent getDeathInfo={getDeathInfo} />, deathOverlayRoot);
+}
@@ -0,0 +1,259 @@
+import { render, h } from 'preact';
+import { useState, useEffect } from 'preact/hooks';
+import {
+  DUNGEON_DEFS, DEFAULT_DIFFICULTY, MAX_DIFFICULTY, getDifficulty, LOOT_MODES, DEFAULT_LOOT_MODE,
+  INVITE_CODE_LENGTH, normalizeInviteCode, publicMatchLevelRange,
+  type DungeonDef, type LootMode,
+} from '@saab/shared';
+
+let visible = false;
+let playerLevel = 1;
+let difficulty = DEFAULT_DIFFICULTY; // remembered between openings
+let lootMode: LootMode = DEFAULT_LOOT_MODE;
+let publicMatch = false; // opt-in: by default a run is a private instance shared by invite code
+let inviteError: string | null = null;
+let onSelect: ((dungeonId: string, difficulty: number, lootMode: LootMode, publicMatch: boolean) => void) | null = null;
+let onJoinByCode: ((code: string) => Promise<void>) | null = null;
+let onShowLeaderboard: ((dungeonId: string, difficulty: number) => void) | null = null;
+let rerenderPanel: (() => void) | null = null;
+
+const stepButtonStyle = {
+  background: 'rgba(40,40,55,0.9)', color: '#ffaa00', border: '1px solid rgba(255,170,0,0.35)',
+  borderRadius: '4px', width: '28px', height: '26px', cursor: 'pointer', fontSize: '14px',
+};
+
+function DifficultyPicker({ level, onChange }: { level: number; onChange: (level: number) => void }) {
+  const def = getDifficulty(level);
+  const color = level === 0 ? '#88cc88' : level === 1 ? '#ffcc44' : '#ff6655';
+  return (
+    <div style={{ marginBottom: '14px', textAlign: 'center' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '12px' }}>
+        <button style={stepButtonStyle} disabled={level <= 0} onClick={() => onChange(level - 1)}>&lsaquo;</button>
+        <span style={{ fontSize: '15px', fontWeight: 'bold', color, minWidth: '130px' }}>{def.name}</span>
+        <button style={stepButtonStyle} disabled={level >= MAX_DIFFICULTY} onClick={() => onChange(level + 1)}>&rsaquo;</button>
+      </div>
+      <div style={{ fontSize: '11px', color: '#999', marginTop: '4px' }}>
+        Monster HP &times;{def.hpMultiplier} &middot; Damage &times;{def.damageMultiplier} &middot;
+        XP &amp; gold &times;{def.xpMultiplier}
+      </div>
+    </div>
+  );
+}
+
+function LootModePicker({ mode, onChange }: { mode: LootMode; onChange: (mode: LootMode) => void }) {
+  return (
+    <div style={{ marginBottom: '14px', textAlign: 'center' }}>
+      <div style={{ display: 'flex', gap: '6px', justifyContent: 'center' }}>
+        {(Object.keys(LOOT_MODES) as LootMode[]).map((id) => (
+          <button
+            key={id}
+            onClick={() => onChange(id)}
+            style={{
+              background: id === mode ? 'rgba(255,170,0,0.25)' : 'rgba(40,40,55,0.9)',
+              color: id === mode ? '#ffd700' : '#aaa',
+              border: '1px solid rgba(255,170,0,0.35)', borderRadius: '4px',
+              padding: '4px 10px', cursor: 'pointer', fontSize: '12px',
+            }}
+          >
+            {LOOT_MODES[id].name}
+          </button>
+        ))}
+      </div>
+      <div style={{ fontSize: '11px', color: '#999', marginTop: '4px' }}>{LOOT_MODES[mode].description}</div>
+    </div>
+  );
+}
+
+function InviteCodeForm() {
+  const [code, setCode] = useState('');
+  const [joining, setJoining] = useState(false);
+
+  const submit = () => {
+    const normalized = normalizeInviteCode(code);
+    if (!normalized) {
+      inviteError = `Invite codes are ${INVITE_CODE_LENGTH} letters and numbers`;
+      rerenderPanel?.();
+      return;
+    }
+    inviteError = null;
+    setJoining(true);
+    onJoinByCode?.(normalized)
+      .catch((err: Error) => { inviteError = err.message; })
+      .finally(() => {
+        setJoining(false);
+        rerenderPanel?.();
+      });
+  };
+
+  return (
+    <div style={{ marginBottom: '14px', textAlign: 'center' }}>
+      <div style={{ display: 'flex', gap: '6px', justifyContent: 'center' }}>
+        <input
+          value={code}
+          maxLength={INVITE_CODE_LENGTH}
+          placeholder="Invite code"
+          onInput={(e) => setCode((e.target as HTMLInputElement).value.toUpperCase())}
+          onKeyDown={(e: KeyboardEvent) => {
+            e.stopPropagation();
+            if (e.key === 'Enter') submit();
+          }}
+          onKeyUp={(e: KeyboardEvent) => e.stopPropagation()}
+          style={{
+            background: 'rgba(40,40,55,0.9)', color: '#eee', border: '1px solid rgba(255,170,0,0.35)',
+            borderRadius: '4px', padding: '4px 8px', width: '110px', fontFamily: 'monospace', letterSpacing: '2px',
+          }}
+        />
+        <button
+          disabled={joining}
+          onClick={submit}
+          style={{
+            background: 'rgba(40,40,55,0.9)', color: '#ffaa00', border: '1px solid rgba(255,170,0,0.35)',
+            padding: '4px 14px', borderRadius: '4px', cursor: 'pointer',
+          }}
+        >
+          {joining ? 'Joining...' : 'Join'}
+        </button>
+      </div>
+      {inviteError && <div style={{ fontSize: '11px', color: '#ff6655', marginTop: '4px' }}>{inviteError}</div>}
+    </div>
+  );
+}
+
+function DungeonCard({ dungeon, level, isPublic }: { dungeon: DungeonDef; level: number; isPublic: boolean }) {
+  const underLevel = level < dungeon.recommendedLevel;
+  const range = publicMatchLevelRange(dungeon);
+  const outOfRange = isPublic && (level < range.min || level > range.max);
+  return (
+    <button
+      disabled={outOfRange}
+      onClick={() => onSelect?.(dungeon.id, difficulty, lootMode, isPublic)}
+      style={{
+        display: 'block', width: '100%', textAlign: 'left', cursor: outOfRange ? 'not-allowed' : 'pointer',
+        opacity: outOfRange ? 0.5 : 1,
+        background: 'rgba(40,40,55,0.9)', border: '1px solid rgba(255,170,0,0.35)',
+        borderRadius: '8px', padding: '12px 16px', marginBottom: '10px', color: '#eee',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
+        <span style={{ fontSize: '16px', fontWeight: 'bold', color: '#ffaa00' }}>{dungeon.name}</span>
+        <span style={{ fontSize: '12px', color: underLevel ? '#ff6655' : '#88cc88' }}>
+          Tier {dungeon.tier} &middot; Lv {dungeon.recommendedLevel}+
+        </span>
+      </div>
+      <div style={{ fontSize: '13px', color: '#aaa', marginTop: '4px' }}>{dungeon.description}</div>
+      <div style={{ fontSize: '12px', color: '#777', marginTop: '4px' }}>
+        {dungeon.rooms.length} floors &middot; up to {dungeon.maxPlayers} players
+        {isPublic && <span> &middot; public groups Lv {range.min}&ndash;{range.max}</span>}
+      </div>
+    </button>
+  );
+}
+
+function DungeonSelectComponent() {
+  const [state, setState] = useState({ visible, playerLevel, difficulty, lootMode, publicMatch, inviteError });
+
+  useEffect(() => {
+    rerenderPanel = () => setState({ visible, playerLevel, difficulty, lootMode, publicMatch, inviteError });
+    return () => { rerenderPanel = null; };
+  }, []);
+
+  if (!state.visible) return null;
+
+  const dungeons = Object.values(DUNGEON_DEFS).sort((a, b) => a.tier - b.tier);
+
+  return (
+    <div style={{
+      position: 'absolute', top: '50%', left: '50%', transform: 'translate(-50%, -50%)',
+      background: 'rgba(20,20,30,0.95)', border: '2px solid rgba(255,170,0,0.5)',
+      borderRadius: '12px', padding: '24px 28px', width: '420px', maxWidth: '90%',
+      pointerEvents: 'auto',
+    }}>
+      <div style={{ fontSize: '20px', fontWeight: 'bold', color: '#ffd700', marginBottom: '16px', textAlign: 'center' }}>
+        Choose a Dungeon
+      </div>
+      <DifficultyPicker
+        level={state.difficulty}
+        onChange={(level) => {
+          difficulty = level;
+          rerenderPanel?.();
+        }}
+      />
+      <LootModePicker
+        mode={state.lootMode}
+        onChange={(mode) => {
+          lootMode = mode;
+          rerenderPanel?.();
+        }}
+      />
+      <label style={{ display: 'block', textAlign: 'center', fontSize: '12px', color: '#ccc', marginBottom: '12px' }}>
+        <input
+          type="checkbox"
+          checked={state.publicMatch}
+          onChange={(e) => {
+            publicMatch = (e.target as HTMLInputElement).checked;
+            rerenderPanel?.();
+          }}
+        />
+        {' '}Find a public group instead of starting a private run
+      </label>
+      {dungeons.map((d) => <DungeonCard key={d.id} dungeon={d} level={state.playerLevel} isPublic={state.publicMatch} />)}
+      <div style={{ fontSize: '12px', color: '#999', textAlign: 'center', margin: '6px 0' }}>
+        Or join a friend's run
+      </div>
+      <InviteCodeForm />
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '6px' }}>
+        <button
+          onClick={() => onShowLeaderboard?.(dungeons[0]?.id ?? '', difficulty)}
+          style={{
+            background: 'rgba(40,40,55,0.9)', color: '#ffaa00', border: '1px solid rgba(255,170,0,0.35)',
+            padding: '6px 16px', borderRadius: '4px', cursor: 'pointer',
+          }}
+        >
+          Leaderboards
+        </button>
+        <button
+          onClick={() => hideDungeonSelectPanel()}
+          style={{
+            background: '#666', color: '#fff', border: 'none',
+            padding: '6px 20px', borderRadius: '4px', cursor: 'pointer',
+          }}
+        >
+          Close [ESC]
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function mountDungeonSelectPanel(
+  container: HTMLElement,
+  callbacks: {
+    onSelect: (dungeonId: string, difficulty: number, lootMode: LootMode, publicMatch: boolean) => void;
+    onJoinByCode: (code: string) => Promise<void>;
+    onShowLeaderboard: (dungeonId: string, difficulty: number) => void;
+  },
+) {
+  onSelect = callbacks.onSelect;
+  onJoinByCode = callbacks.onJoinByCode;
+  onShowLeaderboard = callbacks.onShowLeaderboard;
+  const root = document.createElement('div');
+  root.id = 'dungeon-select-root';
+  container.appendChild(root);
+  render(<DungeonSelectComponent />, root);
+}
+
+export function showDungeonSelectPanel(level: number) {
+  visible = true;
+  playerLevel = level;
+  inviteError = null;
+  rerenderPanel?.();
+}
+
+export function hideDungeonSelectPanel() {
+  visible = false;
+  rerenderPanel?.();
+}
+
+export function isDungeonSelectVisible(): boolean {
+  return visible;
+}
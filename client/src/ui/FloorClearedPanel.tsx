@@ -1,11 +1,19 @@
 import { render, h } from 'preact';
 import { useState, useEffect } from 'preact/hooks';
+import type { PersonalBest } from '@saab/shared';
+import { formatRunTime, formatSplitDelta, splitDeltaColor } from './runTime.js';
 
 interface FloorClearedPanelState {
   visible: boolean;
   isDungeonComplete: boolean;
   floor: number;
   totalFloors: number;
+  /** Run clock at this clear, ms */
+  time?: number;
+  /** Cumulative splits of the finished run */
+  splits?: number[];
+  personalBest: PersonalBest | null;
+  ranked: boolean;
 }
 
 let panelState: FloorClearedPanelState = {
@@ -13,12 +21,65 @@ let panelState: FloorClearedPanelState = {
   isDungeonComplete: false,
   floor: 0,
   totalFloors: 4,
+  personalBest: null,
+  ranked: true,
 };
 
 let onContinue: (() => void) | null = null;
 let onExit: (() => void) | null = null;
 let rerenderPanel: (() => void) | null = null;
 
+function SplitDelta({ time, best }: { time: number; best: number | undefined }) {
+  if (best === undefined) return null;
+  const delta = time - best;
+  return <span style={{ color: splitDeltaColor(delta), marginLeft: '8px' }}>{formatSplitDelta(delta)}</span>;
+}
+
+/** Floor clear: this split against the same split of the personal best */
+function FloorSplit({ state }: { state: FloorClearedPanelState }) {
+  if (state.time === undefined) return null;
+  const best = state.personalBest?.splits[state.floor];
+  return (
+    <div style={{ fontSize: '15px', color: '#eee', marginBottom: '20px', fontFamily: 'monospace' }}>
+      {formatRunTime(state.time)}
+      <SplitDelta time={state.time} best={best} />
+      {best === undefined && <div style={{ fontSize: '11px', color: '#777' }}>No personal best yet</div>}
+    </div>
+  );
+}
+
+/** Dungeon complete: every split of the run, with deltas against the personal best */
+function RunSplits({ state }: { state: FloorClearedPanelState }) {
+  if (state.time === undefined || !state.splits) return null;
+  const best = state.personalBest;
+  const newBest = state.ranked && (!best || state.time < best.totalTime);
+  return (
+    <div style={{ marginBottom: '20px', fontFamily: 'monospace', fontSize: '13px' }}>
+      {state.splits.map((split, i) => (
+        <div key={i} style={{ display: 'flex', justifyContent: 'space-between', gap: '16px', color: '#bbb' }}>
+          <span>Floor {i + 1}</span>
+          <span>
+            {formatRunTime(split)}
+            <SplitDelta time={split} best={best?.splits[i]} />
+          </span>
+        </div>
+      ))}
+      <div style={{
+        display: 'flex', justifyContent: 'space-between', gap: '16px', marginTop: '6px', paddingTop: '6px',
+        borderTop: '1px solid rgba(255,170,0,0.3)', color: '#fff', fontSize: '15px', fontWeight: 'bold',
+      }}>
+        <span>Total</span>
+        <span>
+          {formatRunTime(state.time)}
+          <SplitDelta time={state.time} best={best?.totalTime} />
+        </span>
+      </div>
+      {newBest && <div style={{ color: '#ffd700', marginTop: '8px', fontWeight: 'bold' }}>New personal best!</div>}
+      {!state.ranked && <div style={{ color: '#777', marginTop: '8px' }}>Seed replays are not ranked</div>}
+    </div>
+  );
+}
+
 function FloorClearedComponent() {
   const [state, setState] = useState({ ...panelState });
 
@@ -52,16 +113,18 @@ function FloorClearedComponent() {
         </div>
 
         {!isDone && (
-          <div style={{ fontSize: '14px', color: '#aaa', marginBottom: '24px' }}>
+          <div style={{ fontSize: '14px', color: '#aaa', marginBottom: state.time === undefined ? '24px' : '8px' }}>
             Floor {state.floor + 1} of {state.totalFloors} cleared
           </div>
         )}
+        {!isDone && <FloorSplit state={state} />}
 
         {isDone && (
-          <div style={{ fontSize: '14px', color: '#aaa', marginBottom: '24px' }}>
+          <div style={{ fontSize: '14px', color: '#aaa', marginBottom: state.time === undefined ? '24px' : '12px' }}>
             You conquered the dungeon!
           </div>
         )}
+        {isDone && <RunSplits state={state} />}
 
         <div style={{ display: 'flex', gap: '16px', justifyContent: 'center' }}>
           {!isDone && (
@@ -110,13 +173,33 @@ export function mountFloorClearedPanel(
   render(<FloorClearedComponent />, panelRoot);
 }
 
-export function showFloorCleared(floor: number, totalFloors: number) {
-  panelState = { visible: true, isDungeonComplete: false, floor, totalFloors };
+export function showFloorCleared(
+  floor: number,
+  totalFloors: number,
+  time?: number,
+  personalBest: PersonalBest | null = null,
+) {
+  panelState = { visible: true, isDungeonComplete: false, floor, totalFloors, time, personalBest, ranked: true };
+  rerenderPanel?.();
+}
+
+export function showDungeonComplete(run?: {
+  time: number;
+  splits: number[];
+  personalBest: PersonalBest | null;
+  ranked: boolean;
+}) {
+  panelState = {
+    visible: true, isDungeonComplete: true, floor: 0, totalFloors: 0,
+    time: run?.time, splits: run?.splits, personalBest: run?.personalBest ?? null, ranked: run?.ranked ?? true,
+  };
   rerenderPanel?.();
 }
 
-export function showDungeonComplete() {
-  panelState = { visible: true, isDungeonComplete: true, floor: 0, totalFloors: 0 };
+/** Bring back a floor clear the player dismissed, e.g. when the party's ready check failed */
+export function reopenFloorClearedPanel() {
+  if (panelState.isDungeonComplete) return;
+  panelState = { ...panelState, visible: true };
   rerenderPanel?.();
 }
 
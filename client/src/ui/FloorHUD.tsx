@@ -1,5 +1,6 @@
 import { render, h } from 'preact';
 import { useState, useEffect } from 'preact/hooks';
+import { formatRunTime } from './runTime.js';
 
 interface FloorHUDProps {
   getFloorInfo: () => FloorInfo | null;
@@ -9,6 +10,20 @@ export interface FloorInfo {
   currentFloor: number;
   totalFloors: number;
   floorName: string;
+  /** Shown on procedural floors so players can quote it in bug reports */
+  seed?: number;
+  difficultyName?: string;
+  lootModeName?: string;
+  /** Players the floor's monster HP was scaled for */
+  partySize?: number;
+  /** Local clock time the run started at, derived from the server's elapsed time */
+  runStartedAt?: number;
+  /** Final run time once the dungeon is complete */
+  runTime?: number;
+  /** Friends join this run with it from the hub */
+  inviteCode?: string;
+  /** Latest boss yell or fight event, shown until `until` (local clock) */
+  bossYell?: { text: string; until: number };
 }
 
 function FloorHUDComponent({ getFloorInfo }: FloorHUDProps) {
@@ -22,20 +37,52 @@ function FloorHUDComponent({ getFloorInfo }: FloorHUDProps) {
   }, []);
 
   if (!info) return null;
+  const yell = info.bossYell && Date.now() < info.bossYell.until ? info.bossYell : null;
 
   return (
-    <div style={{
-      position: 'absolute', top: '10px', left: '50%', transform: 'translateX(-50%)',
-      background: 'rgba(0,0,0,0.75)', padding: '6px 18px', borderRadius: '6px',
-      pointerEvents: 'none', textAlign: 'center',
-      border: '1px solid rgba(255,170,0,0.3)',
-    }}>
-      <div style={{ fontSize: '13px', color: '#ffa500', fontWeight: 'bold' }}>
-        Floor {info.currentFloor + 1}/{info.totalFloors}
-      </div>
-      <div style={{ fontSize: '11px', color: '#ccc' }}>
-        {info.floorName}
+    <div>
+      <div style={{
+        position: 'absolute', top: '10px', left: '50%', transform: 'translateX(-50%)',
+        background: 'rgba(0,0,0,0.75)', padding: '6px 18px', borderRadius: '6px',
+        pointerEvents: 'none', textAlign: 'center',
+        border: '1px solid rgba(255,170,0,0.3)',
+      }}>
+        <div style={{ fontSize: '13px', color: '#ffa500', fontWeight: 'bold' }}>
+          Floor {info.currentFloor + 1}/{info.totalFloors}
+        </div>
+        <div style={{ fontSize: '11px', color: '#ccc' }}>
+          {info.floorName}
+        </div>
+        {info.difficultyName && (
+          <div style={{ fontSize: '10px', color: '#ffcc88' }}>
+            {info.difficultyName}
+            {info.partySize !== undefined && ` · scaled for ${info.partySize} player${info.partySize === 1 ? '' : 's'}`}
+            {info.lootModeName && ` · ${info.lootModeName}`}
+          </div>
+        )}
+        {info.runStartedAt !== undefined && (
+          <div style={{ fontSize: '12px', color: info.runTime !== undefined ? '#ffd700' : '#eee', fontFamily: 'monospace' }}>
+            {formatRunTime(info.runTime ?? Date.now() - info.runStartedAt)}
+          </div>
+        )}
+        {info.inviteCode && (
+          <div style={{ fontSize: '11px', color: '#ccc' }}>
+            Invite code <span style={{ fontFamily: 'monospace', color: '#ffd700', letterSpacing: '1px' }}>{info.inviteCode}</span>
+          </div>
+        )}
+        {info.seed !== undefined && (
+          <div style={{ fontSize: '10px', color: '#777' }}>Seed {info.seed}</div>
+        )}
       </div>
+      {yell && (
+        <div style={{
+          position: 'absolute', top: '120px', left: '50%', transform: 'translateX(-50%)',
+          pointerEvents: 'none', textAlign: 'center', whiteSpace: 'nowrap',
+          fontSize: '18px', fontWeight: 'bold', color: '#ff6644', textShadow: '0 0 6px #000, 0 0 2px #000',
+        }}>
+          {yell.text}
+        </div>
+      )}
     </div>
   );
 }
@@ -1,5 +1,6 @@
 import { render, h } from 'preact';
 import { useState, useEffect } from 'preact/hooks';
+import { STATUS_EFFECT_RULES, type StatusEffectType } from '@saab/shared';
 
 interface HUDProps {
   getState: () => HUDState | null;
@@ -17,6 +18,8 @@ export interface HUDState {
   playerCount: number;
   roomType: string;
   fps: number;
+  reconnecting: boolean;
+  statusEffects: { type: StatusEffectType; stacks: number; remaining: number }[];
 }
 
 function HUDComponent({ getState }: HUDProps) {
@@ -82,10 +85,34 @@ function HUDComponent({ getState }: HUDProps) {
         </div>
       </div>
 
+      {/* Status effects */}
+      {state.statusEffects.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginTop: '6px' }}>
+          {state.statusEffects.map((effect) => {
+            const rule = STATUS_EFFECT_RULES[effect.type];
+            return (
+              <div key={effect.type} style={{
+                fontSize: '10px', color: '#fff', padding: '2px 5px', borderRadius: '3px',
+                border: `1px solid ${rule.color}`,
+                background: rule.kind === 'buff' ? 'rgba(40,80,40,0.6)' : 'rgba(80,30,30,0.6)',
+              }}>
+                {rule.label}{effect.stacks > 1 ? ` x${effect.stacks}` : ''} {Math.ceil(effect.remaining)}s
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Info */}
       <div style={{ fontSize: '11px', color: '#888', marginTop: '6px' }}>
         Players: {state.playerCount} | FPS: {state.fps}
       </div>
+
+      {state.reconnecting && (
+        <div style={{ fontSize: '12px', color: '#ffaa33', marginTop: '6px', fontWeight: 'bold' }}>
+          Connection lost — reconnecting...
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,163 @@
+import { render, h } from 'preact';
+import { useState, useEffect } from 'preact/hooks';
+import {
+  DUNGEON_DEFS, CLASS_DEFS, VALID_CLASS_IDS, MAX_DIFFICULTY, getDifficulty,
+  type CharacterClassId, type LeaderboardEntry, type LeaderboardMode,
+} from '@saab/shared';
+import { fetchLeaderboard } from '../network/leaderboards.js';
+import { formatRunTime } from './runTime.js';
+
+interface LeaderboardPanelState {
+  visible: boolean;
+  dungeonId: string;
+  mode: LeaderboardMode;
+  difficulty: number;
+  classId?: CharacterClassId;
+}
+
+let panelState: LeaderboardPanelState = { visible: false, dungeonId: '', mode: 'solo', difficulty: 0 };
+let rerenderPanel: (() => void) | null = null;
+
+function update(patch: Partial<LeaderboardPanelState>) {
+  panelState = { ...panelState, ...patch };
+  rerenderPanel?.();
+}
+
+const tabStyle = (active: boolean) => ({
+  background: active ? 'rgba(255,170,0,0.25)' : 'rgba(40,40,55,0.9)',
+  color: active ? '#ffd700' : '#aaa',
+  border: '1px solid rgba(255,170,0,0.35)', borderRadius: '4px',
+  padding: '4px 10px', cursor: 'pointer', fontSize: '12px',
+});
+
+function EntryRow({ entry }: { entry: LeaderboardEntry }) {
+  return (
+    <div style={{
+      display: 'flex', gap: '10px', alignItems: 'baseline', padding: '5px 0',
+      borderBottom: '1px solid rgba(255,255,255,0.06)', fontSize: '13px',
+    }}>
+      <span style={{ width: '24px', color: entry.rank <= 3 ? '#ffd700' : '#888' }}>{entry.rank}</span>
+      <span style={{ flex: 1, color: '#ddd' }}>
+        {entry.members.map((m) => `${m.name} (${CLASS_DEFS[m.classId as CharacterClassId]?.name ?? m.classId})`).join(', ')}
+      </span>
+      <span style={{ fontFamily: 'monospace', color: '#fff' }}>{formatRunTime(entry.totalTime)}</span>
+    </div>
+  );
+}
+
+function LeaderboardComponent() {
+  const [state, setState] = useState({ ...panelState });
+  const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    rerenderPanel = () => setState({ ...panelState });
+    return () => { rerenderPanel = null; };
+  }, []);
+
+  useEffect(() => {
+    if (!state.visible || !state.dungeonId) return;
+    let current = true;
+    setEntries(null);
+    setError(null);
+    fetchLeaderboard(state.dungeonId, { mode: state.mode, difficulty: state.difficulty, classId: state.classId })
+      .then((result) => { if (current) setEntries(result); })
+      .catch((err: Error) => { if (current) setError(err.message); });
+    return () => { current = false; };
+  }, [state.visible, state.dungeonId, state.mode, state.difficulty, state.classId]);
+
+  if (!state.visible) return null;
+
+  const dungeons = Object.values(DUNGEON_DEFS).sort((a, b) => a.tier - b.tier);
+
+  return (
+    <div style={{
+      position: 'absolute', top: '50%', left: '50%', transform: 'translate(-50%, -50%)',
+      background: 'rgba(20,20,30,0.95)', border: '2px solid rgba(255,170,0,0.5)',
+      borderRadius: '12px', padding: '24px 28px', width: '460px', maxWidth: '90%',
+      pointerEvents: 'auto',
+    }}>
+      <div style={{ fontSize: '20px', fontWeight: 'bold', color: '#ffd700', marginBottom: '14px', textAlign: 'center' }}>
+        Fastest Clears
+      </div>
+
+      <div style={{ display: 'flex', gap: '6px', justifyContent: 'center', marginBottom: '10px', flexWrap: 'wrap' }}>
+        {dungeons.map((d) => (
+          <button key={d.id} style={tabStyle(d.id === state.dungeonId)} onClick={() => update({ dungeonId: d.id })}>
+            {d.name}
+          </button>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', gap: '6px', justifyContent: 'center', alignItems: 'center', marginBottom: '14px' }}>
+        <button style={tabStyle(state.mode === 'solo')} onClick={() => update({ mode: 'solo' })}>Solo</button>
+        <button style={tabStyle(state.mode === 'party')} onClick={() => update({ mode: 'party' })}>Party</button>
+        <button
+          style={tabStyle(false)}
+          disabled={state.difficulty <= 0}
+          onClick={() => update({ difficulty: state.difficulty - 1 })}
+        >
+          &lsaquo;
+        </button>
+        <span style={{ fontSize: '12px', color: '#ffcc88', minWidth: '90px', textAlign: 'center' }}>
+          {getDifficulty(state.difficulty).name}
+        </span>
+        <button
+          style={tabStyle(false)}
+          disabled={state.difficulty >= MAX_DIFFICULTY}
+          onClick={() => update({ difficulty: state.difficulty + 1 })}
+        >
+          &rsaquo;
+        </button>
+        <select
+          value={state.classId ?? ''}
+          onChange={(e) => update({ classId: ((e.target as HTMLSelectElement).value || undefined) as CharacterClassId | undefined })}
+          style={{ ...tabStyle(false), padding: '3px 6px' }}
+        >
+          <option value="">All classes</option>
+          {VALID_CLASS_IDS.map((id) => <option key={id} value={id}>{CLASS_DEFS[id].name}</option>)}
+        </select>
+      </div>
+
+      <div style={{ minHeight: '120px', maxHeight: '320px', overflowY: 'auto' }}>
+        {error && <div style={{ color: '#ff6655', fontSize: '13px', textAlign: 'center' }}>{error}</div>}
+        {!error && !entries && <div style={{ color: '#888', fontSize: '13px', textAlign: 'center' }}>Loading...</div>}
+        {entries?.length === 0 && (
+          <div style={{ color: '#888', fontSize: '13px', textAlign: 'center' }}>No clears recorded yet</div>
+        )}
+        {entries?.map((entry) => <EntryRow key={entry.runId} entry={entry} />)}
+      </div>
+
+      <div style={{ textAlign: 'right', marginTop: '12px' }}>
+        <button
+          onClick={() => hideLeaderboardPanel()}
+          style={{
+            background: '#666', color: '#fff', border: 'none',
+            padding: '6px 20px', borderRadius: '4px', cursor: 'pointer',
+          }}
+        >
+          Close [ESC]
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function mountLeaderboardPanel(container: HTMLElement) {
+  const root = document.createElement('div');
+  root.id = 'leaderboard-root';
+  container.appendChild(root);
+  render(<LeaderboardComponent />, root);
+}
+
+export function showLeaderboardPanel(dungeonId: string, difficulty: number) {
+  update({ visible: true, dungeonId, difficulty });
+}
+
+export function hideLeaderboardPanel() {
+  update({ visible: false });
+}
+
+export function isLeaderboardVisible(): boolean {
+  return panelState.visible;
+}
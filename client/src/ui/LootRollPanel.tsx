@@ -0,0 +1,155 @@
+import { render, h } from 'preact';
+import { useState, useEffect } from 'preact/hooks';
+import { ITEM_DEFS, RARITY_COLORS, type LootRollChoice, type LootRollOutcome } from '@saab/shared';
+
+interface OpenRoll {
+  lootId: string;
+  itemDefId: string;
+  rarity: string;
+  /** Local clock time the server stops accepting choices */
+  endsAt: number;
+  choice?: LootRollChoice;
+}
+
+interface RollResult {
+  lootId: string;
+  itemDefId: string;
+  rarity: string;
+  winnerName: string | null;
+  outcomes: LootRollOutcome[];
+  /** Local clock time the result stops being shown */
+  hideAt: number;
+}
+
+const RESULT_DISPLAY_MS = 6000;
+
+let openRolls: OpenRoll[] = [];
+let results: RollResult[] = [];
+let onChoose: ((lootId: string, choice: LootRollChoice) => void) | null = null;
+let rerenderPanel: (() => void) | null = null;
+
+const choiceButtonStyle = (color: string) => ({
+  background: 'rgba(40,40,55,0.9)', color, border: `1px solid ${color}`,
+  borderRadius: '4px', padding: '3px 10px', cursor: 'pointer', fontSize: '12px',
+});
+
+function itemLabel(itemDefId: string, rarity: string) {
+  return (
+    <span style={{ color: RARITY_COLORS[rarity] || RARITY_COLORS.common, fontWeight: 'bold' }}>
+      {ITEM_DEFS[itemDefId]?.name ?? itemDefId}
+    </span>
+  );
+}
+
+function RollRow({ roll }: { roll: OpenRoll }) {
+  const remaining = Math.max(0, Math.ceil((roll.endsAt - Date.now()) / 1000));
+  return (
+    <div style={{ padding: '8px 0', borderBottom: '1px solid rgba(255,255,255,0.06)' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '13px' }}>
+        {itemLabel(roll.itemDefId, roll.rarity)}
+        <span style={{ color: '#888', fontFamily: 'monospace' }}>{remaining}s</span>
+      </div>
+      {roll.choice ? (
+        <div style={{ fontSize: '12px', color: '#aaa', marginTop: '4px' }}>
+          You chose {roll.choice} — waiting for the party
+        </div>
+      ) : (
+        <div style={{ display: 'flex', gap: '6px', marginTop: '6px' }}>
+          <button style={choiceButtonStyle('#44dd44')} onClick={() => choose(roll.lootId, 'need')}>Need</button>
+          <button style={choiceButtonStyle('#ffcc44')} onClick={() => choose(roll.lootId, 'greed')}>Greed</button>
+          <button style={choiceButtonStyle('#aaaaaa')} onClick={() => choose(roll.lootId, 'pass')}>Pass</button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ResultRow({ result }: { result: RollResult }) {
+  return (
+    <div style={{ padding: '6px 0', fontSize: '12px', color: '#ccc' }}>
+      {itemLabel(result.itemDefId, result.rarity)}
+      {result.winnerName ? ` won by ${result.winnerName}` : ' — everyone passed, free for all'}
+      <div style={{ color: '#888', marginTop: '2px' }}>
+        {result.outcomes
+          .map((o) => (o.choice === 'pass' ? `${o.name}: pass` : `${o.name}: ${o.choice} ${o.roll}`))
+          .join(' · ')}
+      </div>
+    </div>
+  );
+}
+
+function LootRollComponent() {
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    rerenderPanel = () => setTick((t) => t + 1);
+    // Count down open rolls and expire old results
+    const interval = setInterval(() => {
+      const now = Date.now();
+      results = results.filter((r) => r.hideAt > now);
+      setTick((t) => t + 1);
+    }, 500);
+    return () => {
+      rerenderPanel = null;
+      clearInterval(interval);
+    };
+  }, []);
+
+  if (!openRolls.length && !results.length) return null;
+
+  return (
+    <div style={{
+      position: 'absolute', right: '20px', top: '40%', width: '280px',
+      background: 'rgba(20,20,30,0.92)', border: '1px solid rgba(255,170,0,0.4)',
+      borderRadius: '8px', padding: '10px 14px', pointerEvents: 'auto',
+    }}>
+      {openRolls.length > 0 && (
+        <div style={{ fontSize: '13px', fontWeight: 'bold', color: '#ffd700' }}>Loot Roll</div>
+      )}
+      {openRolls.map((roll) => <RollRow key={roll.lootId} roll={roll} />)}
+      {results.map((result) => <ResultRow key={result.lootId} result={result} />)}
+    </div>
+  );
+}
+
+function choose(lootId: string, choice: LootRollChoice) {
+  openRolls = openRolls.map((r) => (r.lootId === lootId ? { ...r, choice } : r));
+  onChoose?.(lootId, choice);
+  rerenderPanel?.();
+}
+
+export function mountLootRollPanel(container: HTMLElement, onChoice: (lootId: string, choice: LootRollChoice) => void) {
+  onChoose = onChoice;
+  const root = document.createElement('div');
+  root.id = 'loot-roll-root';
+  container.appendChild(root);
+  render(<LootRollComponent />, root);
+}
+
+export function startLootRoll(data: { lootId: string; itemDefId: string; rarity: string; timeout: number }) {
+  openRolls = [
+    ...openRolls.filter((r) => r.lootId !== data.lootId),
+    { lootId: data.lootId, itemDefId: data.itemDefId, rarity: data.rarity, endsAt: Date.now() + data.timeout * 1000 },
+  ];
+  rerenderPanel?.();
+}
+
+export function showLootRollResult(data: {
+  lootId: string; itemDefId: string; rarity: string; winnerName: string | null; outcomes: LootRollOutcome[];
+}) {
+  openRolls = openRolls.filter((r) => r.lootId !== data.lootId);
+  results = [...results, { ...data, hideAt: Date.now() + RESULT_DISPLAY_MS }];
+  rerenderPanel?.();
+}
+
+/** The drop is gone (picked up, despawned or the floor changed) */
+export function dismissLootRoll(lootId: string) {
+  openRolls = openRolls.filter((r) => r.lootId !== lootId);
+  rerenderPanel?.();
+}
+
+export function clearLootRolls() {
+  openRolls = [];
+  results = [];
+  rerenderPanel?.();
+}
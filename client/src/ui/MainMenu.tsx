@@ -1,6 +1,18 @@
 import { render, h } from 'preact';
 import { useState, useEffect, useRef, useCallback } from 'preact/hooks';
-import { CLASS_DEFS, VALID_CLASS_IDS, type CharacterClassId } from '@saab/shared';
+import {
+  CLASS_DEFS,
+  VALID_CLASS_IDS,
+  MAX_CHARACTERS_PER_ACCOUNT,
+  USERNAME_MAX_LENGTH,
+  CHARACTER_NAME_MAX_LENGTH,
+  validateCharacterName,
+  type CharacterClassId,
+  type CharacterGender,
+  type CharacterSummary,
+} from '@saab/shared';
+import { getSavedSession, clearSavedSession, type AuthMode, type AuthSession } from '../network/auth.js';
+import { listCharacters, createCharacter, deleteCharacter } from '../network/characters.js';
 
 const CLASS_ICONS: Record<CharacterClassId, string> = {
   warrior: '\u2694\uFE0F',
@@ -170,21 +182,161 @@ function drawBackground(
 
 // --- Component ---
 
+type MenuStep = 'account' | 'characters' | 'create';
+
 interface MainMenuProps {
-  onPlay: (name: string, classId: CharacterClassId) => void;
+  onAuthenticate: (mode: AuthMode, username: string, password: string) => Promise<AuthSession>;
+  onPlay: (session: AuthSession, character: CharacterSummary) => Promise<void>;
+}
+
+const INPUT_STYLE = {
+  width: '100%',
+  padding: '10px 14px',
+  fontSize: '14px',
+  background: 'rgba(10,8,5,0.9)',
+  border: '2px solid #2a1e10',
+  borderRadius: '3px',
+  color: '#ddd',
+  outline: 'none',
+  textAlign: 'center',
+  letterSpacing: '1px',
+  boxSizing: 'border-box',
+} as const;
+
+const LINK_STYLE = {
+  fontSize: '11px', color: '#776b55', textAlign: 'center',
+  cursor: 'pointer', letterSpacing: '0.5px',
+} as const;
+
+function Divider() {
+  return (
+    <div style={{
+      height: '1px', background: 'linear-gradient(90deg, transparent, #3a2a18, transparent)',
+      margin: '4px 0',
+    }} />
+  );
+}
+
+/** Selectable wooden row — used for class picks and character slots */
+function MenuOption({ icon, label, detail, selected, onClick }: {
+  icon: string;
+  label: string;
+  detail?: string;
+  selected: boolean;
+  onClick: () => void;
+}) {
+  const [hovered, setHovered] = useState(false);
+  return (
+    <div
+      onClick={onClick}
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '10px',
+        padding: '10px 16px',
+        background: selected
+          ? 'rgba(50,38,22,0.95)'
+          : hovered ? 'rgba(40,30,18,0.9)' : 'rgba(30,22,12,0.9)',
+        border: `2px solid ${selected ? '#6a5a3a' : hovered ? '#4a3a2a' : '#3a2a1a'}`,
+        borderLeft: selected ? '3px solid #ffd700' : `2px solid ${hovered ? '#4a3a2a' : '#3a2a1a'}`,
+        borderRadius: '3px',
+        cursor: 'pointer',
+        transition: 'all 0.15s',
+        transform: hovered && !selected ? 'translateX(4px)' : 'none',
+      }}
+    >
+      <span style={{ fontSize: '18px', width: '26px', textAlign: 'center' }}>
+        {icon}
+      </span>
+      <span style={{
+        flex: 1,
+        fontSize: '15px',
+        fontWeight: selected ? 700 : 500,
+        color: selected ? '#ffd700' : hovered ? '#ccc' : '#999',
+        letterSpacing: '1px',
+        transition: 'color 0.15s',
+        overflow: 'hidden',
+        textOverflow: 'ellipsis',
+        whiteSpace: 'nowrap',
+      }}>
+        {label}
+      </span>
+      {detail && (
+        <span style={{ fontSize: '11px', color: '#776b55', letterSpacing: '0.5px' }}>{detail}</span>
+      )}
+      {selected && (
+        <span style={{
+          width: '8px', height: '8px', borderRadius: '50%',
+          background: '#ffd700',
+          boxShadow: '0 0 6px rgba(255,215,0,0.5)',
+        }} />
+      )}
+    </div>
+  );
+}
+
+function GoldButton({ label, busyLabel, busy, onClick }: {
+  label: string;
+  busyLabel: string;
+  busy: boolean;
+  onClick: () => void;
+}) {
+  const [hover, setHover] = useState(false);
+  return (
+    <button
+      onClick={onClick}
+      disabled={busy}
+      onMouseEnter={() => setHover(true)}
+      onMouseLeave={() => setHover(false)}
+      style={{
+        width: '100%',
+        padding: '13px',
+        fontSize: '16px',
+        fontWeight: 800,
+        background: busy
+          ? '#555'
+          : 'linear-gradient(180deg, #ffd700, #b8960f)',
+        color: busy ? '#999' : '#1a1000',
+        border: busy ? '2px solid #555' : '2px solid #ffd700',
+        borderRadius: '3px',
+        cursor: busy ? 'default' : 'pointer',
+        letterSpacing: '4px',
+        textTransform: 'uppercase',
+        boxShadow: busy
+          ? 'none'
+          : '0 4px 15px rgba(255,215,0,0.25), inset 0 1px 0 rgba(255,255,255,0.3)',
+        transition: 'all 0.15s',
+        transform: hover && !busy ? 'scale(1.03)' : 'none',
+        filter: hover && !busy ? 'brightness(1.1)' : 'none',
+      }}
+    >
+      {busy ? busyLabel : label}
+    </button>
+  );
 }
 
-function MainMenuComponent({ onPlay }: MainMenuProps) {
+function MainMenuComponent({ onAuthenticate, onPlay }: MainMenuProps) {
+  const [step, setStep] = useState<MenuStep>('account');
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [characters, setCharacters] = useState<CharacterSummary[]>([]);
+  const [selectedCharId, setSelectedCharId] = useState<string | null>(null);
+  const [name, setName] = useState(() => getSavedSession()?.username ?? '');
+  const [password, setPassword] = useState('');
+  const [authMode, setAuthMode] = useState<AuthMode>('login');
+  const [charName, setCharName] = useState('');
   const [selectedClass, setSelectedClass] = useState<CharacterClassId>('warrior');
-  const [name, setName] = useState('');
-  const [connecting, setConnecting] = useState(false);
+  const [gender, setGender] = useState<CharacterGender>('male');
+  const [busy, setBusy] = useState(false);
   const [error, setError] = useState('');
   const [mounted, setMounted] = useState(false);
-  const [hovered, setHovered] = useState<CharacterClassId | null>(null);
-  const [playHover, setPlayHover] = useState(false);
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
-  const classDef = CLASS_DEFS[selectedClass];
+  const selectedChar = characters.find((c) => c.id === selectedCharId) ?? null;
+  // Right panel previews the class being created, otherwise the selected character's class
+  const infoClass = step === 'characters' && selectedChar ? selectedChar.classId : selectedClass;
+  const classDef = CLASS_DEFS[infoClass];
 
   useEffect(() => { setMounted(true); }, []);
 
@@ -256,17 +408,104 @@ function MainMenuComponent({ onPlay }: MainMenuProps) {
     };
   }, []);
 
+  const backToAccount = useCallback((message = '') => {
+    clearSavedSession();
+    setSession(null);
+    setCharacters([]);
+    setSelectedCharId(null);
+    setStep('account');
+    setError(message);
+  }, []);
+
+  const loadCharacters = useCallback(async (active: AuthSession) => {
+    const list = await listCharacters(active.token);
+    setCharacters(list);
+    setSelectedCharId(list[0]?.id ?? null);
+    setStep(list.length ? 'characters' : 'create');
+  }, []);
+
+  const handleAuthenticate = useCallback(async () => {
+    const username = name.trim();
+    if (!username) {
+      setError('Enter your account name');
+      return;
+    }
+    setBusy(true);
+    setError('');
+    try {
+      const active = await onAuthenticate(authMode, username, password);
+      setSession(active);
+      setPassword('');
+      try {
+        await loadCharacters(active);
+      } catch {
+        // A stored token the server no longer accepts — make the player log in again
+        backToAccount('Session expired, please log in again');
+      }
+    } catch (err: any) {
+      setError(err?.message || 'Login failed');
+    }
+    setBusy(false);
+  }, [name, password, authMode, onAuthenticate, loadCharacters, backToAccount]);
+
+  const handleCreate = useCallback(async () => {
+    if (!session) return;
+    const characterName = charName.trim();
+    const nameError = validateCharacterName(characterName);
+    if (nameError) {
+      setError(nameError);
+      return;
+    }
+    setBusy(true);
+    setError('');
+    try {
+      const created = await createCharacter(session.token, characterName, selectedClass, gender);
+      setCharacters((list) => [...list, created]);
+      setSelectedCharId(created.id);
+      setCharName('');
+      setStep('characters');
+    } catch (err: any) {
+      setError(err?.message || 'Could not create character');
+    }
+    setBusy(false);
+  }, [session, charName, selectedClass, gender]);
+
+  const handleDelete = useCallback(async () => {
+    if (!session || !selectedChar) return;
+    if (!window.confirm(`Delete ${selectedChar.name}? This cannot be undone.`)) return;
+    setBusy(true);
+    setError('');
+    try {
+      await deleteCharacter(session.token, selectedChar.id);
+      const remaining = characters.filter((c) => c.id !== selectedChar.id);
+      setCharacters(remaining);
+      setSelectedCharId(remaining[0]?.id ?? null);
+      if (!remaining.length) setStep('create');
+    } catch (err: any) {
+      setError(err?.message || 'Could not delete character');
+    }
+    setBusy(false);
+  }, [session, selectedChar, characters]);
+
   const handlePlay = useCallback(async () => {
-    const playerName = name.trim() || 'Adventurer';
-    setConnecting(true);
+    if (!session || !selectedChar) {
+      setError('Select a character');
+      return;
+    }
+    setBusy(true);
     setError('');
     try {
-      await onPlay(playerName, selectedClass);
+      await onPlay(session, selectedChar);
     } catch (err: any) {
       setError(err?.message || 'Connection failed');
-      setConnecting(false);
+      setBusy(false);
     }
-  }, [name, selectedClass, onPlay]);
+  }, [session, selectedChar, onPlay]);
+
+  const focusBorder = {
+    onFocus: (e: FocusEvent) => (e.target as HTMLInputElement).style.borderColor = '#6a5a3a',
+    onBlur: (e: FocusEvent) => (e.target as HTMLInputElement).style.borderColor = '#2a1e10',
+  };
 
   return (
     <div style={{
@@ -342,125 +581,143 @@ function MainMenuComponent({ onPlay }: MainMenuProps) {
             flexDirection: 'column',
             gap: '6px',
           }}>
-            {/* Name input */}
-            <input
-              type="text"
-              placeholder="Enter your name..."
-              maxLength={20}
-              value={name}
-              onInput={(e) => setName((e.target as HTMLInputElement).value)}
-              onKeyDown={(e) => { if (e.key === 'Enter' && !connecting) handlePlay(); }}
-              style={{
-                width: '100%',
-                padding: '10px 14px',
-                fontSize: '14px',
-                background: 'rgba(10,8,5,0.9)',
-                border: '2px solid #2a1e10',
-                borderRadius: '3px',
-                color: '#ddd',
-                outline: 'none',
-                textAlign: 'center',
-                letterSpacing: '1px',
-                boxSizing: 'border-box',
-                marginBottom: '6px',
-              }}
-              onFocus={(e) => (e.target as HTMLInputElement).style.borderColor = '#6a5a3a'}
-              onBlur={(e) => (e.target as HTMLInputElement).style.borderColor = '#2a1e10'}
-            />
-
-            {/* Divider */}
-            <div style={{
-              height: '1px', background: 'linear-gradient(90deg, transparent, #3a2a18, transparent)',
-              margin: '2px 0',
-            }} />
-
-            {/* Class buttons */}
-            {VALID_CLASS_IDS.map((cid) => {
-              const def = CLASS_DEFS[cid];
-              const selected = cid === selectedClass;
-              const isHovered = cid === hovered;
-              return (
+            {step === 'account' && (
+              <>
+                <input
+                  type="text"
+                  placeholder="Account name..."
+                  maxLength={USERNAME_MAX_LENGTH}
+                  value={name}
+                  onInput={(e) => setName((e.target as HTMLInputElement).value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter' && !busy) handleAuthenticate(); }}
+                  style={INPUT_STYLE}
+                  {...focusBorder}
+                />
+                <input
+                  type="password"
+                  placeholder="Password..."
+                  value={password}
+                  onInput={(e) => setPassword((e.target as HTMLInputElement).value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter' && !busy) handleAuthenticate(); }}
+                  style={INPUT_STYLE}
+                  {...focusBorder}
+                />
                 <div
-                  key={cid}
-                  onClick={() => setSelectedClass(cid)}
-                  onMouseEnter={() => setHovered(cid)}
-                  onMouseLeave={() => setHovered(null)}
-                  style={{
-                    display: 'flex',
-                    alignItems: 'center',
-                    gap: '10px',
-                    padding: '10px 16px',
-                    background: selected
-                      ? 'rgba(50,38,22,0.95)'
-                      : isHovered ? 'rgba(40,30,18,0.9)' : 'rgba(30,22,12,0.9)',
-                    border: `2px solid ${selected ? '#6a5a3a' : isHovered ? '#4a3a2a' : '#3a2a1a'}`,
-                    borderLeft: selected ? '3px solid #ffd700' : `2px solid ${isHovered ? '#4a3a2a' : '#3a2a1a'}`,
-                    borderRadius: '3px',
-                    cursor: 'pointer',
-                    transition: 'all 0.15s',
-                    transform: isHovered && !selected ? 'translateX(4px)' : 'none',
-                  }}
+                  onClick={() => { setAuthMode(authMode === 'login' ? 'register' : 'login'); setError(''); }}
+                  style={{ ...LINK_STYLE, marginBottom: '6px' }}
                 >
-                  <span style={{ fontSize: '18px', width: '26px', textAlign: 'center' }}>
-                    {CLASS_ICONS[cid]}
-                  </span>
-                  <span style={{
-                    flex: 1,
-                    fontSize: '15px',
-                    fontWeight: selected ? 700 : 500,
-                    color: selected ? '#ffd700' : isHovered ? '#ccc' : '#999',
-                    letterSpacing: '1px',
-                    transition: 'color 0.15s',
-                  }}>
-                    {def.name}
-                  </span>
-                  {selected && (
-                    <span style={{
-                      width: '8px', height: '8px', borderRadius: '50%',
-                      background: '#ffd700',
-                      boxShadow: '0 0 6px rgba(255,215,0,0.5)',
-                    }} />
+                  {authMode === 'login' ? 'New here? Create an account' : 'Have an account? Log in'}
+                </div>
+
+                <Divider />
+
+                <GoldButton
+                  label={authMode === 'login' ? '\u25B6 Log In' : '\u25B6 Register'}
+                  busyLabel="Please wait..."
+                  busy={busy}
+                  onClick={handleAuthenticate}
+                />
+              </>
+            )}
+
+            {step === 'characters' && (
+              <>
+                <div style={{ ...LINK_STYLE, cursor: 'default', marginBottom: '4px' }}>
+                  {session?.username} — {characters.length}/{MAX_CHARACTERS_PER_ACCOUNT} characters
+                </div>
+
+                {/* Character slots */}
+                {characters.map((c) => (
+                  <MenuOption
+                    key={c.id}
+                    icon={CLASS_ICONS[c.classId]}
+                    label={c.name}
+                    detail={`Lv ${c.level}`}
+                    selected={c.id === selectedCharId}
+                    onClick={() => setSelectedCharId(c.id)}
+                  />
+                ))}
+
+                <div style={{ display: 'flex', justifyContent: 'space-between', margin: '2px 4px' }}>
+                  {characters.length < MAX_CHARACTERS_PER_ACCOUNT ? (
+                    <span onClick={() => { setStep('create'); setError(''); }} style={LINK_STYLE}>+ New Character</span>
+                  ) : <span />}
+                  {selectedChar && (
+                    <span onClick={() => { if (!busy) handleDelete(); }} style={{ ...LINK_STYLE, color: '#884433' }}>Delete</span>
                   )}
                 </div>
-              );
-            })}
 
-            {/* Divider */}
-            <div style={{
-              height: '1px', background: 'linear-gradient(90deg, transparent, #3a2a18, transparent)',
-              margin: '4px 0',
-            }} />
-
-            {/* Play button */}
-            <button
-              onClick={handlePlay}
-              disabled={connecting}
-              onMouseEnter={() => setPlayHover(true)}
-              onMouseLeave={() => setPlayHover(false)}
-              style={{
-                width: '100%',
-                padding: '13px',
-                fontSize: '16px',
-                fontWeight: 800,
-                background: connecting
-                  ? '#555'
-                  : 'linear-gradient(180deg, #ffd700, #b8960f)',
-                color: connecting ? '#999' : '#1a1000',
-                border: connecting ? '2px solid #555' : '2px solid #ffd700',
-                borderRadius: '3px',
-                cursor: connecting ? 'default' : 'pointer',
-                letterSpacing: '4px',
-                textTransform: 'uppercase',
-                boxShadow: connecting
-                  ? 'none'
-                  : '0 4px 15px rgba(255,215,0,0.25), inset 0 1px 0 rgba(255,255,255,0.3)',
-                transition: 'all 0.15s',
-                transform: playHover && !connecting ? 'scale(1.03)' : 'none',
-                filter: playHover && !connecting ? 'brightness(1.1)' : 'none',
-              }}
-            >
-              {connecting ? 'Connecting...' : '\u25B6 Enter the Vault'}
-            </button>
+                <Divider />
+
+                <GoldButton
+                  label={'\u25B6 Enter the Vault'}
+                  busyLabel="Connecting..."
+                  busy={busy}
+                  onClick={handlePlay}
+                />
+                <div onClick={() => backToAccount()} style={LINK_STYLE}>Log out</div>
+              </>
+            )}
+
+            {step === 'create' && (
+              <>
+                <input
+                  type="text"
+                  placeholder="Character name..."
+                  maxLength={CHARACTER_NAME_MAX_LENGTH}
+                  value={charName}
+                  onInput={(e) => setCharName((e.target as HTMLInputElement).value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter' && !busy) handleCreate(); }}
+                  style={INPUT_STYLE}
+                  {...focusBorder}
+                />
+
+                {/* Gender toggle */}
+                <div style={{ display: 'flex', gap: '6px', margin: '2px 0' }}>
+                  {(['male', 'female'] as const).map((g) => (
+                    <div
+                      key={g}
+                      onClick={() => setGender(g)}
+                      style={{
+                        flex: 1, padding: '6px', textAlign: 'center',
+                        fontSize: '12px', letterSpacing: '1px', textTransform: 'uppercase',
+                        cursor: 'pointer', borderRadius: '3px',
+                        color: gender === g ? '#ffd700' : '#999',
+                        background: gender === g ? 'rgba(50,38,22,0.95)' : 'rgba(30,22,12,0.9)',
+                        border: `2px solid ${gender === g ? '#6a5a3a' : '#3a2a1a'}`,
+                      }}
+                    >{g}</div>
+                  ))}
+                </div>
+
+                <Divider />
+
+                {/* Class buttons */}
+                {VALID_CLASS_IDS.map((cid) => (
+                  <MenuOption
+                    key={cid}
+                    icon={CLASS_ICONS[cid]}
+                    label={CLASS_DEFS[cid].name}
+                    selected={cid === selectedClass}
+                    onClick={() => setSelectedClass(cid)}
+                  />
+                ))}
+
+                <Divider />
+
+                <GoldButton
+                  label={'\u271A Create'}
+                  busyLabel="Creating..."
+                  busy={busy}
+                  onClick={handleCreate}
+                />
+                {characters.length > 0 ? (
+                  <div onClick={() => { setStep('characters'); setError(''); }} style={LINK_STYLE}>Back to characters</div>
+                ) : (
+                  <div onClick={() => backToAccount()} style={LINK_STYLE}>Log out</div>
+                )}
+              </>
+            )}
 
             {/* Error */}
             {error && (
@@ -490,7 +747,7 @@ function MainMenuComponent({ onPlay }: MainMenuProps) {
               display: 'flex', alignItems: 'center', gap: '10px',
               marginBottom: '12px',
             }}>
-              <span style={{ fontSize: '28px' }}>{CLASS_ICONS[selectedClass]}</span>
+              <span style={{ fontSize: '28px' }}>{CLASS_ICONS[infoClass]}</span>
               <div>
                 <div style={{
                   fontSize: '22px', fontWeight: 800,
@@ -617,12 +874,13 @@ let menuRoot: HTMLDivElement | null = null;
 
 export function mountMainMenu(
   container: HTMLElement,
-  onPlay: (name: string, classId: CharacterClassId) => Promise<void>,
+  onAuthenticate: MainMenuProps['onAuthenticate'],
+  onPlay: MainMenuProps['onPlay'],
 ) {
   menuRoot = document.createElement('div');
   menuRoot.id = 'main-menu-root';
   container.appendChild(menuRoot);
-  render(h(MainMenuComponent, { onPlay }), menuRoot);
+  render(h(MainMenuComponent, { onAuthenticate, onPlay }), menuRoot);
 }
 
 export function unmountMainMenu() {
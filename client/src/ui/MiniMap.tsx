@@ -1,5 +1,6 @@
 import { render, h } from 'preact';
 import { useRef, useEffect } from 'preact/hooks';
+import type { MonsterRank } from '@saab/shared';
 
 export interface MinimapData {
   playerX: number;
@@ -8,7 +9,7 @@ export interface MinimapData {
   remotePlayers: { x: number; z: number }[];
   npcs: { x: number; z: number; name: string }[];
   portals: { x: number; z: number; color: string }[];
-  monsters: { x: number; z: number }[];
+  monsters: { x: number; z: number; rank: MonsterRank }[];
   roomType: string;
 }
 
@@ -274,9 +275,11 @@ function MiniMapComponent({ getData }: MiniMapProps) {
         drawNPCIcon(ctx, nx, ny, npc.name);
       }
 
-      // Monsters (dungeon)
+      // Monsters (dungeon) — elites and champions stand out
       for (const m of data.monsters) {
-        drawDot(m.x, m.z, '#aa44ff', 3);
+        if (m.rank === 'champion') drawDot(m.x, m.z, '#3366ff', 5);
+        else if (m.rank === 'elite') drawDot(m.x, m.z, '#ffaa00', 4);
+        else drawDot(m.x, m.z, '#aa44ff', 3);
       }
 
       // Remote players
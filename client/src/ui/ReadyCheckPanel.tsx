@@ -0,0 +1,125 @@
+import { render, h } from 'preact';
+import { useState, useEffect } from 'preact/hooks';
+
+export interface ReadyCheckStatus {
+  players: { sessionId: string; name: string; ready: boolean }[];
+  /** Seconds left to confirm */
+  timeout: number;
+}
+
+interface ReadyCheckPanelState {
+  visible: boolean;
+  initiatorName: string;
+  players: ReadyCheckStatus['players'];
+  /** Local clock time the check times out */
+  endsAt: number;
+  /** Why the last check failed, shown briefly once it closes */
+  cancelledReason: string | null;
+}
+
+const CANCELLED_DISPLAY_MS = 4000;
+
+let panelState: ReadyCheckPanelState = { visible: false, initiatorName: '', players: [], endsAt: 0, cancelledReason: null };
+let localSessionId = '';
+let onRespond: ((ready: boolean) => void) | null = null;
+let rerenderPanel: (() => void) | null = null;
+let cancelledTimer: ReturnType<typeof setTimeout> | null = null;
+
+function update(patch: Partial<ReadyCheckPanelState>) {
+  panelState = { ...panelState, ...patch };
+  rerenderPanel?.();
+}
+
+const buttonStyle = (color: string) => ({
+  background: 'rgba(40,40,55,0.9)', color, border: `1px solid ${color}`,
+  borderRadius: '4px', padding: '5px 16px', cursor: 'pointer', fontSize: '13px',
+});
+
+function ReadyCheckComponent() {
+  const [state, setState] = useState({ ...panelState });
+
+  useEffect(() => {
+    rerenderPanel = () => setState({ ...panelState });
+    // Tick the countdown
+    const interval = setInterval(() => { if (panelState.visible) setState({ ...panelState }); }, 250);
+    return () => {
+      rerenderPanel = null;
+      clearInterval(interval);
+    };
+  }, []);
+
+  const boxStyle = {
+    position: 'absolute' as const, top: '18%', left: '50%', transform: 'translateX(-50%)',
+    background: 'rgba(20,20,30,0.95)', border: '2px solid rgba(255,170,0,0.5)',
+    borderRadius: '10px', padding: '14px 22px', minWidth: '280px', textAlign: 'center' as const,
+    pointerEvents: 'auto' as const, zIndex: 10,
+  };
+
+  if (!state.visible) {
+    if (!state.cancelledReason) return null;
+    return (
+      <div style={{ ...boxStyle, pointerEvents: 'none' }}>
+        <div style={{ fontSize: '13px', color: '#ff6655' }}>Ready check failed: {state.cancelledReason}</div>
+      </div>
+    );
+  }
+
+  const me = state.players.find((p) => p.sessionId === localSessionId);
+  const readyCount = state.players.filter((p) => p.ready).length;
+  const remaining = Math.max(0, Math.ceil((state.endsAt - Date.now()) / 1000));
+
+  return (
+    <div style={boxStyle}>
+      <div style={{ fontSize: '16px', fontWeight: 'bold', color: '#ffd700' }}>Ready for the next floor?</div>
+      <div style={{ fontSize: '12px', color: '#aaa', marginTop: '2px' }}>
+        {state.initiatorName ? `${state.initiatorName} wants to continue` : 'The party wants to continue'}
+        {' '}&middot; {readyCount}/{state.players.length} ready &middot; {remaining}s
+      </div>
+      <div style={{ margin: '10px 0', fontSize: '13px' }}>
+        {state.players.map((p) => (
+          <div key={p.sessionId} style={{ color: p.ready ? '#44dd44' : '#888' }}>
+            {p.ready ? '✓' : '…'} {p.name}
+          </div>
+        ))}
+      </div>
+      {me && !me.ready && (
+        <div style={{ display: 'flex', gap: '10px', justifyContent: 'center' }}>
+          <button style={buttonStyle('#44dd44')} onClick={() => onRespond?.(true)}>Ready</button>
+          <button style={buttonStyle('#ff6655')} onClick={() => onRespond?.(false)}>Not yet</button>
+        </div>
+      )}
+      {me?.ready && <div style={{ fontSize: '12px', color: '#aaa' }}>Waiting for the party...</div>}
+    </div>
+  );
+}
+
+export function mountReadyCheckPanel(container: HTMLElement, onResponse: (ready: boolean) => void) {
+  onRespond = onResponse;
+  const root = document.createElement('div');
+  root.id = 'ready-check-root';
+  container.appendChild(root);
+  render(<ReadyCheckComponent />, root);
+}
+
+export function showReadyCheck(sessionId: string, initiatorName: string, status: ReadyCheckStatus) {
+  localSessionId = sessionId;
+  if (cancelledTimer) clearTimeout(cancelledTimer);
+  update({
+    visible: true, initiatorName, players: status.players,
+    endsAt: Date.now() + status.timeout * 1000, cancelledReason: null,
+  });
+}
+
+export function updateReadyCheck(status: ReadyCheckStatus) {
+  update({ players: status.players, endsAt: Date.now() + status.timeout * 1000 });
+}
+
+export function cancelReadyCheck(reason: string) {
+  update({ visible: false, cancelledReason: reason });
+  if (cancelledTimer) clearTimeout(cancelledTimer);
+  cancelledTimer = setTimeout(() => update({ cancelledReason: null }), CANCELLED_DISPLAY_MS);
+}
+
+export function hideReadyCheck() {
+  update({ visible: false, cancelledReason: null });
+}
@@ -0,0 +1,65 @@
+import { render, h } from 'preact';
+import { useState, useEffect } from 'preact/hooks';
+
+export interface ThreatMeterInfo {
+  monsterName: string;
+  rows: {
+    name: string;
+    /** Threat as a share of the current target's, so the target reads 100% */
+    percent: number;
+    isTarget: boolean;
+    isLocal: boolean;
+  }[];
+}
+
+function rowColor(row: ThreatMeterInfo['rows'][number]): string {
+  if (row.isTarget) return '#ff4444';
+  if (row.percent >= 90) return '#ffaa00';
+  return '#44aa66';
+}
+
+function ThreatMeterComponent({ getInfo }: { getInfo: () => ThreatMeterInfo | null }) {
+  const [info, setInfo] = useState<ThreatMeterInfo | null>(null);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setInfo(getInfo());
+    }, 200);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!info || !info.rows.length) return null;
+
+  return (
+    <div style={{
+      position: 'absolute', top: '120px', right: '20px', width: '200px',
+      background: 'rgba(0,0,0,0.7)', padding: '6px 10px', borderRadius: '6px',
+      border: '1px solid rgba(255,68,68,0.3)', pointerEvents: 'none',
+    }}>
+      <div style={{ fontSize: '11px', color: '#aaa', marginBottom: '4px' }}>
+        Threat · <span style={{ color: '#eee' }}>{info.monsterName}</span>
+      </div>
+      {info.rows.map((row) => (
+        <div key={row.name} style={{ position: 'relative', height: '16px', marginBottom: '2px', background: 'rgba(255,255,255,0.08)' }}>
+          <div style={{
+            width: `${Math.min(100, row.percent)}%`, height: '100%', background: rowColor(row), opacity: 0.6,
+          }} />
+          <div style={{
+            position: 'absolute', inset: 0, padding: '0 5px', display: 'flex', justifyContent: 'space-between',
+            fontSize: '11px', lineHeight: '16px', color: '#fff', fontWeight: row.isLocal ? 'bold' : 'normal',
+          }}>
+            <span>{row.name}</span>
+            <span>{row.percent}%</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function mountThreatMeter(container: HTMLElement, getInfo: () => ThreatMeterInfo | null) {
+  const root = document.createElement('div');
+  root.id = 'threat-meter-root';
+  container.appendChild(root);
+  render(<ThreatMeterComponent getInfo={getInfo} />, root);
+}
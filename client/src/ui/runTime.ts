@@ -0,0 +1,16 @@
+/** Run clock as m:ss.t */
+export function formatRunTime(ms: number): string {
+  const tenths = Math.floor(ms / 100);
+  const minutes = Math.floor(tenths / 600);
+  const seconds = Math.floor((tenths % 600) / 10);
+  return `${minutes}:${String(seconds).padStart(2, '0')}.${tenths % 10}`;
+}
+
+/** Signed difference against a personal best, e.g. -0:03.2 when ahead */
+export function formatSplitDelta(ms: number): string {
+  return `${ms < 0 ? '-' : '+'}${formatRunTime(Math.abs(ms))}`;
+}
+
+export function splitDeltaColor(ms: number): string {
+  return ms < 0 ? '#44dd44' : ms > 0 ? '#ff6655' : '#ccc';
+}
@@ -1,29 +1,120 @@
 import * as THREE from 'three';
+import {
+  DUNGEON_ARENA_ROCKS, type DungeonTheme, type FloorObstacle, type GroundZoneKind, type TelegraphShape,
+} from '@saab/shared';
 import { StaticBatcher } from '../utils/StaticBatcher';
 
+type RGB = [number, number, number];
+
+interface DungeonPalette {
+  /** Ground vertex color = base + noise * noiseScale + noise2 * detailScale */
+  ground: { base: RGB; noiseScale: RGB; detailScale: RGB };
+  edgeColor: number;
+  /** What rings the arena */
+  border: 'trees' | 'pillars';
+  rockColor: number;
+  mossColor: number;
+  fogColor: number;
+  ambientColor: number;
+  moonColor: number;
+  wispColors: [number, number, number];
+  particleColors: [number, number];
+  /** Inner, middle and outer gradient stops of the floating particle sprite */
+  particleGradient: [string, string, string];
+}
+
+const DUNGEON_PALETTES: Record<DungeonTheme, DungeonPalette> = {
+  forest: {
+    // Dark browns and greens — mossy forest floor
+    ground: { base: [0.06, 0.08, 0.04], noiseScale: [0.06, 0.07, 0.03], detailScale: [0.03, 0.04, 0] },
+    edgeColor: 0x050a05,
+    border: 'trees',
+    rockColor: 0x2a2a28,
+    mossColor: 0x1a3a1a,
+    fogColor: 0x0a1a0a,
+    ambientColor: 0x0a1a15,
+    moonColor: 0x4466aa,
+    wispColors: [0x22cc88, 0x44aaff, 0x88ff44],
+    particleColors: [0xaaffaa, 0xccffdd],
+    particleGradient: ['rgba(200,255,200,1)', 'rgba(150,255,150,0.5)', 'rgba(100,200,100,0)'],
+  },
+  crypt: {
+    // Cold wet flagstones with faint blue-grey variation
+    ground: { base: [0.07, 0.07, 0.08], noiseScale: [0.05, 0.05, 0.06], detailScale: [0.02, 0.02, 0.03] },
+    edgeColor: 0x050508,
+    border: 'pillars',
+    rockColor: 0x3a3a40,
+    mossColor: 0x26322e,
+    fogColor: 0x0a0a14,
+    ambientColor: 0x101020,
+    moonColor: 0x6677aa,
+    wispColors: [0x66ccff, 0x8899ff, 0xaaffee],
+    particleColors: [0xccccdd, 0xaabbcc],
+    particleGradient: ['rgba(230,235,255,1)', 'rgba(180,190,220,0.5)', 'rgba(140,150,180,0)'],
+  },
+};
+
+/**
+ * Procedural dungeon environment, themed per dungeon.
+ * Creates a moody, enclosed arena with a tree or pillar border, rocks, fog, and atmospheric lighting.
+ */
+const GROUND_ZONE_COLORS: Record<GroundZoneKind, number> = { fire: 0xff5511, poison: 0x55cc33 };
+
 /**
- * Procedural dark forest dungeon environment.
- * Creates a moody, enclosed arena with trees, rocks, fog, and atmospheric lighting.
+ * Flat geometry for a telegraph shape, lying on the ground and pointing down
+ * +z, so a mesh's rotation.y is the same facing the server hit-tests with
  */
+function telegraphGeometry(shape: TelegraphShape): THREE.BufferGeometry {
+  let geo: THREE.BufferGeometry;
+  switch (shape.type) {
+    case 'circle':
+      geo = new THREE.CircleGeometry(shape.radius, 32);
+      break;
+    case 'donut':
+      geo = new THREE.RingGeometry(shape.innerRadius, shape.radius, 48);
+      break;
+    case 'cone': {
+      const angle = THREE.MathUtils.degToRad(shape.angle);
+      geo = new THREE.CircleGeometry(shape.radius, 32, Math.PI / 2 - angle / 2, angle);
+      break;
+    }
+    case 'line':
+      geo = new THREE.PlaneGeometry(shape.width, shape.length).translate(0, shape.length / 2, 0);
+      break;
+  }
+  // Built in XY pointing up +y; lay it down so +y becomes +z
+  return geo.rotateX(Math.PI / 2);
+}
+
 export class DungeonWorld {
   public group: THREE.Group;
 
   private scene: THREE.Scene;
+  private palette: DungeonPalette;
   private wisps: THREE.Mesh[] = [];
   private spores: THREE.Sprite[] = [];
   private ambientLight!: THREE.AmbientLight;
   private moonLight!: THREE.DirectionalLight;
   private wispLights: THREE.PointLight[] = [];
+  /** Trees or rocks generated for the current procedural floor */
+  private obstacleGroup: THREE.Group | null = null;
+  /** A boss encounter's closing arena edge */
+  private arenaEdge: THREE.Mesh | null = null;
 
-  constructor(scene: THREE.Scene) {
+  constructor(scene: THREE.Scene, theme: DungeonTheme = 'forest') {
     this.scene = scene;
+    this.palette = DUNGEON_PALETTES[theme];
     this.group = new THREE.Group();
     this.group.name = 'dungeon-world';
 
     const batcher = new StaticBatcher();
 
     this.buildGround();
-    this.buildTrees(batcher);
+    if (this.palette.border === 'pillars') {
+      this.buildPillars(batcher);
+    } else {
+      this.buildTrees(batcher);
+    }
     this.buildRocks(batcher);
     this.buildLighting();
     this.buildSpores();
@@ -37,7 +128,7 @@ export class DungeonWorld {
   private buildGround() {
     const groundGeo = new THREE.CircleGeometry(40, 64);
 
-    // Vertex-colored dark forest floor: mulch, moss, dirt
+    const { base, noiseScale, detailScale } = this.palette.ground;
     const count = groundGeo.attributes.position.count;
     const colors = new Float32Array(count * 3);
     for (let i = 0; i < count; i++) {
@@ -45,13 +136,9 @@ export class DungeonWorld {
       const z = groundGeo.attributes.position.getY(i); // circle is XY before rotation
       const noise = Math.sin(x * 0.7 + 1.3) * Math.cos(z * 0.5 + 0.7) * 0.5 + 0.5;
       const noise2 = Math.sin(x * 2.3 + z * 1.9) * 0.5 + 0.5;
-      // Dark browns and greens — mossy forest floor
-      const r = 0.06 + noise * 0.06 + noise2 * 0.03;
-      const g = 0.08 + noise * 0.07 + noise2 * 0.04;
-      const b = 0.04 + noise * 0.03;
-      colors[i * 3] = r;
-      colors[i * 3 + 1] = g;
-      colors[i * 3 + 2] = b;
+      for (let c = 0; c < 3; c++) {
+        colors[i * 3 + c] = base[c] + noise * noiseScale[c] + noise2 * detailScale[c];
+      }
     }
     groundGeo.setAttribute('color', new THREE.BufferAttribute(colors, 3));
 
@@ -68,7 +155,7 @@ export class DungeonWorld {
     // Soft dark edge ring
     const edgeGeo = new THREE.RingGeometry(34, 40, 48);
     const edgeMat = new THREE.MeshStandardMaterial({
-      color: 0x050a05,
+      color: this.palette.edgeColor,
       roughness: 0.98,
       transparent: true,
       opacity: 0.7,
@@ -141,10 +228,48 @@ export class DungeonWorld {
     }
   }
 
+  // ─── Pillars & tombstones (ring around the arena) ─────────────────
+  private buildPillars(batcher: StaticBatcher) {
+    const stoneMat = new THREE.MeshStandardMaterial({ color: this.palette.rockColor, roughness: 0.9 });
+    const darkStoneMat = new THREE.MeshStandardMaterial({ color: 0x1e1e24, roughness: 0.95 });
+
+    const pillarCount = 14;
+    for (let i = 0; i < pillarCount; i++) {
+      const angle = (i / pillarCount) * Math.PI * 2 + (Math.random() - 0.5) * 0.15;
+      const radius = 22 + Math.random() * 4;
+      const x = Math.cos(angle) * radius;
+      const z = Math.sin(angle) * radius;
+
+      // Some columns have collapsed to stumps
+      const height = Math.random() > 0.3 ? 6 + Math.random() * 3 : 1.5 + Math.random() * 2;
+      const shaft = new THREE.Mesh(new THREE.CylinderGeometry(0.7, 0.8, height, 8), stoneMat);
+      shaft.position.set(x, height / 2, z);
+      shaft.castShadow = true;
+      batcher.addMergeable(shaft);
+
+      const plinth = new THREE.Mesh(new THREE.BoxGeometry(2, 0.5, 2), darkStoneMat);
+      plinth.position.set(x, 0.25, z);
+      plinth.rotation.y = -angle;
+      batcher.addMergeable(plinth);
+    }
+
+    // Tombstones scattered between the pillars
+    for (let i = 0; i < 16; i++) {
+      const angle = Math.random() * Math.PI * 2;
+      const radius = 14 + Math.random() * 6;
+      const h = 0.8 + Math.random() * 0.6;
+      const stone = new THREE.Mesh(new THREE.BoxGeometry(0.7, h, 0.18), stoneMat);
+      stone.position.set(Math.cos(angle) * radius, h / 2, Math.sin(angle) * radius);
+      stone.rotation.set((Math.random() - 0.5) * 0.25, -angle + Math.PI / 2, (Math.random() - 0.5) * 0.2);
+      stone.castShadow = true;
+      batcher.addMergeable(stone);
+    }
+  }
+
   // ─── Rocks / Boulders ─────────────────────────────────────────────
   private buildRocks(batcher: StaticBatcher) {
-    const rockMat = new THREE.MeshStandardMaterial({ color: 0x2a2a28, roughness: 0.92 });
-    const mossMat = new THREE.MeshStandardMaterial({ color: 0x1a3a1a, roughness: 0.9 });
+    const rockMat = new THREE.MeshStandardMaterial({ color: this.palette.rockColor, roughness: 0.92 });
+    const mossMat = new THREE.MeshStandardMaterial({ color: this.palette.mossColor, roughness: 0.9 });
 
     // Border rocks (near tree line)
     for (let i = 0; i < 10; i++) {
@@ -166,17 +291,12 @@ export class DungeonWorld {
     }
 
     // A few arena rocks (near center area for cover)
-    const arenaRockPositions = [
-      { x: -5, z: -3, s: 0.7 },
-      { x: 6, z: 2, s: 0.5 },
-      { x: 2, z: 7, s: 0.6 },
-    ];
-    for (const rp of arenaRockPositions) {
+    for (const rp of DUNGEON_ARENA_ROCKS) {
       const rock = new THREE.Mesh(
-        new THREE.DodecahedronGeometry(rp.s, 1),
+        new THREE.DodecahedronGeometry(rp.r, 1),
         mossMat,
       );
-      rock.position.set(rp.x, rp.s * 0.4, rp.z);
+      rock.position.set(rp.x, rp.r * 0.4, rp.z);
       rock.rotation.set(0.3, Math.random() * Math.PI, 0.2);
       rock.castShadow = true;
       batcher.addMergeable(rock);
@@ -185,12 +305,12 @@ export class DungeonWorld {
 
   // ─── Lighting (dark & mystical) ───────────────────────────────────
   private buildLighting() {
-    // Dim ambient — dark blue-green
-    this.ambientLight = new THREE.AmbientLight(0x0a1a15, 0.4);
+    // Dim ambient tinted by the theme
+    this.ambientLight = new THREE.AmbientLight(this.palette.ambientColor, 0.4);
     this.group.add(this.ambientLight);
 
     // Moonlight — pale blue directional from above
-    this.moonLight = new THREE.DirectionalLight(0x4466aa, 0.5);
+    this.moonLight = new THREE.DirectionalLight(this.palette.moonColor, 0.5);
     this.moonLight.position.set(5, 30, -10);
     this.moonLight.castShadow = true;
     this.moonLight.shadow.mapSize.width = 1024;
@@ -206,7 +326,7 @@ export class DungeonWorld {
     this.group.add(this.moonLight.target);
 
     // Will-o'-wisps — floating point lights
-    const wispColors = [0x22cc88, 0x44aaff, 0x88ff44];
+    const wispColors = this.palette.wispColors;
     const wispPositions = [
       new THREE.Vector3(-8, 2.5, -6),
       new THREE.Vector3(7, 3, 4),
@@ -245,7 +365,7 @@ export class DungeonWorld {
         map: sporeTexture,
         transparent: true,
         opacity: 0.3 + Math.random() * 0.3,
-        color: Math.random() > 0.5 ? 0xaaffaa : 0xccffdd,
+        color: this.palette.particleColors[Math.random() > 0.5 ? 0 : 1],
       });
       const sprite = new THREE.Sprite(mat);
       const scale = 0.15 + Math.random() * 0.2;
@@ -271,9 +391,10 @@ export class DungeonWorld {
     canvas.height = 32;
     const ctx = canvas.getContext('2d')!;
     const gradient = ctx.createRadialGradient(16, 16, 0, 16, 16, 16);
-    gradient.addColorStop(0, 'rgba(200,255,200,1)');
-    gradient.addColorStop(0.4, 'rgba(150,255,150,0.5)');
-    gradient.addColorStop(1, 'rgba(100,200,100,0)');
+    const [inner, mid, outer] = this.palette.particleGradient;
+    gradient.addColorStop(0, inner);
+    gradient.addColorStop(0.4, mid);
+    gradient.addColorStop(1, outer);
     ctx.fillStyle = gradient;
     ctx.fillRect(0, 0, 32, 32);
     const tex = new THREE.CanvasTexture(canvas);
@@ -283,29 +404,18 @@ export class DungeonWorld {
   // ─── Floor variation ──────────────────────────────────────────────
   setFloor(floorIndex: number, totalFloors: number, floorName: string, isBossFloor: boolean) {
     if (isBossFloor) {
-      // Reddish fog for boss
-      this.scene.fog = new THREE.FogExp2(0x1a0a0a, 0.04);
-      this.ambientLight.color.setHex(0x1a0a0a);
-      this.ambientLight.intensity = 0.3;
-      this.moonLight.color.setHex(0x884444);
-      this.moonLight.intensity = 0.6;
-      // Shift wisp colors to red/orange
-      this.wisps.forEach((w, i) => {
-        (w.material as THREE.MeshBasicMaterial).color.setHex(0xff4422);
-        this.wispLights[i].color.setHex(0xff4422);
-        this.wispLights[i].intensity = 2.0;
-      });
+      this.setBossAmbience();
     } else {
       // Gradual intensity shift per floor — deeper = darker
       const progress = totalFloors > 1 ? floorIndex / (totalFloors - 1) : 0;
       const fogDensity = 0.03 + progress * 0.015;
-      this.scene.fog = new THREE.FogExp2(0x0a1a0a, fogDensity);
-      this.ambientLight.color.setHex(0x0a1a15);
+      this.scene.fog = new THREE.FogExp2(this.palette.fogColor, fogDensity);
+      this.ambientLight.color.setHex(this.palette.ambientColor);
       this.ambientLight.intensity = 0.4 - progress * 0.1;
-      this.moonLight.color.setHex(0x4466aa);
+      this.moonLight.color.setHex(this.palette.moonColor);
       this.moonLight.intensity = 0.5 - progress * 0.15;
       // Reset wisp colors
-      const wispColors = [0x22cc88, 0x44aaff, 0x88ff44];
+      const wispColors = this.palette.wispColors;
       this.wisps.forEach((w, i) => {
         (w.material as THREE.MeshBasicMaterial).color.setHex(wispColors[i]);
         this.wispLights[i].color.setHex(wispColors[i]);
@@ -314,9 +424,85 @@ export class DungeonWorld {
     }
   }
 
-  // ─── Boss telegraph (red circle on ground) ──────────────────────
-  showTelegraph(x: number, z: number, radius: number, duration: number) {
-    const geo = new THREE.CircleGeometry(radius, 32);
+  /** Reddish fog and wisps for the boss floor before the fight escalates */
+  private setBossAmbience() {
+    this.scene.fog = new THREE.FogExp2(0x1a0a0a, 0.04);
+    this.ambientLight.color.setHex(0x1a0a0a);
+    this.ambientLight.intensity = 0.3;
+    this.moonLight.color.setHex(0x884444);
+    this.moonLight.intensity = 0.6;
+    // Shift wisp colors to red/orange
+    this.wisps.forEach((w, i) => {
+      (w.material as THREE.MeshBasicMaterial).color.setHex(0xff4422);
+      this.wispLights[i].color.setHex(0xff4422);
+      this.wispLights[i].intensity = 2.0;
+    });
+  }
+
+  /**
+   * Replace the floor's generated cover with obstacles from the shared layout
+   * generator. Only position, radius and rotation come from the layout, so the
+   * meshes line up with what the server placed.
+   */
+  setLayout(obstacles: FloorObstacle[]) {
+    if (this.obstacleGroup) {
+      this.disposeObject(this.obstacleGroup);
+      this.group.remove(this.obstacleGroup);
+      this.obstacleGroup = null;
+    }
+    if (!obstacles.length) return;
+
+    const group = new THREE.Group();
+    group.name = 'floor-obstacles';
+    const batcher = new StaticBatcher();
+    const stoneMat = new THREE.MeshStandardMaterial({ color: this.palette.rockColor, roughness: 0.92 });
+    const mossMat = new THREE.MeshStandardMaterial({ color: this.palette.mossColor, roughness: 0.9 });
+    const trunkMat = new THREE.MeshStandardMaterial({ color: 0x1a0e08, roughness: 0.95 });
+    const leafMat = new THREE.MeshStandardMaterial({ color: 0x0e3510, roughness: 0.9 });
+
+    for (const o of obstacles) {
+      if (this.palette.border === 'trees' && o.radius > 0.8) {
+        // Large forest obstacles are trees, small ones mossy boulders
+        const height = 3 + o.radius * 3;
+        const trunk = new THREE.Mesh(new THREE.CylinderGeometry(o.radius * 0.35, o.radius * 0.5, height, 6), trunkMat);
+        trunk.position.set(o.x, height / 2, o.z);
+        trunk.castShadow = true;
+        batcher.addMergeable(trunk);
+        const canopy = new THREE.Mesh(new THREE.SphereGeometry(o.radius * 1.8, 8, 6), leafMat);
+        canopy.position.set(o.x, height + o.radius * 0.6, o.z);
+        canopy.castShadow = true;
+        batcher.addMergeable(canopy);
+      } else if (this.palette.border === 'pillars' && o.radius > 0.8) {
+        // Broken column stump
+        const height = 1 + o.radius * 1.5;
+        const stump = new THREE.Mesh(new THREE.CylinderGeometry(o.radius * 0.8, o.radius, height, 8), stoneMat);
+        stump.position.set(o.x, height / 2, o.z);
+        stump.rotation.y = o.rotation;
+        stump.castShadow = true;
+        batcher.addMergeable(stump);
+      } else {
+        const rock = new THREE.Mesh(new THREE.DodecahedronGeometry(o.radius, 0), o.rotation > Math.PI ? stoneMat : mossMat);
+        rock.position.set(o.x, o.radius * 0.4, o.z);
+        rock.rotation.set(0.3, o.rotation, 0.2);
+        rock.castShadow = true;
+        batcher.addMergeable(rock);
+      }
+    }
+
+    batcher.flush(group);
+    this.group.add(group);
+    this.obstacleGroup = group;
+  }
+
+  /** Initial fog when entering, before the first floor_info arrives */
+  get fogColor(): number {
+    return this.palette.fogColor;
+  }
+
+  // ─── Telegraphs and ground zones ────────────────────────────────
+  /** A shape about to be hit, fading in until it lands */
+  showTelegraph(x: number, z: number, facing: number, shape: TelegraphShape, duration: number) {
+    const geo = telegraphGeometry(shape);
     const mat = new THREE.MeshBasicMaterial({
       color: 0xff0000,
       transparent: true,
@@ -324,17 +510,17 @@ export class DungeonWorld {
       side: THREE.DoubleSide,
       depthWrite: false,
     });
-    const circle = new THREE.Mesh(geo, mat);
-    circle.rotation.x = -Math.PI / 2;
-    circle.position.set(x, 0.05, z);
-    this.group.add(circle);
+    const mesh = new THREE.Mesh(geo, mat);
+    mesh.rotation.y = facing;
+    mesh.position.set(x, 0.05, z);
+    this.group.add(mesh);
 
     // Animate opacity up
     const startTime = performance.now();
     const animate = () => {
       const elapsed = (performance.now() - startTime) / 1000;
       if (elapsed >= duration) {
-        this.group.remove(circle);
+        this.group.remove(mesh);
         geo.dispose();
         mat.dispose();
         return;
@@ -345,6 +531,36 @@ export class DungeonWorld {
     requestAnimationFrame(animate);
   }
 
+  /** A burning pool or poison cloud that flickers until it goes out */
+  showGroundHazard(x: number, z: number, facing: number, shape: TelegraphShape, duration: number, kind: GroundZoneKind) {
+    const geo = telegraphGeometry(shape);
+    const mat = new THREE.MeshBasicMaterial({
+      color: GROUND_ZONE_COLORS[kind],
+      transparent: true,
+      opacity: 0.5,
+      side: THREE.DoubleSide,
+      depthWrite: false,
+    });
+    const pool = new THREE.Mesh(geo, mat);
+    pool.rotation.y = facing;
+    pool.position.set(x, 0.06, z);
+    this.group.add(pool);
+
+    const startTime = performance.now();
+    const animate = () => {
+      const elapsed = (performance.now() - startTime) / 1000;
+      if (elapsed >= duration) {
+        this.group.remove(pool);
+        geo.dispose();
+        mat.dispose();
+        return;
+      }
+      mat.opacity = kind === 'fire' ? 0.4 + Math.sin(elapsed * 12) * 0.1 : 0.35 + Math.sin(elapsed * 3) * 0.08;
+      requestAnimationFrame(animate);
+    };
+    requestAnimationFrame(animate);
+  }
+
   // ─── Boss enrage visual ────────────────────────────────────────
   setBossEnrage(phase: number) {
     if (phase >= 2) {
@@ -371,7 +587,40 @@ export class DungeonWorld {
         this.wispLights[i].color.setHex(0xff6622);
         this.wispLights[i].intensity = 2.0;
       });
+    } else {
+      // The fight reset
+      this.setBossAmbience();
+    }
+  }
+
+  // ─── Closing arena edge ─────────────────────────────────────────
+  /** Burning band outside `radius`; 0 removes it */
+  setArenaEdge(radius: number) {
+    if (radius <= 0) {
+      if (this.arenaEdge) {
+        this.group.remove(this.arenaEdge);
+        this.arenaEdge.geometry.dispose();
+        (this.arenaEdge.material as THREE.Material).dispose();
+        this.arenaEdge = null;
+      }
+      return;
+    }
+    if (!this.arenaEdge) {
+      // Unit inner radius, scaled to the synced radius each update
+      const geo = new THREE.RingGeometry(1, 1.6, 64);
+      const mat = new THREE.MeshBasicMaterial({
+        color: 0xff3311,
+        transparent: true,
+        opacity: 0.35,
+        side: THREE.DoubleSide,
+        depthWrite: false,
+      });
+      this.arenaEdge = new THREE.Mesh(geo, mat);
+      this.arenaEdge.rotation.x = -Math.PI / 2;
+      this.arenaEdge.position.y = 0.04;
+      this.group.add(this.arenaEdge);
     }
+    this.arenaEdge.scale.setScalar(radius);
   }
 
   // ─── Animation loop ───────────────────────────────────────────────
@@ -407,8 +656,18 @@ export class DungeonWorld {
 
   // ─── Cleanup ──────────────────────────────────────────────────────
   dispose(scene: THREE.Scene) {
-    // Traverse and dispose all geometries/materials
-    this.group.traverse((obj) => {
+    this.disposeObject(this.group);
+    scene.remove(this.group);
+    this.wisps = [];
+    this.spores = [];
+    this.wispLights = [];
+    this.obstacleGroup = null;
+    this.arenaEdge = null;
+  }
+
+  /** Traverse and dispose all geometries/materials */
+  private disposeObject(root: THREE.Object3D) {
+    root.traverse((obj) => {
       if (obj instanceof THREE.Mesh) {
         obj.geometry.dispose();
         if (Array.isArray(obj.material)) {
@@ -422,9 +681,5 @@ export class DungeonWorld {
         obj.material.dispose();
       }
     });
-    scene.remove(this.group);
-    this.wisps = [];
-    this.spores = [];
-    this.wispLights = [];
   }
 }
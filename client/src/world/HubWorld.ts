@@ -1,4 +1,7 @@
 import * as THREE from 'three';
+import {
+  HUB_PVP_ARENA_POSITION, HUB_LANTERN_POSITIONS, HUB_NPC_POSITIONS, hubPvpPillars, hubPvpGatePosts, hubRocks,
+} from '@saab/shared';
 import { downscaleTextures } from '../utils/downscaleTextures';
 import { getGLTFLoader } from '../utils/getGLTFLoader';
 import { StaticBatcher } from '../utils/StaticBatcher';
@@ -93,24 +96,15 @@ function applyBoneWeathering(geo: THREE.BufferGeometry, params: {
   geo.setAttribute('color', new THREE.BufferAttribute(colors, 3));
 }
 
-export interface WorldCollider {
-  x: number;
-  z: number;
-  r: number;
-}
-
 export class HubWorld {
   public group: THREE.Group;
 
   // Interactive locations (for proximity checks)
   public shopPosition = new THREE.Vector3(-27, 0, -12);
-  public pvpArenaPosition = new THREE.Vector3(20, 0, -12);
+  public pvpArenaPosition = new THREE.Vector3(HUB_PVP_ARENA_POSITION.x, 0, HUB_PVP_ARENA_POSITION.z);
   public cavePosition = new THREE.Vector3(0, 0, -35);
   public npcPositions: { name: string; npcId: string; position: THREE.Vector3; dialog: string[] }[] = [];
 
-  // Circle colliders for world objects (rocks, lanterns, pillars, NPCs)
-  public colliders: WorldCollider[] = [];
-
   // Shared materials for batching (hoisted out of loops)
   private bowlOuterMat = new THREE.MeshStandardMaterial({ color: 0x443322, roughness: 0.8, metalness: 0.3 });
   private bowlInnerMat = new THREE.MeshStandardMaterial({ color: 0x111111 });
@@ -151,7 +145,7 @@ export class HubWorld {
     this.buildCaveEntrance();
     this.buildNPCs();
     this.buildDecorations(batcher);
-    // this.buildRocks(batcher);
+    this.buildRocks(batcher);
     this.buildRiver();
 
     this.buildLighting();
@@ -678,15 +672,11 @@ export class HubWorld {
 
     // Back curved wall - hoisted geometry, instanced
     const pillarGeo = new THREE.CylinderGeometry(0.5, 0.6, 6, 8);
-    for (let i = -3; i <= 3; i++) {
-      const angle = (i / 3) * 0.8;
-      const px = pos.x + Math.sin(angle) * 6;
-      const pz = pos.z - Math.cos(angle) * 6;
+    for (const { x, z } of hubPvpPillars()) {
       const pillar = new THREE.Mesh(pillarGeo, wallMat);
-      pillar.position.set(px, 3, pz);
+      pillar.position.set(x, 3, z);
       pillar.castShadow = true;
       batcher.addInstanceable('pvp-pillar', pillar);
-      this.colliders.push({ x: px, z: pz, r: 0.6 });
     }
 
     // Arena floor
@@ -700,17 +690,12 @@ export class HubWorld {
 
     // Gate entrance
     const gateMat = new THREE.MeshStandardMaterial({ color: 0x444444, metalness: 0.6 });
-    const gateLeft = new THREE.Mesh(new THREE.BoxGeometry(0.6, 4, 0.6), gateMat);
-    gateLeft.position.set(pos.x - 1.5, 2, pos.z + 5);
-    gateLeft.castShadow = true;
-    batcher.addMergeable(gateLeft);
-    this.colliders.push({ x: pos.x - 1.5, z: pos.z + 5, r: 0.4 });
-
-    const gateRight = new THREE.Mesh(new THREE.BoxGeometry(0.6, 4, 0.6), gateMat);
-    gateRight.position.set(pos.x + 1.5, 2, pos.z + 5);
-    gateRight.castShadow = true;
-    batcher.addMergeable(gateRight);
-    this.colliders.push({ x: pos.x + 1.5, z: pos.z + 5, r: 0.4 });
+    for (const post of hubPvpGatePosts()) {
+      const gatePost = new THREE.Mesh(new THREE.BoxGeometry(0.6, 4, 0.6), gateMat);
+      gatePost.position.set(post.x, 2, post.z);
+      gatePost.castShadow = true;
+      batcher.addMergeable(gatePost);
+    }
 
     const gateTop = new THREE.Mesh(new THREE.BoxGeometry(3.6, 0.6, 0.6), gateMat);
     gateTop.position.set(pos.x, 4.3, pos.z + 5);
@@ -905,27 +890,29 @@ export class HubWorld {
 
 
   private buildNPCs() {
-    const npcs: { name: string; position: THREE.Vector3; color: number; dialog: string[]; isScout?: boolean; isBattlemaster?: boolean; isElder?: boolean }[] = [
+    // Positions come from HUB_NPC_POSITIONS, which the hub's collision world shares
+    const npcs: { name: string; color: number; dialog: string[]; isScout?: boolean; isBattlemaster?: boolean; isElder?: boolean }[] = [
     ];
 
     for (const npc of npcs) {
+      const [x, z] = HUB_NPC_POSITIONS[npc.name];
+      const position = new THREE.Vector3(x, 0, z);
       if (npc.isScout) {
-        this.createScoutMesh(npc.name, npc.position);
+        this.createScoutMesh(npc.name, position);
       } else if (npc.isBattlemaster) {
-        this.createBattlemasterMesh(npc.name, npc.position);
+        this.createBattlemasterMesh(npc.name, position);
       } else if (npc.isElder) {
-        this.createElderMesh(npc.name, npc.position);
+        this.createElderMesh(npc.name, position);
       } else {
-        this.createNPCMesh(npc.name, npc.position, npc.color);
+        this.createNPCMesh(npc.name, position, npc.color);
       }
       const npcId = npc.name.toLowerCase().replace(/\s+/g, '_');
       this.npcPositions.push({
         name: npc.name,
         npcId,
-        position: npc.position,
+        position,
         dialog: npc.dialog,
       });
-      this.colliders.push({ x: npc.position.x, z: npc.position.z, r: 0.5 });
     }
   }
 
@@ -1183,21 +1170,8 @@ export class HubWorld {
 
   private buildDecorations(batcher: StaticBatcher) {
     // Lanterns — strategically placed around the hub
-    const lanternPositions = [
-      // Spawn boundary corners (4 symmetrical, at distance ~12)
-      [8.5, 8.5], [-8.5, 8.5], [8.5, -8.5], [-8.5, -8.5],
-      // Path to forest portal
-      [1.5, -30], [-1.5, -30], [1.5, -45], [-1.5, -45],
-      // Near shop entrance
-      [-16, 9], [-20, 4],
-      // Near PvP arena entrance
-      [27, -14], [27, -22],
-      // Near NPCs — Elder Mika, Scout Aino
-      [14, 7], [7, -38],
-    ];
-    for (const [x, z] of lanternPositions) {
+    for (const [x, z] of HUB_LANTERN_POSITIONS) {
       this.createLantern(x, z, batcher);
-      this.colliders.push({ x, z, r: 0.3 });
     }
 
   }
@@ -1321,50 +1295,6 @@ export class HubWorld {
   }
 
   private buildRocks(batcher: StaticBatcher) {
-    // Seeded random for deterministic placement
-    let seed = 42;
-    const rand = () => { seed = (seed * 16807 + 0) % 2147483647; return (seed - 1) / 2147483646; };
-
-    // Areas to avoid: fountain (0,0 r4), paths, shop (-27,-12), pvp (33,-18), portal (0,-55), spawn (0,16)
-    const isOnPath = (x: number, z: number): boolean => {
-      // North path to portal
-      if (Math.abs(x) < 2.5 && z < 0 && z > -60) return true;
-      // West to shop (curved path — sample 10 points along curve)
-      const shopPts = [
-        [0, 0], [-6, -0.3], [-12, -0.8], [-18, -1.5],
-        [-24, -2.5], [-30, -3.5], [-33, -5],
-        [-35, -7], [-35, -9.5], [-35, -12],
-      ];
-      for (const sp of shopPts) {
-        if (Math.sqrt((x - sp[0]) ** 2 + (z - sp[1]) ** 2) < 2.5) return true;
-      }
-      // East to pvp
-      const t2 = Math.max(0, Math.min(1, (x * 38 + z * -18) / (1444 + 324)));
-      const px2 = 38 * t2, pz2 = -18 * t2;
-      if (Math.sqrt((x - px2) ** 2 + (z - pz2) ** 2) < 2.5) return true;
-      return false;
-    };
-
-    const isBlocked = (x: number, z: number): boolean => {
-      const d = Math.sqrt(x * x + z * z);
-      if (d < 13) return true; // fountain/plaza + spawn area
-      if (d > 75) return true; // too far out
-      if (isOnPath(x, z)) return true;
-      // Shop area
-      if (x > -39 && x < -31 && z > -16 && z < -8) return true;
-      // PvP arena
-      if (x > 28 && x < 39 && z > -23 && z < -13) return true;
-      // Portal area
-      if (Math.abs(x) < 5 && z < -48 && z > -62) return true;
-      // Spawn area
-      if (Math.abs(x) < 4 && z > 14 && z < 24) return true;
-      // NPCs
-      if (Math.sqrt((x - 12) ** 2 + (z - 7) ** 2) < 3) return true;
-      if (Math.sqrt((x - 5) ** 2 + (z + 40) ** 2) < 3) return true;
-      if (Math.sqrt((x + 8) ** 2 + (z + 8) ** 2) < 3) return true;
-      return false;
-    };
-
     // Create displaced rock geometry for realistic shape
     const makeRockGeo = (baseSize: number): THREE.BufferGeometry => {
       // Start with dodecahedron for organic shape
@@ -1408,75 +1338,20 @@ export class HubWorld {
       metalness: 0.02,
     });
 
-    // Place individual rocks — scattered naturally
-    const rockConfigs: { x: number; z: number; size: number; rotY: number; scaleXZ: number }[] = [];
-
-    // Generate ~25 scattered rocks
-    let attempts = 0;
-    while (rockConfigs.length < 25 && attempts < 200) {
-      attempts++;
-      const angle = rand() * Math.PI * 2;
-      const dist = 8 + rand() * 38;
-      const x = Math.cos(angle) * dist;
-      const z = Math.sin(angle) * dist;
-
-      if (isBlocked(x, z)) continue;
-
-      // Check spacing from other rocks
-      let tooClose = false;
-      for (const r of rockConfigs) {
-        if (Math.sqrt((x - r.x) ** 2 + (z - r.z) ** 2) < 2.5) { tooClose = true; break; }
-      }
-      if (tooClose) continue;
-
-      const size = 0.2 + rand() * 0.6;
-      rockConfigs.push({
-        x, z, size,
-        rotY: rand() * Math.PI * 2,
-        scaleXZ: 0.8 + rand() * 0.4,
-      });
-    }
-
-    // Also add a few small clusters (2-3 rocks close together)
-    for (let c = 0; c < 5; c++) {
-      const angle = rand() * Math.PI * 2;
-      const dist = 12 + rand() * 30;
-      const cx = Math.cos(angle) * dist;
-      const cz = Math.sin(angle) * dist;
-
-      if (isBlocked(cx, cz)) continue;
-
-      for (let j = 0; j < 2 + Math.floor(rand() * 2); j++) {
-        const ox = cx + (rand() - 0.5) * 1.5;
-        const oz = cz + (rand() - 0.5) * 1.5;
-        if (isBlocked(ox, oz)) continue;
-
-        rockConfigs.push({
-          x: ox, z: oz,
-          size: 0.15 + rand() * 0.3,
-          rotY: rand() * Math.PI * 2,
-          scaleXZ: 0.8 + rand() * 0.4,
-        });
-      }
-    }
-
-    // Build meshes and register colliders
-    for (const cfg of rockConfigs) {
+    // Build meshes; the same layout is in the hub's collision world
+    for (const cfg of hubRocks()) {
       const geo = makeRockGeo(cfg.size);
       const rock = new THREE.Mesh(geo, rockMat);
       // Sink partially into ground
       const sinkDepth = cfg.size * 0.3;
       rock.position.set(cfg.x, cfg.size * 0.65 - sinkDepth, cfg.z);
       rock.rotation.y = cfg.rotY;
-      rock.rotation.x = (rand() - 0.5) * 0.2; // slight tilt
-      rock.rotation.z = (rand() - 0.5) * 0.15;
+      rock.rotation.x = cfg.tiltX; // slight tilt
+      rock.rotation.z = cfg.tiltZ;
       rock.scale.set(cfg.scaleXZ, 1, cfg.scaleXZ);
       rock.castShadow = true;
       rock.receiveShadow = true;
       batcher.addMergeable(rock);
-
-      // Register collision - use size * scaleXZ as radius
-      this.colliders.push({ x: cfg.x, z: cfg.z, r: cfg.size * cfg.scaleXZ });
     }
   }
 
@@ -0,0 +1,105 @@
+import { ELITE_SPAWN_CHANCE, CHAMPION_CHANCE } from './game.js';
+
+export type MonsterRank = 'normal' | 'elite' | 'champion';
+
+/** Multipliers a monster's rank applies on top of MonsterDef and difficulty */
+export interface MonsterRankDef {
+  rank: MonsterRank;
+  /** Leads the display name, e.g. "Champion Vampiric Forest Wolf"; empty for no title */
+  title: string;
+  hpMultiplier: number;
+  damageMultiplier: number;
+  xpMultiplier: number;
+  /** Distinct affixes rolled at spawn */
+  affixCount: number;
+  /** Loot rarity is rolled this many tiers above the loot table entry's range, capped at legendary */
+  lootRarityBonus: number;
+}
+
+export const MONSTER_RANKS: Record<MonsterRank, MonsterRankDef> = {
+  normal: { rank: 'normal', title: '', hpMultiplier: 1, damageMultiplier: 1, xpMultiplier: 1, affixCount: 0, lootRarityBonus: 0 },
+  elite: { rank: 'elite', title: '', hpMultiplier: 2, damageMultiplier: 1.5, xpMultiplier: 2, affixCount: 1, lootRarityBonus: 1 },
+  champion: { rank: 'champion', title: 'Champion', hpMultiplier: 3.5, damageMultiplier: 1.8, xpMultiplier: 4, affixCount: 2, lootRarityBonus: 2 },
+};
+
+export type MonsterAffixId = 'vampiric' | 'thorns' | 'frenzied' | 'shielding' | 'teleporting' | 'molten';
+
+/**
+ * A trait an elite or champion rolls at spawn. `value` is the affix's main
+ * knob; its meaning is given in each description.
+ */
+export interface MonsterAffixDef {
+  id: MonsterAffixId;
+  /** Added before the monster's name */
+  prefix: string;
+  description: string;
+  /** Aura color */
+  color: string;
+  value: number;
+  cooldown?: number;
+  duration?: number;
+  radius?: number;
+}
+
+export const MONSTER_AFFIXES: Record<MonsterAffixId, MonsterAffixDef> = {
+  vampiric: {
+    id: 'vampiric', prefix: 'Vampiric', color: '#cc2244',
+    description: 'Heals for 40% of the damage its attacks deal',
+    value: 0.4,
+  },
+  thorns: {
+    id: 'thorns', prefix: 'Thorned', color: '#88aa33',
+    description: 'Reflects 25% of the damage it takes back at the attacker',
+    value: 0.25,
+  },
+  frenzied: {
+    id: 'frenzied', prefix: 'Frenzied', color: '#ff8800',
+    description: 'Attacks and moves 40% faster',
+    value: 1.4,
+  },
+  shielding: {
+    id: 'shielding', prefix: 'Shielding', color: '#44aaff',
+    description: 'Every 10 seconds in a fight, raises a barrier that blocks 75% of incoming damage for 3 seconds',
+    value: 0.75, cooldown: 10, duration: 3,
+  },
+  teleporting: {
+    id: 'teleporting', prefix: 'Teleporting', color: '#aa44ff',
+    description: 'Blinks next to its target when it is more than 6 units away, every 8 seconds',
+    value: 6, cooldown: 8,
+  },
+  molten: {
+    id: 'molten', prefix: 'Molten', color: '#ff3300',
+    description: 'Leaves a pool of fire on death that burns for 12 damage a second',
+    value: 12, duration: 5, radius: 2.5,
+  },
+};
+
+export const MONSTER_AFFIX_IDS = Object.keys(MONSTER_AFFIXES) as MonsterAffixId[];
+
+export function isMonsterAffixId(id: string): id is MonsterAffixId {
+  return Object.hasOwn(MONSTER_AFFIXES, id);
+}
+
+/**
+ * Rank for a freshly spawned monster. Spawns marked elite always are; any
+ * other has a small chance to be. Either kind may be promoted to champion.
+ */
+export function rollMonsterRank(markedElite: boolean, rng: () => number = Math.random): MonsterRank {
+  if (!markedElite && rng() >= ELITE_SPAWN_CHANCE) return 'normal';
+  return rng() < CHAMPION_CHANCE ? 'champion' : 'elite';
+}
+
+/** `count` distinct affixes, chosen uniformly */
+export function rollMonsterAffixes(count: number, rng: () => number = Math.random): MonsterAffixId[] {
+  const pool = [...MONSTER_AFFIX_IDS];
+  const picked: MonsterAffixId[] = [];
+  while (picked.length < count && pool.length) {
+    picked.push(pool.splice(Math.floor(rng() * pool.length), 1)[0]);
+  }
+  return picked;
+}
+
+/** The base name with the rank title and affix prefixes in front */
+export function monsterDisplayName(name: string, rank: MonsterRank, affixes: readonly MonsterAffixId[]): string {
+  return [MONSTER_RANKS[rank].title, ...affixes.map((id) => MONSTER_AFFIXES[id].prefix), name].filter(Boolean).join(' ');
+}
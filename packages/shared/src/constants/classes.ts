@@ -13,6 +13,7 @@ export const CLASS_DEFS: Record<CharacterClassId, ClassDef> = {
     color: '#cc3333',
     maxHpBase: 120,
     maxManaBase: 30,
+    threatMultiplier: 1.5,
   },
   mage: {
     id: 'mage',
@@ -26,6 +27,7 @@ export const CLASS_DEFS: Record<CharacterClassId, ClassDef> = {
     color: '#4488ff',
     maxHpBase: 80,
     maxManaBase: 80,
+    threatMultiplier: 1,
   },
   ranger: {
     id: 'ranger',
@@ -39,6 +41,7 @@ export const CLASS_DEFS: Record<CharacterClassId, ClassDef> = {
     color: '#44aa44',
     maxHpBase: 100,
     maxManaBase: 50,
+    threatMultiplier: 0.9,
   },
   rogue: {
     id: 'rogue',
@@ -52,6 +55,7 @@ export const CLASS_DEFS: Record<CharacterClassId, ClassDef> = {
     color: '#aa44cc',
     maxHpBase: 90,
     maxManaBase: 50,
+    threatMultiplier: 0.8,
   },
 };
 
@@ -0,0 +1,56 @@
+/** Multipliers a dungeon difficulty applies on top of MonsterDef and loot tables */
+export interface DifficultyDef {
+  level: number;
+  name: string;
+  hpMultiplier: number;
+  damageMultiplier: number;
+  armorMultiplier: number;
+  xpMultiplier: number;
+  goldMultiplier: number;
+  /** Extra rarity rolls per loot drop, best one kept; fractions are a chance of one more */
+  rarityRolls: number;
+}
+
+/** Named difficulties; levels above these are numbered Nightmare tiers */
+const BASE_DIFFICULTIES: DifficultyDef[] = [
+  { level: 0, name: 'Normal', hpMultiplier: 1, damageMultiplier: 1, armorMultiplier: 1, xpMultiplier: 1, goldMultiplier: 1, rarityRolls: 0 },
+  { level: 1, name: 'Hard', hpMultiplier: 1.6, damageMultiplier: 1.3, armorMultiplier: 1.2, xpMultiplier: 1.5, goldMultiplier: 1.5, rarityRolls: 0.5 },
+  { level: 2, name: 'Nightmare', hpMultiplier: 2.5, damageMultiplier: 1.7, armorMultiplier: 1.5, xpMultiplier: 2.2, goldMultiplier: 2.2, rarityRolls: 1 },
+];
+
+// Each numbered tier past Nightmare compounds these on the previous tier
+const TIER_STEP = { hp: 1.25, damage: 1.15, armor: 1.1, xp: 1.15, gold: 1.15, rarityRolls: 0.25 };
+
+export const DEFAULT_DIFFICULTY = 0;
+export const MAX_DIFFICULTY = 12; // Nightmare 10
+
+/** Extra monster HP per player beyond the first, applied when a floor starts */
+export const PARTY_HP_SCALING = 0.5;
+
+export function getDifficulty(level: number): DifficultyDef {
+  const clamped = Math.max(0, Math.min(MAX_DIFFICULTY, Math.floor(level)));
+  if (clamped < BASE_DIFFICULTIES.length) return BASE_DIFFICULTIES[clamped];
+
+  const top = BASE_DIFFICULTIES[BASE_DIFFICULTIES.length - 1];
+  const steps = clamped - top.level;
+  const round = (n: number) => Math.round(n * 100) / 100;
+  return {
+    level: clamped,
+    name: `Nightmare ${steps + 1}`,
+    hpMultiplier: round(top.hpMultiplier * TIER_STEP.hp ** steps),
+    damageMultiplier: round(top.damageMultiplier * TIER_STEP.damage ** steps),
+    armorMultiplier: round(top.armorMultiplier * TIER_STEP.armor ** steps),
+    xpMultiplier: round(top.xpMultiplier * TIER_STEP.xp ** steps),
+    goldMultiplier: round(top.goldMultiplier * TIER_STEP.gold ** steps),
+    rarityRolls: top.rarityRolls + steps * TIER_STEP.rarityRolls,
+  };
+}
+
+export function isValidDifficulty(level: unknown): level is number {
+  return Number.isInteger(level) && (level as number) >= 0 && (level as number) <= MAX_DIFFICULTY;
+}
+
+/** Monster HP multiplier for a floor started with `partySize` players */
+export function partyHpMultiplier(partySize: number): number {
+  return 1 + PARTY_HP_SCALING * Math.max(0, partySize - 1);
+}
@@ -1,3 +1,5 @@
+import type { Rarity } from '../types/inventory.js';
+
 // Tick rates
 export const HUB_SYNC_RATE = 5; // Hz
 export const DUNGEON_SYNC_RATE = 20; // Hz
@@ -7,6 +9,78 @@ export const CLIENT_INPUT_RATE = 20; // Hz
 export const HUB_MAX_PLAYERS = 50;
 export const DUNGEON_MAX_PLAYERS = 4;
 
+// Reconnection
+export const RECONNECT_GRACE_SECONDS = 30; // dungeon keeps a dropped player this long
+export const RECONNECT_RETRY_INTERVAL = 2; // seconds between client reconnect attempts
+export const KICKED_CLOSE_CODE = 4001; // room close code for admin kicks — clients must not reconnect
+
+// Dungeon lobbies
+export const INVITE_CODE_LENGTH = 6;
+export const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no 0/O or 1/I to misread
+export const PUBLIC_MATCH_LEVELS_BELOW = 2; // public groups admit players this far under a dungeon's recommended level
+export const PUBLIC_MATCH_LEVELS_ABOVE = 8; // ...and this far over it, so high levels can't carry strangers
+export const READY_CHECK_SECONDS = 20; // every living player must confirm the next floor within this
+
+// Collision and pathing
+export const PLAYER_RADIUS = 0.3;
+export const MONSTER_RADIUS = 0.5;
+export const NAV_CELL_SIZE = 0.5; // monster path grid resolution, world units
+export const PATH_REPLAN_SECONDS = 0.5; // a chasing monster re-plans at most this often
+export const PATH_REPLAN_DISTANCE = 1.5; // ...or sooner when its goal moved this far
+
+// Monster behaviors
+export const PATROL_SPEED_FACTOR = 0.5; // patrolling monsters walk at this fraction of their speed
+export const RETREAT_STEP = 4; // fleeing and kiting monsters head for a point this far away from the target
+export const FLANK_TOLERANCE = 1; // a flanker this close to its spot behind the target starts attacking
+export const HELP_CALL_THREAT = 20; // least threat a called ally starts with, so it lasts the run over before decaying
+
+// Dungeon floors
+export const DUNGEON_ARENA_RADIUS = 21; // inside the border ring of trees or pillars
+export const DUNGEON_PLAYER_SPAWN = { x: 0, z: -8 }; // where players stand when a floor starts
+export const PROCEDURAL_SPAWN_CLEARANCE = 8; // generated packs keep this far from the player spawn
+
+// Elites and champions (rank multipliers and affixes are in constants/affixes.ts)
+export const ELITE_SPAWN_CHANCE = 0.05; // a spawn not marked elite still rolls elite this often
+export const CHAMPION_CHANCE = 0.2; // an elite is promoted to champion this often
+
+// Boss encounters (scripts are content, see types/encounter.ts)
+export const BOSS_YELL_SECONDS = 5; // how long a boss announcement stays on screen
+export const AOE_TELEGRAPH_SECONDS = 1.5; // warning before an aoe ability without its own telegraphDelay lands
+
+// Death and revive
+export const DOWNED_BLEEDOUT_SECONDS = 30; // a downed player dies if nobody revives them in time
+export const REVIVE_CHANNEL_SECONDS = 3;
+export const REVIVE_RANGE = 2.5;
+export const REVIVE_HP_FRACTION = 0.3; // of max HP, for revives and for the fallen rejoining on a new floor
+export const SOLO_RESPAWN_SECONDS = 5;
+export const DEATH_XP_PENALTY = 0.1; // fraction of the current level's XP requirement lost on a solo respawn
+export const PARTY_WIPE_RETURN_SECONDS = 8; // a wiped party is sent back to the hub after this delay
+
+// Kill credit
+export const XP_SHARE_RANGE = 30; // living party members this close to a kill share its XP
+export const PARTY_XP_BONUS = 0.1; // the XP pool grows 10% per credited member beyond the first
+export const HEALING_CONTRIBUTION_WEIGHT = 1; // healing counts this much toward each engaged monster, per HP
+
+// Threat
+export const HEALING_THREAT_MULTIPLIER = 0.5; // healing threat per HP, split across the monsters engaged with the party
+export const AGGRO_OVERTAKE_MELEE = 1.1; // a challenger in melee range pulls aggro past 110% of the target's threat
+export const AGGRO_OVERTAKE_RANGED = 1.3; // ...and from further away past 130%
+export const AGGRO_MELEE_RANGE = 4; // how close to a monster counts as melee for pulling aggro
+export const PROXIMITY_PULL_THREAT = 1; // a monster nobody has hit yet picks up whoever walks into its aggro range
+export const THREAT_DECAY_PER_SECOND = 0.5; // fraction of threat lost each second while out of aggro range
+export const THREAT_FORGET_BELOW = 1; // threat this low is dropped from the table
+export const TAUNT_RADIUS = 8;
+export const THREAT_SYNC_SECONDS = 0.5; // how often threat tables are sent for the threat meter
+
+// Accounts
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 20;
+export const PASSWORD_MIN_LENGTH = 6;
+export const PASSWORD_MAX_LENGTH = 128; // scrypt runs on the event loop, so cap what it hashes
+export const MAX_CHARACTERS_PER_ACCOUNT = 4;
+export const CHARACTER_NAME_MIN_LENGTH = 3;
+export const CHARACTER_NAME_MAX_LENGTH = 16;
+
 // Movement
 export const PLAYER_SPEED = 3.5; // units/sec
 export const PLAYER_SPRINT_SPEED = 9.0; // units/sec
@@ -29,6 +103,14 @@ export const BASE_DODGE_CHANCE = 0.03;
 export const DODGE_PER_DEX = 0.003;
 export const MAX_DODGE_CHANCE = 0.30;
 
+// Status effects (per-type rules in constants/statusEffects.ts)
+/** Duration of each cc of one type within the window: full, half, quarter, then immune */
+export const CC_DIMINISHING_RETURNS = [1, 0.5, 0.25];
+/** Seconds after a cc type last landed before its diminishing returns reset */
+export const CC_DIMINISHING_RESET_SECONDS = 15;
+/** Stacked slows bottom out at this fraction of normal speed */
+export const MIN_SLOWED_SPEED = 0.3;
+
 // Potions
 export const POTION_HEAL_AMOUNT = 50;
 export const POTION_COOLDOWN = 5;
@@ -47,6 +129,9 @@ export const MANA_REGEN_RATE = 2; // per second
 export const SKILL_RANGE_AOE = 4.0;
 export const CHARGE_DISTANCE = 6.0;
 
+// Rarities from worst to best
+export const RARITY_ORDER: Rarity[] = ['common', 'uncommon', 'rare', 'epic', 'legendary'];
+
 // Rarity weights for bonus stats
 export const RARITY_BONUS_STATS: Record<string, { min: number; max: number }> = {
   common: { min: 0, max: 0 },
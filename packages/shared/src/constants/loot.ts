@@ -0,0 +1,16 @@
+import type { Rarity } from '../types/inventory.js';
+import type { LootTable, LootMode } from '../types/loot.js';
+
+/** Loot table registry, filled by installContentPack() alongside ITEM_DEFS */
+export const LOOT_TABLES: Record<string, LootTable> = {};
+
+export const LOOT_MODES: Record<LootMode, { name: string; description: string }> = {
+  ffa: { name: 'Free for All', description: 'Anyone can pick up any drop' },
+  personal: { name: 'Personal', description: 'Everyone gets their own drops' },
+  need_greed: { name: 'Need / Greed', description: 'The party rolls for rare and better drops' },
+};
+export const DEFAULT_LOOT_MODE: LootMode = 'ffa';
+/** Need/greed mode rolls for drops of this rarity or better; the rest are free for all */
+export const NEED_GREED_MIN_RARITY: Rarity = 'rare';
+export const LOOT_ROLL_SECONDS = 20;
+export const LOOT_DESPAWN_SECONDS = 60;
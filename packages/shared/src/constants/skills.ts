@@ -10,7 +10,7 @@ export const MELEE_SKILL_TREE: SkillNodeDef[] = [
     prerequisites: [],
     maxPoints: 5,
     effects: [
-      { type: 'damage', value: 1.5, scaling: 'strength', cooldown: 3, manaCost: 10 },
+      { type: 'damage', value: 1.5, scaling: 'strength', cooldown: 3, manaCost: 10, threatMultiplier: 1.5 },
     ],
     icon: 'power_strike',
     position: { x: 0, y: 0 },
@@ -49,9 +49,45 @@ export const MELEE_SKILL_TREE: SkillNodeDef[] = [
     prerequisites: ['melee_power_strike'],
     maxPoints: 3,
     effects: [
-      { type: 'debuff', stat: 'stun', value: 1.5, scaling: 'strength', cooldown: 10, manaCost: 15 },
+      {
+        type: 'debuff', stat: 'stun', value: 1.5, scaling: 'strength', cooldown: 10, manaCost: 15,
+        statusEffect: { type: 'stun', damage: 0, duration: 1.5, tickRate: 0 },
+      },
     ],
     icon: 'charge',
     position: { x: 1, y: 1 },
   },
+  {
+    id: 'melee_taunt',
+    name: 'Taunt',
+    description: 'Force nearby enemies to attack you for 4s (+1s per point) and match the highest threat on each.',
+    tree: 'melee',
+    prerequisites: ['melee_toughness'],
+    maxPoints: 3,
+    effects: [
+      { type: 'debuff', stat: 'taunt', value: 4, cooldown: 12, manaCost: 10 },
+    ],
+    icon: 'taunt',
+    position: { x: -1, y: 1 },
+  },
+  {
+    id: 'melee_war_cry',
+    name: 'War Cry',
+    description: 'Rally yourself and nearby allies: +20% damage and +15% attack and movement speed for 8s.',
+    tree: 'melee',
+    prerequisites: [],
+    maxPoints: 1,
+    effects: [
+      {
+        type: 'buff', stat: 'damage_up', value: 0.2, cooldown: 24, manaCost: 20,
+        statusEffect: { type: 'damage_up', damage: 0, duration: 8, tickRate: 0, magnitude: 0.2 },
+      },
+      {
+        type: 'buff', stat: 'haste', value: 0.15,
+        statusEffect: { type: 'haste', damage: 0, duration: 8, tickRate: 0, magnitude: 0.15 },
+      },
+    ],
+    icon: 'war_cry',
+    position: { x: 1, y: 0 },
+  },
 ];
@@ -0,0 +1,19 @@
+import type { StatusEffectRule, StatusEffectType } from '../types/status.js';
+
+export const STATUS_EFFECT_RULES: Record<StatusEffectType, StatusEffectRule> = {
+  bleed: { kind: 'dot', maxStacks: 5, label: 'Bleed', color: '#cc2222' },
+  poison: { kind: 'dot', maxStacks: 3, label: 'Poison', color: '#55cc33' },
+  burn: { kind: 'dot', maxStacks: 1, label: 'Burn', color: '#ff5511' },
+  stun: { kind: 'cc', maxStacks: 1, label: 'Stun', color: '#ffdd33' },
+  root: { kind: 'cc', maxStacks: 1, label: 'Root', color: '#8a6a3a' },
+  slow: { kind: 'debuff', maxStacks: 3, label: 'Slow', color: '#66aaff' },
+  armor_shred: { kind: 'debuff', maxStacks: 5, label: 'Shred', color: '#aa7755' },
+  damage_up: { kind: 'buff', maxStacks: 3, label: 'Might', color: '#ff8800' },
+  haste: { kind: 'buff', maxStacks: 1, label: 'Haste', color: '#44ddcc' },
+};
+
+export const STATUS_EFFECT_TYPES = Object.keys(STATUS_EFFECT_RULES) as StatusEffectType[];
+
+export function isStatusEffectType(type: string): type is StatusEffectType {
+  return Object.hasOwn(STATUS_EFFECT_RULES, type);
+}
@@ -0,0 +1,161 @@
+import type { BoxCollider, CircleCollider, HubRock } from '../types/navigation.js';
+
+/**
+ * Static layout of the hub's solid props. HubWorld places its meshes from
+ * these and both the client and the hub room collide against them.
+ */
+export const HUB_FOUNTAIN: CircleCollider = { x: 0, z: 0, r: 3.3 };
+export const HUB_SHOP_FOOTPRINT: BoxCollider = { minX: -31, maxX: -23, minZ: -16, maxZ: -8 };
+export const HUB_PVP_ARENA_POSITION = { x: 20, z: -12 };
+export const HUB_PVP_PILLAR_RADIUS = 0.6;
+export const HUB_PVP_GATE_POST_RADIUS = 0.4;
+export const HUB_LANTERN_RADIUS = 0.3;
+export const HUB_NPC_RADIUS = 0.5;
+
+/** Where each hub NPC stands, by name, [x, z]; HubWorld gives them their look and dialog */
+export const HUB_NPC_POSITIONS: Record<string, [number, number]> = {};
+
+/** Lanterns placed around the hub, [x, z] */
+export const HUB_LANTERN_POSITIONS: [number, number][] = [
+  // Spawn boundary corners (4 symmetrical, at distance ~12)
+  [8.5, 8.5], [-8.5, 8.5], [8.5, -8.5], [-8.5, -8.5],
+  // Path to forest portal
+  [1.5, -30], [-1.5, -30], [1.5, -45], [-1.5, -45],
+  // Near shop entrance
+  [-16, 9], [-20, 4],
+  // Near PvP arena entrance
+  [27, -14], [27, -22],
+  // Near NPCs — Elder Mika, Scout Aino
+  [14, 7], [7, -38],
+];
+
+/** Colosseum-style arc of pillars behind the PvP arena */
+export function hubPvpPillars(): CircleCollider[] {
+  const pos = HUB_PVP_ARENA_POSITION;
+  const pillars: CircleCollider[] = [];
+  for (let i = -3; i <= 3; i++) {
+    const angle = (i / 3) * 0.8;
+    pillars.push({ x: pos.x + Math.sin(angle) * 6, z: pos.z - Math.cos(angle) * 6, r: HUB_PVP_PILLAR_RADIUS });
+  }
+  return pillars;
+}
+
+/** The two posts of the PvP arena gate */
+export function hubPvpGatePosts(): CircleCollider[] {
+  const pos = HUB_PVP_ARENA_POSITION;
+  return [
+    { x: pos.x - 1.5, z: pos.z + 5, r: HUB_PVP_GATE_POST_RADIUS },
+    { x: pos.x + 1.5, z: pos.z + 5, r: HUB_PVP_GATE_POST_RADIUS },
+  ];
+}
+
+/**
+ * The hub's scattered rocks, from a fixed seed so every client and the hub
+ * room get the same layout. Keeps clear of the plaza, paths, buildings and NPCs.
+ */
+export function hubRocks(): HubRock[] {
+  // Seeded random for deterministic placement
+  let seed = 42;
+  const rand = () => { seed = (seed * 16807 + 0) % 2147483647; return (seed - 1) / 2147483646; };
+
+  // Areas to avoid: fountain (0,0 r4), paths, shop (-27,-12), pvp (33,-18), portal (0,-55), spawn (0,16)
+  const isOnPath = (x: number, z: number): boolean => {
+    // North path to portal
+    if (Math.abs(x) < 2.5 && z < 0 && z > -60) return true;
+    // West to shop (curved path — sample 10 points along curve)
+    const shopPts = [
+      [0, 0], [-6, -0.3], [-12, -0.8], [-18, -1.5],
+      [-24, -2.5], [-30, -3.5], [-33, -5],
+      [-35, -7], [-35, -9.5], [-35, -12],
+    ];
+    for (const sp of shopPts) {
+      if (Math.sqrt((x - sp[0]) ** 2 + (z - sp[1]) ** 2) < 2.5) return true;
+    }
+    // East to pvp
+    const t2 = Math.max(0, Math.min(1, (x * 38 + z * -18) / (1444 + 324)));
+    const px2 = 38 * t2, pz2 = -18 * t2;
+    if (Math.sqrt((x - px2) ** 2 + (z - pz2) ** 2) < 2.5) return true;
+    return false;
+  };
+
+  const isBlocked = (x: number, z: number): boolean => {
+    const d = Math.sqrt(x * x + z * z);
+    if (d < 13) return true; // fountain/plaza + spawn area
+    if (d > 75) return true; // too far out
+    if (isOnPath(x, z)) return true;
+    // Shop area
+    if (x > -39 && x < -31 && z > -16 && z < -8) return true;
+    // PvP arena
+    if (x > 28 && x < 39 && z > -23 && z < -13) return true;
+    // Portal area
+    if (Math.abs(x) < 5 && z < -48 && z > -62) return true;
+    // Spawn area
+    if (Math.abs(x) < 4 && z > 14 && z < 24) return true;
+    // NPCs
+    if (Math.sqrt((x - 12) ** 2 + (z - 7) ** 2) < 3) return true;
+    if (Math.sqrt((x - 5) ** 2 + (z + 40) ** 2) < 3) return true;
+    if (Math.sqrt((x + 8) ** 2 + (z + 8) ** 2) < 3) return true;
+    return false;
+  };
+
+  const rocks: Omit<HubRock, 'tiltX' | 'tiltZ'>[] = [];
+
+  // Generate ~25 scattered rocks
+  let attempts = 0;
+  while (rocks.length < 25 && attempts < 200) {
+    attempts++;
+    const angle = rand() * Math.PI * 2;
+    const dist = 8 + rand() * 38;
+    const x = Math.cos(angle) * dist;
+    const z = Math.sin(angle) * dist;
+
+    if (isBlocked(x, z)) continue;
+
+    // Check spacing from other rocks
+    let tooClose = false;
+    for (const r of rocks) {
+      if (Math.sqrt((x - r.x) ** 2 + (z - r.z) ** 2) < 2.5) { tooClose = true; break; }
+    }
+    if (tooClose) continue;
+
+    const size = 0.2 + rand() * 0.6;
+    rocks.push({
+      x, z, size,
+      rotY: rand() * Math.PI * 2,
+      scaleXZ: 0.8 + rand() * 0.4,
+    });
+  }
+
+  // Also add a few small clusters (2-3 rocks close together)
+  for (let c = 0; c < 5; c++) {
+    const angle = rand() * Math.PI * 2;
+    const dist = 12 + rand() * 30;
+    const cx = Math.cos(angle) * dist;
+    const cz = Math.sin(angle) * dist;
+
+    if (isBlocked(cx, cz)) continue;
+
+    for (let j = 0; j < 2 + Math.floor(rand() * 2); j++) {
+      const ox = cx + (rand() - 0.5) * 1.5;
+      const oz = cz + (rand() - 0.5) * 1.5;
+      if (isBlocked(ox, oz)) continue;
+
+      rocks.push({
+        x: ox, z: oz,
+        size: 0.15 + rand() * 0.3,
+        rotY: rand() * Math.PI * 2,
+        scaleXZ: 0.8 + rand() * 0.4,
+      });
+    }
+  }
+
+  // Slight tilts come last so the placement above keeps its sequence
+  return rocks.map((rock) => ({ ...rock, tiltX: (rand() - 0.5) * 0.2, tiltZ: (rand() - 0.5) * 0.15 }));
+}
+
+/** Mossy rocks every dungeon floor has near the centre for cover */
+export const DUNGEON_ARENA_ROCKS: CircleCollider[] = [
+  { x: -5, z: -3, r: 0.7 },
+  { x: 6, z: 2, r: 0.5 },
+  { x: 2, z: 7, r: 0.6 },
+];
@@ -6,15 +6,33 @@ export * from './types/dungeon.js';
 export * from './types/loot.js';
 export * from './types/skill.js';
 export * from './types/class.js';
+export * from './types/content.js';
+export * from './types/navigation.js';
+export * from './types/behavior.js';
+export * from './types/encounter.js';
+export * from './types/telegraph.js';
+export * from './types/status.js';
 
 // Constants
 export * from './constants/game.js';
 export * from './constants/items.js';
 export * from './constants/skills.js';
 export * from './constants/dungeons.js';
+export * from './constants/loot.js';
 export * from './constants/shop.js';
 export * from './constants/classes.js';
+export * from './constants/difficulty.js';
+export * from './constants/world.js';
+export * from './constants/affixes.js';
+export * from './constants/statusEffects.js';
 
 // Utils
 export * from './utils/math.js';
 export * from './utils/validation.js';
+export * from './utils/content.js';
+export * from './utils/procedural.js';
+export * from './utils/rewards.js';
+export * from './utils/navigation.js';
+export * from './utils/threat.js';
+export * from './utils/telegraph.js';
+export * from './utils/statusEffects.js';
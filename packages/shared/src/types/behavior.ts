@@ -0,0 +1,47 @@
+import type { NavPoint } from './navigation.js';
+
+/**
+ * One node of a monster behavior tree. Composites tick their children in
+ * order: a selector stops at the first child that doesn't fail, a sequence
+ * at the first that doesn't succeed. Actions report 'running' while they
+ * are in control of the monster this tick.
+ */
+export type BehaviorNodeDef =
+  | { type: 'selector'; children: BehaviorNodeDef[] }
+  | { type: 'sequence'; children: BehaviorNodeDef[] }
+  /** Succeeds while the monster holds someone's aggro */
+  | { type: 'has_target' }
+  /** Succeeds while HP is under `fraction` of max */
+  | { type: 'hp_below'; fraction: number }
+  /** Cast whatever abilities are ready at the target; always succeeds */
+  | { type: 'use_abilities' }
+  /** Once per fight, pull idle monsters within `radius` onto the target; always succeeds */
+  | { type: 'call_for_help'; radius: number }
+  /** Once HP drops under `belowHp` of max, run from the target for `seconds` */
+  | { type: 'flee'; belowHp: number; seconds: number }
+  /** Back away while the target is closer than `min` */
+  | { type: 'keep_distance'; min: number }
+  /** While an ally is already fighting the target, circle round to strike from `angle` degrees off its back */
+  | { type: 'flank'; angle: number }
+  /** Fight the target once within attack range; `strike: false` only faces it, for monsters whose abilities do the damage */
+  | { type: 'attack'; strike?: boolean }
+  | { type: 'chase' }
+  /** Give up the fight and head home once further than `radius` from the spawn point */
+  | { type: 'guard'; radius: number }
+  /**
+   * Walk `route` (offsets from the spawn point) in a loop, or wander within
+   * `wanderRadius` of it, pausing `pause` seconds at each stop
+   */
+  | { type: 'patrol'; route?: NavPoint[]; wanderRadius?: number; pause?: number }
+  | { type: 'return_home' }
+  | { type: 'idle' };
+
+export type BehaviorNodeType = BehaviorNodeDef['type'];
+
+export type BehaviorStatus = 'success' | 'failure' | 'running';
+
+export interface BehaviorDef {
+  id: string;
+  description?: string;
+  root: BehaviorNodeDef;
+}
@@ -17,4 +17,20 @@ export interface ClassDef {
   color: string;
   maxHpBase: number;
   maxManaBase: number;
+  /** Threat generated per damage point; tanks hold aggro by generating more */
+  threatMultiplier: number;
 }
+
+export type CharacterGender = 'male' | 'female';
+
+/** One character slot on an account, as listed on the character select screen */
+export interface CharacterSummary {
+  id: string;
+  name: string;
+  classId: CharacterClassId;
+  gender: CharacterGender;
+  level: number;
+  createdAt: number;
+}
+
+export type AccountRole = 'player' | 'admin';
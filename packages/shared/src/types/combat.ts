@@ -20,6 +20,19 @@ export interface ProjectileData {
   lifetime: number;
 }
 
+export interface ThreatEntry {
+  sessionId: string;
+  threat: number;
+}
+
+/** A monster's threat table as sent for the HUD threat meter */
+export interface MonsterThreat {
+  monsterId: string;
+  /** Who the monster is attacking; the meter measures everyone against them */
+  targetId: string;
+  entries: ThreatEntry[];
+}
+
 export interface CombatAction {
   type: 'basic_attack' | 'skill';
   skillId?: string;
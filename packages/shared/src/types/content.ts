@@ -0,0 +1,27 @@
+import type { ItemDef, Rarity } from './inventory.js';
+import type { DungeonDef, MonsterDef } from './dungeon.js';
+import type { LootTable } from './loot.js';
+import type { BehaviorDef } from './behavior.js';
+import type { EncounterDef } from './encounter.js';
+
+export interface CraftingRecipe {
+  id: string;
+  inputs: { itemDefId: string; quantity: number }[];
+  output: { itemDefId: string; rarity: Rarity };
+  hint: string; // NPC hint text
+}
+
+/**
+ * All game content, merged from the JSON files of every pack under server/content.
+ * Each record is keyed by the entry's own id.
+ */
+export interface ContentPack {
+  items: Record<string, ItemDef>;
+  monsters: Record<string, MonsterDef>;
+  lootTables: Record<string, LootTable>;
+  dungeons: Record<string, DungeonDef>;
+  behaviors: Record<string, BehaviorDef>;
+  encounters: Record<string, EncounterDef>;
+  /** Server-only: stripped before the pack is sent to clients */
+  recipes?: CraftingRecipe[];
+}
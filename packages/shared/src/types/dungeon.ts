@@ -1,7 +1,16 @@
+import type { StatusEffectDef, StatusEffectType } from './status.js';
+import type { GroundZoneDef, TelegraphShape } from './telegraph.js';
+
+/** Visual palette the client builds the dungeon environment from */
+export type DungeonTheme = 'forest' | 'crypt';
+
 export interface DungeonDef {
   id: string;
   name: string;
   description: string;
+  theme: DungeonTheme;
+  /** Difficulty tier; monsters drop MONSTER_GOLD_DROP[tier] gold, bosses one tier higher */
+  tier: number;
   maxPlayers: number;
   recommendedLevel: number;
   rooms: DungeonRoomDef[];
@@ -11,21 +20,47 @@ export interface DungeonDef {
 export interface DungeonRoomDef {
   id: string;
   floorName?: string;
+  /** Hand-placed spawns; procedural floors add their generated packs to these */
   spawns: MonsterSpawn[];
   connections: string[]; // connected room ids
+  /** Walkable radius around the arena centre; defaults to DUNGEON_ARENA_RADIUS */
+  arenaRadius?: number;
+  /** When set, monsters and obstacles are generated from the room's seed each run */
+  procedural?: ProceduralFloorTemplate;
 }
 
 export interface MonsterSpawn {
   monsterId: string;
   position: { x: number; y: number; z: number };
   respawnTime: number; // seconds, 0 = no respawn
+  elite?: boolean;
 }
 
-export interface StatusEffectDef {
-  type: 'bleed' | 'poison' | 'stun' | 'root';
-  damage: number;
-  duration: number;
-  tickRate: number;
+export interface ProceduralFloorTemplate {
+  monsterPool: { monsterId: string; weight: number }[];
+  /** Monster packs per 100 square units of arena */
+  density: number;
+  packSize: { min: number; max: number };
+  /** Packs and obstacles are placed within this distance of the arena centre */
+  arenaRadius: number;
+  /** Chance for each generated monster to be elite, 0-1 */
+  eliteChance: number;
+  /** Trees or rocks (by dungeon theme) scattered as cover */
+  obstacles: number;
+  respawnTime: number;
+}
+
+export interface FloorObstacle {
+  x: number;
+  z: number;
+  radius: number;
+  /** Rotation around Y, radians — cosmetic only */
+  rotation: number;
+}
+
+export interface FloorLayout {
+  spawns: MonsterSpawn[];
+  obstacles: FloorObstacle[];
 }
 
 export interface MonsterAbility {
@@ -37,15 +72,15 @@ export interface MonsterAbility {
   cooldown: number;
   statusEffect?: StatusEffectDef;
   projectileSpeed?: number;
-}
-
-export interface BossPhase {
-  phase: number;
-  hpThreshold: number;
-  damageMultiplier: number;
-  speedMultiplier: number;
-  armorMultiplier: number;
-  abilities: string[];
+  /** For 'aoe': the area marked and then hit; a circle of `range` around the caster when omitted */
+  shape?: TelegraphShape;
+  /** For 'aoe': seconds the area is marked before it hits */
+  telegraphDelay?: number;
+  /** For 'aoe': leave this zone under the target instead of marking an area to hit */
+  zone?: GroundZoneDef;
+  /** For 'summon' abilities: which monster to spawn and how many */
+  summonId?: string;
+  summonCount?: number;
 }
 
 export interface MonsterDef {
@@ -61,9 +96,45 @@ export interface MonsterDef {
   xpReward: number;
   lootTableId: string;
   model: string;
+  /** Id of the behavior tree that drives this monster's AI */
+  behavior: string;
   isBoss?: boolean;
   abilities?: MonsterAbility[];
-  phases?: BossPhase[];
+  /** Id of the encounter script that runs this boss's fight */
+  encounter?: string;
+  /** Status effects that never land on this monster */
+  immunities?: StatusEffectType[];
+}
+
+export type MonsterAIState = 'idle' | 'patrol' | 'chase' | 'attack' | 'return' | 'flee' | 'kite' | 'flank' | 'dead';
+
+export type LeaderboardMode = 'solo' | 'party';
+
+/** One ranked clear. Splits are cumulative ms from the first floor start to each floor clear. */
+export interface LeaderboardEntry {
+  rank: number;
+  runId: number;
+  totalTime: number;
+  splits: number[];
+  difficulty: number;
+  partySize: number;
+  members: { name: string; classId: string }[];
+  completedAt: number;
 }
 
-export type MonsterAIState = 'idle' | 'patrol' | 'chase' | 'attack' | 'return' | 'dead';
+/** A player's fastest clear of a dungeon at one difficulty */
+export interface PersonalBest {
+  totalTime: number;
+  splits: number[];
+}
+
+/** A joinable dungeon instance, looked up by invite code from the hub */
+export interface DungeonLobbyInfo {
+  inviteCode: string;
+  dungeonId: string;
+  difficulty: number;
+  lootMode: string;
+  public: boolean;
+  players: number;
+  maxPlayers: number;
+}
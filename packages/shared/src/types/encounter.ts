@@ -0,0 +1,60 @@
+import type { NavPoint } from './navigation.js';
+import type { StatusEffectDef } from './status.js';
+import type { GroundZoneDef, TelegraphShape } from './telegraph.js';
+
+/**
+ * Where a telegraphed mechanic is placed when it is announced. Shapes on the
+ * boss face its target; shapes on a player face away from the boss.
+ */
+export type EncounterAnchor = 'boss' | 'target' | 'random_player' | 'each_player';
+
+/** Something a boss fight does on entering a phase or on its timeline */
+export type EncounterEvent =
+  /** Boss yell shown to the party */
+  | { type: 'announce'; text: string }
+  /** Multiply the boss's damage and speed for the rest of the fight */
+  | { type: 'enrage'; damageMultiplier: number; speedMultiplier?: number }
+  /** Spawn `monsterId` at each of `points`, in arena coordinates */
+  | { type: 'spawn_adds'; monsterId: string; points: NavPoint[] }
+  /** Pull the arena edge in to `radius` over `seconds`; players outside it burn */
+  | { type: 'shrink_arena'; radius: number; seconds: number; damagePerSecond: number }
+  /** Mark `shape` at `at` for `delay` seconds, then hit every player still inside */
+  | { type: 'telegraph'; at: EncounterAnchor; shape: TelegraphShape; delay: number; damage: number; statusEffect?: StatusEffectDef }
+  /** Leave a lingering zone at `at` */
+  | { type: 'zone'; at: EncounterAnchor; zone: GroundZoneDef }
+  /** Use one of the boss's own abilities, ignoring its range and cooldown */
+  | { type: 'cast'; ability: string };
+
+export type EncounterEventType = EncounterEvent['type'];
+
+export interface EncounterTimelineEntry {
+  /** Seconds after the phase starts, or after the pull for the encounter-wide timeline */
+  at: number;
+  /** Repeat this often after the first time; fires once when omitted */
+  every?: number;
+  event: EncounterEvent;
+}
+
+export interface EncounterPhaseDef {
+  /** Entered once the boss's HP fraction is at or below this; the first phase uses 1 */
+  hpThreshold: number;
+  damageMultiplier: number;
+  speedMultiplier: number;
+  armorMultiplier: number;
+  /** Which of the boss's abilities its behavior tree may use in this phase */
+  abilities: string[];
+  onEnter?: EncounterEvent[];
+  timeline?: EncounterTimelineEntry[];
+}
+
+/**
+ * A boss fight, scripted. It starts when the boss is pulled and resets —
+ * adds gone, boss healed, arena restored — if every player dies or leaves.
+ */
+export interface EncounterDef {
+  id: string;
+  description?: string;
+  phases: EncounterPhaseDef[];
+  /** Runs from the pull regardless of phase, e.g. a hard enrage */
+  timeline?: EncounterTimelineEntry[];
+}
@@ -13,3 +13,18 @@ export interface LootTable {
   guaranteedDrops?: number; // min drops
   maxDrops: number;
 }
+
+/**
+ * Who may take a dungeon's drops: anyone in range, only the player each drop
+ * was rolled for, or (above a rarity threshold) the winner of a need/greed roll.
+ */
+export type LootMode = 'ffa' | 'personal' | 'need_greed';
+
+export type LootRollChoice = 'need' | 'greed' | 'pass';
+
+export interface LootRollOutcome {
+  name: string;
+  choice: LootRollChoice;
+  /** 1–100, 0 for a pass */
+  roll: number;
+}
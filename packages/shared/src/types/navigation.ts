@@ -0,0 +1,53 @@
+/** A point on the ground plane */
+export interface NavPoint {
+  x: number;
+  z: number;
+}
+
+/** Solid cylinder: trees, rocks, pillars, lanterns */
+export interface CircleCollider {
+  x: number;
+  z: number;
+  r: number;
+}
+
+/** Solid axis-aligned footprint: buildings */
+export interface BoxCollider {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+/** One of the hub's scattered rocks: where it sits and how its mesh is shaped */
+export interface HubRock {
+  x: number;
+  z: number;
+  size: number;
+  rotY: number;
+  /** Horizontal stretch; the rock blocks a circle of `size * scaleXZ` */
+  scaleXZ: number;
+  tiltX: number;
+  tiltZ: number;
+}
+
+/** Everything that blocks movement in one room or floor */
+export interface CollisionWorld {
+  circles: CircleCollider[];
+  boxes: BoxCollider[];
+  /** Walkable disc; bodies are kept inside it. Open worlds have none */
+  arena?: { x: number; z: number; radius: number };
+}
+
+/**
+ * Walkability grid over a collision world for an agent of a given radius.
+ * `blocked[row * cols + col]` is 1 where the agent's centre cannot stand.
+ */
+export interface NavGrid {
+  originX: number;
+  originZ: number;
+  cellSize: number;
+  cols: number;
+  rows: number;
+  blocked: Uint8Array;
+}
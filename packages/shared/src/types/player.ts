@@ -19,6 +19,9 @@ export interface PlayerStats {
   xpToNext: number;
 }
 
+/** Downed players can be revived by an ally; dead ones spectate until respawn or the next floor */
+export type PlayerLifeState = 'alive' | 'downed' | 'dead';
+
 export interface PlayerInput {
   seq: number;
   forward: boolean;
@@ -1,3 +1,5 @@
+import type { StatusEffectDef } from './status.js';
+
 export interface SkillNodeDef {
   id: string;
   name: string;
@@ -18,6 +20,9 @@ export interface SkillEffect {
   duration?: number; // seconds
   cooldown?: number; // seconds
   manaCost?: number;
+  threatMultiplier?: number; // threat per damage dealt with this skill, on top of the class multiplier
+  /** For 'buff': lands on the caster and allies nearby. For 'debuff': lands on each monster the skill hits */
+  statusEffect?: StatusEffectDef;
 }
 
 export type SkillTree = 'melee' | 'ranged' | 'fire' | 'ice' | 'lightning' | 'holy' | 'shadow';
@@ -0,0 +1,59 @@
+/** Every effect the status engine knows; how each one behaves is in STATUS_EFFECT_RULES */
+export type StatusEffectType =
+  | 'bleed' | 'poison' | 'burn'
+  | 'stun' | 'root'
+  | 'slow' | 'armor_shred'
+  | 'damage_up' | 'haste';
+
+/**
+ * dot: damage every `tickRate` seconds. cc: loss of control, with diminishing
+ * returns. debuff and buff: stat modifiers scaled by `magnitude`.
+ */
+export type StatusEffectKind = 'dot' | 'cc' | 'debuff' | 'buff';
+
+export interface StatusEffectDef {
+  type: StatusEffectType;
+  /** Per tick and per stack, for dots */
+  damage: number;
+  duration: number;
+  tickRate: number;
+  /**
+   * Per stack, for stat modifiers: the fraction slowed, hastened or added to
+   * damage, or the armor removed by armor_shred
+   */
+  magnitude?: number;
+}
+
+export interface StatusEffectRule {
+  kind: StatusEffectKind;
+  /** Reapplying adds a stack up to this and refreshes the duration */
+  maxStacks: number;
+  /** Shown on effect icons and monster pips */
+  label: string;
+  color: string;
+}
+
+/** An effect on an entity as synced to clients; both sides derive stat modifiers from these */
+export interface ActiveStatusEffect {
+  type: string;
+  stacks: number;
+  magnitude: number;
+  /** Seconds left */
+  remaining: number;
+  duration: number;
+  sourceId: string;
+}
+
+/** What an entity's effects add up to */
+export interface StatModifiers {
+  /** Multiplies movement speed; 0 while stunned or rooted */
+  moveSpeed: number;
+  /** Multiplies attack rate */
+  attackSpeed: number;
+  /** Multiplies damage dealt */
+  damage: number;
+  /** Armor removed, before the floor at 0 */
+  armorLoss: number;
+  /** False while stunned: no attacks, skills or abilities */
+  canAct: boolean;
+}
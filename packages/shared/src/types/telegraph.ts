@@ -0,0 +1,38 @@
+import type { StatusEffectDef } from './status.js';
+
+/**
+ * An area on the ground, relative to where it is placed. Cones and lines
+ * extend along the placement's facing; circles and donuts ignore it.
+ */
+export type TelegraphShape =
+  | { type: 'circle'; radius: number }
+  /** `angle` is the full width in degrees, centred on the facing */
+  | { type: 'cone'; radius: number; angle: number }
+  /** A rectangle starting at the origin and running `length` along the facing */
+  | { type: 'line'; length: number; width: number }
+  /** A ring; standing inside `innerRadius` is safe */
+  | { type: 'donut'; innerRadius: number; radius: number };
+
+export type TelegraphShapeType = TelegraphShape['type'];
+
+/** Where a shape sits on the ground; `facing` uses the same convention as entity rotation */
+export interface TelegraphPlacement {
+  x: number;
+  z: number;
+  facing: number;
+}
+
+export type GroundZoneKind = 'fire' | 'poison';
+
+/** Ground that keeps hurting whoever stands in it until it fades */
+export interface GroundZoneDef {
+  /** Picks the look and the damage type */
+  kind: GroundZoneKind;
+  shape: TelegraphShape;
+  duration: number;
+  /** Dealt every `tickRate` seconds to each player inside */
+  damage: number;
+  tickRate: number;
+  /** Applied, or refreshed, on every tick a player is inside */
+  statusEffect?: StatusEffectDef;
+}
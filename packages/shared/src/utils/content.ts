@@ -0,0 +1,572 @@
+import type { ContentPack } from '../types/content.js';
+import type { ArmorSlot, ItemType, WeaponSlot } from '../types/inventory.js';
+import type { DungeonDef, MonsterDef } from '../types/dungeon.js';
+import type { BehaviorNodeDef, BehaviorNodeType } from '../types/behavior.js';
+import type { EncounterDef, EncounterEvent, EncounterEventType } from '../types/encounter.js';
+import type { GroundZoneKind, TelegraphShape, TelegraphShapeType } from '../types/telegraph.js';
+import type { StatusEffectDef } from '../types/status.js';
+import { RARITY_ORDER, DUNGEON_ARENA_RADIUS } from '../constants/game.js';
+import { ITEM_DEFS, HEALTH_POTION_ID } from '../constants/items.js';
+import { MONSTER_DEFS, BEHAVIOR_DEFS, ENCOUNTER_DEFS, DUNGEON_DEFS, DUNGEON_THEMES, DEFAULT_DUNGEON_ID } from '../constants/dungeons.js';
+import { LOOT_TABLES } from '../constants/loot.js';
+import { BLACKSMITH_SHOP } from '../constants/shop.js';
+import { CLASS_DEFS } from '../constants/classes.js';
+import { STATUS_EFFECT_RULES, STATUS_EFFECT_TYPES } from '../constants/statusEffects.js';
+
+// ---- Schema rules ----
+// Each rule appends a message per problem so a broken pack reports everything at once.
+
+type Rule = ((value: unknown, path: string, errors: string[]) => void) & { optional?: boolean };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function fieldPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+const string: Rule = (v, path, errors) => {
+  if (typeof v !== 'string' || v.length === 0) errors.push(`${path} must be a non-empty string`);
+};
+
+const boolean: Rule = (v, path, errors) => {
+  if (typeof v !== 'boolean') errors.push(`${path} must be a boolean`);
+};
+
+function number(min = -Infinity): Rule {
+  return (v, path, errors) => {
+    if (typeof v !== 'number' || !Number.isFinite(v) || v < min) {
+      errors.push(`${path} must be a number${min > -Infinity ? ` >= ${min}` : ''}`);
+    }
+  };
+}
+
+function integer(min: number): Rule {
+  return (v, path, errors) => {
+    if (!Number.isInteger(v) || (v as number) < min) errors.push(`${path} must be an integer >= ${min}`);
+  };
+}
+
+function oneOf(values: readonly string[]): Rule {
+  return (v, path, errors) => {
+    if (typeof v !== 'string' || !values.includes(v)) errors.push(`${path} must be one of: ${values.join(', ')}`);
+  };
+}
+
+function arrayOf(rule: Rule): Rule {
+  return (v, path, errors) => {
+    if (!Array.isArray(v)) {
+      errors.push(`${path} must be an array`);
+      return;
+    }
+    v.forEach((entry, i) => rule(entry, `${path}[${i}]`, errors));
+  };
+}
+
+function optional(rule: Rule): Rule {
+  const wrapped: Rule = (v, path, errors) => {
+    if (v !== undefined) rule(v, path, errors);
+  };
+  wrapped.optional = true;
+  return wrapped;
+}
+
+/** Object with exactly these fields; unknown fields are reported so typos don't pass silently */
+function shape(fields: Record<string, Rule>): Rule {
+  return (v, path, errors) => {
+    if (!isObject(v)) {
+      errors.push(`${path || 'content pack'} must be an object`);
+      return;
+    }
+    for (const [key, rule] of Object.entries(fields)) {
+      if (v[key] === undefined && !rule.optional) {
+        errors.push(`${fieldPath(path, key)} is required`);
+        continue;
+      }
+      rule(v[key], fieldPath(path, key), errors);
+    }
+    for (const key of Object.keys(v)) {
+      if (!(key in fields)) errors.push(`${fieldPath(path, key)} is not a known field`);
+    }
+  };
+}
+
+const ITEM_TYPES: ItemType[] = ['weapon', 'armor', 'consumable', 'material', 'quest'];
+const ITEM_SLOTS: (ArmorSlot | WeaponSlot)[] = ['head', 'chest', 'legs', 'feet', 'mainHand', 'offHand'];
+const ABILITY_TYPES = ['melee', 'ranged', 'aoe', 'debuff', 'summon'];
+const ENCOUNTER_ANCHORS = ['boss', 'target', 'random_player', 'each_player'];
+const GROUND_ZONE_KINDS: GroundZoneKind[] = ['fire', 'poison'];
+
+const ITEM_RULE = shape({
+  id: string,
+  name: string,
+  type: oneOf(ITEM_TYPES),
+  slot: optional(oneOf(ITEM_SLOTS)),
+  tier: integer(1),
+  rarity: oneOf(RARITY_ORDER),
+  baseDamage: optional(number(0)),
+  baseArmor: optional(number(0)),
+  description: string,
+  icon: string,
+  model: optional(string),
+});
+
+const STATUS_EFFECT_RULE = shape({
+  type: oneOf(STATUS_EFFECT_TYPES),
+  damage: number(0),
+  duration: number(0),
+  tickRate: number(0),
+  magnitude: optional(number(0)),
+});
+
+/** Fields of each telegraph shape type besides `type` itself */
+const TELEGRAPH_SHAPE_FIELDS: Record<TelegraphShapeType, Record<string, Rule>> = {
+  circle: { radius: number(0) },
+  cone: { radius: number(0), angle: number(0) },
+  line: { length: number(0), width: number(0) },
+  donut: { innerRadius: number(0), radius: number(0) },
+};
+
+function telegraphShape(v: unknown, path: string, errors: string[]) {
+  const type = isObject(v) ? v.type : undefined;
+  if (typeof type !== 'string' || !Object.hasOwn(TELEGRAPH_SHAPE_FIELDS, type)) {
+    errors.push(`${fieldPath(path, 'type')} must be one of: ${Object.keys(TELEGRAPH_SHAPE_FIELDS).join(', ')}`);
+    return;
+  }
+  shape({ type: string, ...TELEGRAPH_SHAPE_FIELDS[type as TelegraphShapeType] })(v, path, errors);
+}
+
+const GROUND_ZONE_RULE = shape({
+  kind: oneOf(GROUND_ZONE_KINDS),
+  shape: telegraphShape,
+  duration: number(0),
+  damage: number(0),
+  tickRate: number(0.1),
+  statusEffect: optional(STATUS_EFFECT_RULE),
+});
+
+const ABILITY_RULE = shape({
+  id: string,
+  name: string,
+  type: oneOf(ABILITY_TYPES),
+  damage: number(0),
+  range: number(0),
+  cooldown: number(0),
+  statusEffect: optional(STATUS_EFFECT_RULE),
+  projectileSpeed: optional(number(0)),
+  shape: optional(telegraphShape),
+  telegraphDelay: optional(number(0)),
+  zone: optional(GROUND_ZONE_RULE),
+  summonId: optional(string),
+  summonCount: optional(integer(1)),
+});
+
+const MONSTER_RULE = shape({
+  id: string,
+  name: string,
+  hp: number(1),
+  damage: number(0),
+  armor: number(0),
+  speed: number(0),
+  aggroRange: number(0),
+  attackRange: number(0),
+  attackCooldown: number(0),
+  xpReward: integer(0),
+  lootTableId: string,
+  model: string,
+  behavior: string,
+  isBoss: optional(boolean),
+  abilities: optional(arrayOf(ABILITY_RULE)),
+  encounter: optional(string),
+  immunities: optional(arrayOf(oneOf(STATUS_EFFECT_TYPES))),
+});
+
+/** Fields of each behavior node type besides `type` itself */
+const BEHAVIOR_NODE_FIELDS: Record<BehaviorNodeType, Record<string, Rule>> = {
+  selector: { children: arrayOf(behaviorNode) },
+  sequence: { children: arrayOf(behaviorNode) },
+  has_target: {},
+  hp_below: { fraction: number(0) },
+  use_abilities: {},
+  call_for_help: { radius: number(0) },
+  flee: { belowHp: number(0), seconds: number(0) },
+  keep_distance: { min: number(0) },
+  flank: { angle: number(0) },
+  attack: { strike: optional(boolean) },
+  chase: {},
+  guard: { radius: number(0) },
+  patrol: {
+    route: optional(arrayOf(shape({ x: number(), z: number() }))),
+    wanderRadius: optional(number(0)),
+    pause: optional(number(0)),
+  },
+  return_home: {},
+  idle: {},
+};
+
+function behaviorNode(v: unknown, path: string, errors: string[]) {
+  const type = isObject(v) ? v.type : undefined;
+  if (typeof type !== 'string' || !Object.hasOwn(BEHAVIOR_NODE_FIELDS, type)) {
+    errors.push(`${fieldPath(path, 'type')} must be one of: ${Object.keys(BEHAVIOR_NODE_FIELDS).join(', ')}`);
+    return;
+  }
+  shape({ type: string, ...BEHAVIOR_NODE_FIELDS[type as BehaviorNodeType] })(v, path, errors);
+}
+
+const BEHAVIOR_RULE = shape({
+  id: string,
+  description: optional(string),
+  root: behaviorNode,
+});
+
+/** Fields of each encounter event type besides `type` itself */
+const ENCOUNTER_EVENT_FIELDS: Record<EncounterEventType, Record<string, Rule>> = {
+  announce: { text: string },
+  enrage: { damageMultiplier: number(0), speedMultiplier: optional(number(0)) },
+  spawn_adds: { monsterId: string, points: arrayOf(shape({ x: number(), z: number() })) },
+  shrink_arena: { radius: number(1), seconds: number(0), damagePerSecond: number(0) },
+  telegraph: {
+    at: oneOf(ENCOUNTER_ANCHORS),
+    shape: telegraphShape,
+    delay: number(0),
+    damage: number(0),
+    statusEffect: optional(STATUS_EFFECT_RULE),
+  },
+  zone: { at: oneOf(ENCOUNTER_ANCHORS), zone: GROUND_ZONE_RULE },
+  cast: { ability: string },
+};
+
+function encounterEvent(v: unknown, path: string, errors: string[]) {
+  const type = isObject(v) ? v.type : undefined;
+  if (typeof type !== 'string' || !Object.hasOwn(ENCOUNTER_EVENT_FIELDS, type)) {
+    errors.push(`${fieldPath(path, 'type')} must be one of: ${Object.keys(ENCOUNTER_EVENT_FIELDS).join(', ')}`);
+    return;
+  }
+  shape({ type: string, ...ENCOUNTER_EVENT_FIELDS[type as EncounterEventType] })(v, path, errors);
+}
+
+const TIMELINE_RULE = arrayOf(shape({
+  at: number(0),
+  every: optional(number(1)),
+  event: encounterEvent,
+}));
+
+const ENCOUNTER_RULE = shape({
+  id: string,
+  description: optional(string),
+  phases: arrayOf(shape({
+    hpThreshold: number(0),
+    damageMultiplier: number(0),
+    speedMultiplier: number(0),
+    armorMultiplier: number(0),
+    abilities: arrayOf(string),
+    onEnter: optional(arrayOf(encounterEvent)),
+    timeline: optional(TIMELINE_RULE),
+  })),
+  timeline: optional(TIMELINE_RULE),
+});
+
+const LOOT_TABLE_RULE = shape({
+  id: string,
+  entries: arrayOf(shape({
+    itemDefId: string,
+    weight: number(0),
+    minRarity: oneOf(RARITY_ORDER),
+    maxRarity: oneOf(RARITY_ORDER),
+  })),
+  guaranteedDrops: optional(integer(0)),
+  maxDrops: integer(0),
+});
+
+const DUNGEON_RULE = shape({
+  id: string,
+  name: string,
+  description: string,
+  theme: oneOf(DUNGEON_THEMES),
+  tier: integer(1),
+  maxPlayers: integer(1),
+  recommendedLevel: integer(1),
+  rooms: arrayOf(shape({
+    id: string,
+    floorName: optional(string),
+    spawns: arrayOf(shape({
+      monsterId: string,
+      position: shape({ x: number(), y: number(), z: number() }),
+      respawnTime: number(0),
+      elite: optional(boolean),
+    })),
+    connections: arrayOf(string),
+    arenaRadius: optional(number(1)),
+    procedural: optional(shape({
+      monsterPool: arrayOf(shape({ monsterId: string, weight: number(0) })),
+      density: number(0),
+      packSize: shape({ min: integer(1), max: integer(1) }),
+      arenaRadius: number(1),
+      eliteChance: number(0),
+      obstacles: integer(0),
+      respawnTime: number(0),
+    })),
+  })),
+  bossId: optional(string),
+});
+
+const RECIPE_RULE = shape({
+  id: string,
+  inputs: arrayOf(shape({ itemDefId: string, quantity: integer(1) })),
+  output: shape({ itemDefId: string, rarity: oneOf(RARITY_ORDER) }),
+  hint: string,
+});
+
+/** Record keyed by id, where each entry's own `id` must match its key */
+function recordOf(rule: Rule): Rule {
+  return (v, path, errors) => {
+    if (!isObject(v)) {
+      errors.push(`${path} must be an object keyed by id`);
+      return;
+    }
+    for (const [key, entry] of Object.entries(v)) {
+      rule(entry, `${path}.${key}`, errors);
+      if (isObject(entry) && typeof entry.id === 'string' && entry.id !== key) {
+        errors.push(`${path}.${key}.id is '${entry.id}' but must match its key '${key}'`);
+      }
+    }
+  };
+}
+
+const CONTENT_PACK_RULE = shape({
+  items: recordOf(ITEM_RULE),
+  monsters: recordOf(MONSTER_RULE),
+  lootTables: recordOf(LOOT_TABLE_RULE),
+  dungeons: recordOf(DUNGEON_RULE),
+  behaviors: recordOf(BEHAVIOR_RULE),
+  encounters: recordOf(ENCOUNTER_RULE),
+  recipes: optional(arrayOf(RECIPE_RULE)),
+});
+
+// ---- Cross-references ----
+
+function checkMonsterRefs(pack: ContentPack, monster: MonsterDef, errors: string[]) {
+  const path = `monsters.${monster.id}`;
+  if (!Object.hasOwn(pack.behaviors, monster.behavior)) {
+    errors.push(`${path}.behavior: unknown behavior '${monster.behavior}'`);
+  }
+  if (!Object.hasOwn(pack.lootTables, monster.lootTableId)) {
+    errors.push(`${path}.lootTableId: unknown loot table '${monster.lootTableId}'`);
+  }
+  const abilityIds = new Set<string>();
+  (monster.abilities ?? []).forEach((ability, i) => {
+    if (abilityIds.has(ability.id)) errors.push(`${path}.abilities[${i}]: duplicate ability id '${ability.id}'`);
+    abilityIds.add(ability.id);
+    if (ability.shape) checkTelegraphShape(ability.shape, `${path}.abilities[${i}].shape`, errors);
+    if (ability.zone) checkTelegraphShape(ability.zone.shape, `${path}.abilities[${i}].zone.shape`, errors);
+    if (ability.statusEffect) checkStatusEffect(ability.statusEffect, `${path}.abilities[${i}].statusEffect`, errors);
+    if (ability.zone?.statusEffect) checkStatusEffect(ability.zone.statusEffect, `${path}.abilities[${i}].zone.statusEffect`, errors);
+    if ((ability.shape || ability.zone || ability.telegraphDelay !== undefined) && ability.type !== 'aoe') {
+      errors.push(`${path}.abilities[${i}]: only aoe abilities have a shape, telegraphDelay or zone`);
+    }
+    if (ability.type === 'summon' && !ability.summonId) {
+      errors.push(`${path}.abilities[${i}]: summon ability needs a summonId`);
+    }
+    if (ability.summonId && !Object.hasOwn(pack.monsters, ability.summonId)) {
+      errors.push(`${path}.abilities[${i}].summonId: unknown monster '${ability.summonId}'`);
+    }
+  });
+  if (monster.encounter) {
+    if (!Object.hasOwn(pack.encounters, monster.encounter)) {
+      errors.push(`${path}.encounter: unknown encounter '${monster.encounter}'`);
+    } else if (!monster.isBoss) {
+      errors.push(`${path}.encounter: only bosses run encounters`);
+    } else {
+      checkEncounterAbilities(pack.encounters[monster.encounter], abilityIds, `${path}.encounter`, errors);
+    }
+  }
+}
+
+/** Every ability an encounter names must belong to the boss running it */
+function checkEncounterAbilities(encounter: EncounterDef, abilityIds: Set<string>, path: string, errors: string[]) {
+  const requireAbility = (abilityId: string, at: string) => {
+    if (!abilityIds.has(abilityId)) errors.push(`${path}: ${at} uses ability '${abilityId}', which the boss does not have`);
+  };
+  encounter.phases.forEach((phase, i) => {
+    const at = `encounters.${encounter.id}.phases[${i}]`;
+    phase.abilities.forEach((abilityId) => requireAbility(abilityId, `${at}.abilities`));
+    for (const event of [...(phase.onEnter ?? []), ...(phase.timeline ?? []).map((entry) => entry.event)]) {
+      if (event.type === 'cast') requireAbility(event.ability, at);
+    }
+  });
+  for (const entry of encounter.timeline ?? []) {
+    if (entry.event.type === 'cast') requireAbility(entry.event.ability, `encounters.${encounter.id}.timeline`);
+  }
+}
+
+/** A dot has to tick and a stat modifier has to change something */
+function checkStatusEffect(effect: StatusEffectDef, path: string, errors: string[]) {
+  const { kind } = STATUS_EFFECT_RULES[effect.type];
+  if (kind === 'dot' && (effect.damage <= 0 || effect.tickRate <= 0)) {
+    errors.push(`${path}: ${effect.type} needs a damage and tickRate above 0`);
+  }
+  if ((kind === 'buff' || kind === 'debuff') && !effect.magnitude) {
+    errors.push(`${path}: ${effect.type} needs a magnitude above 0`);
+  }
+}
+
+function checkTelegraphShape(shape: TelegraphShape, path: string, errors: string[]) {
+  if (shape.type === 'cone' && shape.angle > 360) errors.push(`${path}.angle must be at most 360`);
+  if (shape.type === 'donut' && shape.innerRadius >= shape.radius) errors.push(`${path}.innerRadius must be below radius`);
+}
+
+function checkEncounterEvent(pack: ContentPack, event: EncounterEvent, path: string, errors: string[]) {
+  if (event.type === 'telegraph') {
+    checkTelegraphShape(event.shape, `${path}.shape`, errors);
+    if (event.statusEffect) checkStatusEffect(event.statusEffect, `${path}.statusEffect`, errors);
+  } else if (event.type === 'zone') {
+    checkTelegraphShape(event.zone.shape, `${path}.zone.shape`, errors);
+    if (event.zone.statusEffect) checkStatusEffect(event.zone.statusEffect, `${path}.zone.statusEffect`, errors);
+  } else if (event.type === 'spawn_adds') {
+    if (!Object.hasOwn(pack.monsters, event.monsterId)) errors.push(`${path}.monsterId: unknown monster '${event.monsterId}'`);
+    if (!event.points.length) errors.push(`${path}.points must not be empty`);
+    event.points.forEach((point, i) => {
+      if (Math.hypot(point.x, point.z) > DUNGEON_ARENA_RADIUS) errors.push(`${path}.points[${i}] is outside the arena`);
+    });
+  } else if (event.type === 'shrink_arena' && event.radius > DUNGEON_ARENA_RADIUS) {
+    errors.push(`${path}.radius must be at most ${DUNGEON_ARENA_RADIUS} (the arena border)`);
+  }
+}
+
+function checkEncounter(pack: ContentPack, encounter: EncounterDef, errors: string[]) {
+  const path = `encounters.${encounter.id}`;
+  if (!encounter.phases.length) {
+    errors.push(`${path}.phases must not be empty`);
+    return;
+  }
+  if (encounter.phases[0].hpThreshold !== 1) errors.push(`${path}.phases[0].hpThreshold must be 1`);
+  encounter.phases.forEach((phase, i) => {
+    const at = `${path}.phases[${i}]`;
+    if (i > 0 && phase.hpThreshold >= encounter.phases[i - 1].hpThreshold) {
+      errors.push(`${at}.hpThreshold must be below the previous phase's`);
+    }
+    (phase.onEnter ?? []).forEach((event, e) => checkEncounterEvent(pack, event, `${at}.onEnter[${e}]`, errors));
+    (phase.timeline ?? []).forEach((entry, e) => checkEncounterEvent(pack, entry.event, `${at}.timeline[${e}].event`, errors));
+  });
+  (encounter.timeline ?? []).forEach((entry, e) => checkEncounterEvent(pack, entry.event, `${path}.timeline[${e}].event`, errors));
+}
+
+function checkBehaviorNode(node: BehaviorNodeDef, path: string, errors: string[]) {
+  if (node.type === 'selector' || node.type === 'sequence') {
+    if (!node.children.length) errors.push(`${path}.children must not be empty`);
+    node.children.forEach((child, i) => checkBehaviorNode(child, `${path}.children[${i}]`, errors));
+  } else if (node.type === 'hp_below' && node.fraction > 1) {
+    errors.push(`${path}.fraction must be at most 1`);
+  } else if (node.type === 'flee' && node.belowHp > 1) {
+    errors.push(`${path}.belowHp must be at most 1`);
+  } else if (node.type === 'flank' && node.angle > 180) {
+    errors.push(`${path}.angle must be at most 180`);
+  }
+}
+
+function checkDungeonRefs(pack: ContentPack, dungeon: DungeonDef, errors: string[]) {
+  const path = `dungeons.${dungeon.id}`;
+  if (dungeon.rooms.length === 0) errors.push(`${path}.rooms must not be empty`);
+  const roomIds = new Set(dungeon.rooms.map((r) => r.id));
+  if (roomIds.size !== dungeon.rooms.length) errors.push(`${path}.rooms: room ids must be unique`);
+  dungeon.rooms.forEach((room, r) => {
+    const arenaRadius = room.arenaRadius ?? DUNGEON_ARENA_RADIUS;
+    if (arenaRadius > DUNGEON_ARENA_RADIUS) {
+      errors.push(`${path}.rooms[${r}].arenaRadius must be at most ${DUNGEON_ARENA_RADIUS} (the arena border)`);
+    }
+    room.spawns.forEach((spawn, s) => {
+      if (!Object.hasOwn(pack.monsters, spawn.monsterId)) {
+        errors.push(`${path}.rooms[${r}].spawns[${s}].monsterId: unknown monster '${spawn.monsterId}'`);
+      }
+      if (Math.hypot(spawn.position.x, spawn.position.z) > arenaRadius) {
+        errors.push(`${path}.rooms[${r}].spawns[${s}].position is outside the arena`);
+      }
+    });
+    for (const target of room.connections) {
+      if (!roomIds.has(target)) errors.push(`${path}.rooms[${r}].connections: unknown room '${target}'`);
+    }
+    const template = room.procedural;
+    if (template) {
+      const at = `${path}.rooms[${r}].procedural`;
+      if (!template.monsterPool.length) errors.push(`${at}.monsterPool must not be empty`);
+      template.monsterPool.forEach((entry, p) => {
+        if (!Object.hasOwn(pack.monsters, entry.monsterId)) {
+          errors.push(`${at}.monsterPool[${p}].monsterId: unknown monster '${entry.monsterId}'`);
+        }
+      });
+      if (template.packSize.min > template.packSize.max) errors.push(`${at}.packSize: min exceeds max`);
+      if (template.eliteChance > 1) errors.push(`${at}.eliteChance must be at most 1`);
+      if (template.arenaRadius > arenaRadius) errors.push(`${at}.arenaRadius is larger than the floor's arena`);
+    }
+  });
+  if (dungeon.bossId && !Object.hasOwn(pack.monsters, dungeon.bossId)) {
+    errors.push(`${path}.bossId: unknown monster '${dungeon.bossId}'`);
+  }
+}
+
+function checkCrossReferences(pack: ContentPack, errors: string[]) {
+  const requireItem = (defId: string, path: string) => {
+    if (!Object.hasOwn(pack.items, defId)) errors.push(`${path}: unknown item '${defId}'`);
+  };
+
+  for (const behavior of Object.values(pack.behaviors)) checkBehaviorNode(behavior.root, `behaviors.${behavior.id}.root`, errors);
+  for (const encounter of Object.values(pack.encounters)) checkEncounter(pack, encounter, errors);
+  for (const monster of Object.values(pack.monsters)) checkMonsterRefs(pack, monster, errors);
+  for (const dungeon of Object.values(pack.dungeons)) checkDungeonRefs(pack, dungeon, errors);
+
+  for (const table of Object.values(pack.lootTables)) {
+    const path = `lootTables.${table.id}`;
+    table.entries.forEach((entry, i) => {
+      requireItem(entry.itemDefId, `${path}.entries[${i}].itemDefId`);
+      if (RARITY_ORDER.indexOf(entry.minRarity) > RARITY_ORDER.indexOf(entry.maxRarity)) {
+        errors.push(`${path}.entries[${i}]: minRarity '${entry.minRarity}' is above maxRarity '${entry.maxRarity}'`);
+      }
+    });
+    if ((table.guaranteedDrops ?? 0) > table.maxDrops) {
+      errors.push(`${path}: guaranteedDrops exceeds maxDrops`);
+    }
+  }
+
+  (pack.recipes ?? []).forEach((recipe, i) => {
+    recipe.inputs.forEach((input, j) => requireItem(input.itemDefId, `recipes[${i}].inputs[${j}].itemDefId`));
+    requireItem(recipe.output.itemDefId, `recipes[${i}].output.itemDefId`);
+  });
+
+  // Ids the code itself depends on
+  for (const cls of Object.values(CLASS_DEFS)) {
+    requireItem(cls.startingWeapon, `class ${cls.id} startingWeapon`);
+    requireItem(cls.startingArmor, `class ${cls.id} startingArmor`);
+  }
+  BLACKSMITH_SHOP.forEach((entry) => requireItem(entry.defId, `shop entry`));
+  requireItem(HEALTH_POTION_ID, 'HEALTH_POTION_ID');
+  if (!Object.hasOwn(pack.dungeons, DEFAULT_DUNGEON_ID)) errors.push(`DEFAULT_DUNGEON_ID: unknown dungeon '${DEFAULT_DUNGEON_ID}'`);
+}
+
+/**
+ * Check a merged content pack against the shared schemas and resolve every
+ * id it references. Returns all problems found; an empty list means the pack
+ * is safe to install. Cross-references are only checked once the shape is valid.
+ */
+export function validateContentPack(raw: unknown): string[] {
+  const errors: string[] = [];
+  CONTENT_PACK_RULE(raw, '', errors);
+  if (errors.length) return errors;
+  checkCrossReferences(raw as ContentPack, errors);
+  return errors;
+}
+
+function replaceRecord<T>(target: Record<string, T>, source: Record<string, T>) {
+  for (const key of Object.keys(target)) delete target[key];
+  Object.assign(target, source);
+}
+
+/** Swap the shared registries over to a validated pack */
+export function installContentPack(pack: ContentPack): void {
+  replaceRecord(ITEM_DEFS, pack.items);
+  replaceRecord(MONSTER_DEFS, pack.monsters);
+  replaceRecord(BEHAVIOR_DEFS, pack.behaviors);
+  replaceRecord(ENCOUNTER_DEFS, pack.encounters);
+  replaceRecord(LOOT_TABLES, pack.lootTables);
+  replaceRecord(DUNGEON_DEFS, pack.dungeons);
+}
@@ -0,0 +1,349 @@
+import type { BoxCollider, CircleCollider, CollisionWorld, NavGrid, NavPoint } from '../types/navigation.js';
+import type { DungeonRoomDef, FloorObstacle } from '../types/dungeon.js';
+import { DUNGEON_ARENA_RADIUS, NAV_CELL_SIZE } from '../constants/game.js';
+import {
+  HUB_FOUNTAIN, HUB_SHOP_FOOTPRINT, HUB_LANTERN_POSITIONS, HUB_LANTERN_RADIUS, HUB_NPC_POSITIONS, HUB_NPC_RADIUS,
+  DUNGEON_ARENA_ROCKS, hubPvpPillars, hubPvpGatePosts, hubRocks,
+} from '../constants/world.js';
+
+// ---- Collision worlds ----
+
+/** Solid props of the hub */
+export function hubCollisionWorld(): CollisionWorld {
+  return {
+    circles: [
+      HUB_FOUNTAIN,
+      ...hubPvpPillars(),
+      ...hubPvpGatePosts(),
+      ...HUB_LANTERN_POSITIONS.map(([x, z]) => ({ x, z, r: HUB_LANTERN_RADIUS })),
+      ...Object.values(HUB_NPC_POSITIONS).map(([x, z]) => ({ x, z, r: HUB_NPC_RADIUS })),
+      ...hubRocks().map((rock) => ({ x: rock.x, z: rock.z, r: rock.size * rock.scaleXZ })),
+    ],
+    boxes: [HUB_SHOP_FOOTPRINT],
+  };
+}
+
+/** A dungeon floor: its arena, the fixed cover rocks and the floor's generated obstacles */
+export function floorCollisionWorld(floor: DungeonRoomDef, obstacles: FloorObstacle[]): CollisionWorld {
+  return {
+    circles: [...DUNGEON_ARENA_ROCKS, ...obstacles.map((o) => ({ x: o.x, z: o.z, r: o.radius }))],
+    boxes: [],
+    arena: { x: 0, z: 0, radius: floor.arenaRadius ?? DUNGEON_ARENA_RADIUS },
+  };
+}
+
+// ---- Collision ----
+
+function insideBox(box: BoxCollider, x: number, z: number, radius: number): boolean {
+  return x > box.minX - radius && x < box.maxX + radius && z > box.minZ - radius && z < box.maxZ + radius;
+}
+
+/**
+ * Push a body of `radius` out of every collider and back inside the arena,
+ * along the shortest way out so movement into a wall slides along it.
+ * Mutates and returns `pos`.
+ */
+export function resolveCollisions<T extends NavPoint>(world: CollisionWorld, pos: T, radius: number): T {
+  for (const box of world.boxes) {
+    if (!insideBox(box, pos.x, pos.z, radius)) continue;
+    const left = pos.x - (box.minX - radius);
+    const right = box.maxX + radius - pos.x;
+    const back = pos.z - (box.minZ - radius);
+    const front = box.maxZ + radius - pos.z;
+    const min = Math.min(left, right, back, front);
+    if (min === left) pos.x = box.minX - radius;
+    else if (min === right) pos.x = box.maxX + radius;
+    else if (min === back) pos.z = box.minZ - radius;
+    else pos.z = box.maxZ + radius;
+  }
+
+  for (const c of world.circles) {
+    const dx = pos.x - c.x;
+    const dz = pos.z - c.z;
+    const minDist = c.r + radius;
+    const distSq = dx * dx + dz * dz;
+    if (distSq >= minDist * minDist) continue;
+    const dist = Math.sqrt(distSq);
+    if (dist < 0.001) {
+      pos.x = c.x + minDist; // dead centre: any way out will do
+    } else {
+      pos.x = c.x + (dx / dist) * minDist;
+      pos.z = c.z + (dz / dist) * minDist;
+    }
+  }
+
+  if (world.arena) {
+    const { x, z } = world.arena;
+    const maxDist = Math.max(0, world.arena.radius - radius);
+    const dx = pos.x - x;
+    const dz = pos.z - z;
+    const dist = Math.sqrt(dx * dx + dz * dz);
+    if (dist > maxDist) {
+      pos.x = x + (dx / dist) * maxDist;
+      pos.z = z + (dz / dist) * maxDist;
+    }
+  }
+  return pos;
+}
+
+/** Step a body by (dx, dz), then resolve collisions. Mutates and returns `pos` */
+export function moveWithCollision<T extends NavPoint>(
+  world: CollisionWorld, pos: T, dx: number, dz: number, radius: number,
+): T {
+  pos.x += dx;
+  pos.z += dz;
+  return resolveCollisions(world, pos, radius);
+}
+
+/** Whether a body of `radius` centred at (x, z) would overlap something solid */
+export function isBlocked(world: CollisionWorld, x: number, z: number, radius: number): boolean {
+  if (world.arena && Math.hypot(x - world.arena.x, z - world.arena.z) > world.arena.radius - radius) return true;
+  for (const box of world.boxes) {
+    if (insideBox(box, x, z, radius)) return true;
+  }
+  for (const c of world.circles) {
+    const minDist = c.r + radius;
+    if ((x - c.x) ** 2 + (z - c.z) ** 2 < minDist * minDist) return true;
+  }
+  return false;
+}
+
+function segmentHitsCircle(a: NavPoint, b: NavPoint, c: CircleCollider, radius: number): boolean {
+  const abx = b.x - a.x;
+  const abz = b.z - a.z;
+  const lenSq = abx * abx + abz * abz;
+  const t = lenSq > 0 ? Math.max(0, Math.min(1, ((c.x - a.x) * abx + (c.z - a.z) * abz) / lenSq)) : 0;
+  const minDist = c.r + radius;
+  return (a.x + abx * t - c.x) ** 2 + (a.z + abz * t - c.z) ** 2 < minDist * minDist;
+}
+
+/** Slab test against the box grown by `radius` */
+function segmentHitsBox(a: NavPoint, b: NavPoint, box: BoxCollider, radius: number): boolean {
+  let tMin = 0;
+  let tMax = 1;
+  const axes: [number, number, number, number][] = [
+    [a.x, b.x - a.x, box.minX - radius, box.maxX + radius],
+    [a.z, b.z - a.z, box.minZ - radius, box.maxZ + radius],
+  ];
+  for (const [start, delta, min, max] of axes) {
+    if (Math.abs(delta) < 1e-9) {
+      if (start <= min || start >= max) return false;
+      continue;
+    }
+    let t1 = (min - start) / delta;
+    let t2 = (max - start) / delta;
+    if (t1 > t2) [t1, t2] = [t2, t1];
+    tMin = Math.max(tMin, t1);
+    tMax = Math.min(tMax, t2);
+    if (tMin >= tMax) return false;
+  }
+  return true;
+}
+
+/** Whether a body of `radius` can move in a straight line from `a` to `b` */
+export function hasClearPath(world: CollisionWorld, a: NavPoint, b: NavPoint, radius: number): boolean {
+  // The arena is convex, so a segment between two points inside it stays inside
+  if (world.arena && Math.hypot(b.x - world.arena.x, b.z - world.arena.z) > world.arena.radius - radius) return false;
+  for (const c of world.circles) {
+    if (segmentHitsCircle(a, b, c, radius)) return false;
+  }
+  for (const box of world.boxes) {
+    if (segmentHitsBox(a, b, box, radius)) return false;
+  }
+  return true;
+}
+
+// ---- Path finding ----
+
+/**
+ * Rasterise a collision world for an agent of `radius`. Worlds without an
+ * arena need explicit `bounds` to cover.
+ */
+export function buildNavGrid(
+  world: CollisionWorld,
+  radius: number,
+  cellSize = NAV_CELL_SIZE,
+  bounds?: { minX: number; maxX: number; minZ: number; maxZ: number },
+): NavGrid {
+  const area = bounds ?? (world.arena && {
+    minX: world.arena.x - world.arena.radius,
+    maxX: world.arena.x + world.arena.radius,
+    minZ: world.arena.z - world.arena.radius,
+    maxZ: world.arena.z + world.arena.radius,
+  });
+  if (!area) throw new Error('buildNavGrid needs bounds for a world without an arena');
+
+  const cols = Math.max(1, Math.ceil((area.maxX - area.minX) / cellSize));
+  const rows = Math.max(1, Math.ceil((area.maxZ - area.minZ) / cellSize));
+  const blocked = new Uint8Array(cols * rows);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const x = area.minX + (col + 0.5) * cellSize;
+      const z = area.minZ + (row + 0.5) * cellSize;
+      blocked[row * cols + col] = isBlocked(world, x, z, radius) ? 1 : 0;
+    }
+  }
+  return { originX: area.minX, originZ: area.minZ, cellSize, cols, rows, blocked };
+}
+
+function cellCentre(grid: NavGrid, cell: number): NavPoint {
+  return {
+    x: grid.originX + ((cell % grid.cols) + 0.5) * grid.cellSize,
+    z: grid.originZ + (Math.floor(cell / grid.cols) + 0.5) * grid.cellSize,
+  };
+}
+
+/** The open cell under `p`, or the closest open one within a few cells; -1 if none */
+function nearestOpenCell(grid: NavGrid, p: NavPoint, searchRadius = 6): number {
+  const col = Math.floor((p.x - grid.originX) / grid.cellSize);
+  const row = Math.floor((p.z - grid.originZ) / grid.cellSize);
+  let best = -1;
+  let bestDist = Infinity;
+  for (let r = 0; r <= searchRadius && best < 0; r++) {
+    for (let dr = -r; dr <= r; dr++) {
+      for (let dc = -r; dc <= r; dc++) {
+        if (Math.max(Math.abs(dr), Math.abs(dc)) !== r) continue; // ring only
+        const c = col + dc;
+        const rr = row + dr;
+        if (c < 0 || rr < 0 || c >= grid.cols || rr >= grid.rows) continue;
+        const cell = rr * grid.cols + c;
+        if (grid.blocked[cell]) continue;
+        const centre = cellCentre(grid, cell);
+        const d = (centre.x - p.x) ** 2 + (centre.z - p.z) ** 2;
+        if (d < bestDist) {
+          bestDist = d;
+          best = cell;
+        }
+      }
+    }
+  }
+  return best;
+}
+
+/** Min-heap of cells keyed by f-score */
+class CellHeap {
+  private cells: number[] = [];
+  private keys: number[] = [];
+
+  get size(): number {
+    return this.cells.length;
+  }
+
+  push(cell: number, key: number) {
+    const { cells, keys } = this;
+    let i = cells.length;
+    cells.push(cell);
+    keys.push(key);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (keys[parent] <= keys[i]) break;
+      [cells[i], cells[parent]] = [cells[parent], cells[i]];
+      [keys[i], keys[parent]] = [keys[parent], keys[i]];
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const { cells, keys } = this;
+    const top = cells[0];
+    const lastCell = cells.pop()!;
+    const lastKey = keys.pop()!;
+    if (cells.length) {
+      cells[0] = lastCell;
+      keys[0] = lastKey;
+      let i = 0;
+      for (;;) {
+        const l = i * 2 + 1;
+        const r = l + 1;
+        let smallest = i;
+        if (l < cells.length && keys[l] < keys[smallest]) smallest = l;
+        if (r < cells.length && keys[r] < keys[smallest]) smallest = r;
+        if (smallest === i) break;
+        [cells[i], cells[smallest]] = [cells[smallest], cells[i]];
+        [keys[i], keys[smallest]] = [keys[smallest], keys[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+const NEIGHBOURS: [number, number, number][] = [
+  [1, 0, 1], [-1, 0, 1], [0, 1, 1], [0, -1, 1],
+  [1, 1, Math.SQRT2], [1, -1, Math.SQRT2], [-1, 1, Math.SQRT2], [-1, -1, Math.SQRT2],
+];
+
+/**
+ * A* over the grid from `from` to `to`, then shortened to the waypoints an
+ * agent of `radius` can't see past. Returns the waypoints after `from`, ending
+ * at `to` (or the nearest reachable point to it), or null when there is no way
+ * through. Diagonal steps never cut a blocked corner.
+ */
+export function findPath(
+  world: CollisionWorld, grid: NavGrid, from: NavPoint, to: NavPoint, radius: number,
+): NavPoint[] | null {
+  const start = nearestOpenCell(grid, from);
+  const goal = nearestOpenCell(grid, to);
+  if (start < 0 || goal < 0) return null;
+
+  const { cols, rows, blocked } = grid;
+  const goalCol = goal % cols;
+  const goalRow = Math.floor(goal / cols);
+  const heuristic = (cell: number) => {
+    const dc = Math.abs((cell % cols) - goalCol);
+    const dr = Math.abs(Math.floor(cell / cols) - goalRow);
+    return Math.max(dc, dr) + (Math.SQRT2 - 1) * Math.min(dc, dr); // octile
+  };
+
+  const g = new Float64Array(cols * rows).fill(Infinity);
+  const cameFrom = new Int32Array(cols * rows).fill(-1);
+  const closed = new Uint8Array(cols * rows);
+  const open = new CellHeap();
+  g[start] = 0;
+  open.push(start, heuristic(start));
+
+  while (open.size) {
+    const cell = open.pop();
+    if (cell === goal) break;
+    if (closed[cell]) continue;
+    closed[cell] = 1;
+    const col = cell % cols;
+    const row = Math.floor(cell / cols);
+    for (const [dc, dr, cost] of NEIGHBOURS) {
+      const c = col + dc;
+      const r = row + dr;
+      if (c < 0 || r < 0 || c >= cols || r >= rows) continue;
+      const next = r * cols + c;
+      if (blocked[next] || closed[next]) continue;
+      if (dc && dr && (blocked[row * cols + c] || blocked[r * cols + col])) continue;
+      const score = g[cell] + cost;
+      if (score >= g[next]) continue;
+      g[next] = score;
+      cameFrom[next] = cell;
+      open.push(next, score + heuristic(next));
+    }
+  }
+  if (start !== goal && cameFrom[goal] < 0) return null;
+
+  const cells: number[] = [];
+  for (let cell = goal; cell !== start; cell = cameFrom[cell]) cells.push(cell);
+  const points = cells.reverse().map((cell) => cellCentre(grid, cell));
+  // Finish on the exact goal when it is reachable from the last cell
+  const last = points[points.length - 1] ?? from;
+  if (!isBlocked(world, to.x, to.z, radius) && hasClearPath(world, last, to, radius)) {
+    points.push({ x: to.x, z: to.z });
+  }
+
+  // String-pull: from each anchor, jump to the farthest waypoint in plain sight
+  const path: NavPoint[] = [];
+  let anchor = from;
+  let i = 0;
+  while (i < points.length) {
+    let j = points.length - 1;
+    while (j > i && !hasClearPath(world, anchor, points[j], radius)) j--;
+    path.push(points[j]);
+    anchor = points[j];
+    i = j + 1;
+  }
+  return path;
+}
@@ -0,0 +1,111 @@
+import type { FloorLayout, FloorObstacle, MonsterSpawn, ProceduralFloorTemplate } from '../types/dungeon.js';
+import { DUNGEON_PLAYER_SPAWN, PROCEDURAL_SPAWN_CLEARANCE } from '../constants/game.js';
+
+const PLACEMENT_ATTEMPTS = 20;
+const PACK_SPREAD = 1.6; // pack members stand within this distance of the pack centre
+const PACK_SEPARATION = 4;
+const OBSTACLE_MIN_RADIUS = 0.5;
+const OBSTACLE_MAX_RADIUS = 1.2;
+
+/** Deterministic PRNG (mulberry32) returning floats in [0, 1) */
+export function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** A fresh 32-bit seed for a new run */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/** Seed for one floor of a run, so floors differ but each replays independently */
+export function floorSeed(runSeed: number, floorIndex: number): number {
+  return (Math.imul(runSeed ^ 0x9e3779b9, 0x85ebca6b) + Math.imul(floorIndex + 1, 0xc2b2ae35)) >>> 0;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function randomPointInArena(rng: () => number, radius: number): { x: number; z: number } {
+  // sqrt keeps the distribution uniform over the disc rather than bunched at the centre
+  const angle = rng() * Math.PI * 2;
+  const r = Math.sqrt(rng()) * radius;
+  return { x: Math.cos(angle) * r, z: Math.sin(angle) * r };
+}
+
+function distance(a: { x: number; z: number }, b: { x: number; z: number }): number {
+  return Math.hypot(a.x - b.x, a.z - b.z);
+}
+
+function pickWeighted(rng: () => number, pool: ProceduralFloorTemplate['monsterPool']): string {
+  const total = pool.reduce((sum, e) => sum + e.weight, 0);
+  let roll = rng() * total;
+  for (const entry of pool) {
+    roll -= entry.weight;
+    if (roll < 0) return entry.monsterId;
+  }
+  return pool[pool.length - 1].monsterId;
+}
+
+/**
+ * Generate a floor's monster packs and obstacles. Pure and deterministic: the
+ * server and every client produce the same layout from the same seed, which is
+ * also how a reported seed replays a run exactly.
+ */
+export function generateFloorLayout(template: ProceduralFloorTemplate, seed: number): FloorLayout {
+  const rng = createRng(seed);
+  const obstacles: FloorObstacle[] = [];
+  const spawns: MonsterSpawn[] = [];
+
+  const blocked = (p: { x: number; z: number }, clearance: number) =>
+    obstacles.some((o) => distance(p, o) < o.radius + clearance);
+
+  for (let i = 0; i < template.obstacles; i++) {
+    const radius = OBSTACLE_MIN_RADIUS + rng() * (OBSTACLE_MAX_RADIUS - OBSTACLE_MIN_RADIUS);
+    const rotation = rng() * Math.PI * 2;
+    for (let attempt = 0; attempt < PLACEMENT_ATTEMPTS; attempt++) {
+      const p = randomPointInArena(rng, template.arenaRadius);
+      if (distance(p, DUNGEON_PLAYER_SPAWN) < 3 || blocked(p, radius + 1)) continue;
+      obstacles.push({ x: round2(p.x), z: round2(p.z), radius: round2(radius), rotation: round2(rotation) });
+      break;
+    }
+  }
+
+  const area = Math.PI * template.arenaRadius * template.arenaRadius;
+  const packCount = Math.max(1, Math.round((template.density * area) / 100));
+  const packCentres: { x: number; z: number }[] = [];
+
+  for (let i = 0; i < packCount; i++) {
+    const monsterId = pickWeighted(rng, template.monsterPool);
+    const size = template.packSize.min + Math.floor(rng() * (template.packSize.max - template.packSize.min + 1));
+    let centre: { x: number; z: number } | null = null;
+    for (let attempt = 0; attempt < PLACEMENT_ATTEMPTS && !centre; attempt++) {
+      const p = randomPointInArena(rng, Math.max(1, template.arenaRadius - PACK_SPREAD));
+      if (distance(p, DUNGEON_PLAYER_SPAWN) < PROCEDURAL_SPAWN_CLEARANCE) continue;
+      if (blocked(p, PACK_SPREAD) || packCentres.some((c) => distance(p, c) < PACK_SEPARATION)) continue;
+      centre = p;
+    }
+    if (!centre) continue; // arena too crowded for another pack
+    packCentres.push(centre);
+
+    for (let m = 0; m < size; m++) {
+      const angle = (m / size) * Math.PI * 2 + rng() * 0.5;
+      const offset = size > 1 ? PACK_SPREAD * (0.5 + rng() * 0.5) : 0;
+      spawns.push({
+        monsterId,
+        position: { x: round2(centre.x + Math.cos(angle) * offset), y: 0, z: round2(centre.z + Math.sin(angle) * offset) },
+        respawnTime: template.respawnTime,
+        elite: rng() < template.eliteChance,
+      });
+    }
+  }
+
+  return { spawns, obstacles };
+}
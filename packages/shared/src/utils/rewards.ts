@@ -0,0 +1,44 @@
+import { PARTY_XP_BONUS } from '../constants/game.js';
+
+/** How a kill's gold is divided between the players credited with it */
+export type GoldSplitRule = 'even' | 'contribution' | 'killer';
+
+export const GOLD_SPLIT_RULES: GoldSplitRule[] = ['even', 'contribution', 'killer'];
+
+/**
+ * Divide a whole amount by weight. Leftover units go to the largest fractional
+ * shares, so the parts always add up to `total`. All-zero weights split evenly.
+ */
+export function splitByWeight(total: number, weights: Map<string, number>): Map<string, number> {
+  const shares = new Map<string, number>();
+  if (!weights.size) return shares;
+  const sum = [...weights.values()].reduce((a, w) => a + Math.max(0, w), 0);
+  const raw = [...weights].map(([id, w]) => {
+    const exact = sum > 0 ? (total * Math.max(0, w)) / sum : total / weights.size;
+    return { id, whole: Math.floor(exact), fraction: exact - Math.floor(exact) };
+  });
+  let leftover = total - raw.reduce((a, r) => a + r.whole, 0);
+  for (const r of [...raw].sort((a, b) => b.fraction - a.fraction)) {
+    shares.set(r.id, r.whole + (leftover > 0 ? 1 : 0));
+    leftover--;
+  }
+  return shares;
+}
+
+/** Gold per credited player; `contributions` holds every credited player, even those with zero */
+export function splitGold(
+  total: number,
+  contributions: Map<string, number>,
+  rule: GoldSplitRule,
+  killerId: string,
+): Map<string, number> {
+  if (rule === 'killer') return new Map(contributions.has(killerId) ? [[killerId, total]] : []);
+  if (rule === 'contribution') return splitByWeight(total, contributions);
+  return splitByWeight(total, new Map([...contributions.keys()].map((id) => [id, 1])));
+}
+
+/** XP each of `members` credited players gets: the pool grows with party size and is shared evenly */
+export function partyXpShare(baseXp: number, members: number): number {
+  if (members <= 0) return 0;
+  return Math.floor((baseXp * (1 + PARTY_XP_BONUS * (members - 1))) / members);
+}
@@ -0,0 +1,33 @@
+import type { ActiveStatusEffect, StatModifiers } from '../types/status.js';
+import { MIN_SLOWED_SPEED } from '../constants/game.js';
+
+/**
+ * Sum an entity's effects into stat modifiers. The server applies these and
+ * the client predicts its own movement with the same numbers.
+ */
+export function statusModifiers(effects: Iterable<ActiveStatusEffect>): StatModifiers {
+  let slow = 0;
+  let haste = 0;
+  let damageUp = 0;
+  let armorLoss = 0;
+  let rooted = false;
+  let stunned = false;
+  for (const effect of effects) {
+    const amount = effect.magnitude * effect.stacks;
+    switch (effect.type) {
+      case 'stun': stunned = true; break;
+      case 'root': rooted = true; break;
+      case 'slow': slow += amount; break;
+      case 'haste': haste += amount; break;
+      case 'damage_up': damageUp += amount; break;
+      case 'armor_shred': armorLoss += amount; break;
+    }
+  }
+  return {
+    moveSpeed: stunned || rooted ? 0 : Math.max(MIN_SLOWED_SPEED, 1 - slow) * (1 + haste),
+    attackSpeed: 1 + haste,
+    damage: 1 + damageUp,
+    armorLoss,
+    canAct: !stunned,
+  };
+}
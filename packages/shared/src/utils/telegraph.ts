@@ -0,0 +1,33 @@
+import type { NavPoint } from '../types/navigation.js';
+import type { TelegraphPlacement, TelegraphShape } from '../types/telegraph.js';
+
+/** Facing from one point toward another, matching entity rotation (0 looks down +z) */
+export function facingToward(from: NavPoint, to: NavPoint): number {
+  return Math.atan2(to.x - from.x, to.z - from.z);
+}
+
+/** Whether `point` is inside `shape` placed at `placement`; the server's hit test for telegraphs and zones */
+export function isInTelegraph(shape: TelegraphShape, placement: TelegraphPlacement, point: NavPoint): boolean {
+  const dx = point.x - placement.x;
+  const dz = point.z - placement.z;
+  const dist = Math.hypot(dx, dz);
+  switch (shape.type) {
+    case 'circle':
+      return dist <= shape.radius;
+    case 'donut':
+      return dist >= shape.innerRadius && dist <= shape.radius;
+    case 'cone': {
+      if (dist > shape.radius) return false;
+      if (dist === 0) return true;
+      // Angle off the facing, wrapped to [-PI, PI]
+      let off = Math.atan2(dx, dz) - placement.facing;
+      off = Math.atan2(Math.sin(off), Math.cos(off));
+      return Math.abs(off) <= (shape.angle * Math.PI) / 360;
+    }
+    case 'line': {
+      const along = dx * Math.sin(placement.facing) + dz * Math.cos(placement.facing);
+      const across = dx * Math.cos(placement.facing) - dz * Math.sin(placement.facing);
+      return along >= 0 && along <= shape.length && Math.abs(across) <= shape.width / 2;
+    }
+  }
+}
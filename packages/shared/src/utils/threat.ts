@@ -0,0 +1,36 @@
+import { AGGRO_OVERTAKE_MELEE, AGGRO_OVERTAKE_RANGED } from '../constants/game.js';
+
+/**
+ * Who a monster should attack given its threat table. Aggro sticks to
+ * `currentId` until a challenger passes 110% of its threat from melee range
+ * or 130% from further away; with no current target the top threat wins.
+ * `candidates` limits the choice to players that can be attacked right now.
+ */
+export function pickThreatTarget(
+  threat: Map<string, number>,
+  currentId: string,
+  candidates: (sessionId: string) => boolean,
+  inMeleeRange: (sessionId: string) => boolean,
+): string | null {
+  const current = threat.has(currentId) && candidates(currentId) ? threat.get(currentId)! : null;
+
+  let best: string | null = null;
+  let bestThreat = -Infinity;
+  for (const [sessionId, amount] of threat) {
+    if (sessionId === currentId || !candidates(sessionId) || amount <= bestThreat) continue;
+    if (current !== null) {
+      const overtake = inMeleeRange(sessionId) ? AGGRO_OVERTAKE_MELEE : AGGRO_OVERTAKE_RANGED;
+      if (amount <= current * overtake) continue;
+    }
+    best = sessionId;
+    bestThreat = amount;
+  }
+  return best ?? (current !== null ? currentId : null);
+}
+
+/** The highest threat in a table, 0 when empty */
+export function topThreat(threat: Map<string, number>): number {
+  let top = 0;
+  for (const amount of threat.values()) top = Math.max(top, amount);
+  return top;
+}
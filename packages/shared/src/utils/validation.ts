@@ -1,5 +1,9 @@
 import type { PlayerInput } from '../types/player.js';
-import { PLAYER_SPEED, PLAYER_SPRINT_SPEED } from '../constants/game.js';
+import {
+  PLAYER_SPEED, PLAYER_SPRINT_SPEED,
+  USERNAME_MIN_LENGTH, USERNAME_MAX_LENGTH, PASSWORD_MIN_LENGTH, PASSWORD_MAX_LENGTH,
+  CHARACTER_NAME_MIN_LENGTH, CHARACTER_NAME_MAX_LENGTH, INVITE_CODE_LENGTH, INVITE_CODE_ALPHABET,
+} from '../constants/game.js';
 
 export function validatePlayerInput(input: PlayerInput): boolean {
   if (typeof input.seq !== 'number' || input.seq < 0) return false;
@@ -8,7 +12,8 @@ export function validatePlayerInput(input: PlayerInput): boolean {
   return true;
 }
 
-export function computeMovement(input: PlayerInput): { dx: number; dz: number } {
+/** `speedMultiplier` is the mover's status effects, see statusModifiers */
+export function computeMovement(input: PlayerInput, speedMultiplier = 1): { dx: number; dz: number } {
   // Camera yaw = input.rotation
   // Camera sits at (+sin(yaw), y, +cos(yaw)) relative to player
   // So player's forward direction is (-sin(yaw), -cos(yaw))
@@ -39,9 +44,49 @@ export function computeMovement(input: PlayerInput): { dx: number; dz: number }
     dz /= len;
   }
 
-  const speed = input.sprint ? PLAYER_SPRINT_SPEED : PLAYER_SPEED;
+  const speed = (input.sprint ? PLAYER_SPRINT_SPEED : PLAYER_SPEED) * speedMultiplier;
   return {
     dx: dx * speed * input.dt,
     dz: dz * speed * input.dt,
   };
 }
+
+/** Returns an error message, or null if the username is acceptable */
+export function validateUsername(username: unknown): string | null {
+  if (typeof username !== 'string') return 'Username is required';
+  if (username.length < USERNAME_MIN_LENGTH || username.length > USERNAME_MAX_LENGTH) {
+    return `Username must be ${USERNAME_MIN_LENGTH}-${USERNAME_MAX_LENGTH} characters`;
+  }
+  if (!/^[A-Za-z0-9_]+$/.test(username)) return 'Username may only contain letters, numbers and _';
+  return null;
+}
+
+/** Returns an error message, or null if the password is acceptable */
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== 'string') return 'Password is required';
+  if (password.length < PASSWORD_MIN_LENGTH || password.length > PASSWORD_MAX_LENGTH) {
+    return `Password must be ${PASSWORD_MIN_LENGTH}-${PASSWORD_MAX_LENGTH} characters`;
+  }
+  return null;
+}
+
+/** Returns an error message, or null if the character name is acceptable */
+export function validateCharacterName(name: unknown): string | null {
+  if (typeof name !== 'string') return 'Character name is required';
+  if (name.length < CHARACTER_NAME_MIN_LENGTH || name.length > CHARACTER_NAME_MAX_LENGTH) {
+    return `Character name must be ${CHARACTER_NAME_MIN_LENGTH}-${CHARACTER_NAME_MAX_LENGTH} characters`;
+  }
+  if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(name)) return 'Character name must start with a letter and use only letters, numbers and _';
+  return null;
+}
+
+/** Upper-case and trim a typed invite code; null when it can't be one */
+export function normalizeInviteCode(code: unknown): string | null {
+  if (typeof code !== 'string') return null;
+  const normalized = code.trim().toUpperCase();
+  if (normalized.length !== INVITE_CODE_LENGTH) return null;
+  for (const ch of normalized) {
+    if (!INVITE_CODE_ALPHABET.includes(ch)) return null;
+  }
+  return normalized;
+}
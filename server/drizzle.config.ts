@@ -1,10 +0,0 @@
-import { defineConfig } from 'drizzle-kit';
-
-export default defineConfig({
-  schema: './src/db/schema.ts',
-  out: './src/db/migrations',
-  dialect: 'sqlite',
-  dbCredentials: {
-    url: './data/game.db',
-  },
-});
@@ -0,0 +1,186 @@
+import {
+  facingToward,
+  type EncounterAnchor, type EncounterDef, type EncounterEvent, type EncounterPhaseDef, type EncounterTimelineEntry,
+  type GroundZoneDef, type NavPoint, type StatusEffectDef, type TelegraphPlacement, type TelegraphShape,
+} from '@saab/shared';
+import type { PlayerState } from '../state/PlayerState.js';
+
+/** Everything an encounter does to the world goes through the room */
+export interface EncounterHost {
+  /** Players the boss can still hit; the fight resets once there are none */
+  players(): PlayerState[];
+  /** Whoever holds the boss's aggro, if anyone */
+  bossTarget(): PlayerState | null;
+  /** Where the boss stands, facing its target */
+  bossPlacement(): TelegraphPlacement;
+  announce(text: string): void;
+  /** Returns the new monster's id, or '' if it could not spawn */
+  spawnAdd(monsterId: string, point: NavPoint): string;
+  despawnAdd(monsterId: string): void;
+  telegraph(placement: TelegraphPlacement, shape: TelegraphShape, delay: number, damage: number, statusEffect?: StatusEffectDef): void;
+  zone(placement: TelegraphPlacement, zone: GroundZoneDef): void;
+  castAbility(abilityId: string): void;
+  shrinkArena(radius: number, seconds: number, damagePerSecond: number): void;
+  phaseChanged(phase: number): void;
+  enraged(): void;
+  /** Put the boss back as it was before the pull: full HP, at its spawn, no threat, arena restored */
+  resetBoss(): void;
+}
+
+/**
+ * Runs one boss's EncounterDef: phase changes by HP, phase-entry events and
+ * the encounter and phase timelines. Idle until the boss is pulled; if every
+ * player dies or leaves mid-fight it despawns its adds and resets the boss.
+ */
+export class BossEncounter {
+  phase = 0;
+  private engaged = false;
+  /** Seconds since the pull, and since the current phase began */
+  private elapsed = 0;
+  private phaseElapsed = 0;
+  private enrageDamage = 1;
+  private enrageSpeed = 1;
+  private adds = new Set<string>();
+  /** When each timeline entry fires next, on its own clock */
+  private nextAt = new Map<EncounterTimelineEntry, number>();
+
+  constructor(private def: EncounterDef, private host: EncounterHost) {}
+
+  private get phaseDef(): EncounterPhaseDef {
+    return this.def.phases[this.phase];
+  }
+
+  get damageMultiplier(): number {
+    return this.phaseDef.damageMultiplier * this.enrageDamage;
+  }
+
+  get speedMultiplier(): number {
+    return this.phaseDef.speedMultiplier * this.enrageSpeed;
+  }
+
+  get armorMultiplier(): number {
+    return this.phaseDef.armorMultiplier;
+  }
+
+  /** Ability ids the boss may use in the current phase */
+  get abilities(): string[] {
+    return this.phaseDef.abilities;
+  }
+
+  /** Advance the fight; `pulled` is whether the boss has a target this tick */
+  tick(dt: number, hpFraction: number, pulled: boolean) {
+    if (!this.engaged) {
+      if (!pulled) return;
+      this.engaged = true;
+      this.phaseDef.onEnter?.forEach((event) => this.fire(event));
+    }
+    if (!this.host.players().length) {
+      this.reset();
+      return;
+    }
+
+    this.elapsed += dt;
+    this.phaseElapsed += dt;
+    // One phase per tick, so a burst past two thresholds still plays both entries in order
+    const next = this.def.phases[this.phase + 1];
+    if (next && hpFraction <= next.hpThreshold) this.enterPhase(this.phase + 1);
+
+    this.runTimeline(this.def.timeline, this.elapsed);
+    this.runTimeline(this.phaseDef.timeline, this.phaseElapsed);
+  }
+
+  /** The boss died; whatever it brought with it goes too */
+  defeated() {
+    this.disengage();
+  }
+
+  /** Back to before the pull */
+  reset() {
+    this.disengage();
+    this.elapsed = 0;
+    this.phaseElapsed = 0;
+    this.enrageDamage = 1;
+    this.enrageSpeed = 1;
+    if (this.phase !== 0) {
+      this.phase = 0;
+      this.host.phaseChanged(0);
+    }
+    this.host.resetBoss();
+  }
+
+  private disengage() {
+    this.adds.forEach((id) => this.host.despawnAdd(id));
+    this.adds.clear();
+    this.nextAt.clear();
+    this.engaged = false;
+  }
+
+  private enterPhase(phase: number) {
+    this.phase = phase;
+    this.phaseElapsed = 0;
+    this.host.phaseChanged(phase);
+    this.phaseDef.onEnter?.forEach((event) => this.fire(event));
+  }
+
+  private runTimeline(entries: EncounterTimelineEntry[] | undefined, clock: number) {
+    for (const entry of entries ?? []) {
+      const due = this.nextAt.get(entry) ?? entry.at;
+      if (clock < due) continue;
+      this.nextAt.set(entry, entry.every ? due + entry.every : Infinity);
+      this.fire(entry.event);
+    }
+  }
+
+  private anchorPlacements(at: EncounterAnchor): TelegraphPlacement[] {
+    const boss = this.host.bossPlacement();
+    if (at === 'boss') return [boss];
+
+    const players = this.host.players();
+    let anchored: PlayerState[];
+    if (at === 'target') {
+      const target = this.host.bossTarget();
+      anchored = target ? [target] : [];
+    } else if (at === 'random_player') {
+      anchored = players.length ? [players[Math.floor(Math.random() * players.length)]] : [];
+    } else {
+      anchored = players;
+    }
+    return anchored.map((p) => {
+      const point: NavPoint = { x: p.position.x, z: p.position.z };
+      return { ...point, facing: facingToward(boss, point) };
+    });
+  }
+
+  private fire(event: EncounterEvent) {
+    switch (event.type) {
+      case 'announce':
+        this.host.announce(event.text);
+        break;
+      case 'enrage':
+        this.enrageDamage *= event.damageMultiplier;
+        this.enrageSpeed *= event.speedMultiplier ?? 1;
+        this.host.enraged();
+        break;
+      case 'spawn_adds':
+        for (const point of event.points) {
+          const id = this.host.spawnAdd(event.monsterId, point);
+          if (id) this.adds.add(id);
+        }
+        break;
+      case 'shrink_arena':
+        this.host.shrinkArena(event.radius, event.seconds, event.damagePerSecond);
+        break;
+      case 'telegraph':
+        for (const placement of this.anchorPlacements(event.at)) {
+          this.host.telegraph(placement, event.shape, event.delay, event.damage, event.statusEffect);
+        }
+        break;
+      case 'zone':
+        for (const placement of this.anchorPlacements(event.at)) this.host.zone(placement, event.zone);
+        break;
+      case 'cast':
+        this.host.castAbility(event.ability);
+        break;
+    }
+  }
+}
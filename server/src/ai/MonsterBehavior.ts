@@ -0,0 +1,250 @@
+import {
+  BEHAVIOR_DEFS, PATROL_SPEED_FACTOR, RETREAT_STEP, FLANK_TOLERANCE,
+  type BehaviorNodeDef, type BehaviorStatus, type MonsterAIState, type MonsterDef, type NavPoint,
+} from '@saab/shared';
+import type { MonsterState } from '../state/MonsterState.js';
+import type { PlayerState } from '../state/PlayerState.js';
+
+/** What a monster's behavior nodes remember between ticks */
+export interface BehaviorMemory {
+  patrolIndex: number;
+  /** Where the patrol is heading; null while choosing the next stop */
+  patrolGoal: NavPoint | null;
+  patrolWait: number;
+  hasFled: boolean;
+  fleeUntil: number;
+  /** Which side this monster circles to when flanking, -1 or 1 */
+  flankSide: number;
+  /** Set once the monster has reached the target's back, or was already fighting at its front */
+  flanked: boolean;
+  calledForHelp: boolean;
+}
+
+export function createBehaviorMemory(): BehaviorMemory {
+  return {
+    patrolIndex: 0,
+    patrolGoal: null,
+    patrolWait: 0,
+    hasFled: false,
+    fleeUntil: 0,
+    flankSide: Math.random() < 0.5 ? -1 : 1,
+    flanked: false,
+    calledForHelp: false,
+  };
+}
+
+/** The monster being ticked and what the room already worked out for it */
+export interface BehaviorAgent {
+  monsterId: string;
+  monster: MonsterState;
+  def: MonsterDef;
+  spawnPos: NavPoint;
+  memory: BehaviorMemory;
+  /** Who holds aggro, settled from the threat table before the tree runs */
+  target: PlayerState | null;
+  /** Infinity without a target */
+  targetDist: number;
+  /** Movement speed this tick, boss phase multipliers included */
+  speed: number;
+  dt: number;
+}
+
+/** Everything the tree does to the world goes through the room */
+export interface BehaviorHost {
+  moveToward(agent: BehaviorAgent, goal: NavPoint, speed: number): void;
+  /** Face the target and, when `strike` is set and the attack is off cooldown, hit it */
+  attack(agent: BehaviorAgent, strike: boolean): void;
+  useAbilities(agent: BehaviorAgent): void;
+  /** Set idle monsters within `radius` on the agent's target */
+  callForHelp(agent: BehaviorAgent, radius: number): void;
+  /** Forget the fight: threat, taunts and target */
+  dropAggro(agent: BehaviorAgent): void;
+  /** The nearest spot to `point` a monster can stand on */
+  walkablePoint(point: NavPoint): NavPoint;
+  /** Whether another monster is already trading blows with the agent's target */
+  allyEngaging(agent: BehaviorAgent): boolean;
+}
+
+function groundDistance(a: NavPoint, b: NavPoint): number {
+  return Math.hypot(a.x - b.x, a.z - b.z);
+}
+
+function setState(agent: BehaviorAgent, aiState: MonsterAIState, animation: string) {
+  agent.monster.aiState = aiState;
+  agent.monster.animation = animation;
+}
+
+/** Head for a point RETREAT_STEP away from the target */
+function retreat(agent: BehaviorAgent, host: BehaviorHost) {
+  const { monster, target } = agent;
+  const dx = monster.position.x - target!.position.x;
+  const dz = monster.position.z - target!.position.z;
+  const dist = Math.sqrt(dx * dx + dz * dz) || 1;
+  const goal = host.walkablePoint({
+    x: monster.position.x + (dx / dist) * RETREAT_STEP,
+    z: monster.position.z + (dz / dist) * RETREAT_STEP,
+  });
+  host.moveToward(agent, goal, agent.speed);
+}
+
+function nextPatrolGoal(node: Extract<BehaviorNodeDef, { type: 'patrol' }>, agent: BehaviorAgent, host: BehaviorHost): NavPoint | null {
+  const { spawnPos, memory } = agent;
+  if (node.route?.length) {
+    const offset = node.route[memory.patrolIndex % node.route.length];
+    memory.patrolIndex = (memory.patrolIndex + 1) % node.route.length;
+    return host.walkablePoint({ x: spawnPos.x + offset.x, z: spawnPos.z + offset.z });
+  }
+  if (!node.wanderRadius) return null;
+  const angle = Math.random() * Math.PI * 2;
+  const dist = node.wanderRadius * Math.sqrt(Math.random());
+  return host.walkablePoint({ x: spawnPos.x + Math.cos(angle) * dist, z: spawnPos.z + Math.sin(angle) * dist });
+}
+
+function tickNode(node: BehaviorNodeDef, agent: BehaviorAgent, host: BehaviorHost): BehaviorStatus {
+  const { monster, def, target, memory } = agent;
+
+  switch (node.type) {
+    case 'selector':
+      for (const child of node.children) {
+        const status = tickNode(child, agent, host);
+        if (status !== 'failure') return status;
+      }
+      return 'failure';
+
+    case 'sequence':
+      for (const child of node.children) {
+        const status = tickNode(child, agent, host);
+        if (status !== 'success') return status;
+      }
+      return 'success';
+
+    case 'has_target':
+      return target ? 'success' : 'failure';
+
+    case 'hp_below':
+      return monster.hp < monster.maxHp * node.fraction ? 'success' : 'failure';
+
+    case 'use_abilities':
+      if (target) host.useAbilities(agent);
+      return 'success';
+
+    case 'call_for_help':
+      if (target && !memory.calledForHelp) {
+        memory.calledForHelp = true;
+        host.callForHelp(agent, node.radius);
+      }
+      return 'success';
+
+    case 'flee': {
+      const now = Date.now();
+      if (target && !memory.hasFled && monster.hp < monster.maxHp * node.belowHp) {
+        memory.hasFled = true;
+        memory.fleeUntil = now + node.seconds * 1000;
+      }
+      if (!target || now >= memory.fleeUntil) return 'failure';
+      setState(agent, 'flee', 'run');
+      retreat(agent, host);
+      return 'running';
+    }
+
+    case 'keep_distance': {
+      if (!target || agent.targetDist >= node.min || agent.targetDist < 0.1) return 'failure';
+      setState(agent, 'kite', 'run');
+      retreat(agent, host);
+      // Back away facing the target
+      monster.rotation = Math.atan2(target.position.x - monster.position.x, target.position.z - monster.position.z);
+      return 'running';
+    }
+
+    case 'flank': {
+      if (!target || memory.flanked) return 'failure';
+      // Whoever got stuck in first holds the front
+      if (monster.aiState === 'attack') {
+        memory.flanked = true;
+        return 'failure';
+      }
+      if (!host.allyEngaging(agent)) return 'failure';
+      const behind = target.rotation + Math.PI + memory.flankSide * (node.angle * Math.PI) / 180;
+      const spot = host.walkablePoint({
+        x: target.position.x + Math.sin(behind) * def.attackRange * 0.8,
+        z: target.position.z + Math.cos(behind) * def.attackRange * 0.8,
+      });
+      if (groundDistance(monster.position, spot) <= FLANK_TOLERANCE) {
+        memory.flanked = true;
+        return 'failure';
+      }
+      setState(agent, 'flank', 'run');
+      host.moveToward(agent, spot, agent.speed);
+      return 'running';
+    }
+
+    case 'attack':
+      if (!target || agent.targetDist > def.attackRange) return 'failure';
+      setState(agent, 'attack', 'attack');
+      host.attack(agent, node.strike ?? true);
+      return 'running';
+
+    case 'chase':
+      if (!target) return 'failure';
+      setState(agent, 'chase', 'run');
+      host.moveToward(agent, target.position, agent.speed);
+      return 'running';
+
+    case 'guard':
+      if (groundDistance(monster.position, agent.spawnPos) <= node.radius) return 'failure';
+      if (target) {
+        host.dropAggro(agent);
+        agent.target = null;
+        agent.targetDist = Infinity;
+      }
+      setState(agent, 'return', 'run');
+      host.moveToward(agent, agent.spawnPos, def.speed);
+      return 'running';
+
+    case 'patrol': {
+      if (target) return 'failure';
+      if (memory.patrolWait > 0) {
+        memory.patrolWait -= agent.dt;
+        setState(agent, 'idle', 'idle');
+        return 'running';
+      }
+      memory.patrolGoal ??= nextPatrolGoal(node, agent, host);
+      if (!memory.patrolGoal) return 'failure';
+      if (groundDistance(monster.position, memory.patrolGoal) < 0.5) {
+        memory.patrolGoal = null;
+        memory.patrolWait = node.pause ?? 0;
+        setState(agent, 'idle', 'idle');
+        return 'running';
+      }
+      setState(agent, 'patrol', 'walk');
+      host.moveToward(agent, memory.patrolGoal, def.speed * PATROL_SPEED_FACTOR);
+      return 'running';
+    }
+
+    case 'return_home':
+      if (groundDistance(monster.position, agent.spawnPos) <= 1) return 'failure';
+      setState(agent, 'return', 'run');
+      host.moveToward(agent, agent.spawnPos, def.speed);
+      return 'running';
+
+    case 'idle':
+      setState(agent, 'idle', 'idle');
+      return 'success';
+  }
+}
+
+/**
+ * Run one tick of the monster's behavior tree. A fresh fight (no target)
+ * clears the once-per-fight memory so the next one starts over.
+ */
+export function tickBehavior(agent: BehaviorAgent, host: BehaviorHost): BehaviorStatus {
+  if (!agent.target) {
+    agent.memory.calledForHelp = false;
+    agent.memory.flanked = false;
+  }
+  if (!Object.hasOwn(BEHAVIOR_DEFS, agent.def.behavior)) {
+    setState(agent, 'idle', 'idle');
+    return 'failure';
+  }
+  return tickNode(BEHAVIOR_DEFS[agent.def.behavior].root, agent, host);
+}
@@ -0,0 +1,103 @@
+import { readFile, writeFile } from 'fs/promises';
+import { DB_PATH, openDatabase, initDB, closeDB, getDB } from './db/index.js';
+import { getSchemaVersion, getPendingMigrations, LATEST_SCHEMA_VERSION } from './db/migrate.js';
+import { CharacterTransferService } from './services/CharacterTransferService.js';
+import { CONTENT_DIR, initContent, loadContentPacks } from './data/content.js';
+
+// Offline maintenance commands: `npm run cli -w server -- <command>`
+// Commands that write to the database must run while the server is stopped,
+// otherwise the server's next flush overwrites their changes.
+
+async function migrationStatus() {
+  const db = await openDatabase();
+  const current = getSchemaVersion(db);
+  console.log(`Database: ${DB_PATH}`);
+  console.log(`Schema version: ${current} (latest known: ${LATEST_SCHEMA_VERSION})`);
+
+  if (current > LATEST_SCHEMA_VERSION) {
+    console.log('Database is newer than this server — the server will refuse to start.');
+    process.exitCode = 1;
+    return;
+  }
+  const pending = getPendingMigrations(db);
+  if (!pending.length) {
+    console.log('No pending migrations.');
+    return;
+  }
+  console.log(`${pending.length} pending migration(s), applied on next server start:`);
+  for (const m of pending) console.log(`  ${String(m.version).padStart(3, '0')} ${m.name}`);
+}
+
+async function validateContent([dir = CONTENT_DIR]: string[]) {
+  const pack = await loadContentPacks(dir);
+  console.log(`Content in ${dir} is valid: ${Object.keys(pack.dungeons).length} dungeons, `
+    + `${Object.keys(pack.monsters).length} monsters, ${Object.keys(pack.items).length} items, `
+    + `${Object.keys(pack.lootTables).length} loot tables, ${pack.recipes?.length ?? 0} recipes`);
+}
+
+async function exportCharacter([characterId, file]: string[]) {
+  if (!characterId) throw new Error('Usage: character:export <characterId> [file]');
+  await initContent();
+  await initDB();
+  try {
+    const doc = new CharacterTransferService().exportCharacter(characterId);
+    if (!doc) throw new Error(`Character not found: ${characterId}`);
+    const json = JSON.stringify(doc, null, 2);
+    if (!file) {
+      console.log(json);
+      return;
+    }
+    await writeFile(file, json + '\n');
+    console.log(`Exported ${doc.character.name} (${doc.items.length} items) to ${file}`);
+  } finally {
+    await closeDB();
+  }
+}
+
+async function importCharacter(args: string[]) {
+  const nameFlag = args.indexOf('--name');
+  const name = nameFlag >= 0 ? args[nameFlag + 1] : undefined;
+  const [file, account] = nameFlag >= 0 ? args.filter((_, i) => i !== nameFlag && i !== nameFlag + 1) : args;
+  if (!file || !account || (nameFlag >= 0 && !name)) {
+    throw new Error('Usage: character:import <file> <account username|id> [--name <new name>]');
+  }
+
+  const doc = JSON.parse(await readFile(file, 'utf8'));
+  await initContent();
+  await initDB();
+  try {
+    const rows = getDB().exec('SELECT id FROM accounts WHERE id = ? OR username = ? COLLATE NOCASE', [account, account]);
+    if (!rows.length) throw new Error(`Account not found: ${account}`);
+    const result = new CharacterTransferService().importCharacter(doc, rows[0].values[0][0] as string, { name });
+    if (result.error) throw new Error(`Import failed: ${result.error}`);
+    console.log(`Imported ${result.character!.name} as ${result.character!.id}`);
+  } finally {
+    await closeDB();
+  }
+}
+
+const COMMANDS: Record<string, { description: string; run: (args: string[]) => Promise<void> }> = {
+  'db:status': { description: 'Show the schema version and pending migrations', run: migrationStatus },
+  'content:validate': { description: 'Check the content packs without starting the server: [dir]', run: validateContent },
+  'character:export': { description: 'Write a character as JSON: <characterId> [file]', run: exportCharacter },
+  'character:import': { description: 'Import a character: <file> <account> [--name <new name>]', run: importCharacter },
+};
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const entry = command ? COMMANDS[command] : undefined;
+  if (!entry) {
+    console.log('Usage: cli <command>\n\nCommands:');
+    for (const [name, { description }] of Object.entries(COMMANDS)) {
+      console.log(`  ${name.padEnd(18)} ${description}`);
+    }
+    process.exitCode = command ? 1 : 0;
+    return;
+  }
+  await entry.run(args);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,111 @@
+import type { ArraySchema } from '@colyseus/schema';
+import {
+  STATUS_EFFECT_RULES, CC_DIMINISHING_RETURNS, CC_DIMINISHING_RESET_SECONDS, statusModifiers,
+  type StatModifiers, type StatusEffectDef, type StatusEffectType,
+} from '@saab/shared';
+import { StatusEffectState } from '../state/PlayerState.js';
+
+/** Damage one of an entity's dots deals this tick, already multiplied by its stacks */
+export interface StatusTick {
+  type: StatusEffectType;
+  sourceId: string;
+  damage: number;
+}
+
+/** How an application landed: its duration after diminishing returns, or not at all */
+export type StatusApplyResult = { immune: false; duration: number; stacks: number } | { immune: true };
+
+interface DotTimer {
+  damage: number;
+  tickRate: number;
+  timer: number;
+}
+
+/**
+ * The status effects on one player or monster. The effects themselves live in
+ * the entity's synced array so clients can show them; dot timers and cc
+ * diminishing returns stay on the server.
+ */
+export class StatusEffects {
+  private dots = new Map<StatusEffectState, DotTimer>();
+  /** Per cc type: how often it landed in the current window, and when it last did */
+  private diminishing = new Map<StatusEffectType, { count: number; lastAt: number }>();
+
+  constructor(private effects: ArraySchema<StatusEffectState>, private immunities: readonly StatusEffectType[] = []) {}
+
+  get modifiers(): StatModifiers {
+    return statusModifiers(this.effects);
+  }
+
+  /**
+   * Land an effect. The same type again adds a stack up to its rule's cap and
+   * refreshes the duration; a cc lasts less each time within the window and
+   * stops landing once the returns run out.
+   */
+  apply(def: StatusEffectDef, sourceId: string, now = Date.now()): StatusApplyResult {
+    if (this.immunities.includes(def.type)) return { immune: true };
+    const rule = STATUS_EFFECT_RULES[def.type];
+
+    let duration = def.duration;
+    if (rule.kind === 'cc') {
+      const last = this.diminishing.get(def.type);
+      const count = last && now - last.lastAt < CC_DIMINISHING_RESET_SECONDS * 1000 ? last.count : 0;
+      if (count >= CC_DIMINISHING_RETURNS.length) return { immune: true };
+      duration *= CC_DIMINISHING_RETURNS[count];
+      this.diminishing.set(def.type, { count: count + 1, lastAt: now });
+    }
+
+    let effect = this.effects.find((e) => e.type === def.type);
+    if (effect) {
+      effect.stacks = Math.min(rule.maxStacks, effect.stacks + 1);
+      effect.remaining = Math.max(effect.remaining, duration);
+      effect.magnitude = Math.max(effect.magnitude, def.magnitude ?? 0);
+    } else {
+      effect = new StatusEffectState();
+      effect.type = def.type;
+      effect.remaining = duration;
+      effect.magnitude = def.magnitude ?? 0;
+      this.effects.push(effect);
+    }
+    effect.duration = effect.remaining;
+    effect.sourceId = sourceId;
+
+    if (rule.kind === 'dot') {
+      const dot = this.dots.get(effect);
+      if (dot) {
+        dot.damage = Math.max(dot.damage, def.damage);
+        dot.tickRate = def.tickRate;
+      } else {
+        this.dots.set(effect, { damage: def.damage, tickRate: def.tickRate, timer: 0 });
+      }
+    }
+    return { immune: false, duration, stacks: effect.stacks };
+  }
+
+  /** Run durations down and collect the dot damage due this tick */
+  tick(dt: number): StatusTick[] {
+    const ticks: StatusTick[] = [];
+    for (const effect of [...this.effects]) {
+      effect.remaining -= dt;
+      if (effect.remaining <= 0) {
+        this.effects.splice(this.effects.indexOf(effect), 1);
+        this.dots.delete(effect);
+        continue;
+      }
+
+      const dot = this.dots.get(effect);
+      if (!dot || dot.tickRate <= 0) continue;
+      dot.timer += dt;
+      if (dot.timer < dot.tickRate) continue;
+      dot.timer -= dot.tickRate;
+      ticks.push({ type: effect.type as StatusEffectType, sourceId: effect.sourceId, damage: dot.damage * effect.stacks });
+    }
+    return ticks;
+  }
+
+  /** Drop every effect, e.g. on death; diminishing returns still count down */
+  clear() {
+    this.effects.clear();
+    this.dots.clear();
+  }
+}
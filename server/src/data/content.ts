@@ -0,0 +1,104 @@
+import { readdir, readFile } from 'fs/promises';
+import { join, relative } from 'path';
+import { fileURLToPath } from 'url';
+import { validateContentPack, installContentPack, type ContentPack } from '@saab/shared';
+import { RECIPES } from './recipes.js';
+
+/**
+ * Root of the content packs. Each subdirectory is a pack; every `*.json` file in
+ * it holds any of the sections `items`, `monsters`, `lootTables`, `dungeons`,
+ * `behaviors`, `encounters` (objects keyed by id) and `recipes` (array). Packs and files load in name order
+ * and are merged into one ContentPack — an id defined twice is an error, not an override.
+ */
+export const CONTENT_DIR = process.env.CONTENT_DIR || fileURLToPath(new URL('../../content', import.meta.url));
+
+type RecordSection = 'items' | 'monsters' | 'lootTables' | 'dungeons' | 'behaviors' | 'encounters';
+const RECORD_SECTIONS: RecordSection[] = ['items', 'monsters', 'lootTables', 'dungeons', 'behaviors', 'encounters'];
+
+let clientPack: ContentPack | null = null;
+
+async function listDir(dir: string) {
+  return (await readdir(dir, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Read and merge every pack under `dir`; throws one Error listing every problem found */
+export async function loadContentPacks(dir = CONTENT_DIR): Promise<ContentPack> {
+  const pack: ContentPack = { items: {}, monsters: {}, lootTables: {}, dungeons: {}, behaviors: {}, encounters: {}, recipes: [] };
+  // "section.id" -> file that defined it, so validation errors can point at a file
+  const origins = new Map<string, string>();
+  const errors: string[] = [];
+
+  for (const packDir of (await listDir(dir)).filter((e) => e.isDirectory())) {
+    for (const file of (await listDir(join(dir, packDir.name))).filter((e) => e.isFile() && e.name.endsWith('.json'))) {
+      const path = join(dir, packDir.name, file.name);
+      const name = relative(dir, path);
+      let data: unknown;
+      try {
+        data = JSON.parse(await readFile(path, 'utf8'));
+      } catch (err) {
+        errors.push(`${name}: ${err instanceof Error ? err.message : err}`);
+        continue;
+      }
+      if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        errors.push(`${name}: must contain a JSON object`);
+        continue;
+      }
+
+      for (const [section, value] of Object.entries(data)) {
+        if (section === 'recipes') {
+          if (Array.isArray(value)) pack.recipes!.push(...value);
+          else errors.push(`${name}: recipes must be an array`);
+          continue;
+        }
+        if (!RECORD_SECTIONS.includes(section as RecordSection)) {
+          errors.push(`${name}: unknown section '${section}'`);
+          continue;
+        }
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          errors.push(`${name}: ${section} must be an object keyed by id`);
+          continue;
+        }
+        const target = pack[section as RecordSection] as Record<string, unknown>;
+        for (const [id, entry] of Object.entries(value)) {
+          const key = `${section}.${id}`;
+          if (origins.has(key)) {
+            errors.push(`${name}: ${key} is already defined in ${origins.get(key)}`);
+            continue;
+          }
+          origins.set(key, name);
+          target[id] = entry;
+        }
+      }
+    }
+  }
+  if (!errors.length && !origins.size) errors.push(`no content packs found in ${dir}`);
+
+  if (!errors.length) {
+    for (const error of validateContentPack(pack)) {
+      const match = /^(\w+\.[^.[:\s]+)/.exec(error);
+      const origin = match && origins.get(match[1]);
+      errors.push(origin ? `${origin}: ${error}` : error);
+    }
+  }
+
+  if (errors.length) {
+    throw new Error(`Invalid game content in ${dir}:\n  - ${errors.join('\n  - ')}`);
+  }
+  return pack;
+}
+
+/** Load, validate and install the content packs; call before anything reads the registries */
+export async function initContent(dir = CONTENT_DIR): Promise<ContentPack> {
+  const pack = await loadContentPacks(dir);
+  installContentPack(pack);
+  RECIPES.splice(0, RECIPES.length, ...(pack.recipes ?? []));
+  const { recipes: _secret, ...rest } = pack;
+  clientPack = rest;
+  return pack;
+}
+
+/** The installed pack minus server-only sections, as served to clients */
+export function getClientContentPack(): ContentPack {
+  if (!clientPack) throw new Error('Content not loaded — call initContent() first');
+  return clientPack;
+}
@@ -1,97 +1,38 @@
 import initSqlJs, { type Database } from 'sql.js';
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { readFileSync, existsSync, mkdirSync } from 'fs';
 import { dirname } from 'path';
+import { DatabasePersister } from './persistence.js';
+import { runMigrations } from './migrate.js';
 
-const DB_PATH = process.env.DB_PATH || './data/game.db';
+export const DB_PATH = process.env.DB_PATH || './data/game.db';
 
 let db: Database;
+let persister: DatabasePersister;
+let transactionDepth = 0;
 
-export async function initDB(): Promise<Database> {
+/** Load the database file (or an empty database if none exists yet) without touching its schema */
+export async function openDatabase(path = DB_PATH): Promise<Database> {
   const SQL = await initSqlJs();
+  if (existsSync(path)) {
+    return new SQL.Database(readFileSync(path));
+  }
+  return new SQL.Database();
+}
 
-  const dir = dirname(DB_PATH);
+export async function initDB(path = DB_PATH): Promise<Database> {
+  const dir = dirname(path);
   if (!existsSync(dir)) {
     mkdirSync(dir, { recursive: true });
   }
 
-  if (existsSync(DB_PATH)) {
-    const buffer = readFileSync(DB_PATH);
-    db = new SQL.Database(buffer);
-  } else {
-    db = new SQL.Database();
-  }
-
-  // Create tables
-  db.run(`
-    CREATE TABLE IF NOT EXISTS players (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      level INTEGER NOT NULL DEFAULT 1,
-      xp INTEGER NOT NULL DEFAULT 0,
-      strength INTEGER NOT NULL DEFAULT 10,
-      intelligence INTEGER NOT NULL DEFAULT 10,
-      dexterity INTEGER NOT NULL DEFAULT 10,
-      vitality INTEGER NOT NULL DEFAULT 10,
-      pos_x REAL NOT NULL DEFAULT 0,
-      pos_y REAL NOT NULL DEFAULT 0,
-      pos_z REAL NOT NULL DEFAULT 0,
-      current_room TEXT NOT NULL DEFAULT 'hub',
-      gold INTEGER NOT NULL DEFAULT 100,
-      created_at INTEGER
-    )
-  `);
-
-  db.run(`
-    CREATE TABLE IF NOT EXISTS items (
-      instance_id TEXT PRIMARY KEY,
-      owner_id TEXT NOT NULL REFERENCES players(id),
-      def_id TEXT NOT NULL,
-      rarity TEXT NOT NULL DEFAULT 'common',
-      bonus_stats TEXT NOT NULL DEFAULT '[]',
-      equipped INTEGER NOT NULL DEFAULT 0,
-      equip_slot TEXT,
-      transmog_id TEXT,
-      quantity INTEGER NOT NULL DEFAULT 1
-    )
-  `);
-
-  db.run(`
-    CREATE TABLE IF NOT EXISTS skill_allocations (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      player_id TEXT NOT NULL REFERENCES players(id),
-      node_id TEXT NOT NULL,
-      points INTEGER NOT NULL DEFAULT 1
-    )
-  `);
-
-  db.run(`
-    CREATE TABLE IF NOT EXISTS skill_hotbar (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      player_id TEXT NOT NULL REFERENCES players(id),
-      slot INTEGER NOT NULL,
-      skill_id TEXT NOT NULL,
-      UNIQUE(player_id, slot)
-    )
-  `);
-
-  db.run(`
-    CREATE TABLE IF NOT EXISTS dungeon_progress (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      player_id TEXT NOT NULL REFERENCES players(id),
-      dungeon_id TEXT NOT NULL,
-      completed INTEGER NOT NULL DEFAULT 0,
-      best_time INTEGER,
-      completed_at INTEGER
-    )
-  `);
-
-  // Migrations for existing DBs
-  try { db.run('ALTER TABLE players ADD COLUMN gold INTEGER NOT NULL DEFAULT 100'); } catch (_) {}
-  try { db.run('ALTER TABLE items ADD COLUMN quantity INTEGER NOT NULL DEFAULT 1'); } catch (_) {}
-  try { db.run('ALTER TABLE players ADD COLUMN skill_points INTEGER NOT NULL DEFAULT 0'); } catch (_) {}
-  try { db.run("ALTER TABLE players ADD COLUMN class TEXT NOT NULL DEFAULT 'warrior'"); } catch (_) {}
+  db = await openDatabase(path);
+  persister = new DatabasePersister(db, path);
 
-  saveDB();
+  // Schema changes hit the disk before any game traffic does
+  if (runMigrations(db).length) {
+    persister.markDirty();
+    await persister.flush();
+  }
   return db;
 }
 
@@ -99,8 +40,46 @@ export function getDB(): Database {
   return db;
 }
 
+/**
+ * Run `fn` atomically: every write inside commits together or not at all.
+ * Any exception rolls the whole unit back and is rethrown. Nested calls use
+ * savepoints, so a service method that opens its own transaction can still be
+ * composed into a larger one.
+ */
+export function transaction<T>(fn: (db: Database) => T): T {
+  const savepoint = `sp_${transactionDepth}`;
+  const outermost = transactionDepth === 0;
+  db.run(outermost ? 'BEGIN' : `SAVEPOINT ${savepoint}`);
+  transactionDepth++;
+  try {
+    const result = fn(db);
+    transactionDepth--;
+    db.run(outermost ? 'COMMIT' : `RELEASE ${savepoint}`);
+    if (outermost) saveDB();
+    return result;
+  } catch (err) {
+    transactionDepth--;
+    if (outermost) {
+      db.run('ROLLBACK');
+    } else {
+      db.run(`ROLLBACK TO ${savepoint}`);
+      db.run(`RELEASE ${savepoint}`);
+    }
+    throw err;
+  }
+}
+
+/** Mark the database as changed — the write to disk is batched and happens asynchronously */
 export function saveDB() {
-  const data = db.export();
-  const buffer = Buffer.from(data);
-  writeFileSync(DB_PATH, buffer);
+  persister.markDirty();
+}
+
+/** Write pending changes immediately and stop the flush timer (call on shutdown) */
+export async function closeDB() {
+  await persister?.close();
+}
+
+/** Synchronous last-chance flush for `process.on('exit')` */
+export function flushDBSync() {
+  persister?.flushSync();
 }
@@ -0,0 +1,62 @@
+import type { Database } from 'sql.js';
+import { MIGRATIONS, type Migration } from './migrations/index.js';
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS.length ? MIGRATIONS[MIGRATIONS.length - 1].version : 0;
+
+function ensureVersionTable(db: Database) {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )
+  `);
+}
+
+/** Highest applied migration, 0 for a fresh (or pre-versioning) database */
+export function getSchemaVersion(db: Database): number {
+  const tables = db.exec("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'");
+  if (!tables.length) return 0;
+  const rows = db.exec('SELECT MAX(version) FROM schema_version');
+  return (rows[0]?.values[0]?.[0] as number | null) ?? 0;
+}
+
+/** Throws if the database was written by a newer server than this one */
+export function assertSchemaSupported(db: Database) {
+  const current = getSchemaVersion(db);
+  if (current > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${current} is newer than this server supports (${LATEST_SCHEMA_VERSION}). ` +
+      'Refusing to start — upgrade the server or restore a matching backup.',
+    );
+  }
+}
+
+export function getPendingMigrations(db: Database): Migration[] {
+  const current = getSchemaVersion(db);
+  return MIGRATIONS.filter((m) => m.version > current);
+}
+
+/** Apply every pending migration in order; each one commits atomically with its version row */
+export function runMigrations(db: Database): Migration[] {
+  assertSchemaSupported(db);
+  ensureVersionTable(db);
+
+  const pending = getPendingMigrations(db);
+  for (const migration of pending) {
+    db.run('BEGIN');
+    try {
+      migration.up(db);
+      db.run(
+        'INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)',
+        [migration.version, migration.name, Date.now()],
+      );
+      db.run('COMMIT');
+    } catch (err) {
+      db.run('ROLLBACK');
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${(err as Error).message}`);
+    }
+    console.log(`Applied migration ${migration.version}: ${migration.name}`);
+  }
+  return pending;
+}
@@ -0,0 +1,77 @@
+import type { Migration } from './types.js';
+import { addColumnIfMissing } from './helpers.js';
+
+/** Original schema, including the columns earlier builds bolted on with ALTER TABLE */
+export const migration: Migration = {
+  version: 1,
+  name: 'initial',
+  up(db) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS players (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        level INTEGER NOT NULL DEFAULT 1,
+        xp INTEGER NOT NULL DEFAULT 0,
+        strength INTEGER NOT NULL DEFAULT 10,
+        intelligence INTEGER NOT NULL DEFAULT 10,
+        dexterity INTEGER NOT NULL DEFAULT 10,
+        vitality INTEGER NOT NULL DEFAULT 10,
+        pos_x REAL NOT NULL DEFAULT 0,
+        pos_y REAL NOT NULL DEFAULT 0,
+        pos_z REAL NOT NULL DEFAULT 0,
+        current_room TEXT NOT NULL DEFAULT 'hub',
+        gold INTEGER NOT NULL DEFAULT 100,
+        created_at INTEGER
+      )
+    `);
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS items (
+        instance_id TEXT PRIMARY KEY,
+        owner_id TEXT NOT NULL REFERENCES players(id),
+        def_id TEXT NOT NULL,
+        rarity TEXT NOT NULL DEFAULT 'common',
+        bonus_stats TEXT NOT NULL DEFAULT '[]',
+        equipped INTEGER NOT NULL DEFAULT 0,
+        equip_slot TEXT,
+        transmog_id TEXT,
+        quantity INTEGER NOT NULL DEFAULT 1
+      )
+    `);
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS skill_allocations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        player_id TEXT NOT NULL REFERENCES players(id),
+        node_id TEXT NOT NULL,
+        points INTEGER NOT NULL DEFAULT 1
+      )
+    `);
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS skill_hotbar (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        player_id TEXT NOT NULL REFERENCES players(id),
+        slot INTEGER NOT NULL,
+        skill_id TEXT NOT NULL,
+        UNIQUE(player_id, slot)
+      )
+    `);
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS dungeon_progress (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        player_id TEXT NOT NULL REFERENCES players(id),
+        dungeon_id TEXT NOT NULL,
+        completed INTEGER NOT NULL DEFAULT 0,
+        best_time INTEGER,
+        completed_at INTEGER
+      )
+    `);
+
+    addColumnIfMissing(db, 'players', 'gold', 'INTEGER NOT NULL DEFAULT 100');
+    addColumnIfMissing(db, 'items', 'quantity', 'INTEGER NOT NULL DEFAULT 1');
+    addColumnIfMissing(db, 'players', 'skill_points', 'INTEGER NOT NULL DEFAULT 0');
+    addColumnIfMissing(db, 'players', 'class', "TEXT NOT NULL DEFAULT 'warrior'");
+  },
+};
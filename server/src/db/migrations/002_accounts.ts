@@ -0,0 +1,23 @@
+import type { Migration } from './types.js';
+import { addColumnIfMissing } from './helpers.js';
+
+/** Login accounts owning several characters (player rows) */
+export const migration: Migration = {
+  version: 2,
+  name: 'accounts',
+  up(db) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS accounts (
+        id TEXT PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        password_hash TEXT NOT NULL,
+        created_at INTEGER
+      )
+    `);
+
+    addColumnIfMissing(db, 'players', 'account_id', 'TEXT REFERENCES accounts(id)');
+    addColumnIfMissing(db, 'players', 'gender', "TEXT NOT NULL DEFAULT 'male'");
+    // Single-character accounts stored their player row under the account id
+    db.run('UPDATE players SET account_id = id WHERE account_id IS NULL AND id IN (SELECT id FROM accounts)');
+  },
+};
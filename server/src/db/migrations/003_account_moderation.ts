@@ -0,0 +1,12 @@
+import type { Migration } from './types.js';
+
+/** Admin role and bans on accounts */
+export const migration: Migration = {
+  version: 3,
+  name: 'account_moderation',
+  up(db) {
+    db.run("ALTER TABLE accounts ADD COLUMN role TEXT NOT NULL DEFAULT 'player'");
+    db.run('ALTER TABLE accounts ADD COLUMN banned_at INTEGER');
+    db.run('ALTER TABLE accounts ADD COLUMN ban_reason TEXT');
+  },
+};
@@ -0,0 +1,25 @@
+import type { Migration } from './types.js';
+
+/** Append-only audit log of every gold and item movement */
+export const migration: Migration = {
+  version: 4,
+  name: 'economy_events',
+  up(db) {
+    db.run(`
+      CREATE TABLE economy_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        player_id TEXT NOT NULL,
+        source TEXT NOT NULL,
+        gold_delta INTEGER NOT NULL DEFAULT 0,
+        item_instance_id TEXT,
+        item_def_id TEXT,
+        item_delta INTEGER NOT NULL DEFAULT 0,
+        room_id TEXT,
+        details TEXT,
+        created_at INTEGER NOT NULL
+      )
+    `);
+    db.run('CREATE INDEX idx_economy_events_player ON economy_events (player_id, created_at)');
+    db.run('CREATE INDEX idx_economy_events_item ON economy_events (item_instance_id)');
+  },
+};
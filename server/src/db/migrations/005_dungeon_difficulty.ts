@@ -0,0 +1,12 @@
+import type { Migration } from './types.js';
+
+/** Dungeon clears are tracked per difficulty, with the party size of the latest clear */
+export const migration: Migration = {
+  version: 5,
+  name: 'dungeon_difficulty',
+  up(db) {
+    db.run('ALTER TABLE dungeon_progress ADD COLUMN difficulty INTEGER NOT NULL DEFAULT 0');
+    db.run('ALTER TABLE dungeon_progress ADD COLUMN party_size INTEGER');
+    db.run('CREATE INDEX idx_dungeon_progress_player ON dungeon_progress (player_id, dungeon_id, difficulty)');
+  },
+};
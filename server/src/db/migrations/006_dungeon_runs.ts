@@ -0,0 +1,33 @@
+import type { Migration } from './types.js';
+
+/** Timed dungeon clears for leaderboards; one row per run plus one per party member */
+export const migration: Migration = {
+  version: 6,
+  name: 'dungeon_runs',
+  up(db) {
+    db.run(`
+      CREATE TABLE dungeon_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        dungeon_id TEXT NOT NULL,
+        difficulty INTEGER NOT NULL,
+        party_size INTEGER NOT NULL,
+        party_classes TEXT NOT NULL,
+        total_time INTEGER NOT NULL,
+        splits TEXT NOT NULL,
+        seed INTEGER NOT NULL,
+        replay INTEGER NOT NULL DEFAULT 0,
+        completed_at INTEGER NOT NULL
+      )
+    `);
+    db.run(`
+      CREATE TABLE dungeon_run_members (
+        run_id INTEGER NOT NULL REFERENCES dungeon_runs(id),
+        player_id TEXT NOT NULL,
+        class_id TEXT NOT NULL,
+        PRIMARY KEY (run_id, player_id)
+      )
+    `);
+    db.run('CREATE INDEX idx_dungeon_runs_board ON dungeon_runs (dungeon_id, difficulty, total_time)');
+    db.run('CREATE INDEX idx_dungeon_run_members_player ON dungeon_run_members (player_id)');
+  },
+};
@@ -0,0 +1,17 @@
+import type { Database } from 'sql.js';
+
+export function hasColumn(db: Database, table: string, column: string): boolean {
+  const rows = db.exec(`PRAGMA table_info(${table})`);
+  if (!rows.length) return false;
+  return rows[0].values.some((row) => row[1] === column);
+}
+
+/**
+ * Databases created before versioned migrations may already have some
+ * columns, so early migrations add them only when missing.
+ */
+export function addColumnIfMissing(db: Database, table: string, column: string, definition: string) {
+  if (!hasColumn(db, table, column)) {
+    db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
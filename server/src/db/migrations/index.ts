@@ -0,0 +1,19 @@
+import type { Migration } from './types.js';
+import { migration as m001 } from './001_initial.js';
+import { migration as m002 } from './002_accounts.js';
+import { migration as m003 } from './003_account_moderation.js';
+import { migration as m004 } from './004_economy_events.js';
+import { migration as m005 } from './005_dungeon_difficulty.js';
+import { migration as m006 } from './006_dungeon_runs.js';
+
+export type { Migration } from './types.js';
+
+/** Every migration, in the order it must be applied. Append new ones at the end. */
+export const MIGRATIONS: Migration[] = [
+  m001,
+  m002,
+  m003,
+  m004,
+  m005,
+  m006,
+];
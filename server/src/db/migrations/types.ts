@@ -0,0 +1,8 @@
+import type { Database } from 'sql.js';
+
+export interface Migration {
+  version: number;
+  name: string;
+  /** Apply the change. Runs inside a transaction together with the version bump. */
+  up: (db: Database) => void;
+}
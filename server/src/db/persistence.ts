@@ -0,0 +1,75 @@
+import type { Database } from 'sql.js';
+import { writeFileSync, renameSync } from 'fs';
+import { writeFile, rename } from 'fs/promises';
+
+const FLUSH_INTERVAL_MS = parseInt(process.env.DB_FLUSH_INTERVAL_MS || '2000', 10);
+
+/**
+ * Writes the in-memory sql.js database back to disk.
+ *
+ * Writes only mark the database dirty; a timer batches them into one export
+ * per interval and the file is written to a temp path then renamed over the
+ * original, so a crash mid-write never leaves a truncated database behind.
+ */
+export class DatabasePersister {
+  private dirty = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> | null = null;
+  private closed = false;
+
+  constructor(private db: Database, private path: string) {}
+
+  /** Record that the database changed; a flush is scheduled if none is pending */
+  markDirty() {
+    this.dirty = true;
+    if (!this.timer && !this.closed) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.flush().catch((err) => console.error('Database flush failed:', err));
+      }, FLUSH_INTERVAL_MS);
+    }
+  }
+
+  /** Write pending changes now. Concurrent calls share the in-flight write. */
+  async flush(): Promise<void> {
+    // Every waiter wakes when the write finishes, so wait until none is in
+    // flight; only then is it safe to reuse the temp path. Changes made while
+    // that write was running still need their own.
+    while (this.flushing) await this.flushing;
+    if (!this.dirty) return;
+
+    // Export is synchronous on purpose: it snapshots a consistent state
+    // before any further writes land; only the disk I/O is deferred.
+    this.dirty = false;
+    const buffer = Buffer.from(this.db.export());
+    const tmpPath = `${this.path}.tmp`;
+    this.flushing = writeFile(tmpPath, buffer)
+      .then(() => rename(tmpPath, this.path))
+      .catch((err) => {
+        this.dirty = true;
+        throw err;
+      })
+      .finally(() => { this.flushing = null; });
+    await this.flushing;
+  }
+
+  /** Blocking write for the very last moment of the process, when async I/O can't complete */
+  flushSync() {
+    // An in-flight async write won't finish once the process is exiting
+    if (!this.dirty && !this.flushing) return;
+    this.dirty = false;
+    const tmpPath = `${this.path}.tmp`;
+    writeFileSync(tmpPath, Buffer.from(this.db.export()));
+    renameSync(tmpPath, this.path);
+  }
+
+  /** Stop scheduling and write anything still pending */
+  async close() {
+    this.closed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.flush();
+  }
+}
@@ -10,12 +10,31 @@ import { createServer } from 'http';
 
 import { HubRoom } from './rooms/HubRoom.js';
 import { DungeonRoom } from './rooms/DungeonRoom.js';
-import { initDB } from './db/index.js';
+import { initDB, closeDB, flushDBSync } from './db/index.js';
+import { initContent, CONTENT_DIR } from './data/content.js';
+import { AuthService } from './services/AuthService.js';
+import { CharacterService } from './services/CharacterService.js';
+import { AdminService } from './services/AdminService.js';
+import { CharacterTransferService } from './services/CharacterTransferService.js';
+import { EconomyAuditService } from './services/EconomyAuditService.js';
+import { LeaderboardService } from './services/LeaderboardService.js';
+import { registerAuthRoutes } from './routes/auth.js';
+import { registerCharacterRoutes } from './routes/characters.js';
+import { registerAdminRoutes } from './routes/admin.js';
+import { registerEconomyRoutes } from './routes/economy.js';
+import { registerContentRoutes } from './routes/content.js';
+import { registerLeaderboardRoutes } from './routes/leaderboards.js';
+import { registerLobbyRoutes } from './routes/lobbies.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const PORT = parseInt(process.env.PORT || '3000', 10);
 
 async function main() {
+  // Load game content first: the database layer and rooms read the registries it fills
+  const content = await initContent();
+  console.log(`Content loaded from ${CONTENT_DIR}: ${Object.keys(content.dungeons).length} dungeons, `
+    + `${Object.keys(content.monsters).length} monsters, ${Object.keys(content.items).length} items`);
+
   // Initialize database
   await initDB();
   console.log('Database initialized');
@@ -48,6 +67,14 @@ async function main() {
 
   // REST API routes
   fastify.get('/api/health', async () => ({ status: 'ok', time: Date.now() }));
+  const auth = new AuthService();
+  registerAuthRoutes(fastify, auth);
+  registerCharacterRoutes(fastify, auth, new CharacterService());
+  registerAdminRoutes(fastify, auth, new AdminService(), new CharacterTransferService());
+  registerEconomyRoutes(fastify, auth, new EconomyAuditService());
+  registerContentRoutes(fastify);
+  registerLeaderboardRoutes(fastify, new LeaderboardService());
+  registerLobbyRoutes(fastify, auth);
 
   // Create Colyseus server sharing the same HTTP server
   const gameServer = new ColyseusServer({
@@ -56,7 +83,17 @@ async function main() {
 
   // Register room types
   gameServer.define('hub', HubRoom);
-  gameServer.define('dungeon', DungeonRoom);
+  // Public matchmaking only groups runs with the same dungeon, difficulty and loot mode; private
+  // instances are joined by invite code (the room id) instead. A seeded join gets its own room so
+  // the replayed layout isn't shared with a random run; clients send `seed: null` for a normal run
+  gameServer.define('dungeon', DungeonRoom).filterBy(['dungeonId', 'difficulty', 'lootMode', 'seed']);
+
+  // Rooms are disposed first (saving player state), then pending DB writes are flushed
+  gameServer.onShutdown(async () => {
+    await closeDB();
+    console.log('Database flushed');
+  });
+  process.on('exit', flushDBSync);
 
   // Start listening
   await fastify.listen({ port: PORT, host: '0.0.0.0' });
@@ -1,34 +1,79 @@
-import { Room, Client } from '@colyseus/core';
+import { Room, Client, ServerError, matchMaker } from '@colyseus/core';
 import { DungeonState, LootDropState } from '../state/GameState.js';
 import { PlayerState, Vec3State, PlayerStatsState } from '../state/PlayerState.js';
 import { MonsterState } from '../state/MonsterState.js';
 import {
   computeMovement, validatePlayerInput, DUNGEON_MAX_PLAYERS, DUNGEON_SYNC_RATE,
   BASIC_ATTACK_COOLDOWN, BASIC_ATTACK_RANGE, BASIC_ATTACK_DAMAGE,
-  MONSTER_DEFS, FOREST_DUNGEON, MONSTER_GOLD_DROP,
-  MELEE_SKILL_TREE, SKILL_POINTS_PER_LEVEL, MANA_REGEN_RATE,
+  MONSTER_DEFS, DUNGEON_DEFS, LOOT_TABLES, DEFAULT_DUNGEON_ID, MONSTER_GOLD_DROP,
+  MELEE_SKILL_TREE, MANA_REGEN_RATE,
   SKILL_RANGE_AOE, CHARGE_DISTANCE,
   BASE_CRIT_CHANCE, CRIT_PER_DEX, CRIT_MULTIPLIER, MAX_CRIT_CHANCE,
   BASE_DODGE_CHANCE, DODGE_PER_DEX, MAX_DODGE_CHANCE,
   POTION_HEAL_AMOUNT, POTION_COOLDOWN,
-  CLASS_DEFS, VALID_CLASS_IDS,
-  type PlayerInput, type Rarity, type DungeonRoomDef, type StatusEffectDef,
-  type CharacterClassId,
+  CLASS_DEFS, RECONNECT_GRACE_SECONDS, RARITY_ORDER,
+  DUNGEON_PLAYER_SPAWN, MONSTER_RANKS, MONSTER_AFFIXES, rollMonsterRank, rollMonsterAffixes,
+  type MonsterRank, type MonsterAffixId,
+  generateFloorLayout, floorSeed, randomSeed, createRng,
+  DEFAULT_DIFFICULTY, getDifficulty, isValidDifficulty, partyHpMultiplier, type DifficultyDef,
+  DOWNED_BLEEDOUT_SECONDS, REVIVE_CHANNEL_SECONDS, REVIVE_RANGE, REVIVE_HP_FRACTION,
+  SOLO_RESPAWN_SECONDS, DEATH_XP_PENALTY, PARTY_WIPE_RETURN_SECONDS,
+  XP_SHARE_RANGE, HEALING_CONTRIBUTION_WEIGHT, partyXpShare, splitGold, xpForLevel,
+  LOOT_MODES, DEFAULT_LOOT_MODE, NEED_GREED_MIN_RARITY, LOOT_ROLL_SECONDS, LOOT_DESPAWN_SECONDS,
+  type LootMode, type LootRollChoice, type LootRollOutcome, type MonsterDef,
+  INVITE_CODE_LENGTH, INVITE_CODE_ALPHABET, READY_CHECK_SECONDS, publicMatchLevelRange,
+  PLAYER_RADIUS, MONSTER_RADIUS, DUNGEON_ARENA_RADIUS, ENCOUNTER_DEFS,
+  AOE_TELEGRAPH_SECONDS, isInTelegraph, facingToward,
+  type TelegraphShape, type TelegraphPlacement, type GroundZoneDef, type GroundZoneKind, type MonsterAbility,
+  PATH_REPLAN_SECONDS, PATH_REPLAN_DISTANCE,
+  floorCollisionWorld, moveWithCollision, resolveCollisions, hasClearPath, buildNavGrid, findPath,
+  type CollisionWorld, type NavGrid, type NavPoint,
+  HEALING_THREAT_MULTIPLIER, AGGRO_MELEE_RANGE, PROXIMITY_PULL_THREAT, THREAT_DECAY_PER_SECOND, THREAT_FORGET_BELOW,
+  TAUNT_RADIUS, THREAT_SYNC_SECONDS, HELP_CALL_THREAT, pickThreatTarget, topThreat, type MonsterThreat, type CharacterClassId,
+  type PlayerInput, type Rarity, type DungeonDef, type DungeonRoomDef, type StatusEffectDef, type PersonalBest,
+  statusModifiers, type StatModifiers, type SkillNodeDef,
 } from '@saab/shared';
 import { distanceXZ } from '@saab/shared';
 import { InventoryService } from '../services/InventoryService.js';
-import { LOOT_TABLES } from '../data/loot-tables.js';
-import { getDB, saveDB } from '../db/index.js';
-
-const RARITY_ORDER: Rarity[] = ['common', 'uncommon', 'rare', 'epic', 'legendary'];
+import { AuthService, type AuthData } from '../services/AuthService.js';
+import { LeaderboardService } from '../services/LeaderboardService.js';
+import { ProgressionService, GOLD_SPLIT_RULE } from '../services/ProgressionService.js';
+import {
+  kickAccountSessions, refreshPlayerSession, sendPlayerData, type AdminControllableRoom,
+} from '../services/AdminService.js';
+import { transaction } from '../db/index.js';
+import { tickBehavior, createBehaviorMemory, type BehaviorAgent, type BehaviorHost, type BehaviorMemory } from '../ai/MonsterBehavior.js';
+import { BossEncounter, type EncounterHost } from '../ai/BossEncounter.js';
+import { StatusEffects } from '../combat/StatusEffects.js';
+
+/** A short code for friends to join by; it doubles as the room id, so it is unique among live rooms on this process */
+function generateInviteCode(): string {
+  for (;;) {
+    let code = '';
+    for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+      code += INVITE_CODE_ALPHABET[Math.floor(Math.random() * INVITE_CODE_ALPHABET.length)];
+    }
+    if (!matchMaker.getRoomById(code)) return code;
+  }
+}
 
-function rollRarity(minRarity: Rarity, maxRarity: Rarity): Rarity {
+/** Uniform within [min, max]; each extra roll (fractional = chance of one) keeps the better result */
+function rollRarity(minRarity: Rarity, maxRarity: Rarity, extraRolls = 0): Rarity {
   const minIdx = RARITY_ORDER.indexOf(minRarity);
   const maxIdx = RARITY_ORDER.indexOf(maxRarity);
-  const idx = minIdx + Math.floor(Math.random() * (maxIdx - minIdx + 1));
+  const rolls = 1 + Math.floor(extraRolls) + (Math.random() < extraRolls % 1 ? 1 : 0);
+  let idx = minIdx;
+  for (let i = 0; i < rolls; i++) {
+    idx = Math.max(idx, minIdx + Math.floor(Math.random() * (maxIdx - minIdx + 1)));
+  }
   return RARITY_ORDER[idx];
 }
 
+/** `tiers` steps up the rarity order, stopping at the best */
+function raiseRarity(rarity: Rarity, tiers: number): Rarity {
+  return RARITY_ORDER[Math.min(RARITY_ORDER.length - 1, RARITY_ORDER.indexOf(rarity) + tiers)];
+}
+
 interface MonsterRuntime {
   defId: string;
   spawnPos: { x: number; y: number; z: number };
@@ -36,18 +81,72 @@ interface MonsterRuntime {
   respawnTimer: number;
   respawnTime: number;
   dead: boolean;
-  currentPhase: number;
+  /** Set for bosses with an encounter script */
+  encounter: BossEncounter | null;
+  rank: MonsterRank;
+  affixes: MonsterAffixId[];
+  /** Counts down to the next Shielding barrier or Teleporting blink */
+  affixTimer: number;
+  shieldUntil: number;
+  /** Waypoints still to walk when the target is out of straight-line reach */
+  path: NavPoint[];
+  /** Where the current path leads; a target that strays far from it forces a replan */
+  pathGoal: NavPoint | null;
+  replanTimer: number;
+  threat: Map<string, number>; // sessionId -> threat
+  /** A taunt forces the target until it wears off */
+  tauntedBy: string;
+  tauntUntil: number;
+  memory: BehaviorMemory;
+  status: StatusEffects;
 }
 
-interface ActiveStatusEffect {
-  type: string;
+/** A lingering hazard on the ground: Molten fire, poison clouds, encounter zones */
+interface GroundZone {
   sourceId: string;
-  damagePerTick: number;
+  kind: GroundZoneKind;
+  shape: TelegraphShape;
+  placement: TelegraphPlacement;
+  /** Already scaled for difficulty and rank */
+  damage: number;
   tickRate: number;
-  remainingDuration: number;
+  statusEffect?: StatusEffectDef;
+  endsAt: number;
+  tickTimer: number;
+}
+
+/** Damage type zone ticks are shown as */
+const ZONE_DOT_TYPES: Record<GroundZoneKind, string> = { fire: 'burn', poison: 'poison' };
+
+/** A marked area that hits every player still inside once its delay runs out */
+interface PendingTelegraph {
+  sourceId: string;
+  shape: TelegraphShape;
+  placement: TelegraphPlacement;
+  damage: number;
+  statusEffect?: StatusEffectDef;
+  hitsAt: number;
+}
+
+/** An encounter pulling the arena edge in, and the burn for standing outside it */
+interface ArenaShrink {
+  from: number;
+  to: number;
+  startedAt: number;
+  seconds: number;
+  damagePerSecond: number;
   tickTimer: number;
 }
 
+interface LootRoll {
+  /** Sessions that may roll; the roll closes once all have chosen or it times out */
+  eligible: Set<string>;
+  choices: Map<string, LootRollChoice>;
+  endsAt: number;
+}
+
+const LOOT_ROLL_CHOICES: LootRollChoice[] = ['need', 'greed', 'pass'];
+
 interface ServerProjectile {
   id: string;
   sourceId: string;
@@ -84,60 +183,137 @@ function calculateDamage(
   return { finalDamage: damage, isCrit, isDodge: false };
 }
 
-export class DungeonRoom extends Room<DungeonState> {
+export class DungeonRoom extends Room<DungeonState> implements AdminControllableRoom {
   maxClients = DUNGEON_MAX_PLAYERS;
 
   private monsterRuntimes = new Map<string, MonsterRuntime>();
   private playerAttackTimers = new Map<string, number>();
   private skillCooldowns = new Map<string, Map<string, number>>(); // playerId -> skillId -> expiry timestamp
-  private monsterStuns = new Map<string, number>(); // monsterId -> stun expiry
   private tickInterval!: ReturnType<typeof setInterval>;
   private inventory = new InventoryService();
+  private auth = new AuthService();
+  private leaderboards = new LeaderboardService();
+  private progression = new ProgressionService(this.inventory);
+  private playerIds = new Map<string, string>(); // sessionId -> persistent player id
+  private kickedSessions = new Set<string>();
+  /** Solid geometry of the current floor, shared with client prediction */
+  private collision: CollisionWorld = { circles: [], boxes: [] };
+  private navGrid: NavGrid | null = null;
+  private dungeon!: DungeonDef;
+  /** Seed requested at creation; such rooms only admit players asking for the same replay */
+  private replaySeed: number | null = null;
+  /** Listed for public matchmaking; otherwise only joinable by invite code */
+  private publicMatch = false;
+  private difficulty!: DifficultyDef;
+  /** Difficulty and party-size HP scaling, fixed when the current floor started */
+  private floorHpMultiplier = 1;
+  private floorStarted = false;
+  /** Run clock: starts with the first floor, splits are cumulative ms at each floor clear */
+  private runStartedAt = 0;
+  private splits: number[] = [];
+  /** Loaded at join, so a clear is compared against the best from before this run */
+  private personalBests = new Map<string, PersonalBest | null>(); // sessionId -> best clear
   private floors: DungeonRoomDef[] = [];
   private monsterIdx = 0;
   private potionCooldowns = new Map<string, number>(); // playerId -> expiry timestamp
-  private playerStatusEffects = new Map<string, ActiveStatusEffect[]>(); // playerId -> effects
+  private playerStatus = new Map<string, StatusEffects>(); // sessionId -> effects
   private monsterAbilityCooldowns = new Map<string, Map<string, number>>(); // monsterId -> abilityId -> expiry
   private projectiles = new Map<string, ServerProjectile>();
   private projectileIdx = 0;
+  /** Damage dealt plus weighted healing done during each monster's fight, for kill credit */
+  private contributions = new Map<string, Map<string, number>>(); // monsterId -> sessionId -> contribution
+  private lootRolls = new Map<string, LootRoll>(); // lootId -> open need/greed roll
+  private reviveChannels = new Map<string, { targetId: string; elapsed: number }>(); // reviver sessionId -> channel
+  /** Open vote to start the next floor; every living player has to confirm before the timeout */
+  private readyCheck: { readyIds: Set<string>; endsAt: number } | null = null;
+  private threatSyncTimer = 0;
+  private groundZones: GroundZone[] = [];
+  private pendingTelegraphs: PendingTelegraph[] = [];
+  private arenaShrink: ArenaShrink | null = null;
+  /** Whether the last threat_update listed any monster, so the meter gets one empty update when fights end */
+  private threatSynced = false;
+  /** What monster behavior trees drive: movement, attacks and aggro in this room */
+  private behaviorHost: BehaviorHost = {
+    moveToward: (agent, goal, speed) => {
+      this.moveMonsterToward(this.monsterRuntimes.get(agent.monsterId)!, agent.monster, goal, speed, agent.dt);
+    },
+    attack: (agent, strike) => this.monsterAttack(agent, strike),
+    useAbilities: (agent) => this.useMonsterAbilities(agent),
+    callForHelp: (agent, radius) => this.callForHelp(agent, radius),
+    dropAggro: (agent) => {
+      const runtime = this.monsterRuntimes.get(agent.monsterId)!;
+      runtime.threat.clear();
+      runtime.tauntedBy = '';
+      agent.monster.targetId = '';
+    },
+    walkablePoint: (point) => resolveCollisions(this.collision, point, MONSTER_RADIUS),
+    allyEngaging: (agent) => this.allyEngaging(agent),
+  };
+
+  onCreate(options: {
+    dungeonId?: string; seed?: number | null; difficulty?: number; lootMode?: LootMode; public?: boolean;
+  }) {
+    const dungeonId = options.dungeonId || DEFAULT_DUNGEON_ID;
+    const dungeon = DUNGEON_DEFS[dungeonId];
+    if (!dungeon) throw new ServerError(400, `Unknown dungeon: ${dungeonId}`);
+    const seed = options.seed ?? null;
+    if (seed !== null && !(Number.isInteger(seed) && seed >= 0 && seed <= 0xffffffff)) {
+      throw new ServerError(400, 'Seed must be an unsigned 32-bit integer');
+    }
+    const difficulty = options.difficulty ?? DEFAULT_DIFFICULTY;
+    if (!isValidDifficulty(difficulty)) throw new ServerError(400, `Unknown difficulty: ${difficulty}`);
+    const lootMode = options.lootMode ?? DEFAULT_LOOT_MODE;
+    if (!Object.hasOwn(LOOT_MODES, lootMode)) throw new ServerError(400, `Unknown loot mode: ${lootMode}`);
+    this.replaySeed = seed;
+    this.difficulty = getDifficulty(difficulty);
+    this.dungeon = dungeon;
+    this.maxClients = Math.min(DUNGEON_MAX_PLAYERS, dungeon.maxPlayers);
+    // Instances are private unless the creator opted into public matchmaking; friends join by code
+    this.publicMatch = options.public === true;
+    this.roomId = generateInviteCode();
+    this.setPrivate(!this.publicMatch);
+    this.setMetadata({ dungeonId, difficulty, lootMode, public: this.publicMatch });
 
-  onCreate(options: { dungeonId?: string }) {
-    const dungeonId = options.dungeonId || 'forest';
     this.setState(new DungeonState());
     this.state.dungeonId = dungeonId;
+    this.state.seed = seed ?? randomSeed();
+    this.state.difficulty = difficulty;
+    this.state.lootMode = lootMode;
     this.setPatchRate(1000 / DUNGEON_SYNC_RATE);
+    console.log(`Dungeon ${dungeonId} (${this.difficulty.name}) created with seed ${this.state.seed}`);
 
-    const dungeon = FOREST_DUNGEON; // TODO: lookup by dungeonId
     this.floors = dungeon.rooms;
     this.state.totalFloors = this.floors.length;
-
-    // Spawn only floor 0
-    this.spawnFloor(0);
+    // Floor 0 spawns when the first player joins, so party scaling sees them
 
     // Handle player input
     this.onMessage('input', (client: Client, input: PlayerInput) => {
       const player = this.state.players.get(client.sessionId);
-      if (!player) return;
+      if (!player || player.lifeState !== 'alive') return;
       if (!validatePlayerInput(input)) return;
 
-      const move = computeMovement(input);
-      player.position.x += move.dx;
-      player.position.z += move.dz;
+      // Slows and roots scale the step the same way the client predicts it; a stun also blocks attacks
+      const mods = this.playerModifiers(client.sessionId);
+      const move = computeMovement(input, mods.moveSpeed);
+      moveWithCollision(this.collision, player.position, move.dx, move.dz, PLAYER_RADIUS);
       player.position.y = 0;
       player.rotation = input.rotation;
       player.lastProcessedInput = input.seq;
 
-      const isMoving = input.forward || input.backward || input.left || input.right;
-      if (input.attack) {
+      const isMoving = mods.moveSpeed > 0 && (input.forward || input.backward || input.left || input.right);
+      const attack = mods.canAct ? input.attack : undefined;
+      // Reviving is a channel: moving or attacking breaks it
+      if (isMoving || attack) this.cancelRevive(client.sessionId);
+      if (attack) {
         player.animation = 'attack';
       } else {
         player.animation = isMoving ? 'run' : 'idle';
       }
 
-      if (input.attack === 'basic') {
+      if (attack === 'basic') {
         this.handleBasicAttack(client.sessionId, player);
-      } else if (input.attack && input.attack.startsWith('melee_')) {
-        this.handleSkillAttack(client.sessionId, player, input.attack);
+      } else if (attack && attack.startsWith('melee_')) {
+        this.handleSkillAttack(client.sessionId, player, attack);
       }
     });
 
@@ -146,7 +322,15 @@ export class DungeonRoom extends Room<DungeonState> {
       const loot = this.state.lootDrops.get(data.lootId);
       if (!loot) return;
       const player = this.state.players.get(client.sessionId);
-      if (!player) return;
+      if (!player || player.lifeState !== 'alive') return;
+      if (loot.rolling) {
+        client.send('pickup_fail', { error: 'The party is still rolling for this' });
+        return;
+      }
+      if (loot.ownerId && loot.ownerId !== client.sessionId) {
+        client.send('pickup_fail', { error: 'That belongs to someone else' });
+        return;
+      }
 
       const dist = distanceXZ(
         { x: player.position.x, y: 0, z: player.position.z },
@@ -155,7 +339,8 @@ export class DungeonRoom extends Room<DungeonState> {
       if (dist > 3) return;
 
       const item = this.inventory.addItem(
-        client.sessionId, loot.itemDefId, loot.rarity as Rarity,
+        client.auth.playerId, loot.itemDefId, loot.rarity as Rarity, undefined, 1,
+        { source: 'loot', roomId: this.roomId, details: { lootId: data.lootId } },
       );
 
       client.send('loot_acquired', { item });
@@ -163,14 +348,14 @@ export class DungeonRoom extends Room<DungeonState> {
     });
 
     this.onMessage('request_inventory', (client: Client) => {
-      const items = this.inventory.getItems(client.sessionId);
-      const gold = this.inventory.getGold(client.sessionId);
+      const items = this.inventory.getItems(client.auth.playerId);
+      const gold = this.inventory.getGold(client.auth.playerId);
       client.send('inventory_full', { items, gold });
     });
 
     this.onMessage('allocate_skill', (client: Client, data: { nodeId: string }) => {
       if (!data || typeof data.nodeId !== 'string') return;
-      const result = this.inventory.allocateSkillPoint(client.sessionId, data.nodeId);
+      const result = this.inventory.allocateSkillPoint(client.auth.playerId, data.nodeId);
       if (result.error) {
         client.send('skill_fail', { error: result.error });
       } else {
@@ -180,22 +365,13 @@ export class DungeonRoom extends Room<DungeonState> {
         });
         // Re-apply passive stats
         const player = this.state.players.get(client.sessionId);
-        if (player) {
-          const passive = this.inventory.computePassiveStats(client.sessionId);
-          const saved = this.inventory.loadPlayerStats(client.sessionId);
-          const classId = this.inventory.loadPlayerClass(client.sessionId);
-          const classDef = CLASS_DEFS[classId];
-          const baseMaxHp = classDef.maxHpBase + (saved.level - 1) * 10;
-          player.stats.maxHp = Math.floor(baseMaxHp * passive.maxHpMult);
-          player.stats.hp = Math.min(player.stats.hp, player.stats.maxHp);
-          player.stats.skillPoints = result.skillPoints!;
-        }
+        if (player) this.progression.refreshStats(client.auth.playerId, player.stats);
       }
     });
 
     this.onMessage('set_hotbar', (client: Client, data: { slot: number; skillId: string }) => {
       if (!data || typeof data.slot !== 'number' || typeof data.skillId !== 'string') return;
-      const result = this.inventory.setHotbarSlot(client.sessionId, data.slot, data.skillId);
+      const result = this.inventory.setHotbarSlot(client.auth.playerId, data.slot, data.skillId);
       if (result.error) {
         client.send('skill_fail', { error: result.error });
       } else {
@@ -204,9 +380,9 @@ export class DungeonRoom extends Room<DungeonState> {
     });
 
     this.onMessage('request_skills', (client: Client) => {
-      const allocations = this.inventory.loadSkillAllocations(client.sessionId);
-      const hotbar = this.inventory.loadHotbar(client.sessionId);
-      const skillPoints = this.inventory.getSkillPoints(client.sessionId);
+      const allocations = this.inventory.loadSkillAllocations(client.auth.playerId);
+      const hotbar = this.inventory.loadHotbar(client.auth.playerId);
+      const skillPoints = this.inventory.getSkillPoints(client.auth.playerId);
       client.send('skills_full', { allocations, hotbar, skillPoints });
     });
 
@@ -214,7 +390,7 @@ export class DungeonRoom extends Room<DungeonState> {
     this.onMessage('use_item', (client: Client, data: { defId: string }) => {
       if (!data || typeof data.defId !== 'string') return;
       const player = this.state.players.get(client.sessionId);
-      if (!player || player.stats.hp <= 0) return;
+      if (!player || player.lifeState !== 'alive') return;
 
       if (data.defId === 'health_potion') {
         const now = Date.now();
@@ -224,20 +400,21 @@ export class DungeonRoom extends Room<DungeonState> {
           return;
         }
 
-        if (!this.inventory.consumeStackable(client.sessionId, 'health_potion', 1)) {
+        if (!this.inventory.consumeStackable(client.auth.playerId, 'health_potion', 1, { source: 'consume', roomId: this.roomId })) {
           client.send('use_item_fail', { error: 'No health potions' });
           return;
         }
 
         const healAmount = Math.min(POTION_HEAL_AMOUNT, player.stats.maxHp - player.stats.hp);
         player.stats.hp += healAmount;
+        this.creditHealing(client.sessionId, healAmount);
         this.potionCooldowns.set(client.sessionId, now + POTION_COOLDOWN * 1000);
 
         client.send('item_used', { defId: 'health_potion', healAmount });
 
         // Refresh inventory
-        const items = this.inventory.getItems(client.sessionId);
-        const gold = this.inventory.getGold(client.sessionId);
+        const items = this.inventory.getItems(client.auth.playerId);
+        const gold = this.inventory.getGold(client.auth.playerId);
         client.send('inventory_full', { items, gold });
 
         // Show heal as floating text
@@ -251,12 +428,55 @@ export class DungeonRoom extends Room<DungeonState> {
       }
     });
 
-    // Next floor request
+    // Need/greed choice for an open roll
+    this.onMessage('loot_roll', (client: Client, data: { lootId: string; choice: LootRollChoice }) => {
+      if (!data || typeof data.lootId !== 'string' || !LOOT_ROLL_CHOICES.includes(data.choice)) return;
+      const roll = this.lootRolls.get(data.lootId);
+      if (!roll || !roll.eligible.has(client.sessionId) || roll.choices.has(client.sessionId)) return;
+      roll.choices.set(client.sessionId, data.choice);
+      if (roll.choices.size >= roll.eligible.size) this.resolveLootRoll(data.lootId);
+    });
+
+    // Start channeling a revive on a downed ally; the game tick advances it
+    this.onMessage('revive', (client: Client, data: { targetId: string }) => {
+      if (!data || typeof data.targetId !== 'string' || data.targetId === client.sessionId) return;
+      const reviver = this.state.players.get(client.sessionId);
+      const target = this.state.players.get(data.targetId);
+      if (!reviver || !target || !this.isTargetable(reviver) || target.lifeState !== 'downed') return;
+      if (distanceXZ(reviver.position, target.position) > REVIVE_RANGE) return;
+      for (const channel of this.reviveChannels.values()) {
+        if (channel.targetId === data.targetId) return;
+      }
+      this.reviveChannels.set(client.sessionId, { targetId: data.targetId, elapsed: 0 });
+      reviver.animation = 'idle';
+    });
+
+    // Next floor request: opens a ready check, or confirms the one already open
     this.onMessage('next_floor', (client: Client) => {
       if (!this.state.floorCleared) return;
       if (this.state.currentFloor >= this.state.totalFloors - 1) return;
       if (this.state.dungeonComplete) return;
-      this.spawnFloor(this.state.currentFloor + 1);
+      const player = this.state.players.get(client.sessionId);
+      if (!player || player.lifeState !== 'alive') return;
+      if (!this.readyCheck) {
+        this.readyCheck = { readyIds: new Set([client.sessionId]), endsAt: Date.now() + READY_CHECK_SECONDS * 1000 };
+        if (this.resolveReadyCheck()) return;
+        this.broadcast('ready_check_start', { initiatorName: player.name, ...this.readyCheckStatus() });
+        return;
+      }
+      this.readyCheck.readyIds.add(client.sessionId);
+      this.updateReadyCheck();
+    });
+
+    this.onMessage('ready_check_response', (client: Client, data: { ready: boolean }) => {
+      const player = this.state.players.get(client.sessionId);
+      if (!this.readyCheck || !player || player.lifeState !== 'alive') return;
+      if (data?.ready === true) {
+        this.readyCheck.readyIds.add(client.sessionId);
+        this.updateReadyCheck();
+      } else {
+        this.cancelReadyCheck(`${player.name} isn't ready`);
+      }
     });
 
     // Exit dungeon request
@@ -274,71 +494,106 @@ export class DungeonRoom extends Room<DungeonState> {
     console.log(`DungeonRoom created: ${dungeonId}`);
   }
 
+  /** Living, connected players who must confirm, and whether each has */
+  private readyCheckStatus() {
+    const players: { sessionId: string; name: string; ready: boolean }[] = [];
+    this.state.players.forEach((player, sessionId) => {
+      // A dropped player in the reconnect window doesn't hold the vote up
+      if (player.lifeState !== 'alive' || !player.connected) return;
+      players.push({ sessionId, name: player.name, ready: !!this.readyCheck?.readyIds.has(sessionId) });
+    });
+    return { players, timeout: Math.max(0, ((this.readyCheck?.endsAt ?? 0) - Date.now()) / 1000) };
+  }
+
+  /** Start the next floor once every living player is ready; returns whether it did */
+  private resolveReadyCheck(): boolean {
+    if (!this.readyCheck) return false;
+    const { players } = this.readyCheckStatus();
+    if (!players.length || players.some((p) => !p.ready)) return false;
+    this.readyCheck = null;
+    this.spawnFloor(this.state.currentFloor + 1);
+    return true;
+  }
+
+  private updateReadyCheck() {
+    if (!this.resolveReadyCheck() && this.readyCheck) this.broadcast('ready_check_update', this.readyCheckStatus());
+  }
+
+  private cancelReadyCheck(reason: string) {
+    if (!this.readyCheck) return;
+    this.readyCheck = null;
+    this.broadcast('ready_check_cancelled', { reason });
+  }
+
   private spawnFloor(floorIndex: number) {
+    this.readyCheck = null;
     // Clear existing monsters and loot
     this.state.monsters.forEach((_m, id) => {
       this.state.monsters.delete(id);
     });
     this.monsterRuntimes.clear();
+    this.contributions.clear();
+    this.groundZones = [];
+    this.clearEncounterHazards();
 
     this.state.lootDrops.forEach((_l, id) => {
       this.state.lootDrops.delete(id);
     });
+    this.lootRolls.clear();
 
     const floor = this.floors[floorIndex];
     if (!floor) return;
 
+    if (!this.floorStarted) this.runStartedAt = Date.now();
+    this.floorStarted = true;
+    this.state.partySize = this.state.players.size;
+    this.floorHpMultiplier = this.difficulty.hpMultiplier * partyHpMultiplier(this.state.players.size);
     this.state.currentFloor = floorIndex;
     this.state.currentRoom = floor.id;
     this.state.floorCleared = false;
 
     const isBossFloor = floorIndex === this.floors.length - 1;
 
-    // Spawn monsters for this floor
-    for (const spawn of floor.spawns) {
-      const def = MONSTER_DEFS[spawn.monsterId];
-      if (!def) continue;
-
-      const id = `monster_${this.monsterIdx++}`;
-      const monster = new MonsterState();
-      monster.id = id;
-      monster.defId = spawn.monsterId;
-      monster.position = new Vec3State();
-      monster.position.x = spawn.position.x;
-      monster.position.y = spawn.position.y;
-      monster.position.z = spawn.position.z;
-      monster.hp = def.hp;
-      monster.maxHp = def.hp;
-      monster.aiState = 'idle';
-      this.state.monsters.set(id, monster);
-
-      this.monsterRuntimes.set(id, {
-        defId: spawn.monsterId,
-        spawnPos: { ...spawn.position },
-        attackTimer: 0,
-        respawnTimer: 0,
-        respawnTime: isBossFloor ? 0 : spawn.respawnTime,
-        dead: false,
-        currentPhase: 0,
-      });
+    // Procedural floors add generated packs and obstacles to any hand-placed spawns
+    const layout = floor.procedural
+      ? generateFloorLayout(floor.procedural, floorSeed(this.state.seed, floorIndex))
+      : null;
+    const spawns = layout ? [...floor.spawns, ...layout.spawns] : floor.spawns;
+    this.collision = floorCollisionWorld(floor, layout?.obstacles ?? []);
+    this.navGrid = buildNavGrid(this.collision, MONSTER_RADIUS);
+    // Ranks and affixes have their own stream so a seed always rolls the same elites
+    const rankRng = createRng(floorSeed(this.state.seed, floorIndex) ^ 0x5bd1e995);
+    for (const spawn of spawns) {
+      const rank = MONSTER_DEFS[spawn.monsterId]?.isBoss ? 'normal' : rollMonsterRank(!!spawn.elite, rankRng);
+      const affixes = rollMonsterAffixes(MONSTER_RANKS[rank].affixCount, rankRng);
+      this.spawnMonster(spawn.monsterId, spawn.position, isBossFloor ? 0 : spawn.respawnTime, rank, affixes);
     }
 
-    // Teleport all players to spawn
+    // The fallen get back up for the new floor; teleport everyone to spawn
+    this.reviveChannels.clear();
     this.state.players.forEach((player) => {
-      player.position.x = 0;
-      player.position.z = -8;
+      if (player.lifeState !== 'alive') this.revivePlayer(player, REVIVE_HP_FRACTION);
+      player.position.x = DUNGEON_PLAYER_SPAWN.x;
+      player.position.z = DUNGEON_PLAYER_SPAWN.z;
       player.position.y = 0;
     });
 
-    this.broadcast('floor_started', {
-      floor: floorIndex,
+    this.broadcast('floor_started', this.floorStartedMessage());
+  }
+
+  private floorStartedMessage() {
+    const floor = this.floors[this.state.currentFloor];
+    return {
+      floor: this.state.currentFloor,
       totalFloors: this.state.totalFloors,
-      floorName: floor.floorName || floor.id,
-      isBossFloor,
-    });
+      floorName: floor?.floorName || floor?.id || '',
+      isBossFloor: this.state.currentFloor === this.floors.length - 1,
+      elapsed: Date.now() - this.runStartedAt,
+    };
   }
 
   private checkFloorCleared() {
+    if (this.state.floorCleared) return;
     let allDead = true;
     this.monsterRuntimes.forEach((runtime) => {
       if (!runtime.dead && runtime.respawnTime > 0) {
@@ -360,39 +615,83 @@ export class DungeonRoom extends Room<DungeonState> {
     if (anyAlive) return;
 
     this.state.floorCleared = true;
+    this.splits[this.state.currentFloor] = Date.now() - this.runStartedAt;
     const isBossFloor = this.state.currentFloor === this.state.totalFloors - 1;
 
     if (isBossFloor) {
       this.state.dungeonComplete = true;
 
       // Save dungeon progress
-      const db = getDB();
-      this.state.players.forEach((_player, sessionId) => {
-        const existing = db.exec(
-          'SELECT id FROM dungeon_progress WHERE player_id = ? AND dungeon_id = ?',
-          [sessionId, this.state.dungeonId],
-        );
-        const firstClear = !existing.length || !existing[0].values.length;
-        if (firstClear) {
-          db.run(
-            'INSERT INTO dungeon_progress (player_id, dungeon_id, completed, completed_at) VALUES (?, ?, 1, ?)',
-            [sessionId, this.state.dungeonId, Date.now()],
+      transaction((db) => {
+        this.state.players.forEach((_player, sessionId) => {
+          const playerId = this.playerIds.get(sessionId);
+          if (!playerId) return;
+          const { dungeonId, difficulty, partySize } = this.state;
+          const existing = db.exec(
+            'SELECT id FROM dungeon_progress WHERE player_id = ? AND dungeon_id = ? AND difficulty = ?',
+            [playerId, dungeonId, difficulty],
           );
-        } else {
-          db.run(
-            'UPDATE dungeon_progress SET completed = completed + 1, completed_at = ? WHERE player_id = ? AND dungeon_id = ?',
-            [Date.now(), sessionId, this.state.dungeonId],
-          );
-        }
+          const firstClear = !existing.length || !existing[0].values.length;
+          if (firstClear) {
+            db.run(
+              `INSERT INTO dungeon_progress (player_id, dungeon_id, difficulty, completed, completed_at, party_size)
+               VALUES (?, ?, ?, 1, ?, ?)`,
+              [playerId, dungeonId, difficulty, Date.now(), partySize],
+            );
+          } else {
+            db.run(
+              `UPDATE dungeon_progress SET completed = completed + 1, completed_at = ?, party_size = ?
+               WHERE player_id = ? AND dungeon_id = ? AND difficulty = ?`,
+              [Date.now(), partySize, playerId, dungeonId, difficulty],
+            );
+          }
+        });
+        this.recordRun();
       });
-      saveDB();
+    }
+    this.clients.forEach((client) => this.sendFloorResult(client));
+  }
+
+  /** Store the finished run for the leaderboards; runs inside the progress-saving transaction */
+  private recordRun() {
+    const members: { playerId: string; classId: string }[] = [];
+    this.state.players.forEach((player, sessionId) => {
+      const playerId = this.playerIds.get(sessionId);
+      if (playerId) members.push({ playerId, classId: player.classId });
+    });
+    if (!members.length) return;
+    const totalTime = this.splits[this.state.currentFloor];
+    const runId = this.leaderboards.recordRun({
+      dungeonId: this.state.dungeonId,
+      difficulty: this.state.difficulty,
+      seed: this.state.seed,
+      replay: this.replaySeed !== null,
+      totalTime,
+      splits: this.splits,
+      members,
+    });
+    console.log(`Dungeon run ${runId} recorded: ${this.state.dungeonId} in ${(totalTime / 1000).toFixed(1)}s`);
+  }
 
-      this.broadcast('dungeon_complete', { dungeonId: this.state.dungeonId });
+  /** floor_cleared / dungeon_complete with the run clock and the recipient's personal best */
+  private sendFloorResult(client: Client) {
+    const personalBest = this.personalBests.get(client.sessionId) ?? null;
+    const time = this.splits[this.state.currentFloor];
+    if (this.state.dungeonComplete) {
+      client.send('dungeon_complete', {
+        dungeonId: this.state.dungeonId,
+        time,
+        splits: this.splits,
+        personalBest,
+        ranked: this.replaySeed === null,
+      });
     } else {
-      this.broadcast('floor_cleared', {
+      client.send('floor_cleared', {
         floor: this.state.currentFloor,
         totalFloors: this.state.totalFloors,
         isBossFloor: false,
+        time,
+        personalBest,
       });
     }
   }
@@ -400,7 +699,7 @@ export class DungeonRoom extends Room<DungeonState> {
   private handleBasicAttack(playerId: string, player: PlayerState) {
     const now = Date.now();
     const lastAttack = this.playerAttackTimers.get(playerId) || 0;
-    if (now - lastAttack < BASIC_ATTACK_COOLDOWN * 1000) return;
+    if (now - lastAttack < (BASIC_ATTACK_COOLDOWN * 1000) / this.playerModifiers(playerId).attackSpeed) return;
     this.playerAttackTimers.set(playerId, now);
 
     let closestId: string | null = null;
@@ -421,20 +720,19 @@ export class DungeonRoom extends Room<DungeonState> {
     if (!closestId) return;
     const monster = this.state.monsters.get(closestId)!;
 
-    const rawDmg = BASIC_ATTACK_DAMAGE + player.stats.strength;
-    const def = MONSTER_DEFS[monster.defId];
-    const result = calculateDamage(rawDmg, player.stats.dexterity, def?.armor || 0);
+    const rawDmg = this.playerBaseDamage(playerId, player);
+    const result = calculateDamage(rawDmg, player.stats.dexterity, this.monsterArmor(monster));
 
     if (result.isDodge) {
       this.broadcast('damage', { targetId: closestId, amount: 0, isCrit: false, isDodge: true });
       return;
     }
 
-    monster.hp -= result.finalDamage;
+    const dealt = this.damageMonster(closestId, monster, playerId, result.finalDamage);
 
     this.broadcast('damage', {
       targetId: closestId,
-      amount: result.finalDamage,
+      amount: dealt,
       isCrit: result.isCrit,
       isDodge: false,
     });
@@ -449,7 +747,7 @@ export class DungeonRoom extends Room<DungeonState> {
     if (!nodeDef) return;
 
     // Check allocation
-    const allocations = this.inventory.loadSkillAllocations(playerId);
+    const allocations = this.inventory.loadSkillAllocations(this.playerIds.get(playerId)!);
     const alloc = allocations.find((a) => a.nodeId === skillId);
     if (!alloc || alloc.points <= 0) return;
 
@@ -500,7 +798,7 @@ export class DungeonRoom extends Room<DungeonState> {
     if (skillId === 'melee_power_strike') {
       // 150% dmg to closest, +10% per extra point
       const dmgMult = effect.value + extraPoints * 0.1;
-      const baseDmg = BASIC_ATTACK_DAMAGE + player.stats.strength;
+      const baseDmg = this.playerBaseDamage(playerId, player);
       const rawDmg = Math.floor(baseDmg * dmgMult);
 
       let closestId: string | null = null;
@@ -516,12 +814,12 @@ export class DungeonRoom extends Room<DungeonState> {
 
       if (closestId) {
         const monster = this.state.monsters.get(closestId)!;
-        const def = MONSTER_DEFS[monster.defId];
-        const result = calculateDamage(rawDmg, player.stats.dexterity, def?.armor || 0);
+        const result = calculateDamage(rawDmg, player.stats.dexterity, this.monsterArmor(monster));
         if (!result.isDodge) {
-          monster.hp -= result.finalDamage;
-          this.broadcast('damage', { targetId: closestId, amount: result.finalDamage, isCrit: result.isCrit, isDodge: false });
+          const dealt = this.damageMonster(closestId, monster, playerId, result.finalDamage, effect.threatMultiplier);
+          this.broadcast('damage', { targetId: closestId, amount: dealt, isCrit: result.isCrit, isDodge: false });
           if (monster.hp <= 0) this.onMonsterKilled(closestId, monster, playerId);
+          else this.applySkillDebuffs(nodeDef, closestId, playerId);
         } else {
           this.broadcast('damage', { targetId: closestId, amount: 0, isCrit: false, isDodge: true });
         }
@@ -529,7 +827,7 @@ export class DungeonRoom extends Room<DungeonState> {
     } else if (skillId === 'melee_whirlwind') {
       // AoE: 80% dmg in radius, +10% per extra point
       const dmgMult = effect.value + extraPoints * 0.1;
-      const baseDmg = BASIC_ATTACK_DAMAGE + player.stats.strength;
+      const baseDmg = this.playerBaseDamage(playerId, player);
       const rawDmg = Math.floor(baseDmg * dmgMult);
 
       this.state.monsters.forEach((monster, id) => {
@@ -539,12 +837,12 @@ export class DungeonRoom extends Room<DungeonState> {
           { x: monster.position.x, y: 0, z: monster.position.z },
         );
         if (dist <= SKILL_RANGE_AOE) {
-          const def = MONSTER_DEFS[monster.defId];
-          const result = calculateDamage(rawDmg, player.stats.dexterity, def?.armor || 0);
+          const result = calculateDamage(rawDmg, player.stats.dexterity, this.monsterArmor(monster));
           if (!result.isDodge) {
-            monster.hp -= result.finalDamage;
-            this.broadcast('damage', { targetId: id, amount: result.finalDamage, isCrit: result.isCrit, isDodge: false });
+            const dealt = this.damageMonster(id, monster, playerId, result.finalDamage, effect.threatMultiplier);
+            this.broadcast('damage', { targetId: id, amount: dealt, isCrit: result.isCrit, isDodge: false });
             if (monster.hp <= 0) this.onMonsterKilled(id, monster, playerId);
+            else this.applySkillDebuffs(nodeDef, id, playerId);
           } else {
             this.broadcast('damage', { targetId: id, amount: 0, isCrit: false, isDodge: true });
           }
@@ -553,8 +851,9 @@ export class DungeonRoom extends Room<DungeonState> {
     } else if (skillId === 'melee_charge') {
       // Dash forward + stun closest monster in range
       const facing = player.rotation;
-      player.position.x += Math.sin(facing) * CHARGE_DISTANCE;
-      player.position.z += Math.cos(facing) * CHARGE_DISTANCE;
+      moveWithCollision(
+        this.collision, player.position, Math.sin(facing) * CHARGE_DISTANCE, Math.cos(facing) * CHARGE_DISTANCE, PLAYER_RADIUS,
+      );
 
       let closestId: string | null = null;
       let closestDist = BASIC_ATTACK_RANGE + 2;
@@ -568,21 +867,39 @@ export class DungeonRoom extends Room<DungeonState> {
       });
 
       if (closestId) {
-        const stunDuration = effect.value * 1000; // 1.5s
-        this.monsterStuns.set(closestId, now + stunDuration);
-        const baseDmg = BASIC_ATTACK_DAMAGE + player.stats.strength;
+        const baseDmg = this.playerBaseDamage(playerId, player);
         const rawDmg = Math.floor(baseDmg * 0.5);
         const monster = this.state.monsters.get(closestId)!;
-        const def = MONSTER_DEFS[monster.defId];
-        const result = calculateDamage(rawDmg, player.stats.dexterity, def?.armor || 0);
+        const result = calculateDamage(rawDmg, player.stats.dexterity, this.monsterArmor(monster));
         if (!result.isDodge) {
-          monster.hp -= result.finalDamage;
-          this.broadcast('damage', { targetId: closestId, amount: result.finalDamage, isCrit: result.isCrit, isDodge: false });
+          const dealt = this.damageMonster(closestId, monster, playerId, result.finalDamage, effect.threatMultiplier);
+          this.broadcast('damage', { targetId: closestId, amount: dealt, isCrit: result.isCrit, isDodge: false });
           if (monster.hp <= 0) this.onMonsterKilled(closestId, monster, playerId);
+          else this.applySkillDebuffs(nodeDef, closestId, playerId);
         } else {
           this.broadcast('damage', { targetId: closestId, amount: 0, isCrit: false, isDodge: true });
         }
       }
+    } else if (skillId === 'melee_taunt') {
+      // Every monster nearby matches our threat to its highest and attacks us until the taunt ends
+      const tauntUntil = now + (effect.value + extraPoints) * 1000;
+      this.state.monsters.forEach((monster, id) => {
+        const runtime = this.monsterRuntimes.get(id);
+        if (!runtime || monster.hp <= 0 || distanceXZ(player.position, monster.position) > TAUNT_RADIUS) return;
+        runtime.threat.set(playerId, Math.max(topThreat(runtime.threat), PROXIMITY_PULL_THREAT));
+        runtime.tauntedBy = playerId;
+        runtime.tauntUntil = tauntUntil;
+        monster.targetId = playerId;
+      });
+    }
+
+    // Buffs land on the caster and every ally around them
+    for (const buff of nodeDef.effects) {
+      if (buff.type !== 'buff' || !buff.statusEffect) continue;
+      this.state.players.forEach((ally, allyId) => {
+        if (!this.isTargetable(ally) || distanceXZ(ally.position, player.position) > SKILL_RANGE_AOE) return;
+        this.applyStatusEffect(allyId, buff.statusEffect!, playerId);
+      });
     }
 
     // Notify client of successful use
@@ -601,81 +918,92 @@ export class DungeonRoom extends Room<DungeonState> {
     const def = MONSTER_DEFS[monster.defId];
     if (!def) return;
 
-    // Give XP to killer
-    const killer = this.state.players.get(killerId);
-    if (killer) {
-      killer.stats.xp += def.xpReward;
-      if (killer.stats.xp >= killer.stats.xpToNext) {
-        killer.stats.level++;
-        killer.stats.xp -= killer.stats.xpToNext;
-        killer.stats.xpToNext = Math.floor(100 * Math.pow(killer.stats.level, 1.5));
-        killer.stats.maxHp += 10;
-        killer.stats.hp = killer.stats.maxHp;
-        killer.stats.maxMana += 5;
-        killer.stats.mana = killer.stats.maxMana;
-        killer.stats.strength += 2;
-        killer.stats.dexterity += 1;
-        killer.stats.intelligence += 1;
-        killer.stats.vitality += 1;
-
-        // Grant skill point on level up
-        this.inventory.addSkillPoints(killerId, SKILL_POINTS_PER_LEVEL);
-        killer.stats.skillPoints += SKILL_POINTS_PER_LEVEL;
-
-        this.broadcast('level_up', { playerId: killerId, level: killer.stats.level });
-
-        // Persist stats on level up
-        this.saveStats(killerId, killer);
-      }
-    }
-
-    // Roll gold drop
-    const tier = def.xpReward >= 100 ? 2 : 1;
+    // Roll gold drop — bosses pay out one tier above their dungeon
+    const tier = this.dungeon.tier + (def.isBoss ? 1 : 0);
     const goldRange = MONSTER_GOLD_DROP[tier] || MONSTER_GOLD_DROP[1];
-    const goldAmount = goldRange.min + Math.floor(Math.random() * (goldRange.max - goldRange.min + 1));
-    const totalGold = this.inventory.addGold(killerId, goldAmount);
+    const goldAmount = Math.floor(
+      (goldRange.min + Math.floor(Math.random() * (goldRange.max - goldRange.min + 1))) * this.difficulty.goldMultiplier,
+    );
+
+    const runtime = this.monsterRuntimes.get(monsterId);
+    const rank = MONSTER_RANKS[runtime?.rank ?? 'normal'];
+    const baseXp = Math.floor(def.xpReward * this.difficulty.xpMultiplier * rank.xpMultiplier);
+
+    // Kill credit: everyone who fought or healed during the fight, plus living party members nearby
+    const contributed = this.contributions.get(monsterId);
+    this.contributions.delete(monsterId);
+    const credited = new Map<string, number>(); // sessionId -> contribution
+    this.state.players.forEach((player, sessionId) => {
+      if (!this.playerIds.has(sessionId) || !player.connected) return;
+      const contribution = contributed?.get(sessionId) ?? 0;
+      const nearby = player.lifeState === 'alive' && distanceXZ(player.position, monster.position) <= XP_SHARE_RANGE;
+      if (contribution > 0 || nearby) credited.set(sessionId, contribution);
+    });
+    const xpShare = partyXpShare(baseXp, credited.size);
+    const goldShares = splitGold(goldAmount, credited, GOLD_SPLIT_RULE, killerId);
+
+    // Level-ups, skill points and gold commit together. XP lands on copies of
+    // the synced stats, swapped in only once the whole unit has committed.
+    const leveledUp: string[] = [];
+    const goldTotals = new Map<string, number>();
+    const newStats = new Map<string, PlayerStatsState>();
+    transaction(() => {
+      credited.forEach((_contribution, sessionId) => {
+        const player = this.state.players.get(sessionId)!;
+        const playerId = this.playerIds.get(sessionId)!;
+        const stats = player.stats.clone();
+        if (this.progression.awardXp(playerId, stats, xpShare) > 0) leveledUp.push(sessionId);
+        newStats.set(sessionId, stats);
+        const gold = goldShares.get(sessionId) ?? 0;
+        if (gold <= 0) return;
+        goldTotals.set(sessionId, this.inventory.addGold(playerId, gold, {
+          source: 'kill',
+          roomId: this.roomId,
+          details: { monsterId, monsterDefId: monster.defId, split: GOLD_SPLIT_RULE, partySize: credited.size },
+        }));
+      });
+    });
+    newStats.forEach((stats, sessionId) => { this.state.players.get(sessionId)!.stats = stats; });
 
+    for (const sessionId of leveledUp) {
+      this.broadcast('level_up', { playerId: sessionId, level: this.state.players.get(sessionId)!.stats.level });
+    }
     for (const client of this.clients) {
-      if (client.sessionId === killerId) {
-        client.send('gold_gained', { amount: goldAmount, total: totalGold });
-        break;
+      const total = goldTotals.get(client.sessionId);
+      if (total !== undefined) {
+        client.send('gold_gained', { amount: goldShares.get(client.sessionId), total });
       }
     }
 
-    // Drop loot from loot table
-    const lootTable = LOOT_TABLES[def.lootTableId];
-    if (lootTable) {
-      const dropCount = lootTable.guaranteedDrops +
-        Math.floor(Math.random() * (lootTable.maxDrops - lootTable.guaranteedDrops + 1));
-
-      const totalWeight = lootTable.entries.reduce((sum, e) => sum + e.weight, 0);
-
-      for (let i = 0; i < dropCount; i++) {
-        let roll = Math.random() * totalWeight;
-        for (const entry of lootTable.entries) {
-          roll -= entry.weight;
-          if (roll <= 0) {
-            const rarity = rollRarity(entry.minRarity as Rarity, entry.maxRarity as Rarity);
-            const lootId = `loot_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`;
-            const loot = new LootDropState();
-            loot.id = lootId;
-            loot.itemDefId = entry.itemDefId;
-            loot.rarity = rarity;
-            loot.x = monster.position.x + (Math.random() - 0.5) * 2;
-            loot.y = monster.position.y;
-            loot.z = monster.position.z + (Math.random() - 0.5) * 2;
-            loot.despawnAt = Date.now() + 60000;
-            this.state.lootDrops.set(lootId, loot);
-            break;
-          }
-        }
-      }
+    // Personal loot rolls the table separately for each credited player
+    if (this.state.lootMode === 'personal') {
+      credited.forEach((_contribution, sessionId) => this.dropLoot(def, monster, rank.lootRarityBonus, sessionId));
+    } else {
+      this.dropLoot(def, monster, rank.lootRarityBonus);
+    }
+
+    if (runtime?.affixes.includes('molten')) {
+      const molten = MONSTER_AFFIXES.molten;
+      this.spawnZone(monsterId, { x: monster.position.x, z: monster.position.z, facing: 0 }, {
+        kind: 'fire',
+        shape: { type: 'circle', radius: molten.radius! },
+        duration: molten.duration!,
+        damage: molten.value,
+        tickRate: 1,
+      });
+    }
+    if (runtime?.encounter) {
+      runtime.encounter.defeated();
+      this.clearEncounterHazards(monsterId);
     }
 
     // Mark runtime as dead
-    const runtime = this.monsterRuntimes.get(monsterId);
     if (runtime) {
       runtime.dead = true;
+      runtime.threat.clear();
+      runtime.tauntedBy = '';
+      runtime.status.clear();
+      monster.shielded = false;
       if (runtime.respawnTime > 0) {
         runtime.respawnTimer = runtime.respawnTime;
       }
@@ -685,118 +1013,528 @@ export class DungeonRoom extends Room<DungeonState> {
     this.checkFloorCleared();
   }
 
-  private saveStats(playerId: string, player: PlayerState) {
-    this.inventory.savePlayerStats(playerId, {
-      level: player.stats.level,
-      xp: player.stats.xp,
-      strength: player.stats.strength,
-      intelligence: player.stats.intelligence,
-      dexterity: player.stats.dexterity,
-      vitality: player.stats.vitality,
+  /**
+   * Roll the monster's loot table, `rarityBonus` tiers up for elites and
+   * champions; personal drops are owned by and only visible to `ownerId`
+   */
+  private dropLoot(def: MonsterDef, monster: MonsterState, rarityBonus: number, ownerId?: string) {
+    const lootTable = LOOT_TABLES[def.lootTableId];
+    if (!lootTable) return;
+    const guaranteed = lootTable.guaranteedDrops ?? 0;
+    const dropCount = guaranteed + Math.floor(Math.random() * (lootTable.maxDrops - guaranteed + 1));
+    const totalWeight = lootTable.entries.reduce((sum, e) => sum + e.weight, 0);
+
+    for (let i = 0; i < dropCount; i++) {
+      let roll = Math.random() * totalWeight;
+      for (const entry of lootTable.entries) {
+        roll -= entry.weight;
+        if (roll <= 0) {
+          const rarity = rollRarity(
+            raiseRarity(entry.minRarity as Rarity, rarityBonus),
+            raiseRarity(entry.maxRarity as Rarity, rarityBonus),
+            this.difficulty.rarityRolls,
+          );
+          const lootId = `loot_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`;
+          const loot = new LootDropState();
+          loot.id = lootId;
+          loot.itemDefId = entry.itemDefId;
+          loot.rarity = rarity;
+          loot.x = monster.position.x + (Math.random() - 0.5) * 2;
+          loot.y = monster.position.y;
+          loot.z = monster.position.z + (Math.random() - 0.5) * 2;
+          loot.despawnAt = Date.now() + LOOT_DESPAWN_SECONDS * 1000;
+          if (ownerId) {
+            loot.ownerId = ownerId;
+            loot.personal = true;
+          }
+          this.state.lootDrops.set(lootId, loot);
+          if (this.state.lootMode === 'need_greed'
+            && RARITY_ORDER.indexOf(rarity) >= RARITY_ORDER.indexOf(NEED_GREED_MIN_RARITY)) {
+            this.startLootRoll(loot);
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  /** Open a need/greed roll for the players currently in the dungeon */
+  private startLootRoll(loot: LootDropState) {
+    const eligible = new Set(this.clients.map((c) => c.sessionId).filter((id) => this.state.players.has(id)));
+    if (eligible.size <= 1) return; // nobody to roll against
+    loot.rolling = true;
+    loot.despawnAt = 0;
+    this.lootRolls.set(loot.id, { eligible, choices: new Map(), endsAt: Date.now() + LOOT_ROLL_SECONDS * 1000 });
+    for (const client of this.clients) {
+      if (!eligible.has(client.sessionId)) continue;
+      client.send('loot_roll_start', {
+        lootId: loot.id, itemDefId: loot.itemDefId, rarity: loot.rarity, timeout: LOOT_ROLL_SECONDS,
+      });
+    }
+  }
+
+  /**
+   * Need beats greed; ties within the winning choice go to the highest 1–100
+   * roll. Anyone who didn't answer in time passes. If everyone passes the drop
+   * becomes free for all.
+   */
+  private resolveLootRoll(lootId: string) {
+    const roll = this.lootRolls.get(lootId);
+    this.lootRolls.delete(lootId);
+    const loot = this.state.lootDrops.get(lootId);
+    if (!roll || !loot) return;
+
+    const outcomes: (LootRollOutcome & { sessionId: string })[] = [];
+    roll.eligible.forEach((sessionId) => {
+      const player = this.state.players.get(sessionId);
+      if (!player) return;
+      const choice = roll.choices.get(sessionId) ?? 'pass';
+      outcomes.push({ sessionId, name: player.name, choice, roll: choice === 'pass' ? 0 : 1 + Math.floor(Math.random() * 100) });
+    });
+    const rank = (o: LootRollOutcome) => (o.choice === 'need' ? 2 : o.choice === 'greed' ? 1 : 0) * 1000 + o.roll;
+    const winner = outcomes.filter((o) => o.choice !== 'pass').sort((a, b) => rank(b) - rank(a))[0];
+
+    loot.rolling = false;
+    loot.ownerId = winner?.sessionId ?? '';
+    loot.despawnAt = Date.now() + LOOT_DESPAWN_SECONDS * 1000;
+    this.broadcast('loot_roll_result', {
+      lootId,
+      itemDefId: loot.itemDefId,
+      rarity: loot.rarity,
+      winnerId: winner?.sessionId ?? null,
+      winnerName: winner?.name ?? null,
+      outcomes: outcomes.map(({ name, choice, roll: value }) => ({ name, choice, roll: value })),
     });
   }
 
-  private applyStatusEffect(targetId: string, effectDef: StatusEffectDef, sourceId: string) {
-    let effects = this.playerStatusEffects.get(targetId);
-    if (!effects) {
-      effects = [];
-      this.playerStatusEffects.set(targetId, effects);
+  /** Apply a player's hit through any affix barrier; returns the damage actually dealt */
+  private damageMonster(monsterId: string, monster: MonsterState, playerId: string, damage: number, threatMultiplier = 1): number {
+    const runtime = this.monsterRuntimes.get(monsterId);
+    if (monster.shielded) damage = Math.floor(damage * (1 - MONSTER_AFFIXES.shielding.value));
+    this.addContribution(monsterId, playerId, Math.min(damage, Math.max(0, monster.hp)));
+    const classId = this.state.players.get(playerId)?.classId as CharacterClassId | undefined;
+    this.addThreat(monsterId, playerId, damage * threatMultiplier * (classId ? CLASS_DEFS[classId]?.threatMultiplier ?? 1 : 1));
+    monster.hp -= damage;
+
+    const player = this.state.players.get(playerId);
+    const reflected = Math.floor(damage * MONSTER_AFFIXES.thorns.value);
+    if (runtime?.affixes.includes('thorns') && player && this.isTargetable(player) && reflected > 0) {
+      player.stats.hp -= reflected;
+      this.broadcast('damage', { targetId: playerId, amount: reflected, isCrit: false, isDodge: false, dotType: 'thorns' });
+      if (player.stats.hp <= 0) this.downPlayer(playerId, player);
     }
+    return damage;
+  }
 
-    // Refresh existing same-type effect instead of stacking
-    const existing = effects.find((e) => e.type === effectDef.type);
-    if (existing) {
-      existing.remainingDuration = effectDef.duration;
-      existing.tickTimer = 0;
-      return;
+  private addThreat(monsterId: string, playerId: string, amount: number) {
+    const runtime = this.monsterRuntimes.get(monsterId);
+    if (!runtime || runtime.dead || amount <= 0) return;
+    runtime.threat.set(playerId, (runtime.threat.get(playerId) ?? 0) + amount);
+  }
+
+  private addContribution(monsterId: string, playerId: string, amount: number) {
+    if (amount <= 0) return;
+    let byPlayer = this.contributions.get(monsterId);
+    if (!byPlayer) {
+      byPlayer = new Map();
+      this.contributions.set(monsterId, byPlayer);
     }
+    byPlayer.set(playerId, (byPlayer.get(playerId) ?? 0) + amount);
+  }
 
-    effects.push({
-      type: effectDef.type,
-      sourceId,
-      damagePerTick: effectDef.damage,
-      tickRate: effectDef.tickRate,
-      remainingDuration: effectDef.duration,
-      tickTimer: 0,
+  /** Healing counts toward every monster currently fighting the party, and its threat is split between them */
+  private creditHealing(playerId: string, amount: number) {
+    const engaged: string[] = [];
+    this.state.monsters.forEach((monster, monsterId) => {
+      if (monster.hp <= 0 || !monster.targetId || !this.state.players.has(monster.targetId)) return;
+      this.addContribution(monsterId, playerId, amount * HEALING_CONTRIBUTION_WEIGHT);
+      engaged.push(monsterId);
     });
+    for (const monsterId of engaged) {
+      this.addThreat(monsterId, playerId, (amount * HEALING_THREAT_MULTIPLIER) / engaged.length);
+    }
+  }
 
-    this.broadcast('status_effect', { targetId, type: effectDef.type, duration: effectDef.duration });
+  /**
+   * Settle who a monster attacks. Threat decays for players outside its aggro
+   * range and is forgotten for the fallen; a monster nobody has hit picks up
+   * the closest player to walk into range. A live taunt overrides the table.
+   */
+  private updateMonsterTarget(monster: MonsterState, runtime: MonsterRuntime, aggroRange: number, dt: number): PlayerState | null {
+    for (const [sessionId, amount] of runtime.threat) {
+      const player = this.state.players.get(sessionId);
+      if (!player || player.lifeState !== 'alive') {
+        runtime.threat.delete(sessionId);
+      } else if (distanceXZ(player.position, monster.position) > aggroRange) {
+        const decayed = amount * Math.pow(1 - THREAT_DECAY_PER_SECOND, dt);
+        if (decayed < THREAT_FORGET_BELOW) runtime.threat.delete(sessionId);
+        else runtime.threat.set(sessionId, decayed);
+      }
+    }
+
+    if (!runtime.threat.size) {
+      let closest: PlayerState | null = null;
+      let closestDist = aggroRange;
+      this.state.players.forEach((p) => {
+        if (!this.isTargetable(p)) return;
+        const d = distanceXZ(p.position, monster.position);
+        if (d <= closestDist) { closestDist = d; closest = p; }
+      });
+      if (closest) runtime.threat.set((closest as PlayerState).id, PROXIMITY_PULL_THREAT);
+    }
+
+    const taunter = this.state.players.get(runtime.tauntedBy);
+    let targetId: string | null;
+    if (taunter && this.isTargetable(taunter) && Date.now() < runtime.tauntUntil) {
+      targetId = runtime.tauntedBy;
+    } else {
+      runtime.tauntedBy = '';
+      targetId = pickThreatTarget(
+        runtime.threat,
+        monster.targetId,
+        (sessionId) => this.isTargetable(this.state.players.get(sessionId)!),
+        (sessionId) => distanceXZ(this.state.players.get(sessionId)!.position, monster.position) <= AGGRO_MELEE_RANGE,
+      );
+    }
+    monster.targetId = targetId ?? '';
+    return targetId ? this.state.players.get(targetId)! : null;
   }
 
-  private checkBossPhaseTransition(monsterId: string, monster: MonsterState, runtime: MonsterRuntime) {
-    const def = MONSTER_DEFS[runtime.defId];
-    if (!def?.isBoss || !def.phases) return;
+  /** Every engaged monster's threat table, for the threat meter */
+  private syncThreat() {
+    const monsters: MonsterThreat[] = [];
+    this.state.monsters.forEach((monster, monsterId) => {
+      const runtime = this.monsterRuntimes.get(monsterId);
+      if (!runtime || runtime.dead || !runtime.threat.size) return;
+      monsters.push({
+        monsterId,
+        targetId: monster.targetId,
+        entries: [...runtime.threat].map(([sessionId, threat]) => ({ sessionId, threat: Math.round(threat) })),
+      });
+    });
+    if (!monsters.length && !this.threatSynced) return;
+    this.threatSynced = monsters.length > 0;
+    this.broadcast('threat_update', { monsters });
+  }
 
-    const hpRatio = monster.hp / monster.maxHp;
-    let targetPhase = 0;
-    for (let i = def.phases.length - 1; i >= 0; i--) {
-      if (hpRatio <= def.phases[i].hpThreshold) {
-        targetPhase = i;
-        break;
+  /** Alive and connected — disconnected players are invulnerable during the reconnect grace window */
+  private isTargetable(player: PlayerState): boolean {
+    return player.lifeState === 'alive' && player.connected;
+  }
+
+  /**
+   * HP reached zero. In a party the player is downed and can be revived until
+   * they bleed out; a lone player dies and respawns at the floor start.
+   */
+  private downPlayer(sessionId: string, player: PlayerState) {
+    if (player.lifeState !== 'alive') return;
+    player.stats.hp = 0;
+    player.animation = 'death';
+    player.lifeState = 'downed';
+    player.lifeTimer = DOWNED_BLEEDOUT_SECONDS;
+    player.reviveProgress = 0;
+    this.playerStatus.get(sessionId)?.clear();
+    this.cancelRevive(sessionId);
+    this.broadcast('player_died', { playerId: sessionId });
+    this.checkPartyWipe();
+  }
+
+  private revivePlayer(player: PlayerState, hpFraction: number) {
+    player.lifeState = 'alive';
+    player.lifeTimer = 0;
+    player.reviveProgress = 0;
+    player.stats.hp = Math.max(1, Math.floor(player.stats.maxHp * hpFraction));
+    player.animation = 'idle';
+  }
+
+  private cancelRevive(reviverId: string) {
+    const channel = this.reviveChannels.get(reviverId);
+    if (!channel) return;
+    this.reviveChannels.delete(reviverId);
+    const target = this.state.players.get(channel.targetId);
+    if (target) target.reviveProgress = 0;
+  }
+
+  /**
+   * Re-evaluated whenever someone goes down, bleeds out or leaves. With nobody
+   * left standing a party wipes and the run is lost; a player on their own
+   * falls back to the solo respawn instead.
+   */
+  private checkPartyWipe() {
+    if (this.state.partyWiped || this.state.dungeonComplete) return;
+    const players = [...this.state.players.values()];
+    if (!players.length || players.some((p) => p.lifeState === 'alive')) return;
+
+    if (players.length === 1) {
+      const [player] = players;
+      if (player.lifeState === 'downed' || player.lifeTimer <= 0) {
+        player.lifeState = 'dead';
+        player.lifeTimer = SOLO_RESPAWN_SECONDS;
+        player.reviveProgress = 0;
       }
+      return;
     }
 
-    if (targetPhase > runtime.currentPhase) {
-      runtime.currentPhase = targetPhase;
-      monster.bossPhase = targetPhase;
-      this.broadcast('boss_phase', {
-        monsterId,
-        phase: targetPhase,
-        bossName: def.name,
+    this.state.partyWiped = true;
+    this.reviveChannels.clear();
+    this.readyCheck = null;
+    this.lock();
+    this.broadcast('party_wiped', { floor: this.state.currentFloor, returnIn: PARTY_WIPE_RETURN_SECONDS });
+    console.log(`Party wiped in ${this.state.dungeonId} on floor ${this.state.currentFloor + 1}`);
+    this.clock.setTimeout(() => {
+      this.state.players.forEach((player, sessionId) => this.saveStats(sessionId, player));
+      this.broadcast('return_to_hub', {});
+    }, PARTY_WIPE_RETURN_SECONDS * 1000);
+  }
+
+  /** Advance revive channels, bleed-out and solo respawn timers */
+  private updateLifeStates(dt: number) {
+    this.reviveChannels.forEach((channel, reviverId) => {
+      const reviver = this.state.players.get(reviverId);
+      const target = this.state.players.get(channel.targetId);
+      if (
+        !reviver || !target || !this.isTargetable(reviver) || target.lifeState !== 'downed'
+        || distanceXZ(reviver.position, target.position) > REVIVE_RANGE
+      ) {
+        this.cancelRevive(reviverId);
+        return;
+      }
+      channel.elapsed += dt;
+      target.reviveProgress = Math.min(1, channel.elapsed / REVIVE_CHANNEL_SECONDS);
+      if (channel.elapsed < REVIVE_CHANNEL_SECONDS) return;
+      this.reviveChannels.delete(reviverId);
+      this.revivePlayer(target, REVIVE_HP_FRACTION);
+      this.creditHealing(reviverId, target.stats.hp);
+      this.broadcast('player_revived', { playerId: channel.targetId, reviverId });
+    });
+
+    if (this.state.partyWiped) return;
+    this.state.players.forEach((player, sessionId) => {
+      // Timers are frozen while the player is disconnected, like status effects
+      if (player.lifeState === 'alive' || player.lifeTimer <= 0 || !player.connected) return;
+      player.lifeTimer = Math.max(0, player.lifeTimer - dt);
+      if (player.lifeTimer > 0) return;
+
+      if (player.lifeState === 'downed') {
+        // Bled out: spectate until the party reaches the next floor
+        player.lifeState = 'dead';
+        player.reviveProgress = 0;
+        this.broadcast('player_bled_out', { playerId: sessionId });
+        this.checkPartyWipe();
+      } else {
+        this.respawnSolo(sessionId, player);
+      }
+    });
+  }
+
+  /** Solo death: back to the floor start at full health, minus some XP */
+  private respawnSolo(sessionId: string, player: PlayerState) {
+    const xpLost = Math.min(player.stats.xp, Math.floor(player.stats.xpToNext * DEATH_XP_PENALTY));
+    player.stats.xp -= xpLost;
+    this.revivePlayer(player, 1);
+    player.position.x = DUNGEON_PLAYER_SPAWN.x;
+    player.position.z = DUNGEON_PLAYER_SPAWN.z;
+    player.position.y = 0;
+    this.saveStats(sessionId, player);
+    this.broadcast('player_respawned', { playerId: sessionId, xpLost });
+  }
+
+  private saveStats(sessionId: string, player: PlayerState) {
+    const playerId = this.playerIds.get(sessionId);
+    if (!playerId) return;
+    this.progression.saveStats(playerId, player.stats);
+  }
+
+  /** Land a status effect on a living player or monster; immunities and cc diminishing returns may stop it */
+  private applyStatusEffect(targetId: string, effectDef: StatusEffectDef, sourceId: string) {
+    const player = this.state.players.get(targetId);
+    const runtime = this.monsterRuntimes.get(targetId);
+    const status = player ? this.playerStatus.get(targetId) : runtime?.status;
+    if (!status || (player ? player.lifeState !== 'alive' : runtime!.dead)) return;
+
+    const result = status.apply(effectDef, sourceId);
+    if (result.immune) {
+      this.broadcast('status_immune', { targetId, type: effectDef.type });
+      return;
+    }
+    this.broadcast('status_effect', { targetId, type: effectDef.type, duration: result.duration, stacks: result.stacks });
+  }
+
+  /** A skill's debuffs land on each monster it hits */
+  private applySkillDebuffs(nodeDef: SkillNodeDef, monsterId: string, playerId: string) {
+    for (const effect of nodeDef.effects) {
+      if (effect.type === 'debuff' && effect.statusEffect) this.applyStatusEffect(monsterId, effect.statusEffect, playerId);
+    }
+  }
+
+  private playerModifiers(sessionId: string): StatModifiers {
+    return this.playerStatus.get(sessionId)?.modifiers ?? statusModifiers([]);
+  }
+
+  /** Weapon damage before skill multipliers, with damage buffs */
+  private playerBaseDamage(sessionId: string, player: PlayerState): number {
+    return Math.floor((BASIC_ATTACK_DAMAGE + player.stats.strength) * this.playerModifiers(sessionId).damage);
+  }
+
+  /** Armor after shred */
+  private playerArmor(player: PlayerState): number {
+    return Math.max(0, player.stats.armor - this.playerModifiers(player.id).armorLoss);
+  }
+
+  /** The room side of a boss's encounter script */
+  private encounterHost(bossId: string): EncounterHost {
+    const boss = () => this.state.monsters.get(bossId)!;
+    const runtime = () => this.monsterRuntimes.get(bossId)!;
+    const bossName = () => MONSTER_DEFS[boss().defId]?.name ?? '';
+    return {
+      players: () => [...this.state.players.values()].filter((p) => this.isTargetable(p)),
+      bossTarget: () => this.state.players.get(boss().targetId) ?? null,
+      bossPlacement: () => {
+        const target = this.state.players.get(boss().targetId);
+        const { x, z } = boss().position;
+        return { x, z, facing: target ? facingToward({ x, z }, target.position) : boss().rotation };
+      },
+      announce: (text) => this.broadcast('boss_announce', { monsterId: bossId, bossName: bossName(), text }),
+      spawnAdd: (monsterId, point) => {
+        const pos = resolveCollisions(this.collision, point, MONSTER_RADIUS);
+        const id = this.spawnMonster(monsterId, { x: pos.x, y: 0, z: pos.z }, 0);
+        // Adds come in fighting whoever the boss is
+        const targetId = boss().targetId;
+        if (id && targetId) this.monsterRuntimes.get(id)!.threat.set(targetId, HELP_CALL_THREAT);
+        return id;
+      },
+      despawnAdd: (monsterId) => this.despawnMonster(monsterId),
+      telegraph: (placement, shape, delay, damage, statusEffect) => {
+        this.telegraph(bossId, placement, shape, delay, this.scaleMonsterDamage(runtime(), damage), statusEffect);
+      },
+      zone: (placement, zone) => this.spawnZone(bossId, placement, zone),
+      castAbility: (abilityId) => this.executeBossAbility(bossId, boss(), runtime(), abilityId),
+      shrinkArena: (radius, seconds, damagePerSecond) => {
+        this.shrinkArena(radius, seconds, this.scaleMonsterDamage(runtime(), damagePerSecond));
+      },
+      phaseChanged: (phase) => {
+        boss().bossPhase = phase;
+        this.broadcast('boss_phase', { monsterId: bossId, phase, bossName: bossName() });
+      },
+      enraged: () => this.broadcast('boss_enrage', { monsterId: bossId, bossName: bossName() }),
+      resetBoss: () => this.resetBoss(bossId),
+    };
+  }
+
+  /** Everyone fighting the boss died or left: it goes back to how it was before the pull */
+  private resetBoss(bossId: string) {
+    const monster = this.state.monsters.get(bossId)!;
+    const runtime = this.monsterRuntimes.get(bossId)!;
+    monster.hp = monster.maxHp;
+    monster.position.x = runtime.spawnPos.x;
+    monster.position.y = runtime.spawnPos.y;
+    monster.position.z = runtime.spawnPos.z;
+    monster.aiState = 'idle';
+    monster.animation = 'idle';
+    monster.targetId = '';
+    runtime.attackTimer = 0;
+    runtime.threat.clear();
+    runtime.tauntedBy = '';
+    runtime.path = [];
+    runtime.pathGoal = null;
+    runtime.memory = createBehaviorMemory();
+    runtime.status.clear();
+    this.monsterAbilityCooldowns.delete(bossId);
+    this.contributions.delete(bossId);
+    this.clearEncounterHazards(bossId);
+    this.broadcast('monster_teleport', { monsterId: bossId, x: monster.position.x, z: monster.position.z });
+    this.broadcast('boss_reset', { monsterId: bossId, bossName: MONSTER_DEFS[monster.defId]?.name ?? '' });
+  }
+
+  /** Remove a monster without killing it: no loot, no XP */
+  private despawnMonster(monsterId: string) {
+    this.state.monsters.delete(monsterId);
+    this.monsterRuntimes.delete(monsterId);
+    this.monsterAbilityCooldowns.delete(monsterId);
+    this.contributions.delete(monsterId);
+  }
+
+  /** Mark an area on the ground; every player still inside when `delay` runs out is hit */
+  private telegraph(
+    sourceId: string, placement: TelegraphPlacement, shape: TelegraphShape, delay: number, damage: number, statusEffect?: StatusEffectDef,
+  ) {
+    this.broadcast('telegraph', { ...placement, shape, duration: delay });
+    this.pendingTelegraphs.push({ sourceId, shape, placement, damage, statusEffect, hitsAt: Date.now() + delay * 1000 });
+  }
+
+  private updateTelegraphs() {
+    const now = Date.now();
+    const due = this.pendingTelegraphs.filter((t) => now >= t.hitsAt);
+    if (!due.length) return;
+    this.pendingTelegraphs = this.pendingTelegraphs.filter((t) => now < t.hitsAt);
+    for (const t of due) {
+      this.state.players.forEach((player) => {
+        if (!this.isTargetable(player) || !isInTelegraph(t.shape, t.placement, player.position)) return;
+        if (t.damage > 0) {
+          const result = calculateDamage(t.damage, 0, this.playerArmor(player), player.stats.dexterity);
+          if (result.isDodge) {
+            this.broadcast('damage', { targetId: player.id, amount: 0, isCrit: false, isDodge: true });
+            return;
+          }
+          player.stats.hp -= result.finalDamage;
+          this.broadcast('damage', { targetId: player.id, amount: result.finalDamage, isCrit: result.isCrit, isDodge: false });
+          if (player.stats.hp <= 0) {
+            this.downPlayer(player.id, player);
+            return;
+          }
+        }
+        if (t.statusEffect) this.applyStatusEffect(player.id, t.statusEffect, t.sourceId);
       });
     }
   }
 
+  /** Start pulling the arena edge in from wherever it is now */
+  private shrinkArena(radius: number, seconds: number, damagePerSecond: number) {
+    const from = this.state.arenaRadius || this.floors[this.state.currentFloor]?.arenaRadius || DUNGEON_ARENA_RADIUS;
+    this.arenaShrink = { from, to: radius, startedAt: Date.now(), seconds, damagePerSecond, tickTimer: 0 };
+    this.state.arenaRadius = from;
+  }
+
+  /** Move the edge toward its goal and burn everyone outside it once a second */
+  private updateArenaShrink(dt: number) {
+    const shrink = this.arenaShrink;
+    if (!shrink) return;
+    const progress = shrink.seconds > 0 ? Math.min(1, (Date.now() - shrink.startedAt) / (shrink.seconds * 1000)) : 1;
+    this.state.arenaRadius = shrink.from + (shrink.to - shrink.from) * progress;
+
+    shrink.tickTimer += dt;
+    if (shrink.tickTimer < 1) return;
+    shrink.tickTimer -= 1;
+    this.state.players.forEach((player) => {
+      if (!this.isTargetable(player) || Math.hypot(player.position.x, player.position.z) <= this.state.arenaRadius) return;
+      player.stats.hp -= shrink.damagePerSecond;
+      this.broadcast('damage', { targetId: player.id, amount: shrink.damagePerSecond, isCrit: false, isDodge: false, dotType: 'burn' });
+      if (player.stats.hp <= 0) this.downPlayer(player.id, player);
+    });
+  }
+
+  /** Drop an encounter's queued telegraphs and arena ring, plus any ground zones `bossId` left behind */
+  private clearEncounterHazards(bossId?: string) {
+    this.pendingTelegraphs = [];
+    if (bossId) this.groundZones = this.groundZones.filter((zone) => zone.sourceId !== bossId);
+    this.arenaShrink = null;
+    this.state.arenaRadius = 0;
+  }
+
   private executeBossAbility(monsterId: string, monster: MonsterState, runtime: MonsterRuntime, abilityId: string) {
     const def = MONSTER_DEFS[runtime.defId];
     if (!def?.abilities) return;
     const ability = def.abilities.find((a) => a.id === abilityId);
     if (!ability) return;
 
-    if (abilityId === 'treant_ground_slam') {
-      // Telegraph then damage
-      this.broadcast('boss_telegraph', {
-        type: 'ground_slam',
-        x: monster.position.x,
-        z: monster.position.z,
-        radius: ability.range,
-        duration: 1.5,
-      });
-
-      setTimeout(() => {
-        // Damage all players in radius
-        this.state.players.forEach((player) => {
-          if (player.stats.hp <= 0) return;
-          const dist = distanceXZ(
-            { x: monster.position.x, y: 0, z: monster.position.z },
-            { x: player.position.x, y: 0, z: player.position.z },
-          );
-          if (dist <= ability.range) {
-            let dmg = ability.damage;
-            if (def.phases && def.phases[runtime.currentPhase]) {
-              dmg = Math.floor(dmg * def.phases[runtime.currentPhase].damageMultiplier);
-            }
-            const result = calculateDamage(dmg, 0, player.stats.armor, player.stats.dexterity);
-            if (!result.isDodge) {
-              player.stats.hp -= result.finalDamage;
-              this.broadcast('damage', { targetId: player.id, amount: result.finalDamage, isCrit: result.isCrit, isDodge: false });
-              if (player.stats.hp <= 0) {
-                player.stats.hp = 0;
-                player.animation = 'death';
-                this.broadcast('player_died', { playerId: player.id });
-              }
-            } else {
-              this.broadcast('damage', { targetId: player.id, amount: 0, isCrit: false, isDodge: true });
-            }
-          }
-        });
-      }, 1500);
-    } else if (abilityId === 'treant_root_trap') {
+    if (ability.type === 'aoe') {
+      this.castAreaAbility(monsterId, monster, runtime, ability, this.state.players.get(monster.targetId) ?? null);
+    } else if (ability.type === 'debuff') {
       // Root the closest player
       let closestPlayer: PlayerState | null = null as PlayerState | null;
       let closestDist = ability.range;
       this.state.players.forEach((p) => {
-        if (p.stats.hp <= 0) return;
+        if (!this.isTargetable(p)) return;
         const d = distanceXZ(
           { x: monster.position.x, y: 0, z: monster.position.z },
           { x: p.position.x, y: 0, z: p.position.z },
@@ -806,9 +1544,9 @@ export class DungeonRoom extends Room<DungeonState> {
       if (closestPlayer && ability.statusEffect) {
         this.applyStatusEffect((closestPlayer as PlayerState).id, ability.statusEffect, monsterId);
       }
-    } else if (abilityId === 'treant_summon_saplings') {
-      // Spawn 2 saplings near the boss
-      for (let i = 0; i < 2; i++) {
+    } else if (ability.type === 'summon' && ability.summonId) {
+      // Spawn adds near the boss
+      for (let i = 0; i < (ability.summonCount ?? 1); i++) {
         const angle = Math.random() * Math.PI * 2;
         const dist = 3 + Math.random() * 2;
         const pos = {
@@ -816,12 +1554,284 @@ export class DungeonRoom extends Room<DungeonState> {
           y: 0,
           z: monster.position.z + Math.sin(angle) * dist,
         };
-        this.spawnMonster('forest_sapling', pos, 0);
+        this.spawnMonster(ability.summonId, pos, 0);
       }
     }
   }
 
-  private spawnMonster(defId: string, pos: { x: number; y: number; z: number }, respawnTime: number): string {
+  /**
+   * An aoe either leaves its zone under the target or marks its shape around
+   * the caster, facing the target, and lands once the telegraph runs out
+   */
+  private castAreaAbility(monsterId: string, monster: MonsterState, runtime: MonsterRuntime, ability: MonsterAbility, target: PlayerState | null) {
+    const origin = { x: monster.position.x, z: monster.position.z };
+    const facing = target ? facingToward(origin, target.position) : monster.rotation;
+    if (ability.zone) {
+      const at = target ? { x: target.position.x, z: target.position.z } : origin;
+      this.spawnZone(monsterId, { ...at, facing }, ability.zone);
+      return;
+    }
+    this.telegraph(
+      monsterId, { ...origin, facing },
+      ability.shape ?? { type: 'circle', radius: ability.range },
+      ability.telegraphDelay ?? AOE_TELEGRAPH_SECONDS,
+      this.scaleMonsterDamage(runtime, ability.damage), ability.statusEffect,
+    );
+  }
+
+  /** Cast the first ready ability the target is in range of, at most one per tick */
+  private useMonsterAbilities(agent: BehaviorAgent) {
+    const { monsterId: id, monster, def, targetDist } = agent;
+    const target = agent.target!;
+    const runtime = this.monsterRuntimes.get(id)!;
+    if (!def.abilities || targetDist > def.aggroRange) return;
+
+    const now = Date.now();
+    let abilCDs = this.monsterAbilityCooldowns.get(id);
+    if (!abilCDs) {
+      abilCDs = new Map();
+      this.monsterAbilityCooldowns.set(id, abilCDs);
+    }
+
+    // A scripted boss only has its current phase's abilities
+    const encounter = runtime.encounter;
+    const availableAbilities = encounter ? def.abilities.filter((a) => encounter.abilities.includes(a.id)) : def.abilities;
+
+    for (const ability of availableAbilities) {
+      const cdExpiry = abilCDs.get(ability.id) || 0;
+      if (now < cdExpiry) continue;
+      if (targetDist > ability.range && ability.type !== 'summon') continue;
+
+      // Use ability
+      abilCDs.set(ability.id, now + ability.cooldown * 1000);
+
+      if (def.isBoss) {
+        this.executeBossAbility(id, monster, runtime, ability.id);
+      } else if (ability.type === 'ranged' && ability.projectileSpeed) {
+        this.spawnProjectile(
+          id,
+          { x: monster.position.x, y: 1, z: monster.position.z },
+          { x: target.position.x, y: 1, z: target.position.z },
+          this.scaleMonsterDamage(runtime, ability.damage),
+          ability.projectileSpeed, ability.statusEffect,
+        );
+      } else if (ability.type === 'melee' && ability.statusEffect && targetDist <= ability.range) {
+        this.applyStatusEffect(target.id, ability.statusEffect, id);
+      } else if (ability.type === 'aoe') {
+        this.castAreaAbility(id, monster, runtime, ability, target);
+      }
+      break; // Only use one ability per tick
+    }
+  }
+
+  /** Face the target and, off cooldown, land a basic hit with crit/dodge unless `strike` is off */
+  private monsterAttack(agent: BehaviorAgent, strike: boolean) {
+    const { monster, def } = agent;
+    const target = agent.target!;
+    const runtime = this.monsterRuntimes.get(agent.monsterId)!;
+    monster.rotation = Math.atan2(target.position.x - monster.position.x, target.position.z - monster.position.z);
+    if (runtime.attackTimer > 0) return;
+    runtime.attackTimer = def.attackCooldown / (this.frenzy(runtime) * runtime.status.modifiers.attackSpeed);
+    if (!strike) return;
+
+    const baseDmg = this.scaleMonsterDamage(runtime, def.damage);
+    const result = calculateDamage(baseDmg, 0, this.playerArmor(target), target.stats.dexterity);
+    if (result.isDodge) {
+      this.broadcast('damage', { targetId: target.id, amount: 0, isCrit: false, isDodge: true });
+    } else {
+      target.stats.hp -= result.finalDamage;
+      this.broadcast('damage', {
+        targetId: target.id,
+        amount: result.finalDamage,
+        isCrit: result.isCrit,
+        isDodge: false,
+      });
+      if (target.stats.hp <= 0) this.downPlayer(target.id, target);
+
+      const healed = Math.min(monster.maxHp - monster.hp, Math.floor(result.finalDamage * MONSTER_AFFIXES.vampiric.value));
+      if (runtime.affixes.includes('vampiric') && healed > 0) {
+        monster.hp += healed;
+        this.broadcast('damage', { targetId: agent.monsterId, amount: healed, isCrit: false, isDodge: false, isHeal: true });
+      }
+    }
+  }
+
+  /** A player's dot on a monster is their damage: it builds threat and credits the kill */
+  private tickMonsterStatus(monsterId: string, monster: MonsterState, runtime: MonsterRuntime, dt: number) {
+    for (const tick of runtime.status.tick(dt)) {
+      let dealt = tick.damage;
+      if (this.state.players.has(tick.sourceId)) dealt = this.damageMonster(monsterId, monster, tick.sourceId, tick.damage);
+      else monster.hp -= tick.damage;
+      this.broadcast('damage', { targetId: monsterId, amount: dealt, isCrit: false, isDodge: false, dotType: tick.type });
+      if (monster.hp <= 0) {
+        this.onMonsterKilled(monsterId, monster, tick.sourceId);
+        return;
+      }
+    }
+  }
+
+  /** Speed multiplier for a Frenzied monster's movement and attacks */
+  private frenzy(runtime: MonsterRuntime): number {
+    return runtime.affixes.includes('frenzied') ? MONSTER_AFFIXES.frenzied.value : 1;
+  }
+
+  /** Shielding raises its barrier on a cooldown while fighting; Teleporting blinks to a target that kited away */
+  private updateAffixes(monster: MonsterState, runtime: MonsterRuntime, target: PlayerState | null, dt: number) {
+    if (monster.shielded && Date.now() >= runtime.shieldUntil) monster.shielded = false;
+    if (!target) {
+      runtime.affixTimer = 0;
+      return;
+    }
+    runtime.affixTimer += dt;
+
+    const shielding = MONSTER_AFFIXES.shielding;
+    if (runtime.affixes.includes('shielding') && runtime.affixTimer >= shielding.cooldown!) {
+      runtime.affixTimer = 0;
+      runtime.shieldUntil = Date.now() + shielding.duration! * 1000;
+      monster.shielded = true;
+    }
+
+    const teleporting = MONSTER_AFFIXES.teleporting;
+    if (runtime.affixes.includes('teleporting') && runtime.affixTimer >= teleporting.cooldown!
+      && distanceXZ(monster.position, target.position) > teleporting.value) {
+      runtime.affixTimer = 0;
+      // Land a step in front of the target, on open ground
+      const landing = resolveCollisions(this.collision, {
+        x: target.position.x + Math.sin(target.rotation) * 1.5,
+        z: target.position.z + Math.cos(target.rotation) * 1.5,
+      }, MONSTER_RADIUS);
+      this.broadcast('monster_teleport', { monsterId: monster.id, fromX: monster.position.x, fromZ: monster.position.z, x: landing.x, z: landing.z });
+      monster.position.x = landing.x;
+      monster.position.z = landing.z;
+      runtime.path = [];
+      runtime.pathGoal = null;
+    }
+  }
+
+  /** Leave `zone` on the ground at `placement`; its damage scales with the source like any other hit */
+  private spawnZone(sourceId: string, placement: TelegraphPlacement, zone: GroundZoneDef) {
+    const runtime = this.monsterRuntimes.get(sourceId);
+    this.groundZones.push({
+      sourceId,
+      kind: zone.kind,
+      shape: zone.shape,
+      placement,
+      damage: runtime ? this.scaleMonsterDamage(runtime, zone.damage) : zone.damage,
+      tickRate: zone.tickRate,
+      statusEffect: zone.statusEffect,
+      endsAt: Date.now() + zone.duration * 1000,
+      tickTimer: 0,
+    });
+    this.broadcast('ground_hazard', { kind: zone.kind, ...placement, shape: zone.shape, duration: zone.duration });
+  }
+
+  private updateGroundZones(dt: number) {
+    const now = Date.now();
+    this.groundZones = this.groundZones.filter((zone) => now < zone.endsAt);
+    for (const zone of this.groundZones) {
+      zone.tickTimer += dt;
+      if (zone.tickTimer < zone.tickRate) continue;
+      zone.tickTimer -= zone.tickRate;
+      this.state.players.forEach((player) => {
+        if (!this.isTargetable(player) || !isInTelegraph(zone.shape, zone.placement, player.position)) return;
+        if (zone.damage > 0) {
+          const result = calculateDamage(zone.damage, 0, this.playerArmor(player), player.stats.dexterity);
+          if (result.isDodge) {
+            this.broadcast('damage', { targetId: player.id, amount: 0, isCrit: false, isDodge: true });
+            return;
+          }
+          player.stats.hp -= result.finalDamage;
+          this.broadcast('damage', {
+            targetId: player.id, amount: result.finalDamage, isCrit: result.isCrit, isDodge: false, dotType: ZONE_DOT_TYPES[zone.kind],
+          });
+          if (player.stats.hp <= 0) {
+            this.downPlayer(player.id, player);
+            return;
+          }
+        }
+        if (zone.statusEffect) this.applyStatusEffect(player.id, zone.statusEffect, zone.sourceId);
+      });
+    }
+  }
+
+  /** Monsters within `radius` that aren't fighting anyone join in on the caller's target */
+  private callForHelp(agent: BehaviorAgent, radius: number) {
+    const target = agent.target!;
+    const callerRuntime = this.monsterRuntimes.get(agent.monsterId)!;
+    const threat = Math.max(HELP_CALL_THREAT, callerRuntime.threat.get(target.id) ?? 0);
+    this.state.monsters.forEach((ally, allyId) => {
+      const runtime = this.monsterRuntimes.get(allyId);
+      if (allyId === agent.monsterId || !runtime || runtime.dead || runtime.threat.size) return;
+      if (distanceXZ(ally.position, agent.monster.position) > radius) return;
+      runtime.threat.set(target.id, threat);
+    });
+  }
+
+  /** Whether another monster is attacking the agent's target from melee range, holding its front */
+  private allyEngaging(agent: BehaviorAgent): boolean {
+    const target = agent.target!;
+    let engaged = false;
+    this.state.monsters.forEach((ally, allyId) => {
+      if (engaged || allyId === agent.monsterId || ally.aiState !== 'attack' || ally.targetId !== target.id) return;
+      if (distanceXZ(ally.position, target.position) <= AGGRO_MELEE_RANGE) engaged = true;
+    });
+    return engaged;
+  }
+
+  /**
+   * Step a monster toward `goal`: straight when nothing is in the way, else
+   * along an A* path that is replanned every so often or when the goal moves.
+   * Faces the direction of travel.
+   */
+  private moveMonsterToward(runtime: MonsterRuntime, monster: MonsterState, goal: NavPoint, speed: number, dt: number) {
+    const pos = monster.position;
+    let target = goal;
+    runtime.replanTimer -= dt;
+    if (hasClearPath(this.collision, pos, goal, MONSTER_RADIUS)) {
+      runtime.path = [];
+      runtime.pathGoal = null;
+    } else {
+      const goalMoved = !runtime.pathGoal
+        || distanceXZ({ x: runtime.pathGoal.x, y: 0, z: runtime.pathGoal.z }, { x: goal.x, y: 0, z: goal.z }) > PATH_REPLAN_DISTANCE;
+      if (goalMoved || runtime.replanTimer <= 0) {
+        runtime.path = (this.navGrid && findPath(this.collision, this.navGrid, pos, goal, MONSTER_RADIUS)) ?? [];
+        runtime.pathGoal = { x: goal.x, z: goal.z };
+        runtime.replanTimer = PATH_REPLAN_SECONDS;
+      }
+      while (runtime.path.length && Math.hypot(runtime.path[0].x - pos.x, runtime.path[0].z - pos.z) < 0.2) {
+        runtime.path.shift();
+      }
+      if (!runtime.path.length) return; // no way through; wait for a replan
+      target = runtime.path[0];
+    }
+
+    const dx = target.x - pos.x;
+    const dz = target.z - pos.z;
+    const dist = Math.sqrt(dx * dx + dz * dz);
+    if (dist < 0.01) return;
+    const step = Math.min(dist, speed * dt);
+    moveWithCollision(this.collision, pos, (dx / dist) * step, (dz / dist) * step, MONSTER_RADIUS);
+    monster.rotation = Math.atan2(dx, dz);
+  }
+
+  /** Monster outgoing damage after difficulty, rank, boss phase and damage buff scaling */
+  private scaleMonsterDamage(runtime: MonsterRuntime, damage: number): number {
+    const phase = runtime.encounter?.damageMultiplier ?? 1;
+    const buffs = runtime.status.modifiers.damage;
+    return Math.floor(damage * this.difficulty.damageMultiplier * MONSTER_RANKS[runtime.rank].damageMultiplier * phase * buffs);
+  }
+
+  private monsterArmor(monster: MonsterState): number {
+    const runtime = this.monsterRuntimes.get(monster.id);
+    const phase = runtime?.encounter?.armorMultiplier ?? 1;
+    const armor = Math.round((MONSTER_DEFS[monster.defId]?.armor || 0) * this.difficulty.armorMultiplier * phase);
+    return Math.max(0, armor - (runtime?.status.modifiers.armorLoss ?? 0));
+  }
+
+  private spawnMonster(
+    defId: string, pos: { x: number; y: number; z: number }, respawnTime: number,
+    rank: MonsterRank = 'normal', affixes: MonsterAffixId[] = [],
+  ): string {
     const def = MONSTER_DEFS[defId];
     if (!def) return '';
 
@@ -833,10 +1843,13 @@ export class DungeonRoom extends Room<DungeonState> {
     monster.position.x = pos.x;
     monster.position.y = pos.y;
     monster.position.z = pos.z;
-    monster.hp = def.hp;
-    monster.maxHp = def.hp;
+    monster.maxHp = Math.floor(def.hp * this.floorHpMultiplier * MONSTER_RANKS[rank].hpMultiplier);
+    monster.hp = monster.maxHp;
+    monster.rank = rank;
+    monster.affixes.push(...affixes);
     monster.aiState = 'idle';
     this.state.monsters.set(id, monster);
+    const encounter = def.encounter ? ENCOUNTER_DEFS[def.encounter] : undefined;
 
     this.monsterRuntimes.set(id, {
       defId,
@@ -845,7 +1858,19 @@ export class DungeonRoom extends Room<DungeonState> {
       respawnTimer: 0,
       respawnTime,
       dead: false,
-      currentPhase: 0,
+      encounter: encounter ? new BossEncounter(encounter, this.encounterHost(id)) : null,
+      rank,
+      affixes,
+      affixTimer: 0,
+      shieldUntil: 0,
+      path: [],
+      pathGoal: null,
+      replanTimer: 0,
+      threat: new Map(),
+      tauntedBy: '',
+      tauntUntil: 0,
+      memory: createBehaviorMemory(),
+      status: new StatusEffects(monster.statusEffects, def.immunities),
     });
 
     return id;
@@ -889,24 +1914,24 @@ export class DungeonRoom extends Room<DungeonState> {
         runtime.respawnTimer -= dt;
         if (runtime.respawnTimer <= 0) {
           runtime.dead = false;
-          const def = MONSTER_DEFS[runtime.defId];
-          monster.hp = def?.hp || 100;
-          monster.maxHp = def?.hp || 100;
+          monster.hp = monster.maxHp;
           monster.position.x = runtime.spawnPos.x;
           monster.position.y = runtime.spawnPos.y;
           monster.position.z = runtime.spawnPos.z;
           monster.aiState = 'idle';
           monster.animation = 'idle';
           monster.targetId = '';
+          runtime.memory = createBehaviorMemory();
         }
         return;
       }
 
       if (monster.hp <= 0) return;
 
-      // Stun check
-      const stunExpiry = this.monsterStuns.get(id);
-      if (stunExpiry && Date.now() < stunExpiry) {
+      this.tickMonsterStatus(id, monster, runtime, dt);
+      if (monster.hp <= 0) return;
+      const mods = runtime.status.modifiers;
+      if (!mods.canAct) {
         monster.aiState = 'idle';
         monster.animation = 'idle';
         return;
@@ -917,166 +1942,36 @@ export class DungeonRoom extends Room<DungeonState> {
 
       runtime.attackTimer = Math.max(0, runtime.attackTimer - dt);
 
-      // Find closest player
-      let closestPlayer: PlayerState | null = null as PlayerState | null;
-      let closestDist = Infinity;
-      this.state.players.forEach((p) => {
-        if (p.stats.hp <= 0) return;
-        const d = distanceXZ(
-          { x: monster.position.x, y: 0, z: monster.position.z },
-          { x: p.position.x, y: 0, z: p.position.z }
-        );
-        if (d < closestDist) {
-          closestDist = d;
-          closestPlayer = p;
-        }
-      });
-
-      if (!closestPlayer) {
-        monster.aiState = 'idle';
-        monster.animation = 'idle';
-        return;
-      }
-
-      // Check monster abilities
-      const now = Date.now();
-      if (def.abilities && closestDist <= def.aggroRange) {
-        let abilCDs = this.monsterAbilityCooldowns.get(id);
-        if (!abilCDs) {
-          abilCDs = new Map();
-          this.monsterAbilityCooldowns.set(id, abilCDs);
-        }
+      const target = this.updateMonsterTarget(monster, runtime, def.aggroRange, dt);
+      this.updateAffixes(monster, runtime, target, dt);
+      runtime.encounter?.tick(dt, monster.hp / monster.maxHp, target !== null);
+      tickBehavior({
+        monsterId: id,
+        monster,
+        def,
+        spawnPos: runtime.spawnPos,
+        memory: runtime.memory,
+        target,
+        targetDist: target ? distanceXZ(target.position, monster.position) : Infinity,
+        speed: def.speed * (runtime.encounter?.speedMultiplier ?? 1) * this.frenzy(runtime) * mods.moveSpeed,
+        dt,
+      }, this.behaviorHost);
+    });
 
-        // Filter abilities by current boss phase
-        const availableAbilities = def.isBoss && def.phases
-          ? def.abilities.filter((a) => def.phases![runtime.currentPhase]?.abilities.includes(a.id))
-          : def.abilities;
-
-        for (const ability of availableAbilities) {
-          const cdExpiry = abilCDs.get(ability.id) || 0;
-          if (now < cdExpiry) continue;
-          if (closestDist > ability.range && ability.type !== 'summon') continue;
-
-          // Use ability
-          abilCDs.set(ability.id, now + ability.cooldown * 1000);
-
-          if (def.isBoss) {
-            this.executeBossAbility(id, monster, runtime, ability.id);
-          } else if (ability.type === 'ranged' && ability.projectileSpeed) {
-            this.spawnProjectile(
-              id,
-              { x: monster.position.x, y: 1, z: monster.position.z },
-              { x: closestPlayer.position.x, y: 1, z: closestPlayer.position.z },
-              ability.damage, ability.projectileSpeed, ability.statusEffect,
-            );
-          } else if (ability.type === 'melee' && ability.statusEffect && closestDist <= ability.range) {
-            this.applyStatusEffect(closestPlayer.id, ability.statusEffect, id);
-          } else if (ability.type === 'aoe' && ability.statusEffect && closestDist <= ability.range) {
-            // AoE poison etc - apply to all nearby players
-            this.state.players.forEach((p) => {
-              if (p.stats.hp <= 0) return;
-              const d = distanceXZ(
-                { x: monster.position.x, y: 0, z: monster.position.z },
-                { x: p.position.x, y: 0, z: p.position.z },
-              );
-              if (d <= ability.range && ability.statusEffect) {
-                this.applyStatusEffect(p.id, ability.statusEffect, id);
-              }
-            });
-          }
-          break; // Only use one ability per tick
-        }
-      }
+    this.threatSyncTimer -= dt;
+    if (this.threatSyncTimer <= 0) {
+      this.threatSyncTimer = THREAT_SYNC_SECONDS;
+      this.syncThreat();
+    }
 
-      // Ranged AI: kiting behavior for ranged monsters
-      const isRanged = def.attackRange >= 8;
-      const moveSpeed = def.isBoss && def.phases && def.phases[runtime.currentPhase]
-        ? def.speed * def.phases[runtime.currentPhase].speedMultiplier
-        : def.speed;
-
-      if (isRanged && closestDist < 4 && closestDist > 0.1) {
-        // Too close - back away
-        monster.aiState = 'chase';
-        monster.animation = 'run';
-        const dx = monster.position.x - closestPlayer.position.x;
-        const dz = monster.position.z - closestPlayer.position.z;
-        const dist = Math.sqrt(dx * dx + dz * dz);
-        if (dist > 0.1) {
-          monster.position.x += (dx / dist) * moveSpeed * dt;
-          monster.position.z += (dz / dist) * moveSpeed * dt;
-          monster.rotation = Math.atan2(-dx, -dz);
-        }
-      } else if (closestDist <= def.attackRange) {
-        monster.aiState = 'attack';
-        monster.animation = 'attack';
-        if (runtime.attackTimer <= 0) {
-          runtime.attackTimer = def.attackCooldown;
-
-          if (isRanged) {
-            // Ranged attack is handled via abilities/projectiles above, just face target
-            const dx = closestPlayer.position.x - monster.position.x;
-            const dz = closestPlayer.position.z - monster.position.z;
-            monster.rotation = Math.atan2(dx, dz);
-          } else {
-            // Melee attack with crit/dodge
-            let baseDmg = def.damage;
-            if (def.isBoss && def.phases && def.phases[runtime.currentPhase]) {
-              baseDmg = Math.floor(baseDmg * def.phases[runtime.currentPhase].damageMultiplier);
-            }
-            const result = calculateDamage(baseDmg, 0, closestPlayer.stats.armor, closestPlayer.stats.dexterity);
-            if (result.isDodge) {
-              this.broadcast('damage', { targetId: closestPlayer.id, amount: 0, isCrit: false, isDodge: true });
-            } else {
-              closestPlayer.stats.hp -= result.finalDamage;
-              this.broadcast('damage', {
-                targetId: closestPlayer.id,
-                amount: result.finalDamage,
-                isCrit: result.isCrit,
-                isDodge: false,
-              });
-              if (closestPlayer.stats.hp <= 0) {
-                closestPlayer.stats.hp = 0;
-                closestPlayer.animation = 'death';
-                this.broadcast('player_died', { playerId: closestPlayer.id });
-              }
-            }
-          }
-        }
-      } else if (closestDist <= def.aggroRange) {
-        monster.aiState = 'chase';
-        monster.animation = 'run';
-        monster.targetId = closestPlayer.id;
-        const dx = closestPlayer.position.x - monster.position.x;
-        const dz = closestPlayer.position.z - monster.position.z;
-        const dist = Math.sqrt(dx * dx + dz * dz);
-        if (dist > 0.1) {
-          monster.position.x += (dx / dist) * moveSpeed * dt;
-          monster.position.z += (dz / dist) * moveSpeed * dt;
-          monster.rotation = Math.atan2(dx, dz);
-        }
-      } else {
-        const toSpawnDist = distanceXZ(
-          { x: monster.position.x, y: 0, z: monster.position.z },
-          { x: runtime.spawnPos.x, y: 0, z: runtime.spawnPos.z }
-        );
-        if (toSpawnDist > 1) {
-          monster.aiState = 'return';
-          monster.animation = 'run';
-          const dx = runtime.spawnPos.x - monster.position.x;
-          const dz = runtime.spawnPos.z - monster.position.z;
-          monster.position.x += (dx / toSpawnDist) * def.speed * dt;
-          monster.position.z += (dz / toSpawnDist) * def.speed * dt;
-        } else {
-          monster.aiState = 'idle';
-          monster.animation = 'idle';
-        }
-        monster.targetId = '';
-      }
-    });
+    this.updateLifeStates(dt);
+    this.updateGroundZones(dt);
+    this.updateTelegraphs();
+    this.updateArenaShrink(dt);
 
     // Mana regen
     this.state.players.forEach((player) => {
-      if (player.stats.hp <= 0) return;
+      if (player.lifeState !== 'alive' || !player.connected) return;
       if (player.stats.mana < player.stats.maxMana) {
         player.stats.mana = Math.min(
           player.stats.maxMana,
@@ -1085,58 +1980,17 @@ export class DungeonRoom extends Room<DungeonState> {
       }
     });
 
-    // Process status effects (DOTs)
-    this.playerStatusEffects.forEach((effects, playerId) => {
-      const player = this.state.players.get(playerId);
-      if (!player || player.stats.hp <= 0) {
-        this.playerStatusEffects.delete(playerId);
-        return;
-      }
-
-      for (let i = effects.length - 1; i >= 0; i--) {
-        const effect = effects[i];
-        effect.remainingDuration -= dt;
-
-        if (effect.remainingDuration <= 0) {
-          effects.splice(i, 1);
-          continue;
-        }
-
-        // Tick damage
-        if (effect.damagePerTick > 0 && effect.tickRate > 0) {
-          effect.tickTimer += dt;
-          if (effect.tickTimer >= effect.tickRate) {
-            effect.tickTimer -= effect.tickRate;
-            player.stats.hp -= effect.damagePerTick;
-            this.broadcast('damage', {
-              targetId: playerId,
-              amount: effect.damagePerTick,
-              isCrit: false,
-              isDodge: false,
-              dotType: effect.type,
-            });
-            if (player.stats.hp <= 0) {
-              player.stats.hp = 0;
-              player.animation = 'death';
-              this.broadcast('player_died', { playerId });
-            }
-          }
+    // Player status effects; frozen while the player is disconnected
+    this.state.players.forEach((player, playerId) => {
+      if (player.lifeState !== 'alive' || !player.connected) return;
+      for (const tick of this.playerStatus.get(playerId)?.tick(dt) ?? []) {
+        player.stats.hp -= tick.damage;
+        this.broadcast('damage', { targetId: playerId, amount: tick.damage, isCrit: false, isDodge: false, dotType: tick.type });
+        if (player.stats.hp <= 0) {
+          this.downPlayer(playerId, player);
+          return;
         }
       }
-
-      if (effects.length === 0) {
-        this.playerStatusEffects.delete(playerId);
-      }
-    });
-
-    // Boss phase transitions
-    this.state.monsters.forEach((monster, id) => {
-      const runtime = this.monsterRuntimes.get(id);
-      if (!runtime || runtime.dead || monster.hp <= 0) return;
-      const def = MONSTER_DEFS[runtime.defId];
-      if (def?.isBoss) {
-        this.checkBossPhaseTransition(id, monster, runtime);
-      }
     });
 
     // Update projectiles
@@ -1154,13 +2008,13 @@ export class DungeonRoom extends Room<DungeonState> {
 
       // Check hits against players
       this.state.players.forEach((player) => {
-        if (player.stats.hp <= 0) return;
+        if (!this.isTargetable(player)) return;
         const dist = distanceXZ(
           { x: proj.position.x, y: 0, z: proj.position.z },
           { x: player.position.x, y: 0, z: player.position.z },
         );
         if (dist < proj.hitRadius) {
-          const result = calculateDamage(proj.damage, 0, player.stats.armor, player.stats.dexterity);
+          const result = calculateDamage(proj.damage, 0, this.playerArmor(player), player.stats.dexterity);
           if (!result.isDodge) {
             player.stats.hp -= result.finalDamage;
             this.broadcast('damage', {
@@ -1169,11 +2023,7 @@ export class DungeonRoom extends Room<DungeonState> {
               isCrit: result.isCrit,
               isDodge: false,
             });
-            if (player.stats.hp <= 0) {
-              player.stats.hp = 0;
-              player.animation = 'death';
-              this.broadcast('player_died', { playerId: player.id });
-            }
+            if (player.stats.hp <= 0) this.downPlayer(player.id, player);
           } else {
             this.broadcast('damage', { targetId: player.id, amount: 0, isCrit: false, isDodge: true });
           }
@@ -1192,14 +2042,12 @@ export class DungeonRoom extends Room<DungeonState> {
       this.broadcast('projectile_destroy', { id: projId });
     }
 
-    // Clear expired stuns
-    const stunNow = Date.now();
-    this.monsterStuns.forEach((expiry, id) => {
-      if (stunNow >= expiry) this.monsterStuns.delete(id);
-    });
-
     // Despawn old loot
     const now = Date.now();
+    this.lootRolls.forEach((roll, lootId) => {
+      if (now >= roll.endsAt) this.resolveLootRoll(lootId);
+    });
+    if (this.readyCheck && now >= this.readyCheck.endsAt) this.cancelReadyCheck('Not everyone was ready in time');
     this.state.lootDrops.forEach((loot, id) => {
       if (loot.despawnAt > 0 && now >= loot.despawnAt) {
         this.state.lootDrops.delete(id);
@@ -1207,69 +2055,121 @@ export class DungeonRoom extends Room<DungeonState> {
     });
   }
 
-  onJoin(client: Client, options: { name?: string; gender?: string; classId?: string }) {
-    const playerName = options.name || `Player_${client.sessionId.slice(0, 4)}`;
-
-    const classId: CharacterClassId = VALID_CLASS_IDS.includes(options.classId as CharacterClassId)
-      ? (options.classId as CharacterClassId)
-      : 'warrior';
+  onAuth(
+    _client: Client,
+    options: {
+      token?: string; characterId?: string; seed?: number | null; difficulty?: number; lootMode?: LootMode;
+      public?: boolean; inviteCode?: string;
+    },
+  ): AuthData {
+    const auth = this.auth.authorizeCharacter(options?.token, options?.characterId);
+    if (!auth) throw new ServerError(401, 'Invalid session or character');
+    // Holding the invite code is enough; the run's settings come with the room. A room's
+    // creator joins before its first floor starts: private ones before anyone could have
+    // the code, public ones because matchmaking found no group that fit them
+    if (options?.inviteCode === this.roomId) return auth;
+    if (!this.floorStarted) return auth;
+
+    // Otherwise this is public matchmaking. filterBy only matches on options a client
+    // sends, so a join without them could land here
+    if (!this.publicMatch || options?.public !== true) throw new ServerError(403, 'This dungeon is invite only');
+    const { min, max } = publicMatchLevelRange(this.dungeon);
+    const level = this.inventory.loadPlayerStats(auth.playerId).level;
+    if (level < min || level > max) {
+      throw new ServerError(403, `Public ${this.dungeon.name} groups are for levels ${min}-${max}`);
+    }
+    if (this.replaySeed !== null && options?.seed !== this.replaySeed) {
+      throw new ServerError(403, 'This dungeon is replaying a fixed seed');
+    }
+    if ((options?.difficulty ?? DEFAULT_DIFFICULTY) !== this.state.difficulty) {
+      throw new ServerError(403, `This dungeon is running on ${this.difficulty.name}`);
+    }
+    if ((options?.lootMode ?? DEFAULT_LOOT_MODE) !== this.state.lootMode) {
+      throw new ServerError(403, `This dungeon uses ${LOOT_MODES[this.state.lootMode as LootMode].name} loot`);
+    }
+    return auth;
+  }
 
-    this.inventory.ensurePlayer(client.sessionId, playerName, classId);
+  onJoin(client: Client) {
+    const auth = client.auth as AuthData;
+    const playerId = auth.playerId;
+    const playerName = auth.name;
 
-    const resolvedClassId = this.inventory.loadPlayerClass(client.sessionId);
+    const resolvedClassId = this.inventory.loadPlayerClass(playerId);
     const classDef = CLASS_DEFS[resolvedClassId];
 
     const player = new PlayerState();
     player.id = client.sessionId;
     player.name = playerName;
-    player.gender = options.gender === 'female' ? 'female' : 'male';
+    player.gender = auth.gender;
     player.classId = resolvedClassId;
     player.position = new Vec3State();
-    player.position.x = 0;
-    player.position.z = -8;
+    player.position.x = DUNGEON_PLAYER_SPAWN.x;
+    player.position.z = DUNGEON_PLAYER_SPAWN.z;
 
     // Load persisted stats from DB
     const stats = new PlayerStatsState();
-    const saved = this.inventory.loadPlayerStats(client.sessionId);
+    const saved = this.inventory.loadPlayerStats(playerId);
     stats.level = saved.level;
     stats.xp = saved.xp;
-    stats.xpToNext = Math.floor(100 * Math.pow(saved.level, 1.5));
+    stats.xpToNext = xpForLevel(saved.level);
     stats.strength = saved.strength;
     stats.intelligence = saved.intelligence;
     stats.dexterity = saved.dexterity;
     stats.vitality = saved.vitality;
     // Apply passive bonuses with class-specific base HP/mana
-    const passive = this.inventory.computePassiveStats(client.sessionId);
-    const baseMaxHp = classDef.maxHpBase + (saved.level - 1) * 10;
-    stats.maxHp = Math.floor(baseMaxHp * passive.maxHpMult);
+    stats.maxHp = this.progression.maxHpFor(playerId, saved.level);
     stats.hp = stats.maxHp;
     stats.maxMana = classDef.maxManaBase + (saved.level - 1) * 5;
     stats.mana = stats.maxMana;
-    stats.skillPoints = this.inventory.getSkillPoints(client.sessionId);
+    stats.skillPoints = this.inventory.getSkillPoints(playerId);
     player.stats = stats;
 
     this.state.players.set(client.sessionId, player);
+    this.playerIds.set(client.sessionId, playerId);
     this.playerAttackTimers.set(client.sessionId, 0);
+    this.playerStatus.set(client.sessionId, new StatusEffects(player.statusEffects));
 
-    // Send full inventory
-    const items = this.inventory.getItems(client.sessionId);
-    const gold = this.inventory.getGold(client.sessionId);
-    client.send('inventory_full', { items, gold });
-
-    // Send full skill data
-    const allocations = this.inventory.loadSkillAllocations(client.sessionId);
-    const hotbar = this.inventory.loadHotbar(client.sessionId);
-    client.send('skills_full', {
-      allocations,
-      hotbar,
-      skillPoints: stats.skillPoints,
-    });
+    // Send full inventory and skill data
+    sendPlayerData(client, playerId);
+
+    this.personalBests.set(
+      client.sessionId,
+      this.leaderboards.getPersonalBest(playerId, this.state.dungeonId, this.state.difficulty),
+    );
+
+    // Late joiners get the floor the party is on, including the run clock
+    if (!this.floorStarted) this.spawnFloor(0);
+    else client.send('floor_started', this.floorStartedMessage());
+    // Arriving mid-vote makes this player one of the confirmations it needs
+    if (this.readyCheck) client.send('ready_check_start', { initiatorName: '', ...this.readyCheckStatus() });
 
     console.log(`${player.name} joined Dungeon (Floor ${this.state.currentFloor + 1}/${this.state.totalFloors})`);
   }
 
-  onLeave(client: Client) {
+  async onLeave(client: Client, consented: boolean) {
     const player = this.state.players.get(client.sessionId);
+    const kicked = this.kickedSessions.delete(client.sessionId);
+
+    // Dropped connection: keep the character (idle, invulnerable) for the grace window
+    if (player && !consented && !kicked) {
+      player.connected = false;
+      player.animation = 'idle';
+      this.saveStats(client.sessionId, player);
+      this.updateReadyCheck();
+      console.log(`${player.name} disconnected from Dungeon, holding slot for ${RECONNECT_GRACE_SECONDS}s`);
+      try {
+        const reconnected = await this.allowReconnection(client, RECONNECT_GRACE_SECONDS);
+        player.connected = true;
+        this.sendResumeState(reconnected);
+        this.updateReadyCheck();
+        console.log(`${player.name} reconnected to Dungeon`);
+        return;
+      } catch {
+        // Grace window expired — fall through to a regular leave
+      }
+    }
+
     if (player) {
       // Persist stats on leave
       this.saveStats(client.sessionId, player);
@@ -1278,6 +2178,57 @@ export class DungeonRoom extends Room<DungeonState> {
     this.state.players.delete(client.sessionId);
     this.playerAttackTimers.delete(client.sessionId);
     this.skillCooldowns.delete(client.sessionId);
+    this.potionCooldowns.delete(client.sessionId);
+    this.playerStatus.delete(client.sessionId);
+    this.playerIds.delete(client.sessionId);
+    this.personalBests.delete(client.sessionId);
+    this.cancelRevive(client.sessionId);
+    this.releaseLoot(client.sessionId);
+    this.readyCheck?.readyIds.delete(client.sessionId);
+    this.checkPartyWipe();
+    this.updateReadyCheck();
+  }
+
+  /** A player left for good: their personal drops go, anything they won is free for all, open rolls drop them */
+  private releaseLoot(sessionId: string) {
+    this.state.lootDrops.forEach((loot, id) => {
+      if (loot.ownerId !== sessionId) return;
+      if (loot.personal) this.state.lootDrops.delete(id);
+      else loot.ownerId = '';
+    });
+    this.lootRolls.forEach((roll, lootId) => {
+      if (!roll.eligible.delete(sessionId)) return;
+      roll.choices.delete(sessionId);
+      if (roll.choices.size >= roll.eligible.size) this.resolveLootRoll(lootId);
+    });
+  }
+
+  kickAccount(accountId: string, reason: string): number {
+    return kickAccountSessions(this.clients, this.kickedSessions, accountId, reason);
+  }
+
+  refreshPlayer(playerId: string): boolean {
+    const client = this.clients.find((c) => this.playerIds.get(c.sessionId) === playerId);
+    if (!client) return false;
+    refreshPlayerSession(client, playerId, this.state.players.get(client.sessionId)?.stats);
+    return true;
+  }
+
+  /** Re-sync client-side managers and floor UI after a successful reconnect */
+  private sendResumeState(client: Client) {
+    const playerId = this.playerIds.get(client.sessionId);
+    if (!playerId) return;
+
+    sendPlayerData(client, playerId);
+
+    const now = Date.now();
+    this.skillCooldowns.get(client.sessionId)?.forEach((expiry, skillId) => {
+      if (expiry > now) client.send('skill_used', { skillId, cooldown: (expiry - now) / 1000 });
+    });
+
+    client.send('floor_started', { ...this.floorStartedMessage(), resumed: true });
+    if (this.state.floorCleared) this.sendFloorResult(client);
+    if (this.readyCheck) client.send('ready_check_start', { initiatorName: '', ...this.readyCheckStatus() });
   }
 
   onDispose() {
@@ -1,12 +1,27 @@
-import { Room, Client } from '@colyseus/core';
+import { Room, Client, ServerError } from '@colyseus/core';
 import { HubState } from '../state/GameState.js';
 import { PlayerState, Vec3State, PlayerStatsState } from '../state/PlayerState.js';
-import { computeMovement, validatePlayerInput, HUB_MAX_PLAYERS, HUB_SYNC_RATE, CLASS_DEFS, VALID_CLASS_IDS, type PlayerInput, type CharacterClassId } from '@saab/shared';
+import {
+  computeMovement, validatePlayerInput, HUB_MAX_PLAYERS, HUB_SYNC_RATE, CLASS_DEFS,
+  RECONNECT_GRACE_SECONDS, PLAYER_RADIUS, xpForLevel, hubCollisionWorld, moveWithCollision,
+  type PlayerInput,
+} from '@saab/shared';
 import { InventoryService } from '../services/InventoryService.js';
-
-export class HubRoom extends Room<HubState> {
+import { AuthService, type AuthData } from '../services/AuthService.js';
+import { ProgressionService } from '../services/ProgressionService.js';
+import {
+  AdminService, kickAccountSessions, refreshPlayerSession, sendPlayerData, type AdminControllableRoom,
+} from '../services/AdminService.js';
+import { GmConsole } from '../services/GmConsole.js';
+
+export class HubRoom extends Room<HubState> implements AdminControllableRoom {
   maxClients = HUB_MAX_PLAYERS;
   private inventory = new InventoryService();
+  private progression = new ProgressionService(this.inventory);
+  private auth = new AuthService();
+  private gm = new GmConsole(new AdminService());
+  private kickedSessions = new Set<string>();
+  private collision = hubCollisionWorld();
 
   onCreate() {
     this.setState(new HubState());
@@ -18,8 +33,7 @@ export class HubRoom extends Room<HubState> {
       if (!validatePlayerInput(input)) return;
 
       const move = computeMovement(input);
-      player.position.x += move.dx;
-      player.position.z += move.dz;
+      moveWithCollision(this.collision, player.position, move.dx, move.dz, PLAYER_RADIUS);
       player.position.y = 0; // flat ground in hub
       player.rotation = input.rotation;
       player.lastProcessedInput = input.seq;
@@ -29,16 +43,27 @@ export class HubRoom extends Room<HubState> {
       player.animation = isMoving ? 'run' : 'idle';
     });
 
-    this.onMessage('chat', (client: Client, message: string) => {
+    this.onMessage('chat', async (client: Client, message: string) => {
       if (typeof message !== 'string' || message.length > 200) return;
       const player = this.state.players.get(client.sessionId);
       if (!player) return;
+
+      if (GmConsole.isCommand(message)) {
+        if (this.auth.getRole(client.auth as AuthData) !== 'admin') {
+          client.send('gm_result', { error: 'You do not have permission to use GM commands' });
+          return;
+        }
+        console.log(`GM ${client.auth.username}: ${message}`);
+        client.send('gm_result', await this.gm.execute(message, client.auth.username));
+        return;
+      }
+
       this.broadcast('chat', { name: player.name, message }, { except: client });
     });
 
     this.onMessage('shop_buy', (client: Client, data: { defId: string }) => {
       if (!data || typeof data.defId !== 'string') return;
-      const result = this.inventory.buyItem(client.sessionId, data.defId);
+      const result = this.inventory.buyItem(client.auth.playerId, data.defId, this.roomId);
       if (result.error) {
         client.send('shop_buy_fail', { error: result.error });
       } else {
@@ -48,7 +73,7 @@ export class HubRoom extends Room<HubState> {
 
     this.onMessage('shop_sell', (client: Client, data: { instanceId: string }) => {
       if (!data || typeof data.instanceId !== 'string') return;
-      const result = this.inventory.sellItem(client.sessionId, data.instanceId);
+      const result = this.inventory.sellItem(client.auth.playerId, data.instanceId, this.roomId);
       if (result.error) {
         client.send('shop_sell_fail', { error: result.error });
       } else {
@@ -61,14 +86,14 @@ export class HubRoom extends Room<HubState> {
     });
 
     this.onMessage('request_inventory', (client: Client) => {
-      const items = this.inventory.getItems(client.sessionId);
-      const gold = this.inventory.getGold(client.sessionId);
+      const items = this.inventory.getItems(client.auth.playerId);
+      const gold = this.inventory.getGold(client.auth.playerId);
       client.send('inventory_full', { items, gold });
     });
 
     this.onMessage('allocate_skill', (client: Client, data: { nodeId: string }) => {
       if (!data || typeof data.nodeId !== 'string') return;
-      const result = this.inventory.allocateSkillPoint(client.sessionId, data.nodeId);
+      const result = this.inventory.allocateSkillPoint(client.auth.playerId, data.nodeId);
       if (result.error) {
         client.send('skill_fail', { error: result.error });
       } else {
@@ -78,21 +103,13 @@ export class HubRoom extends Room<HubState> {
         });
         // Re-apply passive stats
         const player = this.state.players.get(client.sessionId);
-        if (player) {
-          const passive = this.inventory.computePassiveStats(client.sessionId);
-          const saved = this.inventory.loadPlayerStats(client.sessionId);
-          const classId = this.inventory.loadPlayerClass(client.sessionId);
-          const classDef = CLASS_DEFS[classId];
-          const baseMaxHp = classDef.maxHpBase + (saved.level - 1) * 10;
-          player.stats.maxHp = Math.floor(baseMaxHp * passive.maxHpMult);
-          player.stats.hp = Math.min(player.stats.hp, player.stats.maxHp);
-        }
+        if (player) this.progression.refreshStats(client.auth.playerId, player.stats);
       }
     });
 
     this.onMessage('set_hotbar', (client: Client, data: { slot: number; skillId: string }) => {
       if (!data || typeof data.slot !== 'number' || typeof data.skillId !== 'string') return;
-      const result = this.inventory.setHotbarSlot(client.sessionId, data.slot, data.skillId);
+      const result = this.inventory.setHotbarSlot(client.auth.playerId, data.slot, data.skillId);
       if (result.error) {
         client.send('skill_fail', { error: result.error });
       } else {
@@ -101,34 +118,34 @@ export class HubRoom extends Room<HubState> {
     });
 
     this.onMessage('request_skills', (client: Client) => {
-      const allocations = this.inventory.loadSkillAllocations(client.sessionId);
-      const hotbar = this.inventory.loadHotbar(client.sessionId);
-      const skillPoints = this.inventory.getSkillPoints(client.sessionId);
+      const allocations = this.inventory.loadSkillAllocations(client.auth.playerId);
+      const hotbar = this.inventory.loadHotbar(client.auth.playerId);
+      const skillPoints = this.inventory.getSkillPoints(client.auth.playerId);
       client.send('skills_full', { allocations, hotbar, skillPoints });
     });
 
     console.log('HubRoom created');
   }
 
-  onJoin(client: Client, options: { name?: string; gender?: string; classId?: string }) {
-    const playerName = options.name || `Player_${client.sessionId.slice(0, 4)}`;
-
-    // Validate classId
-    const classId: CharacterClassId = VALID_CLASS_IDS.includes(options.classId as CharacterClassId)
-      ? (options.classId as CharacterClassId)
-      : 'warrior';
+  onAuth(_client: Client, options: { token?: string; characterId?: string }): AuthData {
+    const auth = this.auth.authorizeCharacter(options?.token, options?.characterId);
+    if (!auth) throw new ServerError(401, 'Invalid session or character');
+    return auth;
+  }
 
-    // Ensure player exists in DB (uses classId for new players only)
-    this.inventory.ensurePlayer(client.sessionId, playerName, classId);
+  onJoin(client: Client) {
+    const auth = client.auth as AuthData;
+    const playerId = auth.playerId;
+    const playerName = auth.name;
 
-    // Load the persisted class (returning players keep their original class)
-    const resolvedClassId = this.inventory.loadPlayerClass(client.sessionId);
+    // Class is fixed per character at creation
+    const resolvedClassId = this.inventory.loadPlayerClass(playerId);
     const classDef = CLASS_DEFS[resolvedClassId];
 
     const player = new PlayerState();
     player.id = client.sessionId;
     player.name = playerName;
-    player.gender = options.gender === 'female' ? 'female' : 'male';
+    player.gender = auth.gender;
     player.classId = resolvedClassId;
     player.position = new Vec3State();
 
@@ -140,51 +157,63 @@ export class HubRoom extends Room<HubState> {
 
     // Load persisted stats from DB
     const stats = new PlayerStatsState();
-    const saved = this.inventory.loadPlayerStats(client.sessionId);
+    const saved = this.inventory.loadPlayerStats(playerId);
     stats.level = saved.level;
     stats.xp = saved.xp;
-    stats.xpToNext = Math.floor(100 * Math.pow(saved.level, 1.5));
+    stats.xpToNext = xpForLevel(saved.level);
     stats.strength = saved.strength;
     stats.intelligence = saved.intelligence;
     stats.dexterity = saved.dexterity;
     stats.vitality = saved.vitality;
     // Apply passive bonuses with class-specific base HP/mana
-    const passive = this.inventory.computePassiveStats(client.sessionId);
-    const baseMaxHp = classDef.maxHpBase + (saved.level - 1) * 10;
-    stats.maxHp = Math.floor(baseMaxHp * passive.maxHpMult);
+    stats.maxHp = this.progression.maxHpFor(playerId, saved.level);
     stats.hp = stats.maxHp;
     stats.maxMana = classDef.maxManaBase + (saved.level - 1) * 5;
     stats.mana = stats.maxMana;
-    stats.skillPoints = this.inventory.getSkillPoints(client.sessionId);
+    stats.skillPoints = this.inventory.getSkillPoints(playerId);
     player.stats = stats;
 
     this.state.players.set(client.sessionId, player);
 
-    // Send full inventory
-    const items = this.inventory.getItems(client.sessionId);
-    const gold = this.inventory.getGold(client.sessionId);
-    client.send('inventory_full', { items, gold });
-
-    // Send full skill data
-    const allocations = this.inventory.loadSkillAllocations(client.sessionId);
-    const hotbar = this.inventory.loadHotbar(client.sessionId);
-    client.send('skills_full', {
-      allocations,
-      hotbar,
-      skillPoints: stats.skillPoints,
-    });
+    // Send full inventory and skill data
+    sendPlayerData(client, playerId);
 
     console.log(`${player.name} joined Hub`);
   }
 
-  onLeave(client: Client) {
+  async onLeave(client: Client, consented: boolean) {
     const player = this.state.players.get(client.sessionId);
+    const kicked = this.kickedSessions.delete(client.sessionId);
+
+    // Dropped connection: hold the slot so the client can resume with its reconnection token
+    if (player && !consented && !kicked) {
+      player.connected = false;
+      try {
+        await this.allowReconnection(client, RECONNECT_GRACE_SECONDS);
+        player.connected = true;
+        return;
+      } catch {
+        // Grace window expired
+      }
+    }
+
     if (player) {
       console.log(`${player.name} left Hub`);
     }
     this.state.players.delete(client.sessionId);
   }
 
+  kickAccount(accountId: string, reason: string): number {
+    return kickAccountSessions(this.clients, this.kickedSessions, accountId, reason);
+  }
+
+  refreshPlayer(playerId: string): boolean {
+    const client = this.clients.find((c) => (c.auth as AuthData).playerId === playerId);
+    if (!client) return false;
+    refreshPlayerSession(client, playerId, this.state.players.get(client.sessionId)?.stats);
+    return true;
+  }
+
   onDispose() {
     console.log('HubRoom disposed');
   }
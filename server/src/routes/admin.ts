@@ -0,0 +1,124 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type { AuthService, AccountAuth } from '../services/AuthService.js';
+import type { AdminService } from '../services/AdminService.js';
+import type { CharacterTransferService } from '../services/CharacterTransferService.js';
+import { requireAccount } from './characters.js';
+
+interface PlayerParams { id: string }
+interface AccountParams { id: string }
+
+/** Like requireAccount, but also replies 403 unless the account has the admin role */
+export function requireAdmin(auth: AuthService, request: FastifyRequest, reply: FastifyReply): AccountAuth | null {
+  const account = requireAccount(auth, request, reply);
+  if (!account) return null;
+  if (account.role !== 'admin') {
+    reply.code(403).send({ error: 'Admin role required' });
+    return null;
+  }
+  return account;
+}
+
+export function registerAdminRoutes(
+  fastify: FastifyInstance,
+  auth: AuthService,
+  admin: AdminService,
+  transfer: CharacterTransferService,
+) {
+  fastify.get<{ Querystring: { q?: string } }>('/api/admin/players', async (request, reply) => {
+    if (!requireAdmin(auth, request, reply)) return reply;
+    return { players: admin.findPlayers(request.query.q ?? '') };
+  });
+
+  fastify.get<{ Params: PlayerParams }>('/api/admin/players/:id', async (request, reply) => {
+    if (!requireAdmin(auth, request, reply)) return reply;
+    const player = admin.getPlayer(request.params.id);
+    if (!player) return reply.code(404).send({ error: 'Player not found' });
+    return { player };
+  });
+
+  fastify.get<{ Params: PlayerParams }>('/api/admin/players/:id/export', async (request, reply) => {
+    if (!requireAdmin(auth, request, reply)) return reply;
+    const doc = transfer.exportCharacter(request.params.id);
+    if (!doc) return reply.code(404).send({ error: 'Player not found' });
+    return doc;
+  });
+
+  fastify.post<{ Params: PlayerParams; Body: { defId?: string; rarity?: string; quantity?: number } }>(
+    '/api/admin/players/:id/items',
+    async (request, reply) => {
+      const account = requireAdmin(auth, request, reply);
+      if (!account) return reply;
+      const { defId, rarity, quantity } = request.body ?? {};
+      if (typeof defId !== 'string') return reply.code(400).send({ error: 'defId is required' });
+      const result = await admin.grantItem(request.params.id, defId, rarity ?? 'common', quantity ?? 1, account.username);
+      if (result.error) return reply.code(400).send({ error: result.error });
+      return { item: result.item };
+    },
+  );
+
+  fastify.delete<{ Params: PlayerParams & { instanceId: string } }>(
+    '/api/admin/players/:id/items/:instanceId',
+    async (request, reply) => {
+      const account = requireAdmin(auth, request, reply);
+      if (!account) return reply;
+      const result = await admin.removeItem(request.params.id, request.params.instanceId, account.username);
+      if (result.error) return reply.code(404).send({ error: result.error });
+      return { ok: true };
+    },
+  );
+
+  fastify.post<{ Params: PlayerParams; Body: { amount?: number } }>('/api/admin/players/:id/gold', async (request, reply) => {
+    const account = requireAdmin(auth, request, reply);
+    if (!account) return reply;
+    const result = await admin.adjustGold(request.params.id, request.body?.amount, account.username);
+    if (result.error) return reply.code(400).send({ error: result.error });
+    return { gold: result.gold };
+  });
+
+  fastify.post<{ Params: PlayerParams }>('/api/admin/players/:id/reset-skills', async (request, reply) => {
+    if (!requireAdmin(auth, request, reply)) return reply;
+    const result = await admin.resetSkills(request.params.id);
+    if (result.error) return reply.code(404).send({ error: result.error });
+    return { skillPoints: result.skillPoints };
+  });
+
+  fastify.post<{ Params: PlayerParams; Body: { reason?: string } }>('/api/admin/players/:id/kick', async (request, reply) => {
+    if (!requireAdmin(auth, request, reply)) return reply;
+    const player = admin.getPlayer(request.params.id);
+    if (!player?.accountId) return reply.code(404).send({ error: 'Player not found' });
+    const kicked = await admin.kickAccount(player.accountId, request.body?.reason || undefined);
+    return { kicked };
+  });
+
+  fastify.post<{ Params: AccountParams; Body: { reason?: string } }>('/api/admin/accounts/:id/ban', async (request, reply) => {
+    if (!requireAdmin(auth, request, reply)) return reply;
+    const result = await admin.banAccount(request.params.id, request.body?.reason ?? '');
+    if (result.error) return reply.code(404).send({ error: result.error });
+    return { kicked: result.kicked };
+  });
+
+  fastify.delete<{ Params: AccountParams }>('/api/admin/accounts/:id/ban', async (request, reply) => {
+    if (!requireAdmin(auth, request, reply)) return reply;
+    const result = admin.unbanAccount(request.params.id);
+    if (result.error) return reply.code(404).send({ error: result.error });
+    return { ok: true };
+  });
+
+  fastify.put<{ Params: AccountParams; Body: { role?: string } }>('/api/admin/accounts/:id/role', async (request, reply) => {
+    if (!requireAdmin(auth, request, reply)) return reply;
+    const result = admin.setRole(request.params.id, request.body?.role);
+    if (result.error) return reply.code(400).send({ error: result.error });
+    return { ok: true };
+  });
+
+  fastify.post<{ Params: AccountParams; Body: { document?: unknown; name?: string } }>(
+    '/api/admin/accounts/:id/characters/import',
+    async (request, reply) => {
+      if (!requireAdmin(auth, request, reply)) return reply;
+      const { document, name } = request.body ?? {};
+      const result = transfer.importCharacter(document, request.params.id, { name: name || undefined });
+      if (result.error) return reply.code(400).send({ error: result.error });
+      return { character: result.character };
+    },
+  );
+}
@@ -0,0 +1,23 @@
+import type { FastifyInstance } from 'fastify';
+import type { AuthService } from '../services/AuthService.js';
+
+interface CredentialsBody {
+  username?: string;
+  password?: string;
+}
+
+export function registerAuthRoutes(fastify: FastifyInstance, auth: AuthService) {
+  fastify.post<{ Body: CredentialsBody }>('/api/auth/register', async (request, reply) => {
+    const { username, password } = request.body ?? {};
+    const result = auth.register(username as string, password as string);
+    if (result.error) return reply.code(400).send({ error: result.error });
+    return { token: result.token, accountId: result.accountId, username: result.username, role: result.role };
+  });
+
+  fastify.post<{ Body: CredentialsBody }>('/api/auth/login', async (request, reply) => {
+    const { username, password } = request.body ?? {};
+    const result = auth.login(username as string, password as string);
+    if (result.error) return reply.code(401).send({ error: result.error });
+    return { token: result.token, accountId: result.accountId, username: result.username, role: result.role };
+  });
+}
@@ -0,0 +1,46 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type { AuthService, AccountAuth } from '../services/AuthService.js';
+import type { CharacterService } from '../services/CharacterService.js';
+
+interface CreateCharacterBody {
+  name?: string;
+  classId?: string;
+  gender?: string;
+}
+
+/** Resolve the `Authorization: Bearer <token>` header, replying 401 when missing or invalid */
+export function requireAccount(auth: AuthService, request: FastifyRequest, reply: FastifyReply): AccountAuth | null {
+  const header = request.headers.authorization ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+  const account = auth.verifyToken(token);
+  if (!account) {
+    reply.code(401).send({ error: 'Invalid or expired session' });
+    return null;
+  }
+  return account;
+}
+
+export function registerCharacterRoutes(fastify: FastifyInstance, auth: AuthService, characters: CharacterService) {
+  fastify.get('/api/characters', async (request, reply) => {
+    const account = requireAccount(auth, request, reply);
+    if (!account) return reply;
+    return { characters: characters.listCharacters(account.accountId) };
+  });
+
+  fastify.post<{ Body: CreateCharacterBody }>('/api/characters', async (request, reply) => {
+    const account = requireAccount(auth, request, reply);
+    if (!account) return reply;
+    const { name, classId, gender } = request.body ?? {};
+    const result = characters.createCharacter(account.accountId, name, classId, gender);
+    if (result.error) return reply.code(400).send({ error: result.error });
+    return { character: result.character };
+  });
+
+  fastify.delete<{ Params: { id: string } }>('/api/characters/:id', async (request, reply) => {
+    const account = requireAccount(auth, request, reply);
+    if (!account) return reply;
+    const result = characters.deleteCharacter(account.accountId, request.params.id);
+    if (result.error) return reply.code(404).send({ error: result.error });
+    return { ok: true };
+  });
+}
@@ -0,0 +1,7 @@
+import type { FastifyInstance } from 'fastify';
+import { getClientContentPack } from '../data/content.js';
+
+export function registerContentRoutes(fastify: FastifyInstance) {
+  // Public: the client installs this pack before entering the world, so both sides share one source
+  fastify.get('/api/content', async () => getClientContentPack());
+}
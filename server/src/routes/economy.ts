@@ -0,0 +1,37 @@
+import type { FastifyInstance } from 'fastify';
+import type { AuthService } from '../services/AuthService.js';
+import { GOLD_ANOMALY_PER_HOUR, type EconomyAuditService } from '../services/EconomyAuditService.js';
+import { requireAdmin } from './admin.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Parse an optional numeric query parameter, falling back when absent or malformed */
+function numberParam(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value !== undefined && Number.isFinite(n) ? n : fallback;
+}
+
+export function registerEconomyRoutes(fastify: FastifyInstance, auth: AuthService, audit: EconomyAuditService) {
+  fastify.get<{ Params: { id: string }; Querystring: { since?: string; limit?: string } }>(
+    '/api/admin/economy/players/:id/events',
+    async (request, reply) => {
+      if (!requireAdmin(auth, request, reply)) return reply;
+      const { since, limit } = request.query;
+      return { events: audit.getPlayerEvents(request.params.id, numberParam(since, 0), numberParam(limit, 100)) };
+    },
+  );
+
+  fastify.get<{ Params: { instanceId: string } }>('/api/admin/economy/items/:instanceId', async (request, reply) => {
+    if (!requireAdmin(auth, request, reply)) return reply;
+    const events = audit.getItemProvenance(request.params.instanceId);
+    if (!events.length) return reply.code(404).send({ error: 'No history for this item' });
+    return { events };
+  });
+
+  fastify.get<{ Querystring: { threshold?: string; hours?: string } }>('/api/admin/economy/anomalies', async (request, reply) => {
+    if (!requireAdmin(auth, request, reply)) return reply;
+    const { threshold, hours } = request.query;
+    const since = Date.now() - numberParam(hours, 24) * HOUR_MS;
+    return { anomalies: audit.findGoldAnomalies(numberParam(threshold, GOLD_ANOMALY_PER_HOUR), since) };
+  });
+}
@@ -0,0 +1,34 @@
+import type { FastifyInstance } from 'fastify';
+import { DUNGEON_DEFS, VALID_CLASS_IDS, DEFAULT_DIFFICULTY, isValidDifficulty, type CharacterClassId } from '@saab/shared';
+import type { LeaderboardService } from '../services/LeaderboardService.js';
+
+export function registerLeaderboardRoutes(fastify: FastifyInstance, leaderboards: LeaderboardService) {
+  // Public: shown in the hub before players enter a dungeon
+  fastify.get<{
+    Params: { dungeonId: string };
+    Querystring: { mode?: string; difficulty?: string; classId?: string; limit?: string };
+  }>('/api/leaderboards/:dungeonId', async (request, reply) => {
+    const { dungeonId } = request.params;
+    if (!Object.hasOwn(DUNGEON_DEFS, dungeonId)) return reply.code(404).send({ error: 'Unknown dungeon' });
+
+    const { mode, classId } = request.query;
+    if (mode !== undefined && mode !== 'solo' && mode !== 'party') {
+      return reply.code(400).send({ error: 'Mode must be solo or party' });
+    }
+    const difficulty = request.query.difficulty === undefined ? DEFAULT_DIFFICULTY : Number(request.query.difficulty);
+    if (!isValidDifficulty(difficulty)) return reply.code(400).send({ error: 'Unknown difficulty' });
+    if (classId !== undefined && !VALID_CLASS_IDS.includes(classId as CharacterClassId)) {
+      return reply.code(400).send({ error: 'Unknown class' });
+    }
+    const limit = Number(request.query.limit);
+
+    return {
+      entries: leaderboards.getLeaderboard(dungeonId, {
+        mode,
+        difficulty,
+        classId,
+        limit: Number.isFinite(limit) ? limit : undefined,
+      }),
+    };
+  });
+}
@@ -0,0 +1,28 @@
+import type { FastifyInstance } from 'fastify';
+import { matchMaker } from '@colyseus/core';
+import { normalizeInviteCode, type DungeonLobbyInfo } from '@saab/shared';
+import type { AuthService } from '../services/AuthService.js';
+import { requireAccount } from './characters.js';
+
+export function registerLobbyRoutes(fastify: FastifyInstance, auth: AuthService) {
+  // Preview a dungeon instance before joining it by invite code
+  fastify.get<{ Params: { code: string } }>('/api/lobbies/:code', async (request, reply) => {
+    const account = requireAccount(auth, request, reply);
+    if (!account) return reply;
+    const code = normalizeInviteCode(request.params.code);
+    if (!code) return reply.code(400).send({ error: 'Invalid invite code' });
+
+    const [listing] = await matchMaker.query({ name: 'dungeon', roomId: code });
+    if (!listing) return reply.code(404).send({ error: 'No dungeon with that invite code' });
+    const lobby: DungeonLobbyInfo = {
+      inviteCode: code,
+      dungeonId: listing.metadata.dungeonId,
+      difficulty: listing.metadata.difficulty,
+      lootMode: listing.metadata.lootMode,
+      public: listing.metadata.public,
+      players: listing.clients,
+      maxPlayers: listing.maxClients,
+    };
+    return { lobby };
+  });
+}
@@ -0,0 +1,269 @@
+import { matchMaker, type Client } from '@colyseus/core';
+import { getDB, saveDB, transaction } from '../db/index.js';
+import {
+  ITEM_DEFS, RARITY_ORDER, KICKED_CLOSE_CODE,
+  type AccountRole, type CharacterClassId, type ItemInstance, type Rarity,
+  type SkillAllocation, type HotbarSlot,
+} from '@saab/shared';
+import type { PlayerStatsState } from '../state/PlayerState.js';
+import type { AuthData } from './AuthService.js';
+import { InventoryService } from './InventoryService.js';
+import { ProgressionService } from './ProgressionService.js';
+import { recordEconomyEvent, type EconomyContext } from './EconomyAuditService.js';
+
+const MAX_LOOKUP_RESULTS = 20;
+const MAX_GRANT_QUANTITY = 999;
+
+/** Audit context for admin-initiated movements; `actor` is the admin's username */
+function adminAudit(actor?: string): EconomyContext {
+  return { source: 'admin', details: actor ? { actor } : undefined };
+}
+
+/** Implemented by HubRoom and DungeonRoom so admin actions reach players who are online */
+export interface AdminControllableRoom {
+  /** Disconnect every session of the account without a reconnect window; returns how many were dropped */
+  kickAccount(accountId: string, reason: string): number;
+  /** Resend inventory and skills to the character's client if it is in this room */
+  refreshPlayer(playerId: string): boolean;
+}
+
+const roomInventory = new InventoryService();
+const roomProgression = new ProgressionService(roomInventory);
+
+/**
+ * kickAccount for rooms: drop every session of the account. Each one goes in
+ * `kickedSessions` so the room's onLeave skips the reconnect window.
+ */
+export function kickAccountSessions(
+  clients: Iterable<Client>,
+  kickedSessions: Set<string>,
+  accountId: string,
+  reason: string,
+): number {
+  let count = 0;
+  for (const client of clients) {
+    if ((client.auth as AuthData).accountId !== accountId) continue;
+    kickedSessions.add(client.sessionId);
+    client.send('kicked', { reason });
+    client.leave(KICKED_CLOSE_CODE);
+    count++;
+  }
+  return count;
+}
+
+/** Send a character's full inventory and skills, as on join */
+export function sendPlayerData(client: Client, playerId: string) {
+  client.send('inventory_full', {
+    items: roomInventory.getItems(playerId),
+    gold: roomInventory.getGold(playerId),
+  });
+  client.send('skills_full', {
+    allocations: roomInventory.loadSkillAllocations(playerId),
+    hotbar: roomInventory.loadHotbar(playerId),
+    skillPoints: roomInventory.getSkillPoints(playerId),
+  });
+}
+
+/** refreshPlayer for rooms: resend the character's data and re-derive its live stats */
+export function refreshPlayerSession(client: Client, playerId: string, stats?: PlayerStatsState) {
+  sendPlayerData(client, playerId);
+  if (stats) roomProgression.refreshStats(playerId, stats);
+}
+
+export interface PlayerLookup {
+  id: string;
+  name: string;
+  classId: CharacterClassId;
+  level: number;
+  gold: number;
+  skillPoints: number;
+  accountId: string | null;
+  username: string | null;
+  role: AccountRole | null;
+  banned: boolean;
+}
+
+export interface PlayerDetails extends PlayerLookup {
+  items: ItemInstance[];
+  allocations: SkillAllocation[];
+  hotbar: HotbarSlot[];
+}
+
+const LOOKUP_SELECT = `
+  SELECT p.id, p.name, p.class, p.level, p.gold, p.skill_points, a.id, a.username, a.role, a.banned_at
+  FROM players p LEFT JOIN accounts a ON a.id = p.account_id
+`;
+
+function toLookup(row: unknown[]): PlayerLookup {
+  return {
+    id: row[0] as string,
+    name: row[1] as string,
+    classId: row[2] as CharacterClassId,
+    level: row[3] as number,
+    gold: row[4] as number,
+    skillPoints: row[5] as number,
+    accountId: row[6] as string | null,
+    username: row[7] as string | null,
+    role: row[8] as AccountRole | null,
+    banned: row[9] != null,
+  };
+}
+
+function isAdminRoom(room: unknown): room is AdminControllableRoom {
+  return !!room && typeof (room as AdminControllableRoom).kickAccount === 'function';
+}
+
+export class AdminService {
+  private inventory = new InventoryService();
+
+  /** Characters whose id matches exactly or whose name / account username contains the query */
+  findPlayers(query: string): PlayerLookup[] {
+    const q = query.trim();
+    if (!q) return [];
+    const rows = getDB().exec(
+      `${LOOKUP_SELECT} WHERE p.id = ? OR p.name LIKE ? OR a.username LIKE ? OR a.id = ? ORDER BY p.name LIMIT ?`,
+      [q, `%${q}%`, `%${q}%`, q, MAX_LOOKUP_RESULTS],
+    );
+    if (!rows.length) return [];
+    return rows[0].values.map(toLookup);
+  }
+
+  getPlayer(playerId: string): PlayerDetails | null {
+    const rows = getDB().exec(`${LOOKUP_SELECT} WHERE p.id = ?`, [playerId]);
+    if (!rows.length || !rows[0].values.length) return null;
+    return {
+      ...toLookup(rows[0].values[0]),
+      items: this.inventory.getItems(playerId),
+      allocations: this.inventory.loadSkillAllocations(playerId),
+      hotbar: this.inventory.loadHotbar(playerId),
+    };
+  }
+
+  /** Resolve a GM target given as a character id or exact character name */
+  resolvePlayer(target: string): PlayerLookup | null {
+    const rows = getDB().exec(`${LOOKUP_SELECT} WHERE p.id = ? OR p.name = ? COLLATE NOCASE LIMIT 1`, [target, target]);
+    if (!rows.length || !rows[0].values.length) return null;
+    return toLookup(rows[0].values[0]);
+  }
+
+  async grantItem(
+    playerId: string,
+    defId: string,
+    rarity: unknown = 'common',
+    quantity: unknown = 1,
+    actor?: string,
+  ): Promise<{ item?: ItemInstance; error?: string }> {
+    if (!this.getPlayer(playerId)) return { error: 'Player not found' };
+    if (!ITEM_DEFS[defId]) return { error: `Unknown item: ${defId}` };
+    if (!RARITY_ORDER.includes(rarity as Rarity)) return { error: `Unknown rarity: ${rarity}` };
+    const qty = Number(quantity);
+    if (!Number.isInteger(qty) || qty < 1 || qty > MAX_GRANT_QUANTITY) {
+      return { error: `Quantity must be 1-${MAX_GRANT_QUANTITY}` };
+    }
+
+    const item = this.inventory.addItem(playerId, defId, rarity as Rarity, undefined, qty, adminAudit(actor));
+    await this.refreshPlayer(playerId);
+    return { item };
+  }
+
+  /** Delete an item outright — unlike the player-facing path this also removes equipped items */
+  async removeItem(playerId: string, instanceId: string, actor?: string): Promise<{ error?: string }> {
+    const db = getDB();
+    const rows = db.exec('SELECT def_id, quantity FROM items WHERE instance_id = ? AND owner_id = ?', [instanceId, playerId]);
+    if (!rows.length || !rows[0].values.length) return { error: 'Item not found' };
+    const [defId, quantity] = rows[0].values[0] as [string, number];
+
+    transaction(() => {
+      db.run('DELETE FROM items WHERE instance_id = ?', [instanceId]);
+      recordEconomyEvent({
+        ...adminAudit(actor), playerId, itemInstanceId: instanceId, itemDefId: defId, itemDelta: -(quantity || 1),
+      });
+    });
+    await this.refreshPlayer(playerId);
+    return {};
+  }
+
+  /** Add (or with a negative amount, take) gold; the balance never drops below zero */
+  async adjustGold(playerId: string, amount: unknown, actor?: string): Promise<{ gold?: number; error?: string }> {
+    if (!this.getPlayer(playerId)) return { error: 'Player not found' };
+    const delta = Number(amount);
+    if (!Number.isInteger(delta) || delta === 0) return { error: 'Amount must be a non-zero integer' };
+
+    transaction((db) => {
+      const before = this.inventory.getGold(playerId);
+      db.run('UPDATE players SET gold = MAX(0, gold + ?) WHERE id = ?', [delta, playerId]);
+      // Log what actually moved, which differs from `delta` when the balance was clamped at zero
+      recordEconomyEvent({ ...adminAudit(actor), playerId, goldDelta: this.inventory.getGold(playerId) - before });
+    });
+    await this.refreshPlayer(playerId);
+    return { gold: this.inventory.getGold(playerId) };
+  }
+
+  /** Refund every allocated point and clear the hotbar */
+  async resetSkills(playerId: string): Promise<{ skillPoints?: number; error?: string }> {
+    if (!this.getPlayer(playerId)) return { error: 'Player not found' };
+
+    transaction((db) => {
+      const refunded = this.inventory.loadSkillAllocations(playerId)
+        .reduce((sum, a) => sum + a.points, 0);
+      db.run('DELETE FROM skill_allocations WHERE player_id = ?', [playerId]);
+      db.run('DELETE FROM skill_hotbar WHERE player_id = ?', [playerId]);
+      db.run('UPDATE players SET skill_points = skill_points + ? WHERE id = ?', [refunded, playerId]);
+    });
+    await this.refreshPlayer(playerId);
+    return { skillPoints: this.inventory.getSkillPoints(playerId) };
+  }
+
+  async kickAccount(accountId: string, reason = 'Kicked by an administrator'): Promise<number> {
+    let kicked = 0;
+    for (const room of await this.liveRooms()) {
+      kicked += room.kickAccount(accountId, reason);
+    }
+    return kicked;
+  }
+
+  async banAccount(accountId: string, reason = ''): Promise<{ kicked?: number; error?: string }> {
+    const db = getDB();
+    const rows = db.exec('SELECT 1 FROM accounts WHERE id = ?', [accountId]);
+    if (!rows.length || !rows[0].values.length) return { error: 'Account not found' };
+
+    db.run('UPDATE accounts SET banned_at = ?, ban_reason = ? WHERE id = ?', [Date.now(), reason || null, accountId]);
+    saveDB();
+    const kicked = await this.kickAccount(accountId, reason ? `Banned: ${reason}` : 'Banned');
+    return { kicked };
+  }
+
+  unbanAccount(accountId: string): { error?: string } {
+    const db = getDB();
+    const rows = db.exec('SELECT 1 FROM accounts WHERE id = ?', [accountId]);
+    if (!rows.length || !rows[0].values.length) return { error: 'Account not found' };
+
+    db.run('UPDATE accounts SET banned_at = NULL, ban_reason = NULL WHERE id = ?', [accountId]);
+    saveDB();
+    return {};
+  }
+
+  setRole(accountId: string, role: unknown): { error?: string } {
+    if (role !== 'player' && role !== 'admin') return { error: 'Role must be "player" or "admin"' };
+    const db = getDB();
+    const rows = db.exec('SELECT 1 FROM accounts WHERE id = ?', [accountId]);
+    if (!rows.length || !rows[0].values.length) return { error: 'Account not found' };
+
+    db.run('UPDATE accounts SET role = ? WHERE id = ?', [role, accountId]);
+    saveDB();
+    return {};
+  }
+
+  private async refreshPlayer(playerId: string) {
+    for (const room of await this.liveRooms()) {
+      room.refreshPlayer(playerId);
+    }
+  }
+
+  private async liveRooms(): Promise<AdminControllableRoom[]> {
+    const listings = await matchMaker.query({});
+    return listings
+      .map((listing): unknown => matchMaker.getRoomById(listing.roomId))
+      .filter(isAdminRoom);
+  }
+}
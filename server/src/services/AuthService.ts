@@ -0,0 +1,162 @@
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { getDB, saveDB } from '../db/index.js';
+import { validateUsername, validatePassword, PASSWORD_MAX_LENGTH, type AccountRole, type CharacterGender } from '@saab/shared';
+import { CharacterService } from './CharacterService.js';
+
+const TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const SCRYPT_KEYLEN = 64;
+
+const AUTH_SECRET = process.env.AUTH_SECRET || (() => {
+  console.warn('AUTH_SECRET not set — using a random secret, tokens will not survive a restart');
+  return randomBytes(32).toString('hex');
+})();
+
+// Comma-separated usernames that always get the admin role (bootstraps the first admin)
+const ADMIN_USERNAMES = new Set(
+  (process.env.ADMIN_USERNAMES || '').split(',').map((u) => u.trim().toLowerCase()).filter(Boolean),
+);
+
+/** Account resolved from a signed token */
+export interface AccountAuth {
+  accountId: string;
+  username: string;
+  role: AccountRole;
+}
+
+/** Data attached to `client.auth` by the rooms' onAuth hook */
+export interface AuthData extends AccountAuth {
+  playerId: string; // character id — key for items, skills and progress
+  name: string;
+  gender: CharacterGender;
+}
+
+export interface AuthResult {
+  token?: string;
+  accountId?: string;
+  username?: string;
+  role?: AccountRole;
+  error?: string;
+}
+
+function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, SCRYPT_KEYLEN).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', AUTH_SECRET).update(payload).digest('base64url');
+}
+
+function resolveRole(username: string, stored: AccountRole): AccountRole {
+  return ADMIN_USERNAMES.has(username.toLowerCase()) ? 'admin' : stored;
+}
+
+function genAccountId(): string {
+  return `acct_${Date.now()}_${randomBytes(4).toString('hex')}`;
+}
+
+export class AuthService {
+  private characters = new CharacterService();
+
+  register(username: string, password: string): AuthResult {
+    const nameError = validateUsername(username);
+    if (nameError) return { error: nameError };
+    const passError = validatePassword(password);
+    if (passError) return { error: passError };
+
+    const db = getDB();
+    const existing = db.exec('SELECT id FROM accounts WHERE username = ? COLLATE NOCASE', [username]);
+    if (existing.length && existing[0].values.length) return { error: 'Username already taken' };
+
+    const id = genAccountId();
+    db.run(
+      'INSERT INTO accounts (id, username, password_hash, created_at) VALUES (?, ?, ?, ?)',
+      [id, username, hashPassword(password), Date.now()],
+    );
+    saveDB();
+
+    return { token: this.issueToken(id, username), accountId: id, username, role: resolveRole(username, 'player') };
+  }
+
+  login(username: string, password: string): AuthResult {
+    if (typeof username !== 'string' || typeof password !== 'string' || password.length > PASSWORD_MAX_LENGTH) {
+      return { error: 'Invalid username or password' };
+    }
+    const rows = getDB().exec(
+      'SELECT id, username, password_hash, role, banned_at, ban_reason FROM accounts WHERE username = ? COLLATE NOCASE',
+      [username],
+    );
+    if (!rows.length || !rows[0].values.length) return { error: 'Invalid username or password' };
+
+    const [id, storedName, passwordHash, role, bannedAt, banReason] =
+      rows[0].values[0] as [string, string, string, AccountRole, number | null, string | null];
+    if (!verifyPassword(password, passwordHash)) return { error: 'Invalid username or password' };
+    if (bannedAt) return { error: banReason ? `Account banned: ${banReason}` : 'Account banned' };
+
+    return {
+      token: this.issueToken(id, storedName),
+      accountId: id,
+      username: storedName,
+      role: resolveRole(storedName, role),
+    };
+  }
+
+  /** Resolve a signed token to its account, or null if invalid/expired/banned */
+  verifyToken(token: unknown): AccountAuth | null {
+    if (typeof token !== 'string') return null;
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+
+    const expected = Buffer.from(sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    try {
+      const data = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+      if (typeof data.aid !== 'string' || typeof data.u !== 'string') return null;
+      if (typeof data.exp !== 'number' || Date.now() > data.exp) return null;
+      // Role and bans live in the DB so they apply to tokens issued before the change
+      const rows = getDB().exec('SELECT role, banned_at FROM accounts WHERE id = ?', [data.aid]);
+      if (!rows.length || !rows[0].values.length) return null;
+      const [role, bannedAt] = rows[0].values[0] as [AccountRole, number | null];
+      if (bannedAt) return null;
+      return { accountId: data.aid, username: data.u, role: resolveRole(data.u, role) };
+    } catch {
+      return null;
+    }
+  }
+
+  /** Current role of an account, read fresh so promotions and demotions apply to live sessions */
+  getRole(account: AccountAuth): AccountRole {
+    const rows = getDB().exec('SELECT role FROM accounts WHERE id = ?', [account.accountId]);
+    const stored = (rows[0]?.values[0]?.[0] as AccountRole | undefined) ?? 'player';
+    return resolveRole(account.username, stored);
+  }
+
+  /** Resolve a room join: the token must be valid and the character must belong to that account */
+  authorizeCharacter(token: unknown, characterId: unknown): AuthData | null {
+    const account = this.verifyToken(token);
+    if (!account) return null;
+    const character = this.characters.getCharacter(account.accountId, characterId);
+    if (!character) return null;
+    return { ...account, playerId: character.id, name: character.name, gender: character.gender };
+  }
+
+  private issueToken(accountId: string, username: string): string {
+    const payload = Buffer.from(JSON.stringify({
+      aid: accountId,
+      u: username,
+      exp: Date.now() + TOKEN_TTL_MS,
+    })).toString('base64url');
+    return `${payload}.${sign(payload)}`;
+  }
+}
@@ -0,0 +1,91 @@
+import { getDB, transaction } from '../db/index.js';
+import { InventoryService } from './InventoryService.js';
+import {
+  CLASS_DEFS, VALID_CLASS_IDS, MAX_CHARACTERS_PER_ACCOUNT, validateCharacterName,
+  type CharacterClassId, type CharacterGender, type CharacterSummary,
+} from '@saab/shared';
+
+export function genCharacterId(): string {
+  return `char_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export class CharacterService {
+  private inventory = new InventoryService();
+
+  listCharacters(accountId: string): CharacterSummary[] {
+    const rows = getDB().exec(
+      'SELECT id, name, class, gender, level, created_at FROM players WHERE account_id = ? ORDER BY created_at',
+      [accountId],
+    );
+    if (!rows.length) return [];
+    return rows[0].values.map((r) => ({
+      id: r[0] as string,
+      name: r[1] as string,
+      classId: r[2] as CharacterClassId,
+      gender: r[3] as CharacterGender,
+      level: r[4] as number,
+      createdAt: (r[5] as number) ?? 0,
+    }));
+  }
+
+  /** Character row if it belongs to the account, otherwise null */
+  getCharacter(accountId: string, characterId: unknown): CharacterSummary | null {
+    if (typeof characterId !== 'string') return null;
+    return this.listCharacters(accountId).find((c) => c.id === characterId) ?? null;
+  }
+
+  createCharacter(
+    accountId: string,
+    name: unknown,
+    classId: unknown,
+    gender: unknown,
+  ): { character?: CharacterSummary; error?: string } {
+    const nameError = validateCharacterName(name);
+    if (nameError) return { error: nameError };
+    if (!VALID_CLASS_IDS.includes(classId as CharacterClassId)) return { error: 'Unknown class' };
+    if (this.listCharacters(accountId).length >= MAX_CHARACTERS_PER_ACCOUNT) {
+      return { error: `An account can have at most ${MAX_CHARACTERS_PER_ACCOUNT} characters` };
+    }
+
+    const db = getDB();
+    const taken = db.exec('SELECT id FROM players WHERE name = ? COLLATE NOCASE', [name as string]);
+    if (taken.length && taken[0].values.length) return { error: 'Character name already taken' };
+
+    const id = genCharacterId();
+    const cls = classId as CharacterClassId;
+    const classDef = CLASS_DEFS[cls];
+    const s = classDef.startingStats;
+    const resolvedGender: CharacterGender = gender === 'female' ? 'female' : 'male';
+    const createdAt = Date.now();
+    transaction(() => {
+      db.run(
+        'INSERT INTO players (id, account_id, name, strength, intelligence, dexterity, vitality, class, gender, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [id, accountId, name as string, s.strength, s.intelligence, s.dexterity, s.vitality, cls, resolvedGender, createdAt],
+      );
+
+      // Class-specific starter kit
+      const audit = { source: 'starter_kit' } as const;
+      this.inventory.addItem(id, classDef.startingWeapon, 'common', undefined, 1, audit);
+      this.inventory.addItem(id, classDef.startingArmor, 'common', undefined, 1, audit);
+      this.inventory.addItem(id, 'health_potion', 'common', undefined, 3, audit);
+    });
+
+    return {
+      character: { id, name: name as string, classId: cls, gender: resolvedGender, level: 1, createdAt },
+    };
+  }
+
+  deleteCharacter(accountId: string, characterId: string): { error?: string } {
+    if (!this.getCharacter(accountId, characterId)) return { error: 'Character not found' };
+
+    transaction((db) => {
+      db.run('DELETE FROM items WHERE owner_id = ?', [characterId]);
+      db.run('DELETE FROM skill_allocations WHERE player_id = ?', [characterId]);
+      db.run('DELETE FROM skill_hotbar WHERE player_id = ?', [characterId]);
+      db.run('DELETE FROM dungeon_progress WHERE player_id = ?', [characterId]);
+      db.run('DELETE FROM dungeon_run_members WHERE player_id = ?', [characterId]);
+      db.run('DELETE FROM players WHERE id = ?', [characterId]);
+    });
+    return {};
+  }
+}
@@ -0,0 +1,303 @@
+import { getDB, transaction } from '../db/index.js';
+import {
+  VALID_CLASS_IDS, ITEM_DEFS, MELEE_SKILL_TREE, MAX_HOTBAR_SLOTS, MAX_CHARACTERS_PER_ACCOUNT, RARITY_ORDER,
+  validateCharacterName, isValidDifficulty,
+  type BonusStat, type CharacterClassId, type CharacterGender, type CharacterSummary, type Rarity,
+} from '@saab/shared';
+import { BONUS_STAT_POOL, genItemId } from './InventoryService.js';
+import { genCharacterId } from './CharacterService.js';
+import { recordEconomyEvent } from './EconomyAuditService.js';
+
+export const CHARACTER_EXPORT_FORMAT = 'vaultborn-character';
+/** Bump when the document shape changes; importers must handle every older version */
+export const CHARACTER_EXPORT_VERSION = 1;
+
+const MAX_REPORTED_ERRORS = 10;
+
+export interface CharacterExport {
+  format: typeof CHARACTER_EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  character: {
+    id: string;
+    name: string;
+    classId: CharacterClassId;
+    gender: CharacterGender;
+    level: number;
+    xp: number;
+    strength: number;
+    intelligence: number;
+    dexterity: number;
+    vitality: number;
+    gold: number;
+    skillPoints: number;
+    createdAt: number | null;
+  };
+  items: {
+    instanceId: string;
+    defId: string;
+    rarity: Rarity;
+    bonusStats: BonusStat[];
+    quantity: number;
+    equipped: boolean;
+    equipSlot: string | null;
+    transmogId: string | null;
+  }[];
+  skillAllocations: { nodeId: string; points: number }[];
+  hotbar: { slot: number; skillId: string }[];
+  dungeonProgress: {
+    dungeonId: string;
+    /** Absent in documents exported before difficulty tiers; treated as Normal */
+    difficulty?: number;
+    completed: number;
+    bestTime: number | null;
+    completedAt: number | null;
+    partySize?: number | null;
+  }[];
+}
+
+export interface ImportOptions {
+  /** Rename on import, e.g. when the original name is taken on the target server */
+  name?: string;
+}
+
+const isInt = (v: unknown, min = 0): v is number => Number.isInteger(v) && (v as number) >= min;
+const isNullableInt = (v: unknown): v is number | null => v === null || isInt(v);
+
+function rowsOf(sql: string, params: (string | number)[]): unknown[][] {
+  const rows = getDB().exec(sql, params);
+  return rows.length ? rows[0].values : [];
+}
+
+/** An object from a parsed document, before its fields are checked */
+type Loose = Record<string, unknown>;
+
+const isLoose = (v: unknown): v is Loose => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/** Collects every problem in a document so a bad export can be fixed in one pass */
+function validateDocument(doc: unknown): string[] {
+  const errors: string[] = [];
+  if (!isLoose(doc)) return ['Document must be a JSON object'];
+  if (doc.format !== CHARACTER_EXPORT_FORMAT) return [`Not a ${CHARACTER_EXPORT_FORMAT} document`];
+  if (!isInt(doc.version, 1) || doc.version > CHARACTER_EXPORT_VERSION) {
+    return [`Unsupported document version ${doc.version} (this server reads up to ${CHARACTER_EXPORT_VERSION})`];
+  }
+
+  const c = doc.character;
+  if (!isLoose(c)) return ['Missing character'];
+  if (!VALID_CLASS_IDS.includes(c.classId as CharacterClassId)) errors.push(`Unknown class: ${c.classId}`);
+  if (c.gender !== 'male' && c.gender !== 'female') errors.push(`Invalid gender: ${c.gender}`);
+  if (!isInt(c.level, 1)) errors.push('character.level must be an integer >= 1');
+  for (const key of ['xp', 'strength', 'intelligence', 'dexterity', 'vitality', 'gold', 'skillPoints'] as const) {
+    if (!isInt(c[key])) errors.push(`character.${key} must be a non-negative integer`);
+  }
+
+  if (!Array.isArray(doc.items)) {
+    errors.push('items must be an array');
+  } else {
+    doc.items.forEach((item: unknown, i: number) => {
+      const at = `items[${i}]`;
+      if (!isLoose(item) || typeof item.defId !== 'string' || !Object.hasOwn(ITEM_DEFS, item.defId)) {
+        errors.push(`${at}: unknown item ${isLoose(item) ? item.defId : item}`);
+        return;
+      }
+      if (!RARITY_ORDER.includes(item.rarity as Rarity)) errors.push(`${at}: unknown rarity ${item.rarity}`);
+      if (!isInt(item.quantity, 1)) errors.push(`${at}: quantity must be an integer >= 1`);
+      const statsOk = Array.isArray(item.bonusStats) && item.bonusStats.every(
+        (s: unknown) => isLoose(s) && BONUS_STAT_POOL.includes(s.stat as BonusStat['stat']) && typeof s.value === 'number',
+      );
+      if (!statsOk) errors.push(`${at}: invalid bonusStats`);
+      if (typeof item.equipped !== 'boolean') errors.push(`${at}: equipped must be true or false`);
+      // A slot, when set, is where this kind of item goes
+      if (item.equipSlot != null && item.equipSlot !== ITEM_DEFS[item.defId].slot) {
+        errors.push(`${at}: ${item.defId} does not fit equip slot ${item.equipSlot}`);
+      }
+    });
+  }
+
+  const allocated = new Set<string>();
+  if (!Array.isArray(doc.skillAllocations)) {
+    errors.push('skillAllocations must be an array');
+  } else {
+    doc.skillAllocations.forEach((alloc: unknown, i: number) => {
+      const node = isLoose(alloc) ? MELEE_SKILL_TREE.find((n) => n.id === alloc.nodeId) : undefined;
+      if (!isLoose(alloc) || !node) {
+        errors.push(`skillAllocations[${i}]: unknown skill ${isLoose(alloc) ? alloc.nodeId : alloc}`);
+        return;
+      }
+      if (!isInt(alloc.points, 1) || alloc.points > node.maxPoints) {
+        errors.push(`skillAllocations[${i}]: ${node.id} points must be 1-${node.maxPoints}`);
+      }
+      if (allocated.has(node.id)) errors.push(`skillAllocations[${i}]: duplicate ${node.id}`);
+      allocated.add(node.id);
+    });
+    for (const id of allocated) {
+      const node = MELEE_SKILL_TREE.find((n) => n.id === id)!;
+      const missing = node.prerequisites.filter((p) => !allocated.has(p));
+      if (missing.length) errors.push(`${id} is missing prerequisites: ${missing.join(', ')}`);
+    }
+  }
+
+  if (!Array.isArray(doc.hotbar)) {
+    errors.push('hotbar must be an array');
+  } else {
+    const slots = new Set<number>();
+    doc.hotbar.forEach((h: unknown, i: number) => {
+      const entry = isLoose(h) ? h : {};
+      if (!isInt(entry.slot) || entry.slot >= MAX_HOTBAR_SLOTS) errors.push(`hotbar[${i}]: slot must be 0-${MAX_HOTBAR_SLOTS - 1}`);
+      else if (slots.has(entry.slot)) errors.push(`hotbar[${i}]: duplicate slot ${entry.slot}`);
+      else slots.add(entry.slot);
+      if (typeof entry.skillId !== 'string' || !allocated.has(entry.skillId)) {
+        errors.push(`hotbar[${i}]: skill ${entry.skillId} is not allocated`);
+      } else if (MELEE_SKILL_TREE.find((n) => n.id === entry.skillId)!.effects.every((e) => e.type === 'passive')) {
+        // Same rule as setHotbarSlot
+        errors.push(`hotbar[${i}]: passive skill ${entry.skillId} cannot be placed on the hotbar`);
+      }
+    });
+  }
+
+  if (!Array.isArray(doc.dungeonProgress)) {
+    errors.push('dungeonProgress must be an array');
+  } else {
+    doc.dungeonProgress.forEach((p: unknown, i: number) => {
+      if (!isLoose(p) || typeof p.dungeonId !== 'string' || !isInt(p.completed)
+        || !isNullableInt(p.bestTime) || !isNullableInt(p.completedAt)) {
+        errors.push(`dungeonProgress[${i}]: invalid entry`);
+      } else if ((p.difficulty !== undefined && !isValidDifficulty(p.difficulty))
+        || (p.partySize !== undefined && !isNullableInt(p.partySize))) {
+        errors.push(`dungeonProgress[${i}]: invalid difficulty or party size`);
+      }
+    });
+  }
+
+  return errors;
+}
+
+export class CharacterTransferService {
+  exportCharacter(playerId: string): CharacterExport | null {
+    const players = rowsOf(
+      `SELECT id, name, class, gender, level, xp, strength, intelligence, dexterity, vitality, gold, skill_points, created_at
+       FROM players WHERE id = ?`,
+      [playerId],
+    );
+    if (!players.length) return null;
+    const p = players[0];
+
+    return {
+      format: CHARACTER_EXPORT_FORMAT,
+      version: CHARACTER_EXPORT_VERSION,
+      exportedAt: Date.now(),
+      character: {
+        id: p[0] as string,
+        name: p[1] as string,
+        classId: p[2] as CharacterClassId,
+        gender: p[3] as CharacterGender,
+        level: p[4] as number,
+        xp: p[5] as number,
+        strength: p[6] as number,
+        intelligence: p[7] as number,
+        dexterity: p[8] as number,
+        vitality: p[9] as number,
+        gold: p[10] as number,
+        skillPoints: p[11] as number,
+        createdAt: p[12] as number | null,
+      },
+      items: rowsOf(
+        'SELECT instance_id, def_id, rarity, bonus_stats, quantity, equipped, equip_slot, transmog_id FROM items WHERE owner_id = ?',
+        [playerId],
+      ).map((r) => ({
+        instanceId: r[0] as string,
+        defId: r[1] as string,
+        rarity: r[2] as Rarity,
+        bonusStats: JSON.parse(r[3] as string) as BonusStat[],
+        quantity: r[4] as number,
+        equipped: r[5] === 1,
+        equipSlot: r[6] as string | null,
+        transmogId: r[7] as string | null,
+      })),
+      skillAllocations: rowsOf('SELECT node_id, points FROM skill_allocations WHERE player_id = ?', [playerId])
+        .map((r) => ({ nodeId: r[0] as string, points: r[1] as number })),
+      hotbar: rowsOf('SELECT slot, skill_id FROM skill_hotbar WHERE player_id = ? ORDER BY slot', [playerId])
+        .map((r) => ({ slot: r[0] as number, skillId: r[1] as string })),
+      dungeonProgress: rowsOf(
+        'SELECT dungeon_id, difficulty, completed, best_time, completed_at, party_size FROM dungeon_progress WHERE player_id = ?',
+        [playerId],
+      ).map((r) => ({
+        dungeonId: r[0] as string,
+        difficulty: r[1] as number,
+        completed: r[2] as number,
+        bestTime: r[3] as number | null,
+        completedAt: r[4] as number | null,
+        partySize: r[5] as number | null,
+      })),
+    };
+  }
+
+  /**
+   * Recreate an exported character under `accountId`. The character and every
+   * item get fresh ids so the same document can be imported more than once.
+   */
+  importCharacter(doc: unknown, accountId: string, options: ImportOptions = {}): { character?: CharacterSummary; error?: string } {
+    const errors = validateDocument(doc);
+    if (errors.length) {
+      const shown = errors.slice(0, MAX_REPORTED_ERRORS).join('; ');
+      return { error: errors.length > MAX_REPORTED_ERRORS ? `${shown}; ...and ${errors.length - MAX_REPORTED_ERRORS} more` : shown };
+    }
+    const data = doc as CharacterExport;
+    const c = data.character;
+
+    const name = options.name ?? c.name;
+    const nameError = validateCharacterName(name);
+    if (nameError) return { error: nameError };
+
+    if (!rowsOf('SELECT 1 FROM accounts WHERE id = ?', [accountId]).length) return { error: 'Account not found' };
+    const count = rowsOf('SELECT COUNT(*) FROM players WHERE account_id = ?', [accountId])[0][0] as number;
+    if (count >= MAX_CHARACTERS_PER_ACCOUNT) {
+      return { error: `An account can have at most ${MAX_CHARACTERS_PER_ACCOUNT} characters` };
+    }
+    if (rowsOf('SELECT 1 FROM players WHERE name = ? COLLATE NOCASE', [name]).length) {
+      return { error: `Character name already taken: ${name} (import with a new name)` };
+    }
+
+    const id = genCharacterId();
+    const createdAt = Date.now();
+    transaction((db) => {
+      db.run(
+        `INSERT INTO players (id, account_id, name, class, gender, level, xp, strength, intelligence, dexterity, vitality, gold, skill_points, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [id, accountId, name, c.classId, c.gender, c.level, c.xp, c.strength, c.intelligence, c.dexterity, c.vitality, c.gold, c.skillPoints, createdAt],
+      );
+      const fromCharacterId = c.id;
+      if (c.gold) recordEconomyEvent({ source: 'import', playerId: id, goldDelta: c.gold, details: { fromCharacterId } });
+      for (const item of data.items) {
+        const instanceId = genItemId();
+        db.run(
+          `INSERT INTO items (instance_id, owner_id, def_id, rarity, bonus_stats, quantity, equipped, equip_slot, transmog_id)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [instanceId, id, item.defId, item.rarity, JSON.stringify(item.bonusStats), item.quantity,
+            item.equipped ? 1 : 0, item.equipSlot ?? null, item.transmogId ?? null],
+        );
+        // The original instance id lets provenance queries follow the item across the export
+        recordEconomyEvent({
+          source: 'import', playerId: id, itemInstanceId: instanceId, itemDefId: item.defId, itemDelta: item.quantity,
+          details: { fromCharacterId, fromInstanceId: item.instanceId },
+        });
+      }
+      for (const alloc of data.skillAllocations) {
+        db.run('INSERT INTO skill_allocations (player_id, node_id, points) VALUES (?, ?, ?)', [id, alloc.nodeId, alloc.points]);
+      }
+      for (const slot of data.hotbar) {
+        db.run('INSERT INTO skill_hotbar (player_id, slot, skill_id) VALUES (?, ?, ?)', [id, slot.slot, slot.skillId]);
+      }
+      for (const p of data.dungeonProgress) {
+        db.run(
+          `INSERT INTO dungeon_progress (player_id, dungeon_id, difficulty, completed, best_time, completed_at, party_size)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [id, p.dungeonId, p.difficulty ?? 0, p.completed, p.bestTime, p.completedAt, p.partySize ?? null],
+        );
+      }
+    });
+
+    return { character: { id, name, classId: c.classId, gender: c.gender, level: c.level, createdAt } };
+  }
+}
@@ -0,0 +1,148 @@
+import { getDB } from '../db/index.js';
+
+/** Where a gold or item movement came from */
+export type EconomySource =
+  | 'starter_kit'
+  | 'shop_buy'
+  | 'shop_sell'
+  | 'loot'
+  | 'kill'
+  | 'consume'
+  | 'discard'
+  | 'admin'
+  | 'import'
+  | 'unattributed';
+
+/** Passed down to every mutating InventoryService call so the movement can be attributed */
+export interface EconomyContext {
+  source: EconomySource;
+  roomId?: string;
+  /** Free-form JSON-serialisable detail, e.g. the monster that dropped the gold */
+  details?: Record<string, unknown>;
+}
+
+export interface EconomyEventInput extends EconomyContext {
+  playerId: string;
+  goldDelta?: number;
+  itemInstanceId?: string;
+  itemDefId?: string;
+  itemDelta?: number;
+}
+
+export interface EconomyEvent {
+  id: number;
+  playerId: string;
+  source: EconomySource;
+  goldDelta: number;
+  itemInstanceId: string | null;
+  itemDefId: string | null;
+  itemDelta: number;
+  roomId: string | null;
+  details: Record<string, unknown> | null;
+  createdAt: number;
+}
+
+export interface GoldAnomaly {
+  playerId: string;
+  name: string | null;
+  /** Start of the hour bucket, epoch ms */
+  hourStart: number;
+  goldGained: number;
+  events: number;
+}
+
+export const UNATTRIBUTED: EconomyContext = { source: 'unattributed' };
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_EVENT_LIMIT = 100;
+const MAX_EVENT_LIMIT = 1000;
+/** Gold gained within one hour above which a player is flagged for review */
+export const GOLD_ANOMALY_PER_HOUR = parseInt(process.env.GOLD_ANOMALY_PER_HOUR || '5000', 10);
+
+const EVENT_SELECT = `
+  SELECT id, player_id, source, gold_delta, item_instance_id, item_def_id, item_delta, room_id, details, created_at
+  FROM economy_events
+`;
+
+function toEvent(row: unknown[]): EconomyEvent {
+  return {
+    id: row[0] as number,
+    playerId: row[1] as string,
+    source: row[2] as EconomySource,
+    goldDelta: row[3] as number,
+    itemInstanceId: row[4] as string | null,
+    itemDefId: row[5] as string | null,
+    itemDelta: row[6] as number,
+    roomId: row[7] as string | null,
+    details: row[8] ? JSON.parse(row[8] as string) : null,
+    createdAt: row[9] as number,
+  };
+}
+
+/**
+ * Append one row to the audit log. Call it inside the same transaction as the
+ * mutation it describes so the two commit or roll back together.
+ */
+export function recordEconomyEvent(event: EconomyEventInput): void {
+  getDB().run(
+    `INSERT INTO economy_events
+       (player_id, source, gold_delta, item_instance_id, item_def_id, item_delta, room_id, details, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      event.playerId,
+      event.source,
+      event.goldDelta ?? 0,
+      event.itemInstanceId ?? null,
+      event.itemDefId ?? null,
+      event.itemDelta ?? 0,
+      event.roomId ?? null,
+      event.details ? JSON.stringify(event.details) : null,
+      Date.now(),
+    ],
+  );
+}
+
+/** Read side of the audit log, used by the admin API */
+export class EconomyAuditService {
+  /** A player's most recent movements, newest first */
+  getPlayerEvents(playerId: string, since = 0, limit = DEFAULT_EVENT_LIMIT): EconomyEvent[] {
+    const rows = getDB().exec(
+      `${EVENT_SELECT} WHERE player_id = ? AND created_at >= ? ORDER BY id DESC LIMIT ?`,
+      [playerId, since, Math.min(Math.max(1, limit), MAX_EVENT_LIMIT)],
+    );
+    if (!rows.length) return [];
+    return rows[0].values.map(toEvent);
+  }
+
+  /**
+   * Every recorded movement of an item instance, oldest first. Stackables keep
+   * their instance id, so a stack's history includes each top-up and use.
+   */
+  getItemProvenance(instanceId: string): EconomyEvent[] {
+    const rows = getDB().exec(`${EVENT_SELECT} WHERE item_instance_id = ? ORDER BY id`, [instanceId]);
+    if (!rows.length) return [];
+    return rows[0].values.map(toEvent);
+  }
+
+  /** Players whose gold income in any single hour since `since` exceeded `threshold` */
+  findGoldAnomalies(threshold = GOLD_ANOMALY_PER_HOUR, since = Date.now() - 24 * HOUR_MS): GoldAnomaly[] {
+    const rows = getDB().exec(
+      `SELECT e.player_id, p.name, (e.created_at / ${HOUR_MS}) * ${HOUR_MS} AS hour_start,
+              SUM(e.gold_delta) AS gained, COUNT(*) AS events
+       FROM economy_events e LEFT JOIN players p ON p.id = e.player_id
+       WHERE e.gold_delta > 0 AND e.created_at >= ?
+       GROUP BY e.player_id, hour_start
+       HAVING gained > ?
+       ORDER BY gained DESC`,
+      [since, threshold],
+    );
+    if (!rows.length) return [];
+    return rows[0].values.map((r) => ({
+      playerId: r[0] as string,
+      name: r[1] as string | null,
+      hourStart: r[2] as number,
+      goldGained: r[3] as number,
+      events: r[4] as number,
+    }));
+  }
+}
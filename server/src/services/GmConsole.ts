@@ -0,0 +1,146 @@
+import type { AdminService, PlayerLookup } from './AdminService.js';
+
+export const GM_COMMAND_PREFIX = '/gm';
+
+export interface GmResult {
+  message?: string;
+  error?: string;
+}
+
+interface GmCommand {
+  usage: string;
+  minArgs: number;
+  /** `actor` is the username of the admin who issued the command */
+  run: (args: string[], actor?: string) => Promise<GmResult> | GmResult;
+}
+
+/**
+ * Chat front-end for AdminService: `/gm <command> [args...]`.
+ * Callers must check the admin role before executing.
+ */
+export class GmConsole {
+  private commands: Record<string, GmCommand>;
+
+  constructor(private admin: AdminService) {
+    this.commands = {
+      help: { usage: 'help', minArgs: 0, run: () => this.help() },
+      lookup: { usage: 'lookup <name|id>', minArgs: 1, run: ([query]) => this.lookup(query) },
+      inspect: { usage: 'inspect <player>', minArgs: 1, run: ([target]) => this.inspect(target) },
+      give: {
+        usage: 'give <player> <itemId> [quantity] [rarity]',
+        minArgs: 2,
+        run: ([target, defId, qty = '1', rarity = 'common'], actor) => this.withPlayer(target, async (p) => {
+          const result = await this.admin.grantItem(p.id, defId, rarity, qty, actor);
+          return result.error ? { error: result.error } : { message: `Gave ${qty}x ${rarity} ${defId} to ${p.name}` };
+        }),
+      },
+      take: {
+        usage: 'take <player> <instanceId>',
+        minArgs: 2,
+        run: ([target, instanceId], actor) => this.withPlayer(target, async (p) => {
+          const result = await this.admin.removeItem(p.id, instanceId, actor);
+          return result.error ? { error: result.error } : { message: `Removed ${instanceId} from ${p.name}` };
+        }),
+      },
+      gold: {
+        usage: 'gold <player> <amount>',
+        minArgs: 2,
+        run: ([target, amount], actor) => this.withPlayer(target, async (p) => {
+          const result = await this.admin.adjustGold(p.id, parseInt(amount, 10), actor);
+          return result.error ? { error: result.error } : { message: `${p.name} now has ${result.gold} gold` };
+        }),
+      },
+      resetskills: {
+        usage: 'resetskills <player>',
+        minArgs: 1,
+        run: ([target]) => this.withPlayer(target, async (p) => {
+          const result = await this.admin.resetSkills(p.id);
+          return result.error ? { error: result.error } : { message: `Reset skills for ${p.name} (${result.skillPoints} points)` };
+        }),
+      },
+      kick: {
+        usage: 'kick <player> [reason]',
+        minArgs: 1,
+        run: ([target, ...reason]) => this.withAccount(target, async (p, accountId) => {
+          const kicked = await this.admin.kickAccount(accountId, reason.join(' ') || undefined);
+          return kicked ? { message: `Kicked ${p.name}` } : { error: `${p.name} is not online` };
+        }),
+      },
+      ban: {
+        usage: 'ban <player> [reason]',
+        minArgs: 1,
+        run: ([target, ...reason]) => this.withAccount(target, async (p, accountId) => {
+          const result = await this.admin.banAccount(accountId, reason.join(' '));
+          return result.error ? { error: result.error } : { message: `Banned ${p.username ?? p.name}` };
+        }),
+      },
+      unban: {
+        usage: 'unban <player>',
+        minArgs: 1,
+        run: ([target]) => this.withAccount(target, (p, accountId) => {
+          const result = this.admin.unbanAccount(accountId);
+          return result.error ? { error: result.error } : { message: `Unbanned ${p.username ?? p.name}` };
+        }),
+      },
+    };
+  }
+
+  static isCommand(message: string): boolean {
+    return message === GM_COMMAND_PREFIX || message.startsWith(`${GM_COMMAND_PREFIX} `);
+  }
+
+  async execute(message: string, actor?: string): Promise<GmResult> {
+    const [name = 'help', ...args] = message.slice(GM_COMMAND_PREFIX.length).trim().split(/\s+/).filter(Boolean);
+    const command = this.commands[name.toLowerCase()];
+    if (!command) return { error: `Unknown command "${name}" — try /gm help` };
+    if (args.length < command.minArgs) return { error: `Usage: /gm ${command.usage}` };
+    try {
+      return await command.run(args, actor);
+    } catch (err) {
+      console.error(`GM command failed: ${message}`, err);
+      return { error: 'Command failed' };
+    }
+  }
+
+  private help(): GmResult {
+    return { message: Object.values(this.commands).map((c) => `/gm ${c.usage}`).join('\n') };
+  }
+
+  private lookup(query: string): GmResult {
+    const players = this.admin.findPlayers(query);
+    if (!players.length) return { error: `No players match "${query}"` };
+    return {
+      message: players
+        .map((p) => `${p.name} (${p.id}) Lv${p.level} ${p.classId} — account ${p.username ?? '?'}${p.banned ? ' [banned]' : ''}`)
+        .join('\n'),
+    };
+  }
+
+  private inspect(target: string): GmResult {
+    const found = this.admin.resolvePlayer(target);
+    const details = found && this.admin.getPlayer(found.id);
+    if (!details) return { error: `Player not found: ${target}` };
+    const items = details.items.map((i) => `${i.defId}${(i.quantity ?? 1) > 1 ? ` x${i.quantity}` : ''} [${i.instanceId}]`);
+    const skills = details.allocations.map((a) => `${a.nodeId}:${a.points}`);
+    return {
+      message: [
+        `${details.name} Lv${details.level} ${details.classId} — ${details.gold} gold, ${details.skillPoints} skill points`,
+        `Items: ${items.join(', ') || 'none'}`,
+        `Skills: ${skills.join(', ') || 'none'}`,
+      ].join('\n'),
+    };
+  }
+
+  private withPlayer(target: string, fn: (player: PlayerLookup) => Promise<GmResult> | GmResult) {
+    const player = this.admin.resolvePlayer(target);
+    if (!player) return { error: `Player not found: ${target}` };
+    return fn(player);
+  }
+
+  private withAccount(target: string, fn: (player: PlayerLookup, accountId: string) => Promise<GmResult> | GmResult) {
+    return this.withPlayer(target, (player) => {
+      if (!player.accountId) return { error: `${player.name} has no account` };
+      return fn(player, player.accountId);
+    });
+  }
+}
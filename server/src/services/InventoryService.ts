@@ -1,14 +1,15 @@
-import { getDB, saveDB } from '../db/index.js';
+import { getDB, saveDB, transaction } from '../db/index.js';
 import {
   BLACKSMITH_SHOP, getDefaultSellPrice, INVENTORY_MAX_SLOTS, ITEM_DEFS,
   RARITY_BONUS_STATS, MAX_HOTBAR_SLOTS, MELEE_SKILL_TREE,
-  CLASS_DEFS, VALID_CLASS_IDS,
+  VALID_CLASS_IDS,
   type ItemInstance, type BonusStat, type Rarity,
   type SkillAllocation, type HotbarSlot,
   type CharacterClassId,
 } from '@saab/shared';
+import { recordEconomyEvent, UNATTRIBUTED, type EconomyContext } from './EconomyAuditService.js';
 
-const BONUS_STAT_POOL: BonusStat['stat'][] = [
+export const BONUS_STAT_POOL: BonusStat['stat'][] = [
   'strength', 'intelligence', 'dexterity', 'vitality', 'armor', 'hp', 'mana',
 ];
 
@@ -26,35 +27,11 @@ function rollBonusStats(rarity: Rarity): BonusStat[] {
   return stats;
 }
 
-function genId(): string {
+export function genItemId(): string {
   return `item_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 }
 
 export class InventoryService {
-  /** Ensure player row exists, return gold */
-  ensurePlayer(playerId: string, name: string, classId: CharacterClassId = 'warrior'): number {
-    const db = getDB();
-    const rows = db.exec('SELECT gold FROM players WHERE id = ?', [playerId]);
-    if (rows.length && rows[0].values.length) {
-      return rows[0].values[0][0] as number;
-    }
-
-    const classDef = CLASS_DEFS[classId];
-    const s = classDef.startingStats;
-    db.run(
-      'INSERT INTO players (id, name, strength, intelligence, dexterity, vitality, class, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
-      [playerId, name, s.strength, s.intelligence, s.dexterity, s.vitality, classId, Date.now()],
-    );
-    saveDB();
-
-    // Class-specific starter kit
-    this.addItem(playerId, classDef.startingWeapon, 'common');
-    this.addItem(playerId, classDef.startingArmor, 'common');
-    this.addItem(playerId, 'health_potion', 'common', undefined, 3);
-
-    return 100; // default gold
-  }
-
   loadPlayerClass(playerId: string): CharacterClassId {
     const rows = getDB().exec('SELECT class FROM players WHERE id = ?', [playerId]);
     if (rows.length && rows[0].values.length) {
@@ -72,10 +49,11 @@ export class InventoryService {
     return 0;
   }
 
-  addGold(playerId: string, amount: number): number {
-    const db = getDB();
-    db.run('UPDATE players SET gold = gold + ? WHERE id = ?', [amount, playerId]);
-    saveDB();
+  addGold(playerId: string, amount: number, audit: EconomyContext = UNATTRIBUTED): number {
+    transaction((db) => {
+      db.run('UPDATE players SET gold = gold + ? WHERE id = ?', [amount, playerId]);
+      recordEconomyEvent({ ...audit, playerId, goldDelta: amount });
+    });
     return this.getGold(playerId);
   }
 
@@ -101,79 +79,83 @@ export class InventoryService {
     rarity: Rarity = 'common',
     bonusStats?: BonusStat[],
     qty = 1,
+    audit: EconomyContext = UNATTRIBUTED,
   ): ItemInstance {
-    const db = getDB();
-    const def = ITEM_DEFS[defId];
-    const isStackable = def && (def.type === 'material' || def.type === 'consumable');
-
-    // Stack if possible
-    if (isStackable) {
-      const existing = db.exec(
-        'SELECT instance_id, quantity FROM items WHERE owner_id = ? AND def_id = ? AND rarity = ?',
-        [playerId, defId, rarity],
-      );
-      if (existing.length && existing[0].values.length) {
-        const existingId = existing[0].values[0][0] as string;
-        const existingQty = existing[0].values[0][1] as number;
-        db.run('UPDATE items SET quantity = ? WHERE instance_id = ?', [existingQty + qty, existingId]);
-        saveDB();
-        return {
-          instanceId: existingId,
-          defId,
-          rarity,
-          bonusStats: [],
-          quantity: existingQty + qty,
-        };
+    return transaction((db) => {
+      const def = ITEM_DEFS[defId];
+      const isStackable = def && (def.type === 'material' || def.type === 'consumable');
+
+      // Stack if possible
+      if (isStackable) {
+        const existing = db.exec(
+          'SELECT instance_id, quantity FROM items WHERE owner_id = ? AND def_id = ? AND rarity = ?',
+          [playerId, defId, rarity],
+        );
+        if (existing.length && existing[0].values.length) {
+          const existingId = existing[0].values[0][0] as string;
+          const existingQty = existing[0].values[0][1] as number;
+          db.run('UPDATE items SET quantity = ? WHERE instance_id = ?', [existingQty + qty, existingId]);
+          recordEconomyEvent({ ...audit, playerId, itemInstanceId: existingId, itemDefId: defId, itemDelta: qty });
+          return {
+            instanceId: existingId,
+            defId,
+            rarity,
+            bonusStats: [],
+            quantity: existingQty + qty,
+          };
+        }
       }
-    }
 
-    const instanceId = genId();
-    const stats = bonusStats ?? rollBonusStats(rarity);
-    db.run(
-      'INSERT INTO items (instance_id, owner_id, def_id, rarity, bonus_stats, quantity) VALUES (?, ?, ?, ?, ?, ?)',
-      [instanceId, playerId, defId, rarity, JSON.stringify(stats), qty],
-    );
-    saveDB();
-    return { instanceId, defId, rarity, bonusStats: stats, quantity: qty };
+      const instanceId = genItemId();
+      const stats = bonusStats ?? rollBonusStats(rarity);
+      db.run(
+        'INSERT INTO items (instance_id, owner_id, def_id, rarity, bonus_stats, quantity) VALUES (?, ?, ?, ?, ?, ?)',
+        [instanceId, playerId, defId, rarity, JSON.stringify(stats), qty],
+      );
+      recordEconomyEvent({ ...audit, playerId, itemInstanceId: instanceId, itemDefId: defId, itemDelta: qty });
+      return { instanceId, defId, rarity, bonusStats: stats, quantity: qty };
+    });
   }
 
-  consumeStackable(playerId: string, defId: string, amount: number = 1): boolean {
-    const db = getDB();
-    const rows = db.exec(
-      'SELECT instance_id, quantity FROM items WHERE owner_id = ? AND def_id = ?',
-      [playerId, defId],
-    );
-    if (!rows.length || !rows[0].values.length) return false;
-    const instanceId = rows[0].values[0][0] as string;
-    const qty = rows[0].values[0][1] as number;
-    if (qty < amount) return false;
-
-    if (qty <= amount) {
-      db.run('DELETE FROM items WHERE instance_id = ?', [instanceId]);
-    } else {
-      db.run('UPDATE items SET quantity = ? WHERE instance_id = ?', [qty - amount, instanceId]);
-    }
-    saveDB();
-    return true;
+  consumeStackable(playerId: string, defId: string, amount: number = 1, audit: EconomyContext = UNATTRIBUTED): boolean {
+    return transaction((db) => {
+      const rows = db.exec(
+        'SELECT instance_id, quantity FROM items WHERE owner_id = ? AND def_id = ?',
+        [playerId, defId],
+      );
+      if (!rows.length || !rows[0].values.length) return false;
+      const instanceId = rows[0].values[0][0] as string;
+      const qty = rows[0].values[0][1] as number;
+      if (qty < amount) return false;
+
+      if (qty <= amount) {
+        db.run('DELETE FROM items WHERE instance_id = ?', [instanceId]);
+      } else {
+        db.run('UPDATE items SET quantity = ? WHERE instance_id = ?', [qty - amount, instanceId]);
+      }
+      recordEconomyEvent({ ...audit, playerId, itemInstanceId: instanceId, itemDefId: defId, itemDelta: -amount });
+      return true;
+    });
   }
 
-  removeItem(playerId: string, instanceId: string): boolean {
+  removeItem(playerId: string, instanceId: string, audit: EconomyContext = { source: 'discard' }): boolean {
     const db = getDB();
     const rows = db.exec(
-      'SELECT owner_id, equipped FROM items WHERE instance_id = ?',
+      'SELECT owner_id, equipped, def_id, quantity FROM items WHERE instance_id = ?',
       [instanceId],
     );
     if (!rows.length || !rows[0].values.length) return false;
-    const ownerId = rows[0].values[0][0] as string;
-    const equipped = rows[0].values[0][1] as number;
+    const [ownerId, equipped, defId, quantity] = rows[0].values[0] as [string, number, string, number];
     if (ownerId !== playerId || equipped === 1) return false;
 
-    db.run('DELETE FROM items WHERE instance_id = ?', [instanceId]);
-    saveDB();
+    transaction(() => {
+      db.run('DELETE FROM items WHERE instance_id = ?', [instanceId]);
+      recordEconomyEvent({ ...audit, playerId, itemInstanceId: instanceId, itemDefId: defId, itemDelta: -(quantity || 1) });
+    });
     return true;
   }
 
-  buyItem(playerId: string, defId: string): { item?: ItemInstance; gold?: number; error?: string } {
+  buyItem(playerId: string, defId: string, roomId?: string): { item?: ItemInstance; gold?: number; error?: string } {
     const shopEntry = BLACKSMITH_SHOP.find((e) => e.defId === defId);
     if (!shopEntry) return { error: 'Item not in shop' };
 
@@ -184,11 +166,16 @@ export class InventoryService {
     // Count non-stackable items + unique stacks
     if (items.length >= INVENTORY_MAX_SLOTS) return { error: 'Inventory full' };
 
-    const db = getDB();
-    db.run('UPDATE players SET gold = gold - ? WHERE id = ?', [shopEntry.buyPrice, playerId]);
-    saveDB();
-
-    const item = this.addItem(playerId, defId, 'common');
+    // Gold leaves and the item arrives together, or neither happens
+    const item = transaction((db) => {
+      db.run('UPDATE players SET gold = gold - ? WHERE id = ?', [shopEntry.buyPrice, playerId]);
+      const bought = this.addItem(playerId, defId, 'common', undefined, 1, { source: 'shop_buy', roomId });
+      recordEconomyEvent({
+        source: 'shop_buy', roomId, playerId, goldDelta: -shopEntry.buyPrice,
+        itemInstanceId: bought.instanceId, itemDefId: defId,
+      });
+      return bought;
+    });
     const newGold = this.getGold(playerId);
     return { item, gold: newGold };
   }
@@ -264,23 +251,23 @@ export class InventoryService {
     const currentPoints = current ? current.points : 0;
     if (currentPoints >= nodeDef.maxPoints) return { error: 'Skill already at max level' };
 
-    // Upsert allocation
-    const db = getDB();
-    if (current) {
-      db.run(
-        'UPDATE skill_allocations SET points = points + 1 WHERE player_id = ? AND node_id = ?',
-        [playerId, nodeId],
-      );
-    } else {
-      db.run(
-        'INSERT INTO skill_allocations (player_id, node_id, points) VALUES (?, ?, 1)',
-        [playerId, nodeId],
-      );
-    }
+    transaction((db) => {
+      // Upsert allocation
+      if (current) {
+        db.run(
+          'UPDATE skill_allocations SET points = points + 1 WHERE player_id = ? AND node_id = ?',
+          [playerId, nodeId],
+        );
+      } else {
+        db.run(
+          'INSERT INTO skill_allocations (player_id, node_id, points) VALUES (?, ?, 1)',
+          [playerId, nodeId],
+        );
+      }
 
-    // Deduct skill point
-    db.run('UPDATE players SET skill_points = skill_points - 1 WHERE id = ?', [playerId]);
-    saveDB();
+      // Deduct skill point
+      db.run('UPDATE players SET skill_points = skill_points - 1 WHERE id = ?', [playerId]);
+    });
 
     return {
       allocations: this.loadSkillAllocations(playerId),
@@ -315,14 +302,14 @@ export class InventoryService {
     const isPassive = nodeDef.effects.every((e) => e.type === 'passive');
     if (isPassive) return { error: 'Passive skills cannot be placed on hotbar' };
 
-    const db = getDB();
     // Upsert using DELETE + INSERT (sql.js doesn't support ON CONFLICT well)
-    db.run('DELETE FROM skill_hotbar WHERE player_id = ? AND slot = ?', [playerId, slot]);
-    db.run(
-      'INSERT INTO skill_hotbar (player_id, slot, skill_id) VALUES (?, ?, ?)',
-      [playerId, slot, skillId],
-    );
-    saveDB();
+    transaction((db) => {
+      db.run('DELETE FROM skill_hotbar WHERE player_id = ? AND slot = ?', [playerId, slot]);
+      db.run(
+        'INSERT INTO skill_hotbar (player_id, slot, skill_id) VALUES (?, ?, ?)',
+        [playerId, slot, skillId],
+      );
+    });
 
     return { hotbar: this.loadHotbar(playerId) };
   }
@@ -344,7 +331,7 @@ export class InventoryService {
     return { maxHpMult };
   }
 
-  sellItem(playerId: string, instanceId: string): { goldEarned?: number; gold?: number; error?: string } {
+  sellItem(playerId: string, instanceId: string, roomId?: string): { goldEarned?: number; gold?: number; error?: string } {
     const db = getDB();
     const rows = db.exec(
       'SELECT owner_id, def_id, rarity, equipped, quantity FROM items WHERE instance_id = ?',
@@ -370,9 +357,14 @@ export class InventoryService {
 
     const totalEarned = sellPrice * (quantity || 1);
 
-    db.run('DELETE FROM items WHERE instance_id = ?', [instanceId]);
-    db.run('UPDATE players SET gold = gold + ? WHERE id = ?', [totalEarned, playerId]);
-    saveDB();
+    transaction(() => {
+      db.run('DELETE FROM items WHERE instance_id = ?', [instanceId]);
+      db.run('UPDATE players SET gold = gold + ? WHERE id = ?', [totalEarned, playerId]);
+      recordEconomyEvent({
+        source: 'shop_sell', roomId, playerId, goldDelta: totalEarned,
+        itemInstanceId: instanceId, itemDefId: defId, itemDelta: -(quantity || 1),
+      });
+    });
 
     return { goldEarned: totalEarned, gold: this.getGold(playerId) };
   }
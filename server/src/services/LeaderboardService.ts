@@ -0,0 +1,140 @@
+import type { LeaderboardEntry, LeaderboardMode, PersonalBest } from '@saab/shared';
+import { getDB } from '../db/index.js';
+
+export interface RunRecord {
+  dungeonId: string;
+  difficulty: number;
+  seed: number;
+  /** Runs on a requested seed are kept but never ranked */
+  replay: boolean;
+  totalTime: number;
+  splits: number[];
+  members: { playerId: string; classId: string }[];
+}
+
+export interface LeaderboardQuery {
+  mode?: LeaderboardMode;
+  difficulty?: number;
+  classId?: string;
+  limit?: number;
+}
+
+const DEFAULT_LEADERBOARD_LIMIT = 20;
+const MAX_LEADERBOARD_LIMIT = 100;
+/** Candidate rows scanned per requested entry, leaving room for repeat clears by the same group */
+const SCAN_FACTOR = 10;
+
+export class LeaderboardService {
+  /**
+   * Store a completed run and lower each member's best time for the dungeon.
+   * Call it inside the transaction that saves dungeon progress, after the
+   * progress rows exist. Returns the new run id.
+   */
+  recordRun(run: RunRecord): number {
+    const db = getDB();
+    const partyClasses = run.members.map((m) => m.classId).sort().join(',');
+    db.run(
+      `INSERT INTO dungeon_runs
+         (dungeon_id, difficulty, party_size, party_classes, total_time, splits, seed, replay, completed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        run.dungeonId, run.difficulty, run.members.length, partyClasses, run.totalTime,
+        JSON.stringify(run.splits), run.seed, run.replay ? 1 : 0, Date.now(),
+      ],
+    );
+    const runId = db.exec('SELECT last_insert_rowid()')[0].values[0][0] as number;
+
+    for (const member of run.members) {
+      db.run('INSERT INTO dungeon_run_members (run_id, player_id, class_id) VALUES (?, ?, ?)', [
+        runId, member.playerId, member.classId,
+      ]);
+      if (run.replay) continue;
+      db.run(
+        `UPDATE dungeon_progress SET best_time = ?
+         WHERE player_id = ? AND dungeon_id = ? AND difficulty = ? AND (best_time IS NULL OR best_time > ?)`,
+        [run.totalTime, member.playerId, run.dungeonId, run.difficulty, run.totalTime],
+      );
+    }
+    return runId;
+  }
+
+  /**
+   * Fastest ranked clears, one entry per distinct group of characters so a
+   * single party farming the dungeon can't fill the board.
+   */
+  getLeaderboard(dungeonId: string, query: LeaderboardQuery = {}): LeaderboardEntry[] {
+    const limit = Math.min(Math.max(1, query.limit ?? DEFAULT_LEADERBOARD_LIMIT), MAX_LEADERBOARD_LIMIT);
+    const conditions = ['r.dungeon_id = ?', 'r.difficulty = ?', 'r.replay = 0'];
+    const params: (string | number)[] = [dungeonId, query.difficulty ?? 0];
+    if (query.mode === 'solo') conditions.push('r.party_size = 1');
+    if (query.mode === 'party') conditions.push('r.party_size > 1');
+    if (query.classId) {
+      conditions.push('EXISTS (SELECT 1 FROM dungeon_run_members c WHERE c.run_id = r.id AND c.class_id = ?)');
+      params.push(query.classId);
+    }
+
+    const db = getDB();
+    const rows = db.exec(
+      `SELECT r.id, r.total_time, r.splits, r.difficulty, r.party_size, r.completed_at
+       FROM dungeon_runs r
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY r.total_time, r.completed_at
+       LIMIT ?`,
+      [...params, limit * SCAN_FACTOR],
+    );
+    if (!rows.length) return [];
+
+    const runIds = rows[0].values.map((r) => r[0] as number);
+    const members = new Map<number, { playerId: string; name: string; classId: string }[]>();
+    const memberRows = db.exec(
+      `SELECT m.run_id, m.player_id, p.name, m.class_id
+       FROM dungeon_run_members m JOIN players p ON p.id = m.player_id
+       WHERE m.run_id IN (${runIds.map(() => '?').join(', ')})
+       ORDER BY p.name`,
+      runIds,
+    );
+    for (const r of memberRows[0]?.values ?? []) {
+      const list = members.get(r[0] as number) ?? [];
+      list.push({ playerId: r[1] as string, name: r[2] as string, classId: r[3] as string });
+      members.set(r[0] as number, list);
+    }
+
+    const entries: LeaderboardEntry[] = [];
+    const seenGroups = new Set<string>();
+    for (const r of rows[0].values) {
+      const runMembers = members.get(r[0] as number);
+      // Every member deleted their character
+      if (!runMembers) continue;
+      const group = runMembers.map((m) => m.playerId).sort().join(',');
+      if (seenGroups.has(group)) continue;
+      seenGroups.add(group);
+      entries.push({
+        rank: entries.length + 1,
+        runId: r[0] as number,
+        totalTime: r[1] as number,
+        splits: JSON.parse(r[2] as string),
+        difficulty: r[3] as number,
+        partySize: r[4] as number,
+        members: runMembers.map(({ name, classId }) => ({ name, classId })),
+        completedAt: r[5] as number,
+      });
+      if (entries.length >= limit) break;
+    }
+    return entries;
+  }
+
+  /** The player's fastest ranked clear, whatever party they ran it with */
+  getPersonalBest(playerId: string, dungeonId: string, difficulty: number): PersonalBest | null {
+    const rows = getDB().exec(
+      `SELECT r.total_time, r.splits
+       FROM dungeon_runs r JOIN dungeon_run_members m ON m.run_id = r.id
+       WHERE m.player_id = ? AND r.dungeon_id = ? AND r.difficulty = ? AND r.replay = 0
+       ORDER BY r.total_time
+       LIMIT 1`,
+      [playerId, dungeonId, difficulty],
+    );
+    if (!rows.length || !rows[0].values.length) return null;
+    const [totalTime, splits] = rows[0].values[0];
+    return { totalTime: totalTime as number, splits: JSON.parse(splits as string) };
+  }
+}
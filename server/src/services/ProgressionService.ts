@@ -0,0 +1,80 @@
+import { CLASS_DEFS, SKILL_POINTS_PER_LEVEL, GOLD_SPLIT_RULES, xpForLevel, type GoldSplitRule } from '@saab/shared';
+import type { PlayerStatsState } from '../state/PlayerState.js';
+import { InventoryService } from './InventoryService.js';
+
+/** How kill gold is divided in party play; see splitGold() */
+export const GOLD_SPLIT_RULE: GoldSplitRule = (() => {
+  const rule = process.env.GOLD_SPLIT_RULE || 'even';
+  if (!GOLD_SPLIT_RULES.includes(rule as GoldSplitRule)) {
+    throw new Error(`GOLD_SPLIT_RULE must be one of: ${GOLD_SPLIT_RULES.join(', ')}`);
+  }
+  return rule as GoldSplitRule;
+})();
+
+/** Stat growth for each level gained */
+const LEVEL_UP_GROWTH = { maxHp: 10, maxMana: 5, strength: 2, dexterity: 1, intelligence: 1, vitality: 1 };
+
+/** XP and levelling for players in any room */
+export class ProgressionService {
+  constructor(private inventory = new InventoryService()) {}
+
+  /**
+   * Add XP to a player's live stats and apply every level it completes: stat
+   * growth, a full heal and skill points. Level-ups are persisted straight away;
+   * plain XP is saved with the rest of the stats when the player leaves.
+   * Returns the number of levels gained.
+   */
+  awardXp(playerId: string, stats: PlayerStatsState, amount: number): number {
+    if (amount <= 0) return 0;
+    stats.xp += amount;
+
+    let levels = 0;
+    while (stats.xp >= stats.xpToNext) {
+      stats.xp -= stats.xpToNext;
+      stats.level++;
+      stats.xpToNext = xpForLevel(stats.level);
+      stats.maxHp += LEVEL_UP_GROWTH.maxHp;
+      stats.maxMana += LEVEL_UP_GROWTH.maxMana;
+      stats.strength += LEVEL_UP_GROWTH.strength;
+      stats.dexterity += LEVEL_UP_GROWTH.dexterity;
+      stats.intelligence += LEVEL_UP_GROWTH.intelligence;
+      stats.vitality += LEVEL_UP_GROWTH.vitality;
+      levels++;
+    }
+    if (!levels) return 0;
+
+    stats.hp = stats.maxHp;
+    stats.mana = stats.maxMana;
+    stats.skillPoints = this.inventory.addSkillPoints(playerId, SKILL_POINTS_PER_LEVEL * levels);
+    this.saveStats(playerId, stats);
+    return levels;
+  }
+
+  /** Max HP at `level`: the class base plus level growth, scaled by passive skills */
+  maxHpFor(playerId: string, level: number): number {
+    const classDef = CLASS_DEFS[this.inventory.loadPlayerClass(playerId)];
+    const passive = this.inventory.computePassiveStats(playerId);
+    return Math.floor((classDef.maxHpBase + (level - 1) * LEVEL_UP_GROWTH.maxHp) * passive.maxHpMult);
+  }
+
+  /**
+   * Re-derive the live stats that depend on skill allocations after they
+   * changed, keeping HP within the new maximum.
+   */
+  refreshStats(playerId: string, stats: PlayerStatsState) {
+    stats.maxHp = this.maxHpFor(playerId, stats.level);
+    stats.hp = Math.min(stats.hp, stats.maxHp);
+    stats.skillPoints = this.inventory.getSkillPoints(playerId);
+  }
+
+  saveStats(playerId: string, stats: PlayerStatsState) {
+    this.inventory.savePlayerStats(playerId, {
+      level: stats.level,
+      xp: stats.xp,
+      strength: stats.strength,
+      intelligence: stats.intelligence,
+      dexterity: stats.dexterity,
+      vitality: stats.vitality,
+    });
+  }
+}
@@ -1,4 +1,4 @@
-import { Schema, defineTypes, MapSchema } from '@colyseus/schema';
+import { Schema, defineTypes, filterChildren, MapSchema } from '@colyseus/schema';
 import { PlayerState } from './PlayerState.js';
 import { MonsterState } from './MonsterState.js';
 
@@ -10,6 +10,12 @@ export class LootDropState extends Schema {
   declare y: number;
   declare z: number;
   declare despawnAt: number;
+  /** Session allowed to pick this up; empty when anyone may */
+  declare ownerId: string;
+  /** Personal loot: only the owner is sent this drop */
+  declare personal: boolean;
+  /** A need/greed roll for this drop is still open */
+  declare rolling: boolean;
 
   constructor() {
     super();
@@ -20,6 +26,9 @@ export class LootDropState extends Schema {
     this.y = 0;
     this.z = 0;
     this.despawnAt = 0;
+    this.ownerId = '';
+    this.personal = false;
+    this.rolling = false;
   }
 }
 defineTypes(LootDropState, {
@@ -30,6 +39,9 @@ defineTypes(LootDropState, {
   y: 'float32',
   z: 'float32',
   despawnAt: 'float64',
+  ownerId: 'string',
+  personal: 'boolean',
+  rolling: 'boolean',
 });
 
 export class HubState extends Schema {
@@ -54,6 +66,18 @@ export class DungeonState extends Schema {
   declare totalFloors: number;
   declare floorCleared: boolean;
   declare dungeonComplete: boolean;
+  /** Run seed for procedural floors; rejoining with the same seed replays the layout */
+  declare seed: number;
+  /** Difficulty level, see getDifficulty() */
+  declare difficulty: number;
+  /** Players present when the current floor started; monster HP was scaled for this many */
+  declare partySize: number;
+  /** Every player went down at once; the run is lost */
+  declare partyWiped: boolean;
+  /** LootMode chosen when the dungeon was created */
+  declare lootMode: string;
+  /** A boss encounter's closing arena edge; players outside it burn. 0 while there is none */
+  declare arenaRadius: number;
 
   constructor() {
     super();
@@ -66,6 +90,12 @@ export class DungeonState extends Schema {
     this.totalFloors = 4;
     this.floorCleared = false;
     this.dungeonComplete = false;
+    this.seed = 0;
+    this.difficulty = 0;
+    this.partySize = 1;
+    this.partyWiped = false;
+    this.lootMode = 'ffa';
+    this.arenaRadius = 0;
   }
 }
 defineTypes(DungeonState, {
@@ -78,4 +108,14 @@ defineTypes(DungeonState, {
   totalFloors: 'uint8',
   floorCleared: 'boolean',
   dungeonComplete: 'boolean',
+  seed: 'uint32',
+  difficulty: 'uint8',
+  partySize: 'uint8',
+  partyWiped: 'boolean',
+  lootMode: 'string',
+  arenaRadius: 'float32',
 });
+// Personal drops are only sent to the player they were rolled for
+filterChildren(function (client: { sessionId: string }, _key: string, loot: LootDropState) {
+  return !loot.personal || loot.ownerId === client.sessionId;
+})(DungeonState.prototype, 'lootDrops');
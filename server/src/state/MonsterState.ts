@@ -1,5 +1,5 @@
-import { Schema, defineTypes } from '@colyseus/schema';
-import { Vec3State } from './PlayerState.js';
+import { Schema, defineTypes, ArraySchema } from '@colyseus/schema';
+import { Vec3State, StatusEffectState } from './PlayerState.js';
 
 export class MonsterState extends Schema {
   declare id: string;
@@ -12,7 +12,12 @@ export class MonsterState extends Schema {
   declare targetId: string;
   declare animation: string;
   declare bossPhase: number;
-  declare statusEffect: string;
+  /** 'normal', 'elite' or 'champion' */
+  declare rank: string;
+  declare affixes: ArraySchema<string>;
+  /** A Shielding affix's barrier is up */
+  declare shielded: boolean;
+  declare statusEffects: ArraySchema<StatusEffectState>;
 
   constructor() {
     super();
@@ -26,7 +31,10 @@ export class MonsterState extends Schema {
     this.targetId = '';
     this.animation = 'idle';
     this.bossPhase = 0;
-    this.statusEffect = '';
+    this.rank = 'normal';
+    this.affixes = new ArraySchema<string>();
+    this.shielded = false;
+    this.statusEffects = new ArraySchema<StatusEffectState>();
   }
 }
 defineTypes(MonsterState, {
@@ -40,5 +48,8 @@ defineTypes(MonsterState, {
   targetId: 'string',
   animation: 'string',
   bossPhase: 'uint8',
-  statusEffect: 'string',
+  rank: 'string',
+  affixes: ['string'],
+  shielded: 'boolean',
+  statusEffects: [StatusEffectState],
 });
@@ -1,4 +1,5 @@
-import { Schema, defineTypes, MapSchema } from '@colyseus/schema';
+import { Schema, defineTypes, ArraySchema } from '@colyseus/schema';
+import type { PlayerLifeState } from '@saab/shared';
 
 export class Vec3State extends Schema {
   declare x: number;
@@ -18,6 +19,34 @@ defineTypes(Vec3State, {
   z: 'float32',
 });
 
+/** One status effect on a player or monster; see ActiveStatusEffect */
+export class StatusEffectState extends Schema {
+  declare type: string;
+  declare stacks: number;
+  declare magnitude: number;
+  declare remaining: number;
+  declare duration: number;
+  declare sourceId: string;
+
+  constructor() {
+    super();
+    this.type = '';
+    this.stacks = 1;
+    this.magnitude = 0;
+    this.remaining = 0;
+    this.duration = 0;
+    this.sourceId = '';
+  }
+}
+defineTypes(StatusEffectState, {
+  type: 'string',
+  stacks: 'uint8',
+  magnitude: 'float32',
+  remaining: 'float32',
+  duration: 'float32',
+  sourceId: 'string',
+});
+
 export class PlayerStatsState extends Schema {
   declare hp: number;
   declare maxHp: number;
@@ -76,6 +105,13 @@ export class PlayerState extends Schema {
   declare stats: PlayerStatsState;
   declare animation: string;
   declare lastProcessedInput: number;
+  declare connected: boolean;
+  declare lifeState: PlayerLifeState;
+  /** Seconds until a downed player bleeds out, or until a dead solo player respawns */
+  declare lifeTimer: number;
+  /** 0–1 progress of an ally's revive channel on this player */
+  declare reviveProgress: number;
+  declare statusEffects: ArraySchema<StatusEffectState>;
 
   constructor() {
     super();
@@ -88,6 +124,11 @@ export class PlayerState extends Schema {
     this.stats = new PlayerStatsState();
     this.animation = 'idle';
     this.lastProcessedInput = 0;
+    this.connected = true;
+    this.lifeState = 'alive';
+    this.lifeTimer = 0;
+    this.reviveProgress = 0;
+    this.statusEffects = new ArraySchema<StatusEffectState>();
   }
 }
 defineTypes(PlayerState, {
@@ -100,4 +141,9 @@ defineTypes(PlayerState, {
   stats: PlayerStatsState,
   animation: 'string',
   lastProcessedInput: 'int32',
+  connected: 'boolean',
+  lifeState: 'string',
+  lifeTimer: 'float32',
+  reviveProgress: 'float32',
+  statusEffects: [StatusEffectState],
 });
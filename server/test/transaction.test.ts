@@ -0,0 +1,132 @@
+import { test, before, after, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { initDB, closeDB, getDB, transaction } from '../src/db/index.js';
+import { initContent } from '../src/data/content.js';
+import { AuthService } from '../src/services/AuthService.js';
+import { CharacterService } from '../src/services/CharacterService.js';
+import { InventoryService } from '../src/services/InventoryService.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'saab-db-test-'));
+const inventory = new InventoryService();
+const characters = new CharacterService();
+let accountId: string;
+let playerId: string;
+
+before(async () => {
+  await initContent();
+  await initDB(join(dir, 'game.db'));
+  const account = new AuthService().register('txn_tester', 'hunter22');
+  accountId = account.accountId!;
+  playerId = characters.createCharacter(accountId, 'Tester', 'warrior', 'male').character!.id;
+  inventory.addGold(playerId, 500);
+  inventory.addSkillPoints(playerId, 3);
+});
+
+after(async () => {
+  await closeDB();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+afterEach(() => mock.restoreAll());
+
+/** Every row a failed unit could have touched, to compare before and after */
+function snapshot() {
+  const db = getDB();
+  const dump = (sql: string) => db.exec(sql)[0]?.values ?? [];
+  return {
+    players: dump('SELECT * FROM players ORDER BY id'),
+    items: dump('SELECT * FROM items ORDER BY instance_id'),
+    skills: dump('SELECT * FROM skill_allocations ORDER BY player_id, node_id'),
+    economy: dump('SELECT * FROM economy_events ORDER BY id'),
+  };
+}
+
+/** Make the `nth` statement matching `pattern` throw, after the ones before it have run */
+function failOn(pattern: RegExp, nth = 1) {
+  const db = getDB();
+  const run = db.run.bind(db);
+  let seen = 0;
+  mock.method(db, 'run', (sql: string, params?: never) => {
+    if (pattern.test(sql) && ++seen === nth) throw new Error('injected failure');
+    return run(sql, params);
+  });
+}
+
+/** Run `fn` with a failure injected and check it left the database exactly as it was */
+function assertRolledBack(fn: () => unknown) {
+  const before = snapshot();
+  const gold = inventory.getGold(playerId);
+  assert.throws(fn, /injected failure/);
+  mock.restoreAll();
+  assert.deepEqual(snapshot(), before);
+  assert.equal(inventory.getGold(playerId), gold);
+}
+
+test('buy: gold is refunded when recording the purchase fails', () => {
+  // The second economy event is the gold one, after the item insert has run
+  failOn(/INSERT INTO economy_events/, 2);
+  assertRolledBack(() => inventory.buyItem(playerId, 'wooden_sword'));
+});
+
+test('buy: the gold deduction is undone when adding the item fails', () => {
+  failOn(/INSERT INTO items/);
+  assertRolledBack(() => inventory.buyItem(playerId, 'wooden_sword'));
+});
+
+test('sell: the item comes back when recording the sale fails', () => {
+  const item = inventory.addItem(playerId, 'leather_cap');
+  failOn(/INSERT INTO economy_events/);
+  assertRolledBack(() => inventory.sellItem(playerId, item.instanceId));
+});
+
+test('addItem: neither a new item nor a bigger stack survives a failure', () => {
+  failOn(/INSERT INTO economy_events/);
+  assertRolledBack(() => inventory.addItem(playerId, 'leather_cap'));
+  failOn(/INSERT INTO economy_events/);
+  assertRolledBack(() => inventory.addItem(playerId, 'health_potion', 'common', undefined, 2));
+});
+
+test('consumeStackable: the stack keeps its quantity when a failure follows', () => {
+  failOn(/INSERT INTO economy_events/);
+  assertRolledBack(() => inventory.consumeStackable(playerId, 'health_potion'));
+});
+
+test('allocateSkillPoint: the allocation is undone when the point cannot be spent', () => {
+  failOn(/UPDATE players SET skill_points/);
+  assertRolledBack(() => inventory.allocateSkillPoint(playerId, 'melee_power_strike'));
+});
+
+test('createCharacter: a half-given starter kit takes the character with it', () => {
+  // Weapon and armor are in; the potions fail
+  failOn(/INSERT INTO items/, 3);
+  assertRolledBack(() => characters.createCharacter(accountId, 'Halfmade', 'warrior', 'male'));
+  assert.equal(characters.listCharacters(accountId).length, 1);
+});
+
+test('deleteCharacter: the items stay when the character row cannot be removed', () => {
+  failOn(/DELETE FROM players/);
+  assertRolledBack(() => characters.deleteCharacter(accountId, playerId));
+  assert.ok(characters.getCharacter(accountId, playerId));
+});
+
+test('nested savepoint: a caught inner failure keeps the outer writes', () => {
+  const gold = inventory.getGold(playerId);
+  transaction(() => {
+    inventory.addGold(playerId, 10);
+    assert.throws(() => transaction(() => {
+      inventory.addGold(playerId, 1000);
+      throw new Error('inner failure');
+    }), /inner failure/);
+  });
+  assert.equal(inventory.getGold(playerId), gold + 10);
+});
+
+test('nested savepoint: an outer failure undoes a committed inner unit', () => {
+  assertRolledBack(() => transaction(() => {
+    inventory.buyItem(playerId, 'leather_cap');
+    throw new Error('injected failure');
+  }));
+});